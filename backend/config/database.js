@@ -76,4 +76,27 @@ export const executeTransaction = async (queries) => {
   }
 };
 
+// Run dependent queries in one transaction; the callback gets a query runner shaped like executeQuery
+// and everything it ran is rolled back if it throws
+export const withTransaction = async (work) => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const query = async (sql, params = []) => {
+      const [rows] = await connection.execute(sql, params);
+      return rows;
+    };
+    const result = await work(query);
+
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
 export default pool;
\ No newline at end of file
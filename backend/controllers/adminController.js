@@ -1,6 +1,16 @@
-import { executeQuery } from '../config/database.js';
+import { executeQuery, withTransaction } from '../config/database.js';
 import bcrypt from 'bcryptjs';
-import { convertImagePlaceholders } from '../utils/imagePlaceholder.js';
+import { convertImagePlaceholders, imageTagsToPlaceholders } from '../utils/imagePlaceholder.js';
+import { validateAccommodations, saveStudentAccommodations, parseAccommodations } from '../utils/accommodations.js';
+import { validatePartialCredit, responseScore } from '../utils/partialCredit.js';
+import { recordDifficultyChange } from '../utils/itemCalibration.js';
+import { recordQuestionVersion, versionedColumn, versionedContentChanged, RESPONSE_VERSION_JOIN_SQL, VERSIONED_FIELDS } from '../utils/questionVersions.js';
+import { QUESTION_STATUSES, INITIAL_QUESTION_STATUS, canTransition, recordReviewEntry, reopenReviewAfterEdit } from '../utils/questionWorkflow.js';
+import { validateNumericQuestion, describeNumericKey } from '../utils/numericAnswer.js';
+import { validateOrderingQuestion, buildOrderingItems, describeOrdering, MIN_ORDERING_ITEMS } from '../utils/orderingAnswer.js';
+import { validateHotspotQuestion, describeHotspotClick, describeHotspotRegions } from '../utils/hotspotAnswer.js';
+import { validateCategorizeQuestion, describeCategorize, MIN_CATEGORIES, MIN_CATEGORIZE_ITEMS } from '../utils/categorizeAnswer.js';
+import { loadComparableQuestions, findSimilarQuestions, formatSimilarMatch, buildSimilarityProfile, compareProfiles, SIMILARITY_THRESHOLD } from '../utils/questionSimilarity.js';
 
 // Seeded random number generator for deterministic shuffling (for option shuffling)
 function seededRandom(seed) {
@@ -50,17 +60,30 @@ export const getStudents = async (req, res) => {
         u.school_id,
         u.grade_id,
         s.name as school_name,
-        g.display_name as grade_name
+        g.display_name as grade_name,
+        sa.time_multiplier,
+        sa.break_minutes,
+        sa.text_to_speech,
+        sa.large_font
       FROM users u
       LEFT JOIN schools s ON u.school_id = s.id
       LEFT JOIN grades g ON u.grade_id = g.id
+      LEFT JOIN student_accommodations sa ON sa.student_id = u.id
       WHERE u.role = 'student'
       ORDER BY u.first_name, u.last_name, u.username
       LIMIT ${validatedLimit} OFFSET ${validatedOffset}
     `);
     
     res.json({
-      students,
+      students: students.map(({ time_multiplier, break_minutes, text_to_speech, large_font, ...student }) => ({
+        ...student,
+        accommodations: time_multiplier === null ? null : parseAccommodations({
+          timeMultiplier: time_multiplier,
+          breakMinutes: break_minutes,
+          textToSpeech: text_to_speech === 1,
+          largeFont: large_font === 1
+        })
+      })),
       pagination: {
         currentPage: page,
         totalPages: Math.ceil(total / limit),
@@ -1032,9 +1055,10 @@ export const createBulkQuestions = async (req, res) => {
 
       // Insert question
       const result = await executeQuery(
-        'INSERT INTO questions (subject_id, question_text, options, correct_option_index, difficulty_level, created_by) VALUES (?, ?, ?, ?, ?, ?)',
-        [subjectId, questionText, JSON.stringify(optionsArray), correctOptionIndex, difficultyLevel, userId]
+        'INSERT INTO questions (subject_id, question_text, options, correct_option_index, difficulty_level, created_by, status) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [subjectId, questionText, JSON.stringify(optionsArray), correctOptionIndex, difficultyLevel, userId, INITIAL_QUESTION_STATUS]
       );
+      await recordQuestionVersion(result.insertId, { changeType: 'created', createdBy: userId });
 
       // Get created question
       const questions = await executeQuery(
@@ -1080,7 +1104,7 @@ export const createBulkQuestions = async (req, res) => {
 // Create new question
 export const createQuestion = async (req, res) => {
   try {
-    let { subjectId, gradeId, questionText, options, correctOptionIndex, difficultyLevel, dokLevel, standard, contentFocus, competencies, questionType, correctAnswer, questionMetadata } = req.body;
+    let { subjectId, gradeId, questionText, options, correctOptionIndex, difficultyLevel, dokLevel, standard, contentFocus, competencies, questionType, correctAnswer, questionMetadata, allowDuplicate } = req.body;
 
     // Convert image placeholders to img tags in question text
     questionText = convertImagePlaceholders(questionText, req);
@@ -1258,6 +1282,42 @@ export const createQuestion = async (req, res) => {
         
         // Options array is empty for Matching
         optionsArray = [];
+      } else if (qType === 'NumericEntry') {
+        // For NumericEntry, correctAnswer is the numeric key; tolerance, forms and units are in questionMetadata.numeric
+        const numericError = validateNumericQuestion(correctAnswer, questionMetadata);
+        if (numericError) {
+          return res.status(400).json(numericError);
+        }
+
+        // Options array is empty for NumericEntry (students type their answer)
+        optionsArray = [];
+      } else if (qType === 'Ordering') {
+        // For Ordering, questionMetadata.items holds the steps and correctAnswer their correct sequence
+        const orderingError = validateOrderingQuestion(correctAnswer, questionMetadata);
+        if (orderingError) {
+          return res.status(400).json(orderingError);
+        }
+
+        // Options array is empty for Ordering (steps are in metadata)
+        optionsArray = [];
+      } else if (qType === 'Hotspot') {
+        // For Hotspot, questionMetadata.hotspot holds the image and correctAnswer the correct regions
+        const hotspotError = validateHotspotQuestion(correctAnswer, questionMetadata);
+        if (hotspotError) {
+          return res.status(400).json(hotspotError);
+        }
+
+        // Options array is empty for Hotspot (students click the image)
+        optionsArray = [];
+      } else if (qType === 'Categorize') {
+        // For Categorize, questionMetadata holds the categories and items and correctAnswer each item's category
+        const categorizeError = validateCategorizeQuestion(correctAnswer, questionMetadata);
+        if (categorizeError) {
+          return res.status(400).json(categorizeError);
+        }
+
+        // Options array is empty for Categorize (categories and items are in metadata)
+        optionsArray = [];
       }
 
     // Validate difficulty level (Growth Metric Score) - required for all question types
@@ -1368,24 +1428,61 @@ export const createQuestion = async (req, res) => {
       const correctPairs = JSON.parse(correctAnswer);
       finalCorrectOptionIndex = correctPairs[0]?.right || 0; // First pair's right index for backward compatibility
       finalCorrectAnswer = correctAnswer; // JSON array of correct pairs
+    } else if (qType === 'NumericEntry') {
+      // For NumericEntry: store the key as the author wrote it (e.g. "3/4"); scoring parses it
+      finalCorrectOptionIndex = 0; // Default for backward compatibility
+      finalCorrectAnswer = String(correctAnswer).trim();
+    } else if (qType === 'Ordering') {
+      // For Ordering: store the correct sequence of item indices in correct_answer
+      const correctOrder = typeof correctAnswer === 'string' ? JSON.parse(correctAnswer) : correctAnswer;
+      finalCorrectOptionIndex = correctOrder[0] || 0; // First step's index for backward compatibility
+      finalCorrectAnswer = JSON.stringify(correctOrder.map(Number)); // JSON array of item indices
+    } else if (qType === 'Hotspot') {
+      // For Hotspot: store the correct regions in correct_answer, away from the metadata sent to students
+      finalCorrectOptionIndex = 0; // Default for backward compatibility
+      finalCorrectAnswer = typeof correctAnswer === 'string' ? correctAnswer : JSON.stringify(correctAnswer);
+    } else if (qType === 'Categorize') {
+      // For Categorize: store the category index of each item in correct_answer
+      const placement = typeof correctAnswer === 'string' ? JSON.parse(correctAnswer) : correctAnswer;
+      finalCorrectOptionIndex = placement[0] || 0; // First item's category for backward compatibility
+      finalCorrectAnswer = JSON.stringify(placement.map(Number)); // JSON array of category indices
     } else if (qType === 'ShortAnswer' || qType === 'Essay') {
       // For ShortAnswer and Essay, no automatic validation
       finalCorrectOptionIndex = 0; // Default for backward compatibility
       finalCorrectAnswer = null; // No correct answer (automatic grading by AI)
     }
 
-    // Prepare questionMetadata for insertion
+    const partialCreditError = validatePartialCredit(qType, questionMetadata);
+    if (partialCreditError) {
+      return res.status(400).json(partialCreditError);
+    }
+
+    // Stop near-duplicates of live items unless the author confirms the question is distinct
+    if (!allowDuplicate) {
+      const bank = await loadComparableQuestions({ subjectId, gradeId });
+      const matches = findSimilarQuestions({ questionText, options: optionsArray, questionMetadata }, bank);
+      if (matches.length > 0) {
+        return res.status(409).json({
+          error: `This question is very similar to ${matches.length} existing question${matches.length === 1 ? '' : 's'}`,
+          code: 'DUPLICATE_QUESTION',
+          matches: matches.map(formatSimilarMatch)
+        });
+      }
+    }
+
+    // Prepare questionMetadata for insertion (MultipleSelect metadata only carries its partial-credit policy)
     let finalQuestionMetadata = null;
-    if ((qType === 'FillInBlank' || qType === 'Matching' || qType === 'ShortAnswer' || qType === 'Essay') && questionMetadata) {
+    if ((qType === 'MultipleSelect' || qType === 'FillInBlank' || qType === 'Matching' || qType === 'NumericEntry' || qType === 'Ordering' || qType === 'Hotspot' || qType === 'Categorize' || qType === 'ShortAnswer' || qType === 'Essay') && questionMetadata) {
       finalQuestionMetadata = typeof questionMetadata === 'string' ? questionMetadata : JSON.stringify(questionMetadata);
     }
 
     // Insert question - set dok_level for all question types (required for ShortAnswer/Essay, optional for others)
     const finalDokLevel = dokLevel !== undefined && dokLevel !== null ? dokLevel : null;
     const result = await executeQuery(
-      'INSERT INTO questions (subject_id, grade_id, question_text, question_type, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [subjectId, gradeId, questionText, qType, JSON.stringify(optionsArray), finalCorrectOptionIndex, finalCorrectAnswer, finalQuestionMetadata, difficultyLevel, finalDokLevel, standard || null, contentFocus || null, req.user.id]
+      'INSERT INTO questions (subject_id, grade_id, question_text, question_type, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, created_by, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [subjectId, gradeId, questionText, qType, JSON.stringify(optionsArray), finalCorrectOptionIndex, finalCorrectAnswer, finalQuestionMetadata, difficultyLevel, finalDokLevel, standard || null, contentFocus || null, req.user.id, INITIAL_QUESTION_STATUS]
     );
+    await recordQuestionVersion(result.insertId, { changeType: 'created', createdBy: req.user.id });
     
     // Verify the inserted data
     if (qType === 'MultipleSelect') {
@@ -1408,7 +1505,7 @@ export const createQuestion = async (req, res) => {
 
     // Get the created question
     const questions = await executeQuery(
-      'SELECT id, subject_id, grade_id, question_text, question_type, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, created_at FROM questions WHERE id = ?',
+      'SELECT id, subject_id, grade_id, question_text, question_type, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, status, created_at FROM questions WHERE id = ?',
       [result.insertId]
     );
 
@@ -1449,6 +1546,7 @@ export const createQuestion = async (req, res) => {
         dokLevel: question.dok_level,
         standard: question.standard,
         contentFocus: question.content_focus,
+        status: question.status,
         createdAt: question.created_at
       }
     });
@@ -1483,11 +1581,15 @@ export const getQuestionById = async (req, res) => {
         q.dok_level,
         q.standard,
         q.content_focus,
+        q.status,
+        q.reviewer_id,
         q.created_at,
         u.username as created_by_username,
+        r.username as reviewer_username,
         g.display_name as grade_name
       FROM questions q
       LEFT JOIN users u ON q.created_by = u.id
+      LEFT JOIN users r ON q.reviewer_id = r.id
       LEFT JOIN grades g ON q.grade_id = g.id
       WHERE q.id = ?
     `, [id]);
@@ -1562,6 +1664,9 @@ export const getQuestionById = async (req, res) => {
       difficultyLevel: question.difficulty_level,
       dokLevel: question.dok_level,
       competencies: competencyRelationships,
+      status: question.status,
+      reviewerId: question.reviewer_id,
+      reviewerUsername: question.reviewer_username,
       createdAt: question.created_at,
       createdByUsername: question.created_by_username,
       gradeName: question.grade_name
@@ -1584,6 +1689,7 @@ export const getQuestionsBySubject = async (req, res) => {
     const limit = parseInt(req.query.limit) || 20;
     const offset = (page - 1) * limit;
     const gradeId = req.query.gradeId && req.query.gradeId !== 'null' ? parseInt(req.query.gradeId) : null;
+    const status = QUESTION_STATUSES.includes(req.query.status) ? req.query.status : null;
     
     console.log(`Pagination params: page=${page}, limit=${limit}, offset=${offset}, gradeId=${gradeId}, raw gradeId from query: ${req.query.gradeId}`);
 
@@ -1612,6 +1718,11 @@ export const getQuestionsBySubject = async (req, res) => {
       countQuery += ` AND q.grade_id = ?`;
       countParams.push(gradeId);
     }
+
+    if (status) {
+      countQuery += ` AND q.status = ?`;
+      countParams.push(status);
+    }
     
     const countResult = await executeQuery(countQuery, countParams);
 
@@ -1644,12 +1755,21 @@ export const getQuestionsBySubject = async (req, res) => {
         q.question_metadata,
         q.difficulty_level,
         q.dok_level,
+        q.status,
+        q.reviewer_id,
         q.created_at,
         u.username as created_by_username,
-        g.display_name as grade_name
+        r.username as reviewer_username,
+        g.display_name as grade_name,
+        cp.id as proposal_id,
+        cp.proposed_difficulty,
+        cp.standard_error as proposal_standard_error,
+        cp.response_count as proposal_response_count
       FROM questions q
       LEFT JOIN users u ON q.created_by = u.id
+      LEFT JOIN users r ON q.reviewer_id = r.id
       LEFT JOIN grades g ON q.grade_id = g.id
+      LEFT JOIN item_calibration_proposals cp ON cp.question_id = q.id AND cp.status = 'pending'
       WHERE q.subject_id = ?
     `;
     let questionsParams = [subjectId];
@@ -1658,6 +1778,11 @@ export const getQuestionsBySubject = async (req, res) => {
       questionsQuery += ` AND q.grade_id = ?`;
       questionsParams.push(gradeId);
     }
+
+    if (status) {
+      questionsQuery += ` AND q.status = ?`;
+      questionsParams.push(status);
+    }
     
     questionsQuery += ` ORDER BY q.created_at DESC LIMIT ${limit} OFFSET ${offset}`;
     
@@ -1730,7 +1855,16 @@ export const getQuestionsBySubject = async (req, res) => {
         createdBy: q.created_by,
         createdAt: q.created_at,
         createdByUsername: q.created_by_username,
-        gradeName: q.grade_name
+        gradeName: q.grade_name,
+        status: q.status,
+        reviewerId: q.reviewer_id,
+        reviewerUsername: q.reviewer_username,
+        calibrationProposal: q.proposal_id ? {
+          id: q.proposal_id,
+          proposedDifficulty: q.proposed_difficulty,
+          standardError: Number(q.proposal_standard_error),
+          responseCount: q.proposal_response_count
+        } : null
       };
     });
 
@@ -1755,6 +1889,135 @@ export const getQuestionsBySubject = async (req, res) => {
   }
 };
 
+// Export the full bank for a filter (subject, grade, competency, status) with keys and competency codes,
+// for the exchange formats built on the client (QTI packages)
+export const exportQuestions = async (req, res) => {
+  try {
+    const subjectId = req.query.subjectId ? parseInt(req.query.subjectId) : null;
+    const gradeId = req.query.gradeId ? parseInt(req.query.gradeId) : null;
+    const competencyId = req.query.competencyId ? parseInt(req.query.competencyId) : null;
+    const status = QUESTION_STATUSES.includes(req.query.status) ? req.query.status : null;
+
+    if ([subjectId, gradeId, competencyId].some(id => id !== null && (!Number.isInteger(id) || id < 1))) {
+      return res.status(400).json({
+        error: 'subjectId, gradeId and competencyId must be positive integers',
+        code: 'INVALID_EXPORT_FILTER'
+      });
+    }
+
+    let query = `
+      SELECT
+        q.id,
+        q.subject_id,
+        q.grade_id,
+        q.question_text,
+        q.question_type,
+        q.options,
+        q.correct_option_index,
+        q.correct_answer,
+        q.question_metadata,
+        q.difficulty_level,
+        q.dok_level,
+        q.standard,
+        q.content_focus,
+        q.status,
+        s.name as subject_name,
+        g.display_name as grade_name
+      FROM questions q
+      LEFT JOIN subjects s ON q.subject_id = s.id
+      LEFT JOIN grades g ON q.grade_id = g.id
+      WHERE 1 = 1
+    `;
+    const params = [];
+
+    if (subjectId) {
+      query += ' AND q.subject_id = ?';
+      params.push(subjectId);
+    }
+    if (gradeId) {
+      query += ' AND q.grade_id = ?';
+      params.push(gradeId);
+    }
+    if (competencyId) {
+      query += ' AND q.id IN (SELECT question_id FROM questions_competencies WHERE competency_id = ?)';
+      params.push(competencyId);
+    }
+    if (status) {
+      query += ' AND q.status = ?';
+      params.push(status);
+    }
+    query += ' ORDER BY q.id';
+
+    const questions = await executeQuery(query, params);
+
+    // Competencies of every exported question, in one query
+    const competenciesByQuestion = new Map();
+    if (questions.length > 0) {
+      const placeholders = questions.map(() => '?').join(',');
+      const links = await executeQuery(`
+        SELECT qc.question_id, c.id, c.code, c.name
+        FROM questions_competencies qc
+        JOIN competencies c ON qc.competency_id = c.id
+        WHERE qc.question_id IN (${placeholders})
+        ORDER BY qc.weight DESC
+      `, questions.map(q => q.id));
+      links.forEach(link => {
+        if (!competenciesByQuestion.has(link.question_id)) {
+          competenciesByQuestion.set(link.question_id, []);
+        }
+        competenciesByQuestion.get(link.question_id).push({ id: link.id, code: link.code, name: link.name });
+      });
+    }
+
+    const parseJsonColumn = (value, fallback) => {
+      if (typeof value !== 'string') return value ?? fallback;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return fallback;
+      }
+    };
+
+    res.json({
+      questions: questions.map(q => {
+        let correctAnswer = q.correct_answer;
+        if (q.question_type === 'TrueFalse' && !correctAnswer) {
+          correctAnswer = q.correct_option_index === 0 ? 'true' : 'false';
+        } else if (q.question_type === 'MultipleSelect' && !correctAnswer) {
+          correctAnswer = JSON.stringify([q.correct_option_index]);
+        }
+
+        return {
+          id: q.id,
+          subjectId: q.subject_id,
+          subjectName: q.subject_name,
+          gradeId: q.grade_id,
+          gradeName: q.grade_name,
+          questionText: q.question_text,
+          questionType: q.question_type || 'MCQ',
+          options: parseJsonColumn(q.options, []),
+          correctOptionIndex: q.correct_option_index,
+          correctAnswer,
+          questionMetadata: parseJsonColumn(q.question_metadata, null),
+          difficultyLevel: q.difficulty_level,
+          dokLevel: q.dok_level,
+          standard: q.standard,
+          contentFocus: q.content_focus,
+          status: q.status,
+          competencies: competenciesByQuestion.get(q.id) || []
+        };
+      })
+    });
+
+  } catch (error) {
+    console.error('Error exporting questions:', error);
+    res.status(500).json({
+      error: 'Failed to export questions',
+      code: 'EXPORT_QUESTIONS_ERROR'
+    });
+  }
+};
+
 // Update question
 export const updateQuestion = async (req, res) => {
   try {
@@ -1766,7 +2029,7 @@ export const updateQuestion = async (req, res) => {
 
     // Check if question exists and get current question type
     const existingQuestions = await executeQuery(
-      'SELECT id, question_type FROM questions WHERE id = ?',
+      `SELECT id, status, ${VERSIONED_FIELDS.join(', ')} FROM questions WHERE id = ?`,
       [id]
     );
 
@@ -1975,6 +2238,42 @@ export const updateQuestion = async (req, res) => {
         
         // Options array is empty for Matching
         optionsArray = [];
+      } else if (qType === 'NumericEntry') {
+        // For NumericEntry, correctAnswer is the numeric key; tolerance, forms and units are in questionMetadata.numeric
+        const numericError = validateNumericQuestion(correctAnswer, questionMetadata);
+        if (numericError) {
+          return res.status(400).json(numericError);
+        }
+
+        // Options array is empty for NumericEntry (students type their answer)
+        optionsArray = [];
+      } else if (qType === 'Ordering') {
+        // For Ordering, questionMetadata.items holds the steps and correctAnswer their correct sequence
+        const orderingError = validateOrderingQuestion(correctAnswer, questionMetadata);
+        if (orderingError) {
+          return res.status(400).json(orderingError);
+        }
+
+        // Options array is empty for Ordering (steps are in metadata)
+        optionsArray = [];
+      } else if (qType === 'Hotspot') {
+        // For Hotspot, questionMetadata.hotspot holds the image and correctAnswer the correct regions
+        const hotspotError = validateHotspotQuestion(correctAnswer, questionMetadata);
+        if (hotspotError) {
+          return res.status(400).json(hotspotError);
+        }
+
+        // Options array is empty for Hotspot (students click the image)
+        optionsArray = [];
+      } else if (qType === 'Categorize') {
+        // For Categorize, questionMetadata holds the categories and items and correctAnswer each item's category
+        const categorizeError = validateCategorizeQuestion(correctAnswer, questionMetadata);
+        if (categorizeError) {
+          return res.status(400).json(categorizeError);
+        }
+
+        // Options array is empty for Categorize (categories and items are in metadata)
+        optionsArray = [];
       }
 
     // Validate difficulty level (Growth Metric Score) - required for all question types
@@ -2045,15 +2344,38 @@ export const updateQuestion = async (req, res) => {
       const correctPairs = JSON.parse(correctAnswer);
       finalCorrectOptionIndex = correctPairs[0]?.right || 0; // First pair's right index for backward compatibility
       finalCorrectAnswer = correctAnswer; // JSON array of correct pairs
+    } else if (qType === 'NumericEntry') {
+      // For NumericEntry: store the key as the author wrote it (e.g. "3/4"); scoring parses it
+      finalCorrectOptionIndex = 0; // Default for backward compatibility
+      finalCorrectAnswer = String(correctAnswer).trim();
+    } else if (qType === 'Ordering') {
+      // For Ordering: store the correct sequence of item indices in correct_answer
+      const correctOrder = typeof correctAnswer === 'string' ? JSON.parse(correctAnswer) : correctAnswer;
+      finalCorrectOptionIndex = correctOrder[0] || 0; // First step's index for backward compatibility
+      finalCorrectAnswer = JSON.stringify(correctOrder.map(Number)); // JSON array of item indices
+    } else if (qType === 'Hotspot') {
+      // For Hotspot: store the correct regions in correct_answer, away from the metadata sent to students
+      finalCorrectOptionIndex = 0; // Default for backward compatibility
+      finalCorrectAnswer = typeof correctAnswer === 'string' ? correctAnswer : JSON.stringify(correctAnswer);
+    } else if (qType === 'Categorize') {
+      // For Categorize: store the category index of each item in correct_answer
+      const placement = typeof correctAnswer === 'string' ? JSON.parse(correctAnswer) : correctAnswer;
+      finalCorrectOptionIndex = placement[0] || 0; // First item's category for backward compatibility
+      finalCorrectAnswer = JSON.stringify(placement.map(Number)); // JSON array of category indices
     } else if (qType === 'ShortAnswer' || qType === 'Essay') {
       // For ShortAnswer and Essay, no automatic validation
       finalCorrectOptionIndex = 0; // Default for backward compatibility
       finalCorrectAnswer = null; // No correct answer (automatic grading by AI)
     }
 
-    // Prepare questionMetadata for update
+    const partialCreditError = validatePartialCredit(qType, questionMetadata);
+    if (partialCreditError) {
+      return res.status(400).json(partialCreditError);
+    }
+
+    // Prepare questionMetadata for update (MultipleSelect metadata only carries its partial-credit policy)
     let finalQuestionMetadata = null;
-    if ((qType === 'FillInBlank' || qType === 'Matching' || qType === 'ShortAnswer' || qType === 'Essay') && questionMetadata) {
+    if ((qType === 'MultipleSelect' || qType === 'FillInBlank' || qType === 'Matching' || qType === 'NumericEntry' || qType === 'Ordering' || qType === 'Hotspot' || qType === 'Categorize' || qType === 'ShortAnswer' || qType === 'Essay') && questionMetadata) {
       finalQuestionMetadata = typeof questionMetadata === 'string' ? questionMetadata : JSON.stringify(questionMetadata);
     }
 
@@ -2064,6 +2386,33 @@ export const updateQuestion = async (req, res) => {
       [subjectId, gradeId, questionText, qType, JSON.stringify(optionsArray), finalCorrectOptionIndex, finalCorrectAnswer, finalQuestionMetadata, difficultyLevel, finalDokLevel, standard || null, contentFocus || null, id]
     );
 
+    // Keep the edited content as a new version; earlier responses stay pinned to the version they were answered on
+    await recordQuestionVersion(id, { changeType: 'edited', createdBy: req.user.id });
+
+    // An approved item whose content changed goes back to review before students see the change
+    const editedQuestions = await executeQuery(`SELECT ${VERSIONED_FIELDS.join(', ')} FROM questions WHERE id = ?`, [id]);
+    let statusAfterEdit = existingQuestions[0].status;
+    if (versionedContentChanged(existingQuestions[0], editedQuestions[0])) {
+      statusAfterEdit = await reopenReviewAfterEdit({ questionId: id, status: statusAfterEdit, userId: req.user.id });
+    }
+    const sentBackToReview = statusAfterEdit !== existingQuestions[0].status;
+
+    // Record manual difficulty edits in the audit trail; a pending calibration proposal no longer applies
+    const previousDifficulty = existingQuestions[0].difficulty_level;
+    if (Number(difficultyLevel) !== previousDifficulty) {
+      await recordDifficultyChange({
+        questionId: id,
+        oldDifficulty: previousDifficulty,
+        newDifficulty: difficultyLevel,
+        source: 'manual',
+        changedBy: req.user.id
+      });
+      await executeQuery(
+        "UPDATE item_calibration_proposals SET status = 'superseded' WHERE question_id = ? AND status = 'pending'",
+        [id]
+      );
+    }
+
     // Update competency relationships
     // First, remove existing relationships
     await executeQuery('DELETE FROM questions_competencies WHERE question_id = ?', [id]);
@@ -2094,11 +2443,15 @@ export const updateQuestion = async (req, res) => {
         q.dok_level,
         q.standard,
         q.content_focus,
+        q.status,
+        q.reviewer_id,
         q.created_at,
         u.username as created_by_username,
+        r.username as reviewer_username,
         g.display_name as grade_name
       FROM questions q
       LEFT JOIN users u ON q.created_by = u.id
+      LEFT JOIN users r ON q.reviewer_id = r.id
       LEFT JOIN grades g ON q.grade_id = g.id
       WHERE q.id = ?
     `, [id]);
@@ -2125,7 +2478,7 @@ export const updateQuestion = async (req, res) => {
     }
 
     res.json({
-      message: 'Question updated successfully',
+      message: sentBackToReview ? 'Question updated and sent back for review' : 'Question updated successfully',
       question: {
         id: question.id,
         subjectId: question.subject_id,
@@ -2140,6 +2493,9 @@ export const updateQuestion = async (req, res) => {
         dokLevel: question.dok_level,
         standard: question.standard,
         contentFocus: question.content_focus,
+        status: question.status,
+        reviewerId: question.reviewer_id,
+        reviewerUsername: question.reviewer_username,
         createdAt: question.created_at,
         createdByUsername: question.created_by_username
       }
@@ -2223,12 +2579,14 @@ export const deleteQuestion = async (req, res) => {
 
     if (responses.length > 0) {
       return res.status(400).json({
-        error: 'Cannot delete question that has been used in assessments',
+        error: 'Cannot delete question that has been used in assessments; retire it instead',
         code: 'QUESTION_USED_IN_ASSESSMENTS'
       });
     }
 
-    // Delete question
+    // Delete question (unanswered, so its versions are not referenced by any response)
+    await executeQuery('DELETE FROM question_versions WHERE question_id = ?', [id]);
+    await executeQuery('DELETE FROM question_review_comments WHERE question_id = ?', [id]);
     await executeQuery('DELETE FROM questions WHERE id = ?', [id]);
 
     res.json({
@@ -2244,174 +2602,562 @@ export const deleteQuestion = async (req, res) => {
   }
 };
 
-// Create new student (admin only)
-export const createStudent = async (req, res) => {
+const parseVersionJson = (value) => {
+  if (value === null || value === undefined || typeof value !== 'string') return value ?? null;
   try {
-    const { username, password, firstName, lastName, schoolId, gradeId } = req.body;
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
 
-    // Check if username already exists
-    const existingUsers = await executeQuery(
-      'SELECT id FROM users WHERE username = ?',
-      [username]
-    );
+// Get every stored version of a question (newest first)
+export const getQuestionVersions = async (req, res) => {
+  try {
+    const { id } = req.params;
 
-    if (existingUsers.length > 0) {
-      return res.status(409).json({
-        error: 'Username already exists',
-        code: 'USERNAME_EXISTS'
+    const questions = await executeQuery('SELECT id, current_version_id FROM questions WHERE id = ?', [id]);
+    if (questions.length === 0) {
+      return res.status(404).json({
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
       });
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10);
-
-    // Insert new student
-    const result = await executeQuery(
-      'INSERT INTO users (username, password, first_name, last_name, role, school_id, grade_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [username, hashedPassword, firstName, lastName, 'student', schoolId, gradeId]
-    );
-
-    // Get the created student with school and grade info
-    const newStudents = await executeQuery(`
-      SELECT 
-        u.id, u.username, u.first_name, u.last_name, u.role, u.created_at,
-        s.name as school_name, s.id as school_id,
-        g.display_name as grade_name, g.id as grade_id, g.grade_level
-      FROM users u
-      LEFT JOIN schools s ON u.school_id = s.id
-      LEFT JOIN grades g ON u.grade_id = g.id
-      WHERE u.id = ?
-    `, [result.insertId]);
+    const versions = await executeQuery(`
+      SELECT qv.*, u.username as created_by_username,
+        (SELECT COUNT(*) FROM assessment_responses ar WHERE ar.question_version_id = qv.id) as response_count
+      FROM question_versions qv
+      LEFT JOIN users u ON qv.created_by = u.id
+      WHERE qv.question_id = ?
+      ORDER BY qv.version_number DESC
+    `, [id]);
 
-    res.status(201).json({
-      message: 'Student created successfully',
-      student: newStudents[0]
+    res.json({
+      currentVersionId: questions[0].current_version_id,
+      versions: versions.map(version => ({
+        id: version.id,
+        versionNumber: version.version_number,
+        questionText: version.question_text,
+        questionType: version.question_type || 'MCQ',
+        options: parseVersionJson(version.options) || [],
+        correctOptionIndex: version.correct_option_index,
+        correctAnswer: version.correct_answer,
+        questionMetadata: parseVersionJson(version.question_metadata),
+        difficultyLevel: version.difficulty_level,
+        dokLevel: version.dok_level,
+        standard: version.standard,
+        contentFocus: version.content_focus,
+        changeType: version.change_type,
+        restoredFromVersion: version.restored_from_version,
+        createdByUsername: version.created_by_username,
+        createdAt: version.created_at,
+        responseCount: Number(version.response_count)
+      }))
     });
-
   } catch (error) {
-    console.error('Error creating student:', error);
+    console.error('Get question versions error:', error);
     res.status(500).json({
-      error: 'Failed to create student',
-      code: 'CREATE_STUDENT_ERROR'
+      error: 'Failed to fetch question versions',
+      code: 'FETCH_QUESTION_VERSIONS_ERROR'
     });
   }
 };
 
-// Update student (admin only)
-export const updateStudent = async (req, res) => {
+// Restore an earlier version's content; the restore is itself saved as a new version
+export const rollbackQuestionVersion = async (req, res) => {
   try {
-    const { id } = req.params;
-    const { firstName, lastName, schoolId, gradeId, password } = req.body;
+    const { id, versionId } = req.params;
 
-    // Check if student exists
-    const existingStudents = await executeQuery(
-      'SELECT id FROM users WHERE id = ? AND role = "student"',
-      [id]
-    );
+    const rows = await executeQuery(`
+      SELECT qv.id, qv.version_number, qv.difficulty_level, q.difficulty_level as current_difficulty, q.current_version_id, q.status
+      FROM question_versions qv
+      JOIN questions q ON qv.question_id = q.id
+      WHERE qv.id = ? AND qv.question_id = ?
+    `, [versionId, id]);
 
-    if (existingStudents.length === 0) {
+    if (rows.length === 0) {
       return res.status(404).json({
-        error: 'Student not found',
-        code: 'STUDENT_NOT_FOUND'
+        error: 'Question version not found',
+        code: 'QUESTION_VERSION_NOT_FOUND'
       });
     }
 
-    // Build update query
-    let updateQuery = 'UPDATE users SET first_name = ?, last_name = ?, school_id = ?, grade_id = ?';
-    let queryParams = [firstName, lastName, schoolId, gradeId];
-
-    // Add password update if provided
-    if (password) {
-      const hashedPassword = await bcrypt.hash(password, 10);
-      updateQuery += ', password = ?';
-      queryParams.push(hashedPassword);
+    const version = rows[0];
+    if (version.id === version.current_version_id) {
+      return res.status(400).json({
+        error: 'This version is already the current version',
+        code: 'ALREADY_CURRENT_VERSION'
+      });
     }
 
-    updateQuery += ' WHERE id = ?';
-    queryParams.push(id);
+    await executeQuery(`
+      UPDATE questions q
+      JOIN question_versions qv ON qv.id = ?
+      SET ${VERSIONED_FIELDS.map(field => `q.${field} = qv.${field}`).join(', ')}, q.updated_at = CURRENT_TIMESTAMP
+      WHERE q.id = ?
+    `, [version.id, id]);
 
-    // Update student
-    await executeQuery(updateQuery, queryParams);
+    const newVersion = await recordQuestionVersion(id, {
+      changeType: 'rollback',
+      createdBy: req.user.id,
+      restoredFromVersion: version.version_number
+    });
 
-    // Get updated student with school and grade info
-    const updatedStudents = await executeQuery(`
-      SELECT 
-        u.id, u.username, u.first_name, u.last_name, u.role, u.created_at,
-        s.name as school_name, s.id as school_id,
-        g.display_name as grade_name, g.id as grade_id, g.grade_level
-      FROM users u
-      LEFT JOIN schools s ON u.school_id = s.id
-      LEFT JOIN grades g ON u.grade_id = g.id
-      WHERE u.id = ?
-    `, [id]);
+    // Restored content is a content change like any edit, so an approved item goes back to review
+    const status = await reopenReviewAfterEdit({
+      questionId: id,
+      status: version.status,
+      userId: req.user.id,
+      comment: `Restored to version ${version.version_number} after approval`
+    });
+
+    if (version.difficulty_level !== version.current_difficulty) {
+      await recordDifficultyChange({
+        questionId: id,
+        oldDifficulty: version.current_difficulty,
+        newDifficulty: version.difficulty_level,
+        source: 'manual',
+        changedBy: req.user.id
+      });
+      await executeQuery(
+        "UPDATE item_calibration_proposals SET status = 'superseded' WHERE question_id = ? AND status = 'pending'",
+        [id]
+      );
+    }
 
     res.json({
-      message: 'Student updated successfully',
-      student: updatedStudents[0]
+      message: `Question restored to version ${version.version_number}${status !== version.status ? ' and sent back for review' : ''}`,
+      status,
+      versionId: newVersion.id,
+      versionNumber: newVersion.versionNumber
     });
-
   } catch (error) {
-    console.error('Error updating student:', error);
+    console.error('Rollback question version error:', error);
     res.status(500).json({
-      error: 'Failed to update student',
-      code: 'UPDATE_STUDENT_ERROR'
+      error: 'Failed to restore question version',
+      code: 'ROLLBACK_QUESTION_VERSION_ERROR'
     });
   }
 };
 
-// Delete student (admin only)
-export const deleteStudent = async (req, res) => {
+// Get the review trail (status changes and comments) of a question, oldest first
+export const getQuestionReviews = async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Check if student exists
-    const existingStudents = await executeQuery(
-      'SELECT id FROM users WHERE id = ? AND role = "student"',
-      [id]
-    );
+    const questions = await executeQuery(`
+      SELECT q.id, q.status, q.reviewer_id, r.username as reviewer_username
+      FROM questions q
+      LEFT JOIN users r ON q.reviewer_id = r.id
+      WHERE q.id = ?
+    `, [id]);
 
-    if (existingStudents.length === 0) {
+    if (questions.length === 0) {
       return res.status(404).json({
-        error: 'Student not found',
-        code: 'STUDENT_NOT_FOUND'
-      });
-    }
-
-    // Check if student has assessments
-    const assessments = await executeQuery(
-      'SELECT id FROM assessments WHERE student_id = ? LIMIT 1',
-      [id]
-    );
-
-    if (assessments.length > 0) {
-      return res.status(400).json({
-        error: 'Cannot delete student with existing assessments',
-        code: 'STUDENT_HAS_ASSESSMENTS'
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
       });
     }
 
-    // Delete student
-    await executeQuery('DELETE FROM users WHERE id = ?', [id]);
+    const entries = await executeQuery(`
+      SELECT c.id, c.user_id, c.comment, c.status_from, c.status_to, c.created_at, u.username
+      FROM question_review_comments c
+      LEFT JOIN users u ON c.user_id = u.id
+      WHERE c.question_id = ?
+      ORDER BY c.created_at ASC, c.id ASC
+    `, [id]);
 
     res.json({
-      message: 'Student deleted successfully'
+      status: questions[0].status,
+      reviewerId: questions[0].reviewer_id,
+      reviewerUsername: questions[0].reviewer_username,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        userId: entry.user_id,
+        username: entry.username,
+        comment: entry.comment,
+        statusFrom: entry.status_from,
+        statusTo: entry.status_to,
+        createdAt: entry.created_at
+      }))
     });
-
   } catch (error) {
-    console.error('Error deleting student:', error);
+    console.error('Get question reviews error:', error);
     res.status(500).json({
-      error: 'Failed to delete student',
-      code: 'DELETE_STUDENT_ERROR'
+      error: 'Failed to fetch question reviews',
+      code: 'FETCH_QUESTION_REVIEWS_ERROR'
     });
   }
 };
 
-// Get students by school and grade
-export const getStudentsBySchoolAndGrade = async (req, res) => {
+// Add a review comment without changing the status
+export const addQuestionReviewComment = async (req, res) => {
   try {
-    const { schoolId, gradeId } = req.params;
+    const { id } = req.params;
+    const comment = typeof req.body.comment === 'string' ? req.body.comment.trim() : '';
 
-    const students = await executeQuery(`
+    if (!comment) {
+      return res.status(400).json({
+        error: 'Comment is required',
+        code: 'COMMENT_REQUIRED'
+      });
+    }
+
+    const questions = await executeQuery('SELECT id FROM questions WHERE id = ?', [id]);
+    if (questions.length === 0) {
+      return res.status(404).json({
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
+      });
+    }
+
+    const entryId = await recordReviewEntry({ questionId: id, userId: req.user.id, comment });
+
+    res.status(201).json({
+      message: 'Comment added',
+      id: entryId
+    });
+  } catch (error) {
+    console.error('Add question review comment error:', error);
+    res.status(500).json({
+      error: 'Failed to add comment',
+      code: 'ADD_REVIEW_COMMENT_ERROR'
+    });
+  }
+};
+
+// Move a question through the editorial workflow (draft -> review -> approved -> retired)
+export const updateQuestionStatus = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body;
+    const comment = typeof req.body.comment === 'string' && req.body.comment.trim() ? req.body.comment.trim() : null;
+
+    if (!QUESTION_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `Status must be one of: ${QUESTION_STATUSES.join(', ')}`,
+        code: 'INVALID_QUESTION_STATUS'
+      });
+    }
+
+    const questions = await executeQuery('SELECT id, status, reviewer_id FROM questions WHERE id = ?', [id]);
+    if (questions.length === 0) {
+      return res.status(404).json({
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
+      });
+    }
+
+    const question = questions[0];
+    if (!canTransition(question.status, status)) {
+      return res.status(400).json({
+        error: `A ${question.status} question cannot be moved to ${status}`,
+        code: 'INVALID_STATUS_TRANSITION'
+      });
+    }
+
+    // Review decisions on an assigned item belong to its reviewer
+    if (question.status === 'review' && question.reviewer_id && question.reviewer_id !== req.user.id) {
+      return res.status(403).json({
+        error: 'Only the assigned reviewer can approve or return this question',
+        code: 'NOT_ASSIGNED_REVIEWER'
+      });
+    }
+
+    // Returning an item to its author needs an explanation
+    if (question.status === 'review' && status === 'draft' && !comment) {
+      return res.status(400).json({
+        error: 'A comment is required when returning a question to draft',
+        code: 'COMMENT_REQUIRED'
+      });
+    }
+
+    await executeQuery(
+      'UPDATE questions SET status = ?, status_changed_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [status, id]
+    );
+    await recordReviewEntry({
+      questionId: id,
+      userId: req.user.id,
+      comment,
+      statusFrom: question.status,
+      statusTo: status
+    });
+
+    res.json({
+      message: `Question moved to ${status}`,
+      status
+    });
+  } catch (error) {
+    console.error('Update question status error:', error);
+    res.status(500).json({
+      error: 'Failed to update question status',
+      code: 'UPDATE_QUESTION_STATUS_ERROR'
+    });
+  }
+};
+
+// Assign (or clear) the admin responsible for reviewing a question
+export const assignQuestionReviewer = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const reviewerId = req.body.reviewerId ? parseInt(req.body.reviewerId) : null;
+
+    const questions = await executeQuery('SELECT id, status FROM questions WHERE id = ?', [id]);
+    if (questions.length === 0) {
+      return res.status(404).json({
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
+      });
+    }
+
+    let reviewerUsername = null;
+    if (reviewerId) {
+      const reviewers = await executeQuery(
+        "SELECT id, username FROM users WHERE id = ? AND role = 'admin'",
+        [reviewerId]
+      );
+      if (reviewers.length === 0) {
+        return res.status(400).json({
+          error: 'Reviewer must be an admin user',
+          code: 'INVALID_REVIEWER'
+        });
+      }
+      reviewerUsername = reviewers[0].username;
+    }
+
+    await executeQuery('UPDATE questions SET reviewer_id = ? WHERE id = ?', [reviewerId, id]);
+    await recordReviewEntry({
+      questionId: id,
+      userId: req.user.id,
+      comment: reviewerUsername ? `Assigned reviewer: ${reviewerUsername}` : 'Reviewer assignment cleared'
+    });
+
+    res.json({
+      message: reviewerUsername ? `Reviewer set to ${reviewerUsername}` : 'Reviewer cleared',
+      reviewerId,
+      reviewerUsername
+    });
+  } catch (error) {
+    console.error('Assign question reviewer error:', error);
+    res.status(500).json({
+      error: 'Failed to assign reviewer',
+      code: 'ASSIGN_REVIEWER_ERROR'
+    });
+  }
+};
+
+// List admin users who can be assigned as reviewers
+export const getQuestionReviewers = async (req, res) => {
+  try {
+    const reviewers = await executeQuery(
+      "SELECT id, username, first_name, last_name FROM users WHERE role = 'admin' ORDER BY username"
+    );
+
+    res.json(reviewers.map(reviewer => ({
+      id: reviewer.id,
+      username: reviewer.username,
+      firstName: reviewer.first_name,
+      lastName: reviewer.last_name
+    })));
+  } catch (error) {
+    console.error('Get question reviewers error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch reviewers',
+      code: 'FETCH_REVIEWERS_ERROR'
+    });
+  }
+};
+
+// Create new student (admin only)
+export const createStudent = async (req, res) => {
+  try {
+    const { username, password, firstName, lastName, schoolId, gradeId, accommodations } = req.body;
+
+    const accommodationsError = validateAccommodations(accommodations);
+    if (accommodationsError) {
+      return res.status(400).json(accommodationsError);
+    }
+
+    // Check if username already exists
+    const existingUsers = await executeQuery(
+      'SELECT id FROM users WHERE username = ?',
+      [username]
+    );
+
+    if (existingUsers.length > 0) {
+      return res.status(409).json({
+        error: 'Username already exists',
+        code: 'USERNAME_EXISTS'
+      });
+    }
+
+    // Hash password
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Insert new student
+    const result = await executeQuery(
+      'INSERT INTO users (username, password, first_name, last_name, role, school_id, grade_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [username, hashedPassword, firstName, lastName, 'student', schoolId, gradeId]
+    );
+
+    if (accommodations) {
+      await saveStudentAccommodations(result.insertId, accommodations);
+    }
+
+    // Get the created student with school and grade info
+    const newStudents = await executeQuery(`
+      SELECT 
+        u.id, u.username, u.first_name, u.last_name, u.role, u.created_at,
+        s.name as school_name, s.id as school_id,
+        g.display_name as grade_name, g.id as grade_id, g.grade_level
+      FROM users u
+      LEFT JOIN schools s ON u.school_id = s.id
+      LEFT JOIN grades g ON u.grade_id = g.id
+      WHERE u.id = ?
+    `, [result.insertId]);
+
+    res.status(201).json({
+      message: 'Student created successfully',
+      student: newStudents[0]
+    });
+
+  } catch (error) {
+    console.error('Error creating student:', error);
+    res.status(500).json({
+      error: 'Failed to create student',
+      code: 'CREATE_STUDENT_ERROR'
+    });
+  }
+};
+
+// Update student (admin only)
+export const updateStudent = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { firstName, lastName, schoolId, gradeId, password, accommodations } = req.body;
+
+    const accommodationsError = validateAccommodations(accommodations);
+    if (accommodationsError) {
+      return res.status(400).json(accommodationsError);
+    }
+
+    // Check if student exists
+    const existingStudents = await executeQuery(
+      'SELECT id FROM users WHERE id = ? AND role = "student"',
+      [id]
+    );
+
+    if (existingStudents.length === 0) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    // Build update query
+    let updateQuery = 'UPDATE users SET first_name = ?, last_name = ?, school_id = ?, grade_id = ?';
+    let queryParams = [firstName, lastName, schoolId, gradeId];
+
+    // Add password update if provided
+    if (password) {
+      const hashedPassword = await bcrypt.hash(password, 10);
+      updateQuery += ', password = ?';
+      queryParams.push(hashedPassword);
+    }
+
+    updateQuery += ' WHERE id = ?';
+    queryParams.push(id);
+
+    // Update student
+    await executeQuery(updateQuery, queryParams);
+
+    // Accommodations are only replaced when the form sends them
+    if (accommodations !== undefined) {
+      await saveStudentAccommodations(id, accommodations);
+    }
+
+    // Get updated student with school and grade info
+    const updatedStudents = await executeQuery(`
+      SELECT 
+        u.id, u.username, u.first_name, u.last_name, u.role, u.created_at,
+        s.name as school_name, s.id as school_id,
+        g.display_name as grade_name, g.id as grade_id, g.grade_level
+      FROM users u
+      LEFT JOIN schools s ON u.school_id = s.id
+      LEFT JOIN grades g ON u.grade_id = g.id
+      WHERE u.id = ?
+    `, [id]);
+
+    res.json({
+      message: 'Student updated successfully',
+      student: updatedStudents[0]
+    });
+
+  } catch (error) {
+    console.error('Error updating student:', error);
+    res.status(500).json({
+      error: 'Failed to update student',
+      code: 'UPDATE_STUDENT_ERROR'
+    });
+  }
+};
+
+// Delete student (admin only)
+export const deleteStudent = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if student exists
+    const existingStudents = await executeQuery(
+      'SELECT id FROM users WHERE id = ? AND role = "student"',
+      [id]
+    );
+
+    if (existingStudents.length === 0) {
+      return res.status(404).json({
+        error: 'Student not found',
+        code: 'STUDENT_NOT_FOUND'
+      });
+    }
+
+    // Check if student has assessments
+    const assessments = await executeQuery(
+      'SELECT id FROM assessments WHERE student_id = ? LIMIT 1',
+      [id]
+    );
+
+    if (assessments.length > 0) {
+      return res.status(400).json({
+        error: 'Cannot delete student with existing assessments',
+        code: 'STUDENT_HAS_ASSESSMENTS'
+      });
+    }
+
+    // Delete student
+    await executeQuery('DELETE FROM student_accommodations WHERE student_id = ?', [id]);
+    await executeQuery('DELETE FROM users WHERE id = ?', [id]);
+
+    res.json({
+      message: 'Student deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting student:', error);
+    res.status(500).json({
+      error: 'Failed to delete student',
+      code: 'DELETE_STUDENT_ERROR'
+    });
+  }
+};
+
+// Get students by school and grade
+export const getStudentsBySchoolAndGrade = async (req, res) => {
+  try {
+    const { schoolId, gradeId } = req.params;
+
+    const students = await executeQuery(`
       SELECT 
         u.id, 
         u.username, 
@@ -3060,9 +3806,11 @@ export const getStudentCompetencyScores = async (req, res) => {
 };
 
 // Import students from CSV
+// Every row is checked first: with dryRun the check is all that happens. Otherwise the students are created
+// in one transaction, and only when no row has an error, so a file is imported completely or not at all.
 export const importStudentsFromCSV = async (req, res) => {
   try {
-    const { csvData } = req.body;
+    const { csvData, dryRun = false } = req.body;
     
     if (!csvData || !Array.isArray(csvData) || csvData.length === 0) {
       return res.status(400).json({
@@ -3101,7 +3849,9 @@ export const importStudentsFromCSV = async (req, res) => {
       gradeMap.set(grade.display_name.trim(), grade.id);
     });
 
-    // Process each row
+    // Validate each row; valid rows are kept for the import
+    const students = [];
+    const usernameRows = new Map(); // Lowercase username -> first row that uses it (usernames are case-insensitive)
     for (let i = 0; i < csvData.length; i++) {
       const row = csvData[i];
       const rowNumber = i + 1; // 1-based row number for error reporting
@@ -3126,7 +3876,19 @@ export const importStudentsFromCSV = async (req, res) => {
         const schoolName = row.school ? row.school.trim() : '';
         const gradeName = row.grade ? row.grade.trim() : '';
 
-        // Validate username uniqueness
+        // Validate username uniqueness, within the file and against existing users
+        const usernameKey = username.toLowerCase();
+        if (usernameRows.has(usernameKey)) {
+          results.errors.push({
+            row: rowNumber,
+            error: `Username '${username}' is also used on row ${usernameRows.get(usernameKey)}`,
+            data: row
+          });
+          results.summary.failed++;
+          continue;
+        }
+        usernameRows.set(usernameKey, rowNumber);
+
         const existingUser = await executeQuery(
           'SELECT id FROM users WHERE username = ?',
           [username]
@@ -3158,6 +3920,16 @@ export const importStudentsFromCSV = async (req, res) => {
               schoolId = fuzzyMatch.id;
             }
           }
+
+          if (!schoolId) {
+            results.errors.push({
+              row: rowNumber,
+              error: `School not found: '${schoolName}'`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
         }
 
         // Find grade ID
@@ -3178,31 +3950,19 @@ export const importStudentsFromCSV = async (req, res) => {
               gradeId = fuzzyMatch.id;
             }
           }
-        }
-
-        // Create user
-        const hashedPassword = await bcrypt.hash(password, 10);
-        
-        const insertResult = await executeQuery(
-          'INSERT INTO users (username, password, first_name, last_name, role, school_id, grade_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
-          [username, hashedPassword, firstName, lastName, 'student', schoolId, gradeId]
-        );
-
-        const newUserId = insertResult.insertId;
 
-        results.success.push({
-          row: rowNumber,
-          userId: newUserId,
-          username,
-          firstName,
-          lastName,
-          schoolId,
-          gradeId,
-          schoolName: schoolId ? schools.find(s => s.id === schoolId)?.name : null,
-          gradeName: gradeId ? grades.find(g => g.id === gradeId)?.display_name : null
-        });
+          if (!gradeId) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Grade not found: '${gradeName}'`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+        }
 
-        results.summary.successful++;
+        students.push({ rowNumber, firstName, lastName, username, password, schoolId, gradeId });
 
       } catch (error) {
         console.error(`Error processing row ${rowNumber}:`, error);
@@ -3215,6 +3975,62 @@ export const importStudentsFromCSV = async (req, res) => {
       }
     }
 
+    const studentResult = (student, userId) => ({
+      row: student.rowNumber,
+      userId,
+      username: student.username,
+      firstName: student.firstName,
+      lastName: student.lastName,
+      schoolId: student.schoolId,
+      gradeId: student.gradeId,
+      schoolName: student.schoolId ? schools.find(s => s.id === student.schoolId)?.name : null,
+      gradeName: student.gradeId ? grades.find(g => g.id === student.gradeId)?.display_name : null
+    });
+
+    // Dry runs and files with errors stop here; success lists the rows that are ready to import
+    if (dryRun || results.errors.length > 0) {
+      results.success = students.map(student => studentResult(student, null));
+      results.summary.successful = students.length;
+      if (dryRun) {
+        return res.json({
+          message: 'CSV validation completed',
+          dryRun: true,
+          results
+        });
+      }
+      return res.status(422).json({
+        error: `${results.errors.length} row${results.errors.length === 1 ? ' has' : 's have'} errors; no students were imported`,
+        code: 'CSV_VALIDATION_FAILED',
+        results
+      });
+    }
+
+    // Hash the passwords before the transaction so it stays short
+    for (const student of students) {
+      student.hashedPassword = await bcrypt.hash(student.password, 10);
+    }
+
+    let currentRow = null;
+    try {
+      await withTransaction(async (query) => {
+        for (const student of students) {
+          currentRow = student.rowNumber;
+          const insertResult = await query(
+            'INSERT INTO users (username, password, first_name, last_name, role, school_id, grade_id) VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [student.username, student.hashedPassword, student.firstName, student.lastName, 'student', student.schoolId, student.gradeId]
+          );
+          results.success.push(studentResult(student, insertResult.insertId));
+        }
+      });
+    } catch (error) {
+      console.error(`Error importing students from CSV (row ${currentRow}), rolled back:`, error);
+      return res.status(500).json({
+        error: `Row ${currentRow} could not be saved (${error.message || 'unknown error'}); the import was rolled back and no students were imported`,
+        code: 'CSV_IMPORT_ROLLED_BACK'
+      });
+    }
+    results.summary.successful = results.success.length;
+
     res.json({
       message: 'CSV import completed',
       results
@@ -3229,10 +4045,95 @@ export const importStudentsFromCSV = async (req, res) => {
   }
 };
 
+// Answer texts of a CSV row, in any of the column layouts the importer accepts
+const csvRowOptionTexts = (row) => [
+  row.optionA, row.optionB, row.optionC, row.optionD,
+  ...String(row.leftItems || '').split(','),
+  ...String(row.rightItems || '').split(','),
+  ...String(row.blankOptions || '').split(/[;,]/),
+  ...String(row.orderItems || '').split(';'),
+  ...String(row.categories || '').split(','),
+  ...String(row.categoryItems || '').split(',')
+].filter(text => typeof text === 'string' && text.trim());
+
+// Question text in the form a CSV export writes it (uploaded images as placeholders, whitespace collapsed)
+const csvComparableText = (text) => String(imageTagsToPlaceholders(text || '')).replace(/\s+/g, ' ').trim();
+
+// Check CSV rows for near-duplicates of live bank items and of each other (used by the import preview)
+export const checkQuestionCSVDuplicates = async (req, res) => {
+  try {
+    const { csvData } = req.body;
+
+    if (!csvData || !Array.isArray(csvData) || csvData.length === 0) {
+      return res.status(400).json({
+        error: 'CSV data is required and must be an array',
+        code: 'INVALID_CSV_DATA'
+      });
+    }
+
+    const subjects = await executeQuery('SELECT id, name FROM subjects');
+    const grades = await executeQuery('SELECT id, display_name FROM grades');
+    const subjectMap = new Map(subjects.map(subject => [subject.name.toLowerCase().trim(), subject.id]));
+    const gradeMap = new Map(grades.map(grade => [grade.display_name.toLowerCase().trim(), grade.id]));
+
+    const candidates = csvData.map(row => ({
+      subjectId: subjectMap.get(String(row.subject || '').toLowerCase().trim()) || null,
+      gradeId: gradeMap.get(String(row.grade || '').toLowerCase().trim()) || null,
+      questionText: row.questionText,
+      options: csvRowOptionTexts(row)
+    }));
+    const profiles = candidates.map(candidate => buildSimilarityProfile(candidate));
+
+    // One bank load per subject/grade in the file
+    const banks = new Map();
+    const results = [];
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      let matches = [];
+      if (candidate.subjectId) {
+        const bankKey = `${candidate.subjectId}:${candidate.gradeId}`;
+        if (!banks.has(bankKey)) {
+          banks.set(bankKey, await loadComparableQuestions({ subjectId: candidate.subjectId, gradeId: candidate.gradeId }));
+        }
+        // A row that updates a question (id column from a CSV export) is not a duplicate of itself
+        matches = findSimilarQuestions(candidate, banks.get(bankKey), { excludeId: csvData[i].id || null });
+      }
+
+      const fileDuplicates = [];
+      for (let j = 0; j < candidates.length; j++) {
+        if (j !== i && candidates[j].subjectId === candidate.subjectId && profiles[i].stem &&
+            compareProfiles(profiles[i], profiles[j]).score >= SIMILARITY_THRESHOLD) {
+          fileDuplicates.push(j + 1);
+        }
+      }
+
+      if (matches.length > 0 || fileDuplicates.length > 0) {
+        results.push({
+          row: i + 1,
+          matches: matches.map(formatSimilarMatch),
+          fileDuplicates
+        });
+      }
+    }
+
+    res.json({
+      threshold: SIMILARITY_THRESHOLD,
+      results
+    });
+  } catch (error) {
+    console.error('Check CSV duplicates error:', error);
+    res.status(500).json({
+      error: 'Failed to check questions for duplicates',
+      code: 'CHECK_DUPLICATES_ERROR'
+    });
+  }
+};
+
 // Import questions from CSV
+// Validated and committed like the students import: a dry run only reports, a commit writes every row or none.
 export const importQuestionsFromCSV = async (req, res) => {
   try {
-    const { csvData } = req.body;
+    const { csvData, dryRun = false } = req.body;
     const userId = req.user.id;
     
     if (!csvData || !Array.isArray(csvData) || csvData.length === 0) {
@@ -3248,6 +4149,9 @@ export const importQuestionsFromCSV = async (req, res) => {
       summary: {
         total: csvData.length,
         successful: 0,
+        updated: 0, // Rows with an id that changed their question (counted in successful)
+        unchanged: 0, // Rows with an id that matched their question already (counted in successful)
+        sentBackToReview: 0, // Approved questions whose content the file changes; they go back to review
         failed: 0
       }
     };
@@ -3276,6 +4180,10 @@ export const importQuestionsFromCSV = async (req, res) => {
       competencyMap.set(competency.code.trim(), competency.id);
     });
 
+    // Every row is validated first; nothing is written until all of them pass
+    const plans = [];
+    const updatedRows = new Map(); // question id -> row that updates it
+
     // Process each row
     for (let i = 0; i < csvData.length; i++) {
       const row = csvData[i];
@@ -3289,6 +4197,9 @@ export const importQuestionsFromCSV = async (req, res) => {
         const isEssay = questionType === 'essay';
         const isFillInBlank = questionType === 'fillinblank' || questionType === 'fill in blank' || questionType === 'fill-in-blank' || !!row.blankOptions;
         const isMatching = questionType === 'matching' || !!row.leftItems || !!row.rightItems || !!row.correctPairs;
+        const isNumericEntry = questionType === 'numericentry' || questionType === 'numeric entry' || questionType === 'numeric';
+        const isOrdering = questionType === 'ordering' || questionType === 'sequencing' || !!row.orderItems;
+        const isCategorize = questionType === 'categorize' || questionType === 'categorise' || questionType === 'classification' || !!row.categoryItems;
         // More flexible True/False detection - handle various formats
         // Check for True/False in multiple ways to ensure detection
         const normalizedQuestionType = questionType.replace(/[\s_\-]/g, ''); // Remove spaces, underscores, hyphens
@@ -3302,7 +4213,13 @@ export const importQuestionsFromCSV = async (req, res) => {
         const isTextBased = isShortAnswer || isEssay;
         
         let qType = 'MCQ';
-        if (isMultipleSelect) {
+        if (isNumericEntry) {
+          qType = 'NumericEntry';
+        } else if (isOrdering) {
+          qType = 'Ordering';
+        } else if (isCategorize) {
+          qType = 'Categorize';
+        } else if (isMultipleSelect) {
           qType = 'MultipleSelect';
         } else if (isShortAnswer) {
           qType = 'ShortAnswer';
@@ -3325,9 +4242,12 @@ export const importQuestionsFromCSV = async (req, res) => {
             isFillInBlank,
             isMatching,
             isTrueFalse,
+            isNumericEntry,
+            isOrdering,
+            isCategorize,
             finalType: qType
           };
-          if (!isMultipleSelect && !isShortAnswer && !isEssay && !isFillInBlank && !isMatching && !isTrueFalse) {
+          if (!isMultipleSelect && !isShortAnswer && !isEssay && !isFillInBlank && !isMatching && !isTrueFalse && !isNumericEntry && !isOrdering && !isCategorize) {
             console.log(`Warning: Question type "${row.questionType}" (normalized: "${questionType}") not recognized, defaulting to MCQ. Detection:`, detectedTypes);
           }
         }
@@ -3355,7 +4275,31 @@ export const importQuestionsFromCSV = async (req, res) => {
         }
 
         // Validate correct answer(s) based on question type
-        if (isMultipleSelect && !row.correctAnswers) {
+        if (isNumericEntry && !row.correctAnswer) {
+          results.errors.push({
+            row: rowNumber,
+            error: 'Missing required field: correctAnswer (the numeric key) is required for Numeric Entry questions',
+            data: row
+          });
+          results.summary.failed++;
+          continue;
+        } else if (isOrdering && !row.orderItems) {
+          results.errors.push({
+            row: rowNumber,
+            error: 'Missing required field: orderItems (the steps in their correct order) is required for Ordering questions',
+            data: row
+          });
+          results.summary.failed++;
+          continue;
+        } else if (isCategorize && (!row.categories || !row.categoryItems || !row.itemCategories)) {
+          results.errors.push({
+            row: rowNumber,
+            error: 'Missing required fields: categories, categoryItems, and itemCategories are required for Categorize questions',
+            data: row
+          });
+          results.summary.failed++;
+          continue;
+        } else if (isMultipleSelect && !row.correctAnswers) {
           results.errors.push({
             row: rowNumber,
             error: 'Missing required field: correctAnswers is required for Multiple Select questions',
@@ -3387,7 +4331,7 @@ export const importQuestionsFromCSV = async (req, res) => {
           });
           results.summary.failed++;
           continue;
-        } else if (!isMultipleSelect && !isTextBased && !isFillInBlank && !isMatching && !isTrueFalse && !row.correctAnswer) {
+        } else if (!isMultipleSelect && !isTextBased && !isFillInBlank && !isMatching && !isTrueFalse && !isOrdering && !isCategorize && !row.correctAnswer) {
           results.errors.push({
             row: rowNumber,
             error: 'Missing required field: correctAnswer is required for MCQ questions',
@@ -3399,7 +4343,7 @@ export const importQuestionsFromCSV = async (req, res) => {
 
         // Validate options (not required for ShortAnswer/Essay/FillInBlank/Matching/TrueFalse)
         // Only require options for MCQ and MultipleSelect
-        if (!isTextBased && !isFillInBlank && !isMatching && !isTrueFalse && !isMultipleSelect) {
+        if (!isTextBased && !isFillInBlank && !isMatching && !isTrueFalse && !isMultipleSelect && !isNumericEntry && !isOrdering && !isCategorize) {
           if (!row.optionA || !row.optionB || !row.optionC || !row.optionD) {
             results.errors.push({
               row: rowNumber,
@@ -3460,7 +4404,105 @@ export const importQuestionsFromCSV = async (req, res) => {
         let correctAnswerJSON = null;
         let questionMetadata = null;
 
-        if (isFillInBlank) {
+        if (isNumericEntry) {
+          // For NumericEntry: correctAnswer is the key; tolerance, accepted forms and units become questionMetadata.numeric
+          const toleranceMode = (row.toleranceType || 'exact').trim().toLowerCase();
+          const units = (row.units || '').split(',').map(unit => unit.trim()).filter(unit => unit);
+          const numeric = {
+            tolerance: toleranceMode === 'exact'
+              ? { mode: 'exact' }
+              : { mode: toleranceMode, value: Number(String(row.tolerance || '').trim()) },
+            units,
+            unitRequired: units.length > 0 && String(row.unitRequired || '').trim().toLowerCase() === 'true'
+          };
+          if (row.acceptedForms && row.acceptedForms.trim()) {
+            numeric.forms = row.acceptedForms.split(',').map(form => form.trim().toLowerCase()).filter(form => form);
+          }
+
+          const numericError = validateNumericQuestion(row.correctAnswer, { numeric });
+          if (numericError) {
+            results.errors.push({
+              row: rowNumber,
+              error: numericError.error,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+
+          questionMetadata = { numeric };
+          correctAnswerJSON = row.correctAnswer.trim();
+          correctOptionIndices = [0]; // Default for backward compatibility
+        } else if (isOrdering) {
+          // For Ordering: orderItems lists the steps in their correct order, separated by semicolons
+          // Students see them shuffled; partialCredit "true" gives credit for the longest run kept in order
+          const steps = row.orderItems.split(';').map(step => step.trim()).filter(step => step);
+          if (steps.length < MIN_ORDERING_ITEMS) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Ordering questions must have at least ${MIN_ORDERING_ITEMS} steps in orderItems (separated by semicolons)`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+
+          const { items, correctOrder } = buildOrderingItems(steps);
+          questionMetadata = { items };
+          const partialCreditValue = String(row.partialCredit || '').trim().toLowerCase();
+          if (partialCreditValue === 'true' || partialCreditValue === 'yes' || partialCreditValue === 'per_part') {
+            questionMetadata.partialCredit = { policy: 'per_part' };
+          }
+          correctAnswerJSON = JSON.stringify(correctOrder);
+          correctOptionIndices = [correctOrder[0]]; // First step's index for backward compatibility
+        } else if (isCategorize) {
+          // For Categorize: categories and categoryItems are comma-separated lists
+          // itemCategories format: "0-0,1-1,2-0" (itemIndex-categoryIndex, one pair per item)
+          const categories = row.categories.split(',').map(category => category.trim()).filter(category => category);
+          const items = row.categoryItems.split(',').map(item => item.trim()).filter(item => item);
+          if (categories.length < MIN_CATEGORIES || items.length < MIN_CATEGORIZE_ITEMS) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Categorize questions must have at least ${MIN_CATEGORIES} categories and ${MIN_CATEGORIZE_ITEMS} categoryItems`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+
+          const placement = new Array(items.length).fill(null);
+          let placementError = null;
+          for (const pairStr of row.itemCategories.split(',').map(p => p.trim()).filter(p => p)) {
+            const parts = pairStr.split('-');
+            const itemIdx = parseInt(parts[0]);
+            const categoryIdx = parseInt(parts[1]);
+            if (parts.length !== 2 || isNaN(itemIdx) || isNaN(categoryIdx)) {
+              placementError = `Invalid itemCategories format: '${pairStr}'. Expected format: "itemIndex-categoryIndex" (e.g., "0-0,1-1")`;
+              break;
+            }
+            if (itemIdx < 0 || itemIdx >= items.length || categoryIdx < 0 || categoryIdx >= categories.length) {
+              placementError = `Pair '${pairStr}' has out-of-range indices. Item index must be 0-${items.length - 1}, category index must be 0-${categories.length - 1}`;
+              break;
+            }
+            placement[itemIdx] = categoryIdx;
+          }
+          if (!placementError && placement.includes(null)) {
+            placementError = `itemCategories must give a category for every item (${items.length} items)`;
+          }
+          if (placementError) {
+            results.errors.push({ row: rowNumber, error: placementError, data: row });
+            results.summary.failed++;
+            continue;
+          }
+
+          questionMetadata = { categories, items };
+          const partialCreditValue = String(row.partialCredit || '').trim().toLowerCase();
+          if (partialCreditValue === 'true' || partialCreditValue === 'yes' || partialCreditValue === 'per_part') {
+            questionMetadata.partialCredit = { policy: 'per_part' };
+          }
+          correctAnswerJSON = JSON.stringify(placement);
+          correctOptionIndices = [placement[0]]; // First item's category for backward compatibility
+        } else if (isFillInBlank) {
           // For FillInBlank: parse blankOptions and blankCorrects
           // blankOptions format: "opt1,opt2,opt3;opt1,opt2,opt3" (semicolon separates blanks)
           // blankCorrects format: "A;B" or "0;1" (semicolon separates correct answers)
@@ -3848,12 +4890,65 @@ export const importQuestionsFromCSV = async (req, res) => {
           continue;
         }
 
+        // Rows with an id (from a CSV export of the bank) update that question instead of adding a new one
+        let existingQuestion = null;
+        if (row.id !== undefined && row.id !== null && String(row.id).trim() !== '') {
+          const existingId = Number(String(row.id).trim());
+          const existingQuestions = Number.isInteger(existingId) && existingId > 0
+            ? await executeQuery(`SELECT id, subject_id, grade_id, status, ${VERSIONED_FIELDS.join(', ')} FROM questions WHERE id = ?`, [existingId])
+            : [];
+          if (existingQuestions.length === 0) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Question ${row.id} not found; clear the id column to import this row as a new question`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+          existingQuestion = existingQuestions[0];
+          if (updatedRows.has(existingQuestion.id)) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Question ${existingQuestion.id} is also updated on row ${updatedRows.get(existingQuestion.id)}`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+          updatedRows.set(existingQuestion.id, rowNumber);
+          if ((existingQuestion.question_type || 'MCQ') !== qType) {
+            results.errors.push({
+              row: rowNumber,
+              error: `Question ${existingQuestion.id} is a ${existingQuestion.question_type || 'MCQ'} question and cannot be updated from a ${qType} row`,
+              data: row
+            });
+            results.summary.failed++;
+            continue;
+          }
+
+          // Unedited question text keeps its stored HTML; edited text is imported like a new row's
+          if (csvComparableText(existingQuestion.question_text) === csvComparableText(row.questionText)) {
+            questionText = existingQuestion.question_text;
+          }
+          // Settings the template has no column for (e.g. partial credit of Multiple Select) are kept;
+          // Ordering and Categorize rows set their partial credit in the partialCredit column
+          const existingMetadata = parseVersionJson(existingQuestion.question_metadata);
+          if (existingMetadata && typeof existingMetadata === 'object') {
+            const mergedMetadata = { ...existingMetadata, ...(questionMetadata || {}) };
+            if ((isOrdering || isCategorize) && !questionMetadata.partialCredit) {
+              delete mergedMetadata.partialCredit;
+            }
+            questionMetadata = mergedMetadata;
+          }
+        }
+
         // Create options array (empty for text-based, FillInBlank, and Matching questions)
         // For TrueFalse, options are always ['True', 'False']
         let options = [];
         if (isTrueFalse) {
           options = ['True', 'False'];
-        } else if (isTextBased || isFillInBlank || isMatching) {
+        } else if (isTextBased || isFillInBlank || isMatching || isNumericEntry || isOrdering || isCategorize) {
           options = [];
         } else {
           options = [optionA, optionB, optionC, optionD];
@@ -3862,21 +4957,15 @@ export const importQuestionsFromCSV = async (req, res) => {
         // Store correct answer and metadata based on question type
         const correctOptionIndex = correctOptionIndices[0];
         let finalCorrectAnswer = null;
-        if (isMultipleSelect || isMatching || isTrueFalse) {
+        if (isMultipleSelect || isMatching || isTrueFalse || isNumericEntry || isOrdering || isCategorize || (isFillInBlank && existingQuestion)) {
           finalCorrectAnswer = correctAnswerJSON;
         }
         const finalQuestionMetadata = questionMetadata ? JSON.stringify(questionMetadata) : null;
 
-        // Insert question - set dok_level for all question types (required for ShortAnswer/Essay, optional for others)
+        // dok_level is set for all question types (required for ShortAnswer/Essay, optional for others)
         const finalDokLevel = dokLevel !== null && !isNaN(dokLevel) ? dokLevel : null;
-        const insertResult = await executeQuery(
-          'INSERT INTO questions (subject_id, grade_id, question_text, question_type, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [subjectId, gradeId, questionText, qType, JSON.stringify(options), correctOptionIndex, finalCorrectAnswer, finalQuestionMetadata, difficultyLevel, finalDokLevel, standard, contentFocus, userId]
-        );
-
-        const newQuestionId = insertResult.insertId;
 
-        // Process competency codes and create relationships
+        // Match competency codes; every code in the row must exist
         const competencyIds = [];
         const foundCompetencies = [];
         const notFoundCompetencies = [];
@@ -3891,21 +4980,52 @@ export const importQuestionsFromCSV = async (req, res) => {
           }
         }
 
-        // Insert competency relationships with equal weight distribution
-        if (competencyIds.length > 0) {
-          const weightPerCompetency = 100 / competencyIds.length; // Distribute weight equally
-          
-          for (const competencyId of competencyIds) {
-            await executeQuery(
-              'INSERT INTO questions_competencies (question_id, competency_id, weight) VALUES (?, ?, ?)',
-              [newQuestionId, competencyId, weightPerCompetency]
-            );
-          }
+        if (notFoundCompetencies.length > 0) {
+          results.errors.push({
+            row: rowNumber,
+            error: `Competency code${notFoundCompetencies.length === 1 ? '' : 's'} not found: ${notFoundCompetencies.join(', ')}`,
+            data: row
+          });
+          results.summary.failed++;
+          continue;
+        }
+
+        // An updated question keeps its content and competencies when the row matches them
+        let action = 'created';
+        let contentChanged = true;
+        let linkCompetencies = true;
+        if (existingQuestion) {
+          const contentUnchanged =
+            existingQuestion.subject_id === subjectId &&
+            existingQuestion.grade_id === gradeId &&
+            existingQuestion.question_text === questionText &&
+            JSON.stringify(parseVersionJson(existingQuestion.options) ?? []) === JSON.stringify(options) &&
+            Number(existingQuestion.correct_option_index) === Number(correctOptionIndex) &&
+            (existingQuestion.correct_answer ?? null) === finalCorrectAnswer &&
+            JSON.stringify(parseVersionJson(existingQuestion.question_metadata)) === JSON.stringify(questionMetadata) &&
+            existingQuestion.difficulty_level === difficultyLevel &&
+            (existingQuestion.dok_level ?? null) === finalDokLevel &&
+            (existingQuestion.standard || null) === standard &&
+            (existingQuestion.content_focus || null) === contentFocus;
+
+          const currentLinks = await executeQuery('SELECT competency_id FROM questions_competencies WHERE question_id = ?', [existingQuestion.id]);
+          const currentIds = currentLinks.map(link => link.competency_id).sort((a, b) => a - b);
+          const rowIds = [...new Set(competencyIds)].sort((a, b) => a - b);
+          linkCompetencies = currentIds.join(',') !== rowIds.join(',');
+
+          contentChanged = !contentUnchanged;
+          action = contentChanged || linkCompetencies ? 'updated' : 'unchanged';
         }
 
         // Format correct answer for display
         let correctAnswerDisplay = '-';
-        if (isFillInBlank) {
+        if (isNumericEntry) {
+          correctAnswerDisplay = describeNumericKey(correctAnswerJSON, questionMetadata);
+        } else if (isOrdering) {
+          correctAnswerDisplay = describeOrdering(correctAnswerJSON, questionMetadata);
+        } else if (isCategorize) {
+          correctAnswerDisplay = describeCategorize(correctAnswerJSON, questionMetadata);
+        } else if (isFillInBlank) {
           correctAnswerDisplay = row.blankCorrects || '-';
         } else if (isTextBased) {
           correctAnswerDisplay = description || 'AI Graded';
@@ -3919,21 +5039,32 @@ export const importQuestionsFromCSV = async (req, res) => {
           correctAnswerDisplay = ['A', 'B', 'C', 'D'][correctOptionIndex];
         }
 
-        results.success.push({
-          row: rowNumber,
-          questionId: newQuestionId,
-          questionText,
-          subjectName: subjects.find(s => s.id === subjectId)?.name,
-          gradeName: grades.find(g => g.id === gradeId)?.display_name,
-          correctAnswer: correctAnswerDisplay,
+        plans.push({
+          existingQuestion,
+          action,
+          contentChanged,
+          linkCompetencies,
+          values: [subjectId, gradeId, questionText, JSON.stringify(options), correctOptionIndex, finalCorrectAnswer, finalQuestionMetadata, difficultyLevel, finalDokLevel, standard, contentFocus],
+          qType,
           difficultyLevel,
-          competencyCount: competencyIds.length,
-          foundCompetencies,
-          notFoundCompetencies
+          competencyIds,
+          result: {
+            row: rowNumber,
+            questionId: existingQuestion ? existingQuestion.id : null,
+            action,
+            // Approved questions the row changes go back to review, like an edit in the question form
+            sentBackToReview: !!existingQuestion && contentChanged && existingQuestion.status === 'approved',
+            questionText,
+            subjectName: subjects.find(s => s.id === subjectId)?.name,
+            gradeName: grades.find(g => g.id === gradeId)?.display_name,
+            correctAnswer: correctAnswerDisplay,
+            difficultyLevel,
+            competencyCount: competencyIds.length,
+            foundCompetencies,
+            notFoundCompetencies
+          }
         });
 
-        results.summary.successful++;
-
       } catch (error) {
         console.error(`Error processing row ${rowNumber}:`, error);
         results.errors.push({
@@ -3945,6 +5076,102 @@ export const importQuestionsFromCSV = async (req, res) => {
       }
     }
 
+    const countRows = () => {
+      results.summary.successful = results.success.length;
+      results.summary.updated = results.success.filter(item => item.action === 'updated').length;
+      results.summary.unchanged = results.success.filter(item => item.action === 'unchanged').length;
+      results.summary.sentBackToReview = results.success.filter(item => item.sentBackToReview).length;
+    };
+
+    // Dry runs and files with errors stop here; success lists the rows that are ready to import
+    if (dryRun || results.errors.length > 0) {
+      results.success = plans.map(plan => plan.result);
+      countRows();
+      if (dryRun) {
+        return res.json({
+          message: 'CSV validation completed',
+          dryRun: true,
+          results
+        });
+      }
+      return res.status(422).json({
+        error: `${results.errors.length} row${results.errors.length === 1 ? ' has' : 's have'} errors; no questions were imported`,
+        code: 'CSV_VALIDATION_FAILED',
+        results
+      });
+    }
+
+    let currentRow = null;
+    try {
+      await withTransaction(async (query) => {
+        for (const plan of plans) {
+          currentRow = plan.result.row;
+          let questionId = plan.result.questionId;
+
+          if (!plan.existingQuestion) {
+            const insertResult = await query(
+              'INSERT INTO questions (subject_id, grade_id, question_text, options, correct_option_index, correct_answer, question_metadata, difficulty_level, dok_level, standard, content_focus, question_type, created_by, status) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [...plan.values, plan.qType, userId, INITIAL_QUESTION_STATUS]
+            );
+            questionId = insertResult.insertId;
+            await recordQuestionVersion(questionId, { changeType: 'created', createdBy: userId }, query);
+          } else if (plan.contentChanged) {
+            // Same bookkeeping as an edit in the question form: the content becomes a new version
+            // and an approved question goes back to review
+            await query(
+              'UPDATE questions SET subject_id = ?, grade_id = ?, question_text = ?, options = ?, correct_option_index = ?, correct_answer = ?, question_metadata = ?, difficulty_level = ?, dok_level = ?, standard = ?, content_focus = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+              [...plan.values, questionId]
+            );
+            await recordQuestionVersion(questionId, { changeType: 'edited', createdBy: userId }, query);
+            await reopenReviewAfterEdit({
+              questionId,
+              status: plan.existingQuestion.status,
+              userId,
+              comment: 'Content edited by CSV import after approval'
+            }, query);
+
+            const previousDifficulty = plan.existingQuestion.difficulty_level;
+            if (previousDifficulty !== plan.difficultyLevel) {
+              await recordDifficultyChange({
+                questionId,
+                oldDifficulty: previousDifficulty,
+                newDifficulty: plan.difficultyLevel,
+                source: 'manual',
+                changedBy: userId
+              }, query);
+              await query(
+                "UPDATE item_calibration_proposals SET status = 'superseded' WHERE question_id = ? AND status = 'pending'",
+                [questionId]
+              );
+            }
+          }
+
+          // Insert competency relationships with equal weight distribution (replacing an updated question's links)
+          if (plan.linkCompetencies) {
+            if (plan.existingQuestion) {
+              await query('DELETE FROM questions_competencies WHERE question_id = ?', [questionId]);
+            }
+            const weightPerCompetency = 100 / plan.competencyIds.length; // Distribute weight equally
+            for (const competencyId of plan.competencyIds) {
+              await query(
+                'INSERT INTO questions_competencies (question_id, competency_id, weight) VALUES (?, ?, ?)',
+                [questionId, competencyId, weightPerCompetency]
+              );
+            }
+          }
+
+          results.success.push({ ...plan.result, questionId });
+        }
+      });
+    } catch (error) {
+      console.error(`Error importing questions from CSV (row ${currentRow}), rolled back:`, error);
+      return res.status(500).json({
+        error: `Row ${currentRow} could not be saved (${error.message || 'unknown error'}); the import was rolled back and no questions were imported`,
+        code: 'CSV_IMPORT_ROLLED_BACK'
+      });
+    }
+    countRows();
+
     res.json({
       message: 'CSV import completed',
       results
@@ -4078,12 +5305,16 @@ export const getStudentAssessmentResponses = async (req, res) => {
         a.subject_id,
         a.assessment_period,
         a.rit_score,
+        a.rit_standard_error,
+        a.stop_reason,
         a.correct_answers,
         a.total_questions,
         a.date_taken,
         a.duration_minutes,
         a.year,
         a.assessment_mode,
+        a.paused_seconds,
+        a.accommodations,
         s.name as subject_name,
         u.first_name,
         u.last_name,
@@ -4147,22 +5378,33 @@ export const getStudentAssessmentResponses = async (req, res) => {
       SELECT 
         ar.question_order,
         ar.is_correct,
+        ar.score,
         ar.question_difficulty,
-        q.question_text,
-        q.options,
+        ${versionedColumn('question_text')},
+        ${versionedColumn('options')},
         ar.selected_option_index,
-        q.correct_option_index,
-        q.correct_answer,
-        q.question_type,
-        q.question_metadata,
+        ${versionedColumn('correct_option_index')},
+        ${versionedColumn('correct_answer')},
+        ${versionedColumn('question_type')},
+        ${versionedColumn('question_metadata')},
         ar.ai_grading_result,
-        q.id as question_id
+        q.id as question_id,
+        qv.version_number as question_version
       FROM assessment_responses ar
       JOIN questions q ON ar.question_id = q.id
+      ${RESPONSE_VERSION_JOIN_SQL}
       WHERE ar.assessment_id = ?
       ORDER BY ar.question_order
     `, [assessmentId]);
 
+    // Pause log for proctor review
+    const pauses = await executeQuery(`
+      SELECT paused_at, resumed_at, credited_seconds, reason
+      FROM assessment_pauses
+      WHERE assessment_id = ?
+      ORDER BY paused_at ASC
+    `, [assessmentId]);
+
     // Calculate statistics
     const totalQuestions = assessment.total_questions;
     const correctAnswers = assessment.correct_answers;
@@ -4413,6 +5655,20 @@ export const getStudentAssessmentResponses = async (req, res) => {
             formattedCorrectAnswer = options[Number(response.correct_option_index)] || 'N/A';
           }
         }
+      } else if (response.question_type === 'NumericEntry') {
+        formattedSelectedAnswer = response.selected_option_index !== null && response.selected_option_index !== undefined
+          ? String(response.selected_option_index).trim() || 'N/A'
+          : 'N/A';
+        formattedCorrectAnswer = describeNumericKey(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Ordering') {
+        formattedSelectedAnswer = describeOrdering(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeOrdering(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Hotspot') {
+        formattedSelectedAnswer = describeHotspotClick(response.selected_option_index);
+        formattedCorrectAnswer = describeHotspotRegions(response.correct_answer);
+      } else if (response.question_type === 'Categorize') {
+        formattedSelectedAnswer = describeCategorize(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeCategorize(response.correct_answer, questionMetadata);
       } else if (response.question_type === 'ShortAnswer' || response.question_type === 'Essay') {
         if (response.selected_option_index && typeof response.selected_option_index === 'string') {
           formattedSelectedAnswer = response.selected_option_index.trim();
@@ -4465,7 +5721,9 @@ export const getStudentAssessmentResponses = async (req, res) => {
       return {
         questionNumber: response.question_order,
         isCorrect: response.is_correct,
+        score: responseScore(response),
         difficulty: response.question_difficulty,
+        questionVersion: response.question_version || null,
         questionText: processedQuestionText,
         questionType: response.question_type,
         options: processedOptions,
@@ -4495,14 +5753,26 @@ export const getStudentAssessmentResponses = async (req, res) => {
         dateTaken: assessment.date_taken,
         duration: assessment.duration_minutes,
         mode: assessment.assessment_mode || 'Adaptive',
+        stopReason: assessment.stop_reason || null,
+        pausedSeconds: assessment.paused_seconds || 0,
+        accommodations: assessment.accommodations ? parseAccommodations(assessment.accommodations) : null,
         studentName: `${assessment.first_name || ''} ${assessment.last_name || ''}`.trim() || assessment.username
       },
+      pauses: pauses.map(pause => ({
+        pausedAt: pause.paused_at,
+        resumedAt: pause.resumed_at,
+        creditedSeconds: pause.credited_seconds,
+        reason: pause.reason
+      })),
       statistics: {
         totalQuestions,
         correctAnswers,
         incorrectAnswers,
         previousRIT,
         currentRIT,
+        standardError: assessment.rit_standard_error !== null && assessment.rit_standard_error !== undefined
+          ? Number(assessment.rit_standard_error)
+          : null,
         accuracy: Math.round((correctAnswers / totalQuestions) * 100)
       },
       responses: formattedResponses,
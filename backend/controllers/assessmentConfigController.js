@@ -1,4 +1,44 @@
 import { executeQuery } from '../config/database.js';
+import { parseCompetencyBlueprint, validateCompetencyBlueprint } from '../utils/contentBalancing.js';
+import { DEFAULT_MAX_PAUSE_MINUTES } from '../utils/assessmentTimer.js';
+
+// Validate adaptive stopping rules: questionCount is the maximum test length,
+// minQuestionCount and targetStandardError are optional
+const validateStoppingRules = ({ questionCount, minQuestionCount, targetStandardError }) => {
+  if (minQuestionCount !== null && minQuestionCount !== undefined && minQuestionCount !== '') {
+    const min = Number(minQuestionCount);
+    if (!Number.isInteger(min) || min < 1) {
+      return { error: 'Minimum question count must be a positive whole number', code: 'INVALID_MIN_QUESTIONS' };
+    }
+    if (questionCount && min > Number(questionCount)) {
+      return { error: 'Minimum question count cannot exceed the maximum question count', code: 'INVALID_MIN_QUESTIONS' };
+    }
+  }
+
+  if (targetStandardError !== null && targetStandardError !== undefined && targetStandardError !== '') {
+    const se = Number(targetStandardError);
+    if (!Number.isFinite(se) || se <= 0) {
+      return { error: 'Target standard error must be a positive number', code: 'INVALID_TARGET_SE' };
+    }
+  }
+
+  return null;
+};
+
+// Validate the maximum total pause time per test event (0 disables pausing)
+const validateMaxPauseMinutes = (maxPauseMinutes) => {
+  const minutes = Number(maxPauseMinutes);
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > 240) {
+    return { error: 'Maximum pause time must be a whole number of minutes between 0 and 240', code: 'INVALID_MAX_PAUSE' };
+  }
+  return null;
+};
+
+// Convert a configuration row for the API (the blueprint is stored as JSON)
+const formatConfiguration = (config) => ({
+  ...config,
+  competencyBlueprint: parseCompetencyBlueprint(config.competencyBlueprint)
+});
 
 // Get all assessment configurations
 export const getAllConfigurations = async (req, res) => {
@@ -10,6 +50,10 @@ export const getAllConfigurations = async (req, res) => {
         ac.subject_id as subjectId,
         ac.time_limit_minutes as timeLimitMinutes,
         ac.question_count as questionCount,
+        ac.min_question_count as minQuestionCount,
+        ac.target_standard_error as targetStandardError,
+        ac.competency_blueprint as competencyBlueprint,
+        ac.max_pause_minutes as maxPauseMinutes,
         ac.is_active as isActive,
         ac.default_mode as defaultMode,
         ac.created_at as createdAt,
@@ -22,7 +66,7 @@ export const getAllConfigurations = async (req, res) => {
       ORDER BY g.grade_level ASC, s.name ASC
     `);
 
-    res.json(configurations);
+    res.json(configurations.map(formatConfiguration));
   } catch (error) {
     console.error('Error fetching assessment configurations:', error);
     res.status(500).json({
@@ -44,6 +88,10 @@ export const getConfigurationById = async (req, res) => {
         ac.subject_id as subjectId,
         ac.time_limit_minutes as timeLimitMinutes,
         ac.question_count as questionCount,
+        ac.min_question_count as minQuestionCount,
+        ac.target_standard_error as targetStandardError,
+        ac.competency_blueprint as competencyBlueprint,
+        ac.max_pause_minutes as maxPauseMinutes,
         ac.is_active as isActive,
         ac.default_mode as defaultMode,
         ac.created_at as createdAt,
@@ -63,7 +111,7 @@ export const getConfigurationById = async (req, res) => {
       });
     }
 
-    res.json(configurations[0]);
+    res.json(formatConfiguration(configurations[0]));
   } catch (error) {
     console.error('Error fetching assessment configuration:', error);
     res.status(500).json({
@@ -85,6 +133,10 @@ export const getConfigurationByGradeSubject = async (req, res) => {
         ac.subject_id as subjectId,
         ac.time_limit_minutes as timeLimitMinutes,
         ac.question_count as questionCount,
+        ac.min_question_count as minQuestionCount,
+        ac.target_standard_error as targetStandardError,
+        ac.competency_blueprint as competencyBlueprint,
+        ac.max_pause_minutes as maxPauseMinutes,
         ac.is_active as isActive,
         ac.default_mode as defaultMode,
         ac.created_at as createdAt,
@@ -104,7 +156,7 @@ export const getConfigurationByGradeSubject = async (req, res) => {
       });
     }
 
-    res.json(configurations[0]);
+    res.json(formatConfiguration(configurations[0]));
   } catch (error) {
     console.error('Error fetching assessment configuration:', error);
     res.status(500).json({
@@ -117,7 +169,7 @@ export const getConfigurationByGradeSubject = async (req, res) => {
 // Create new assessment configuration
 export const createConfiguration = async (req, res) => {
   try {
-    const { gradeId, subjectId, timeLimitMinutes, questionCount, isActive = true, defaultMode = 'Adaptive' } = req.body;
+    const { gradeId, subjectId, timeLimitMinutes, questionCount, minQuestionCount = null, targetStandardError = null, competencyBlueprint = null, maxPauseMinutes = DEFAULT_MAX_PAUSE_MINUTES, isActive = true, defaultMode = 'Adaptive' } = req.body;
 
     // Validate required fields
     if (!gradeId || !subjectId || !timeLimitMinutes || !questionCount) {
@@ -127,6 +179,21 @@ export const createConfiguration = async (req, res) => {
       });
     }
 
+    const stoppingRuleError = validateStoppingRules({ questionCount, minQuestionCount, targetStandardError });
+    if (stoppingRuleError) {
+      return res.status(400).json(stoppingRuleError);
+    }
+
+    const blueprintError = validateCompetencyBlueprint(competencyBlueprint);
+    if (blueprintError) {
+      return res.status(400).json(blueprintError);
+    }
+
+    const maxPauseError = validateMaxPauseMinutes(maxPauseMinutes);
+    if (maxPauseError) {
+      return res.status(400).json(maxPauseError);
+    }
+
     // Check if configuration already exists for this grade-subject combination
     const existingConfig = await executeQuery(`
       SELECT id FROM assessment_configurations 
@@ -161,9 +228,9 @@ export const createConfiguration = async (req, res) => {
     // Create configuration
     const result = await executeQuery(`
       INSERT INTO assessment_configurations 
-      (grade_id, subject_id, time_limit_minutes, question_count, is_active, default_mode) 
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, [gradeId, subjectId, timeLimitMinutes, questionCount, isActive, defaultMode]);
+      (grade_id, subject_id, time_limit_minutes, question_count, min_question_count, target_standard_error, competency_blueprint, max_pause_minutes, is_active, default_mode) 
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [gradeId, subjectId, timeLimitMinutes, questionCount, minQuestionCount || null, targetStandardError || null, competencyBlueprint?.length ? JSON.stringify(competencyBlueprint) : null, Number(maxPauseMinutes), isActive, defaultMode]);
 
     const newConfig = await executeQuery(`
       SELECT 
@@ -172,6 +239,10 @@ export const createConfiguration = async (req, res) => {
         ac.subject_id as subjectId,
         ac.time_limit_minutes as timeLimitMinutes,
         ac.question_count as questionCount,
+        ac.min_question_count as minQuestionCount,
+        ac.target_standard_error as targetStandardError,
+        ac.competency_blueprint as competencyBlueprint,
+        ac.max_pause_minutes as maxPauseMinutes,
         ac.is_active as isActive,
         ac.default_mode as defaultMode,
         ac.created_at as createdAt,
@@ -184,7 +255,7 @@ export const createConfiguration = async (req, res) => {
       WHERE ac.id = ?
     `, [result.insertId]);
 
-    res.status(201).json(newConfig[0]);
+    res.status(201).json(formatConfiguration(newConfig[0]));
   } catch (error) {
     console.error('Error creating assessment configuration:', error);
     res.status(500).json({
@@ -198,7 +269,22 @@ export const createConfiguration = async (req, res) => {
 export const updateConfiguration = async (req, res) => {
   try {
     const { id } = req.params;
-    const { gradeId, subjectId, timeLimitMinutes, questionCount, isActive, defaultMode } = req.body;
+    const { gradeId, subjectId, timeLimitMinutes, questionCount, minQuestionCount = null, targetStandardError = null, competencyBlueprint = null, maxPauseMinutes = DEFAULT_MAX_PAUSE_MINUTES, isActive, defaultMode } = req.body;
+
+    const stoppingRuleError = validateStoppingRules({ questionCount, minQuestionCount, targetStandardError });
+    if (stoppingRuleError) {
+      return res.status(400).json(stoppingRuleError);
+    }
+
+    const blueprintError = validateCompetencyBlueprint(competencyBlueprint);
+    if (blueprintError) {
+      return res.status(400).json(blueprintError);
+    }
+
+    const maxPauseError = validateMaxPauseMinutes(maxPauseMinutes);
+    if (maxPauseError) {
+      return res.status(400).json(maxPauseError);
+    }
 
     // Check if configuration exists
     const existingConfig = await executeQuery(`
@@ -231,9 +317,10 @@ export const updateConfiguration = async (req, res) => {
     await executeQuery(`
       UPDATE assessment_configurations 
       SET grade_id = ?, subject_id = ?, time_limit_minutes = ?, 
-          question_count = ?, is_active = ?, default_mode = ?, updated_at = CURRENT_TIMESTAMP
+          question_count = ?, min_question_count = ?, target_standard_error = ?,
+          competency_blueprint = ?, max_pause_minutes = ?, is_active = ?, default_mode = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
-    `, [gradeId, subjectId, timeLimitMinutes, questionCount, isActive, defaultMode || 'Adaptive', id]);
+    `, [gradeId, subjectId, timeLimitMinutes, questionCount, minQuestionCount || null, targetStandardError || null, competencyBlueprint?.length ? JSON.stringify(competencyBlueprint) : null, Number(maxPauseMinutes), isActive, defaultMode || 'Adaptive', id]);
 
     // Get updated configuration
     const updatedConfig = await executeQuery(`
@@ -243,6 +330,10 @@ export const updateConfiguration = async (req, res) => {
         ac.subject_id as subjectId,
         ac.time_limit_minutes as timeLimitMinutes,
         ac.question_count as questionCount,
+        ac.min_question_count as minQuestionCount,
+        ac.target_standard_error as targetStandardError,
+        ac.competency_blueprint as competencyBlueprint,
+        ac.max_pause_minutes as maxPauseMinutes,
         ac.is_active as isActive,
         ac.default_mode as defaultMode,
         ac.created_at as createdAt,
@@ -255,7 +346,7 @@ export const updateConfiguration = async (req, res) => {
       WHERE ac.id = ?
     `, [id]);
 
-    res.json(updatedConfig[0]);
+    res.json(formatConfiguration(updatedConfig[0]));
   } catch (error) {
     console.error('Error updating assessment configuration:', error);
     res.status(500).json({
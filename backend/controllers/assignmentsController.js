@@ -1,5 +1,17 @@
 import { executeQuery, getConnection } from '../config/database.js';
 
+// Question IDs from the list that have not been approved for students (draft, in review or retired)
+const findUnapprovedQuestions = async (questionIds) => {
+  if (!questionIds || questionIds.length === 0) return [];
+  const placeholders = questionIds.map(() => '?').join(',');
+  const approved = await executeQuery(
+    `SELECT id FROM questions WHERE id IN (${placeholders}) AND status = 'approved'`,
+    questionIds
+  );
+  const approvedIds = new Set(approved.map(row => row.id));
+  return questionIds.filter(questionId => !approvedIds.has(Number(questionId)));
+};
+
 // Create a new assignment (Standard or Adaptive)
 export const createAssignment = async (req, res) => {
   try {
@@ -21,6 +33,16 @@ export const createAssignment = async (req, res) => {
       });
     }
 
+    if (mode === 'Standard') {
+      const unapproved = await findUnapprovedQuestions(questions);
+      if (unapproved.length > 0) {
+        return res.status(400).json({
+          error: `Only approved questions can be assigned (not approved: ${unapproved.join(', ')})`,
+          code: 'QUESTIONS_NOT_APPROVED'
+        });
+      }
+    }
+
     // Validate general data
     if (!general.title || !general.subjectId || !general.gradeId) {
       return res.status(400).json({
@@ -347,6 +369,19 @@ export const updateAssignment = async (req, res) => {
       });
     }
 
+    // Questions already on the assignment may stay after being retired; newly added ones must be approved
+    if (questions && Array.isArray(questions)) {
+      const current = await executeQuery('SELECT question_id FROM assignment_questions WHERE assignment_id = ?', [id]);
+      const currentIds = new Set(current.map(row => row.question_id));
+      const unapproved = await findUnapprovedQuestions(questions.filter(questionId => !currentIds.has(Number(questionId))));
+      if (unapproved.length > 0) {
+        return res.status(400).json({
+          error: `Only approved questions can be assigned (not approved: ${unapproved.join(', ')})`,
+          code: 'QUESTIONS_NOT_APPROVED'
+        });
+      }
+    }
+
     const connection = await getConnection();
 
     try {
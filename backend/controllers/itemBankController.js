@@ -0,0 +1,825 @@
+import { executeQuery, withTransaction } from '../config/database.js';
+import { exposureRate, MAX_EXPOSURE_RATE } from '../utils/exposureControl.js';
+import {
+  runItemCalibration,
+  recordDifficultyChange,
+  MIN_CALIBRATION_RESPONSES,
+  CALIBRATION_THRESHOLD
+} from '../utils/itemCalibration.js';
+import { responseScore } from '../utils/partialCredit.js';
+import {
+  analyzeItem,
+  parseSelectedOptions,
+  MIN_ANALYSIS_RESPONSES,
+  DEAD_DISTRACTOR_SHARE
+} from '../utils/itemAnalysis.js';
+import { mantelHaenszel, DIF_STRATUM_WIDTH, MIN_GROUP_RESPONSES } from '../utils/difAnalysis.js';
+import {
+  loadComparableQuestions,
+  findDuplicatePairs,
+  formatSimilarQuestion,
+  SIMILARITY_THRESHOLD
+} from '../utils/questionSimilarity.js';
+import { recordReviewEntry } from '../utils/questionWorkflow.js';
+import { recordQuestionVersion, versionedColumn, RESPONSE_VERSION_JOIN_SQL } from '../utils/questionVersions.js';
+
+// Seeded random number generator for deterministic shuffling (for option shuffling)
+function seededRandom(seed) {
+  let value = seed;
+  return function() {
+    value = (value * 9301 + 49297) % 233280;
+    return value / 233280;
+  };
+}
+
+// Deterministic shuffle function using a seed
+function shuffleWithSeed(array, seed) {
+  const rng = seededRandom(seed);
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const parseJson = (value, fallback) => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+// Get items ranked by how often adaptive tests have shown them
+export const getExposureReport = async (req, res) => {
+  try {
+    const { subjectId, gradeId } = req.query;
+    const minRate = req.query.minRate !== undefined ? Number(req.query.minRate) : MAX_EXPOSURE_RATE;
+
+    if (!Number.isFinite(minRate) || minRate < 0 || minRate > 1) {
+      return res.status(400).json({
+        error: 'Minimum exposure rate must be between 0 and 1',
+        code: 'INVALID_MIN_RATE'
+      });
+    }
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+    if (subjectId) {
+      whereClause += ' AND q.subject_id = ?';
+      params.push(subjectId);
+    }
+    if (gradeId) {
+      whereClause += ' AND q.grade_id = ?';
+      params.push(gradeId);
+    }
+
+    const items = await executeQuery(`
+      SELECT
+        q.id,
+        q.question_text,
+        q.question_type,
+        q.difficulty_level,
+        q.subject_id,
+        s.name as subject_name,
+        q.grade_id,
+        g.display_name as grade_name,
+        qe.exposure_count,
+        qe.last_exposed_at,
+        t.tests_administered
+      FROM question_exposure qe
+      JOIN questions q ON qe.question_id = q.id
+      JOIN subjects s ON q.subject_id = s.id
+      LEFT JOIN grades g ON q.grade_id = g.id
+      -- An item is served only to tests of its grade, so its rate is over those tests;
+      -- items without a grade are served to every grade and count the whole subject
+      JOIN (
+        SELECT subject_id, grade_id, COUNT(*) as tests_administered
+        FROM assessments
+        WHERE assessment_mode = 'Adaptive' AND grade_id IS NOT NULL
+        GROUP BY subject_id, grade_id
+        UNION ALL
+        SELECT subject_id, NULL, COUNT(*)
+        FROM assessments
+        WHERE assessment_mode = 'Adaptive'
+        GROUP BY subject_id
+      ) t ON t.subject_id = q.subject_id AND t.grade_id <=> q.grade_id
+      ${whereClause}
+      ORDER BY qe.exposure_count / t.tests_administered DESC, qe.exposure_count DESC
+    `, params);
+
+    const report = items
+      .map(item => {
+        const rate = exposureRate(item.exposure_count, item.tests_administered);
+        return {
+          questionId: item.id,
+          questionText: item.question_text,
+          questionType: item.question_type || 'MCQ',
+          difficultyLevel: item.difficulty_level,
+          subjectId: item.subject_id,
+          subjectName: item.subject_name,
+          gradeId: item.grade_id,
+          gradeName: item.grade_name,
+          exposureCount: item.exposure_count,
+          testsAdministered: item.tests_administered,
+          exposureRate: Math.round(rate * 1000) / 1000,
+          overExposed: rate >= MAX_EXPOSURE_RATE,
+          lastExposedAt: item.last_exposed_at
+        };
+      })
+      .filter(item => item.exposureRate >= minRate);
+
+    res.json({
+      maxExposureRate: MAX_EXPOSURE_RATE,
+      minRate,
+      items: report
+    });
+  } catch (error) {
+    console.error('Error fetching item exposure report:', error);
+    res.status(500).json({
+      error: 'Failed to fetch item exposure report',
+      code: 'FETCH_EXPOSURE_REPORT_ERROR'
+    });
+  }
+};
+
+// Classical item statistics (p-value, point-biserial, response time, distractor shares) with review flags
+export const getItemAnalysis = async (req, res) => {
+  try {
+    const { subjectId, gradeId, schoolId } = req.query;
+
+    let whereClause = 'WHERE a.rit_score IS NOT NULL';
+    const params = [];
+    if (subjectId) {
+      whereClause += ' AND q.subject_id = ?';
+      params.push(subjectId);
+    }
+    if (gradeId) {
+      whereClause += ' AND q.grade_id = ?';
+      params.push(gradeId);
+    }
+    if (schoolId) {
+      whereClause += ' AND u.school_id = ?';
+      params.push(schoolId);
+    }
+
+    const rows = await executeQuery(`
+      SELECT
+        ar.question_id,
+        ar.selected_option_index,
+        ar.is_correct,
+        ar.score,
+        ar.response_time_seconds,
+        a.rit_score,
+        a.student_id,
+        a.assignment_id,
+        asg.option_sequence,
+        q.question_text,
+        q.question_type,
+        q.options as current_options,
+        q.correct_option_index as current_correct_option_index,
+        q.correct_answer as current_correct_answer,
+        ${versionedColumn('options')},
+        ${versionedColumn('correct_option_index')},
+        ${versionedColumn('correct_answer')},
+        q.difficulty_level,
+        s.name as subject_name,
+        g.display_name as grade_name
+      FROM assessment_responses ar
+      JOIN assessments a ON ar.assessment_id = a.id
+      JOIN users u ON a.student_id = u.id
+      JOIN questions q ON ar.question_id = q.id
+      ${RESPONSE_VERSION_JOIN_SQL}
+      JOIN subjects s ON q.subject_id = s.id
+      LEFT JOIN grades g ON q.grade_id = g.id
+      LEFT JOIN assignments asg ON a.assignment_id = asg.id
+      ${whereClause}
+      ORDER BY ar.question_id
+    `, params);
+
+    // Option texts and correct indices of a question row, live or versioned
+    const optionKey = (questionType, options, correctOptionIndex, correctAnswer) => {
+      const parsed = parseJson(options, []);
+      return {
+        optionTexts: Array.isArray(parsed) ? parsed : [],
+        correctIndices: questionType === 'MultipleSelect'
+          ? parseSelectedOptions(correctAnswer)
+          : [correctOptionIndex]
+      };
+    };
+
+    const items = new Map();
+    for (const row of rows) {
+      const questionType = row.question_type || 'MCQ';
+      if (!items.has(row.question_id)) {
+        // Statistics describe the current version of the question
+        const { optionTexts, correctIndices } = optionKey(questionType, row.current_options, row.current_correct_option_index, row.current_correct_answer);
+        items.set(row.question_id, {
+          questionId: row.question_id,
+          questionText: row.question_text,
+          questionType,
+          difficultyLevel: row.difficulty_level,
+          subjectName: row.subject_name,
+          gradeName: row.grade_name,
+          optionTexts,
+          correctIndices,
+          responses: []
+        });
+      }
+
+      const item = items.get(row.question_id);
+      const answered = optionKey(questionType, row.options, row.correct_option_index, row.correct_answer);
+      let selected = parseSelectedOptions(row.selected_option_index);
+
+      // Randomised assignments store the position the student saw; map it back to the authored option
+      // of the version that was answered
+      if (row.option_sequence === 'random' && row.assignment_id && answered.optionTexts.length > 0) {
+        const seed = row.assignment_id * 1000000 + row.question_id * 1000 + row.student_id;
+        const shuffled = shuffleWithSeed(answered.optionTexts.map((opt, idx) => ({ opt, originalIdx: idx })), seed);
+        selected = selected.map(index => (shuffled[index] ? shuffled[index].originalIdx : index));
+      }
+
+      // Earlier versions count toward the option shares when they offered the same options with the same key
+      // (reordering is fine); otherwise their choices are not comparable with the current options
+      const currentIndexOf = answered.optionTexts.map(text => item.optionTexts.indexOf(text));
+      const correctTexts = indices => indices.map(index => item.optionTexts[index]).sort().join('\n');
+      const comparable = answered.optionTexts.length === item.optionTexts.length &&
+        currentIndexOf.every(index => index >= 0) &&
+        correctTexts(answered.correctIndices.map(index => currentIndexOf[index])) === correctTexts(item.correctIndices);
+      selected = comparable ? selected.map(index => currentIndexOf[index] ?? index) : null;
+
+      item.responses.push({
+        score: responseScore(row),
+        ability: Number(row.rit_score),
+        responseTime: row.response_time_seconds,
+        selected
+      });
+    }
+
+    const report = [...items.values()].map(item => {
+      const stats = analyzeItem({
+        questionType: item.questionType,
+        optionCount: item.optionTexts.length,
+        correctIndices: item.correctIndices,
+        responses: item.responses
+      });
+
+      return {
+        questionId: item.questionId,
+        questionText: item.questionText,
+        questionType: item.questionType,
+        difficultyLevel: item.difficultyLevel,
+        subjectName: item.subjectName,
+        gradeName: item.gradeName,
+        ...stats,
+        options: stats.options
+          ? stats.options.map(option => ({ ...option, text: item.optionTexts[option.index] }))
+          : null
+      };
+    });
+
+    res.json({
+      minResponses: MIN_ANALYSIS_RESPONSES,
+      deadDistractorShare: DEAD_DISTRACTOR_SHARE,
+      items: report
+    });
+  } catch (error) {
+    console.error('Error fetching item analysis:', error);
+    res.status(500).json({
+      error: 'Failed to fetch item analysis',
+      code: 'FETCH_ITEM_ANALYSIS_ERROR'
+    });
+  }
+};
+
+// Student groupings DIF can compare; each returns the group label of a response row (null = excluded)
+const DIF_GROUPINGS = {
+  school_type: row => row.school_type,
+  school: row => row.school_name,
+  accommodations: row => (row.accommodations ? 'With accommodations' : 'Without accommodations')
+};
+
+const DIF_CLASSIFICATIONS = ['A', 'B', 'C'];
+
+// Mantel-Haenszel DIF of each item between student groups, matched on Growth Metric
+export const getDifAnalysis = async (req, res) => {
+  try {
+    const { subjectId, gradeId, groupBy = 'school_type', minClassification = 'B' } = req.query;
+
+    if (!DIF_GROUPINGS[groupBy]) {
+      return res.status(400).json({
+        error: `Group by must be one of: ${Object.keys(DIF_GROUPINGS).join(', ')}`,
+        code: 'INVALID_DIF_GROUPING'
+      });
+    }
+    if (!DIF_CLASSIFICATIONS.includes(minClassification)) {
+      return res.status(400).json({
+        error: 'Minimum classification must be A, B or C',
+        code: 'INVALID_DIF_CLASSIFICATION'
+      });
+    }
+
+    let whereClause = 'WHERE a.rit_score IS NOT NULL';
+    const params = [];
+    if (subjectId) {
+      whereClause += ' AND q.subject_id = ?';
+      params.push(subjectId);
+    }
+    if (gradeId) {
+      whereClause += ' AND q.grade_id = ?';
+      params.push(gradeId);
+    }
+
+    const rows = await executeQuery(`
+      SELECT
+        ar.question_id,
+        ar.is_correct,
+        ar.score,
+        a.rit_score,
+        a.accommodations,
+        sc.name as school_name,
+        sc.school_type,
+        q.question_text,
+        q.question_type,
+        q.difficulty_level,
+        s.name as subject_name,
+        g.display_name as grade_name
+      FROM assessment_responses ar
+      JOIN assessments a ON ar.assessment_id = a.id
+      JOIN users u ON a.student_id = u.id
+      LEFT JOIN schools sc ON u.school_id = sc.id
+      JOIN questions q ON ar.question_id = q.id
+      JOIN subjects s ON q.subject_id = s.id
+      LEFT JOIN grades g ON q.grade_id = g.id
+      ${whereClause}
+        AND q.question_type NOT IN ('ShortAnswer', 'Essay')
+    `, params);
+
+    const groupOf = DIF_GROUPINGS[groupBy];
+    const items = new Map();
+    const groupSizes = new Map();
+
+    for (const row of rows) {
+      const group = groupOf(row);
+      if (!group) continue;
+
+      groupSizes.set(group, (groupSizes.get(group) || 0) + 1);
+      if (!items.has(row.question_id)) {
+        items.set(row.question_id, {
+          question: {
+            questionId: row.question_id,
+            questionText: row.question_text,
+            questionType: row.question_type || 'MCQ',
+            difficultyLevel: row.difficulty_level,
+            subjectName: row.subject_name,
+            gradeName: row.grade_name
+          },
+          responses: []
+        });
+      }
+      items.get(row.question_id).responses.push({
+        group,
+        ability: Number(row.rit_score),
+        correct: responseScore(row) === 1
+      });
+    }
+
+    // Each group is compared with all other students; with two groups only the smaller one needs to be the focal group
+    let focalGroups = [...groupSizes.entries()]
+      .filter(([, size]) => size >= MIN_GROUP_RESPONSES)
+      .sort((a, b) => a[1] - b[1])
+      .map(([group]) => group);
+    if (groupSizes.size === 2) {
+      focalGroups = focalGroups.slice(0, 1);
+    }
+
+    const minRank = DIF_CLASSIFICATIONS.indexOf(minClassification);
+    const results = [];
+
+    for (const item of items.values()) {
+      for (const focalGroup of focalGroups) {
+        const stats = mantelHaenszel(item.responses.map(r => ({ ...r, focal: r.group === focalGroup })));
+        if (!stats || DIF_CLASSIFICATIONS.indexOf(stats.classification) < minRank) {
+          continue;
+        }
+
+        results.push({
+          ...item.question,
+          focalGroup,
+          referenceGroup: groupSizes.size === 2
+            ? [...groupSizes.keys()].find(group => group !== focalGroup)
+            : `All except ${focalGroup}`,
+          ...stats
+        });
+      }
+    }
+
+    results.sort((a, b) => Math.abs(b.deltaDif) - Math.abs(a.deltaDif));
+
+    res.json({
+      groupBy,
+      minClassification,
+      stratumWidth: DIF_STRATUM_WIDTH,
+      minGroupResponses: MIN_GROUP_RESPONSES,
+      groups: focalGroups,
+      items: results
+    });
+  } catch (error) {
+    console.error('Error running DIF analysis:', error);
+    res.status(500).json({
+      error: 'Failed to run DIF analysis',
+      code: 'DIF_ANALYSIS_ERROR'
+    });
+  }
+};
+
+// Near-duplicate pairs among the live items of a subject (optionally one grade), most similar first
+export const getDuplicateReport = async (req, res) => {
+  try {
+    const { subjectId, gradeId } = req.query;
+    const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : SIMILARITY_THRESHOLD;
+
+    if (!subjectId) {
+      return res.status(400).json({
+        error: 'Subject is required',
+        code: 'SUBJECT_REQUIRED'
+      });
+    }
+    if (!Number.isFinite(threshold) || threshold < 0.5 || threshold > 1) {
+      return res.status(400).json({
+        error: 'Similarity threshold must be between 0.5 and 1',
+        code: 'INVALID_THRESHOLD'
+      });
+    }
+
+    const questions = await loadComparableQuestions({ subjectId, gradeId: gradeId || null });
+    const pairs = findDuplicatePairs(questions, threshold);
+
+    // Answered items cannot be deleted, so the report says which ones have responses
+    const pairedIds = [...new Set(pairs.flatMap(pair => [pair.first.id, pair.second.id]))];
+    const responseCounts = new Map();
+    if (pairedIds.length > 0) {
+      const rows = await executeQuery(`
+        SELECT question_id, COUNT(*) as response_count
+        FROM assessment_responses
+        WHERE question_id IN (${pairedIds.map(() => '?').join(',')})
+        GROUP BY question_id
+      `, pairedIds);
+      rows.forEach(row => responseCounts.set(row.question_id, Number(row.response_count)));
+    }
+
+    const formatQuestion = (question) => ({
+      ...formatSimilarQuestion(question),
+      responseCount: responseCounts.get(question.id) || 0
+    });
+
+    res.json({
+      threshold,
+      questionCount: questions.length,
+      pairs: pairs.map(pair => ({
+        score: pair.score,
+        stemSimilarity: pair.stemSimilarity,
+        optionOverlap: pair.optionOverlap,
+        questions: [formatQuestion(pair.first), formatQuestion(pair.second)]
+      }))
+    });
+  } catch (error) {
+    console.error('Error building duplicate report:', error);
+    res.status(500).json({
+      error: 'Failed to build duplicate report',
+      code: 'DUPLICATE_REPORT_ERROR'
+    });
+  }
+};
+
+// Merge a duplicate into the item being kept: competency tags and assignment slots move across,
+// then the duplicate is deleted (or retired, if students have already answered it)
+export const mergeDuplicateQuestions = async (req, res) => {
+  try {
+    const keepId = Number(req.body.keepId);
+    const duplicateId = Number(req.body.duplicateId);
+
+    if (!Number.isInteger(keepId) || !Number.isInteger(duplicateId) || keepId === duplicateId) {
+      return res.status(400).json({
+        error: 'Two different question IDs are required',
+        code: 'INVALID_MERGE_REQUEST'
+      });
+    }
+
+    const questions = await executeQuery(
+      'SELECT id, subject_id, status FROM questions WHERE id IN (?, ?)',
+      [keepId, duplicateId]
+    );
+    const kept = questions.find(question => question.id === keepId);
+    const duplicate = questions.find(question => question.id === duplicateId);
+    if (!kept || !duplicate) {
+      return res.status(404).json({
+        error: 'Question not found',
+        code: 'QUESTION_NOT_FOUND'
+      });
+    }
+    if (kept.subject_id !== duplicate.subject_id) {
+      return res.status(400).json({
+        error: 'Only questions from the same subject can be merged',
+        code: 'SUBJECT_MISMATCH'
+      });
+    }
+
+    // Competency tags the kept item does not have yet
+    const keptCompetencies = await executeQuery('SELECT competency_id FROM questions_competencies WHERE question_id = ?', [keepId]);
+    const keptCompetencyIds = new Set(keptCompetencies.map(row => row.competency_id));
+    const duplicateCompetencies = await executeQuery('SELECT competency_id, weight FROM questions_competencies WHERE question_id = ?', [duplicateId]);
+    for (const competency of duplicateCompetencies) {
+      if (!keptCompetencyIds.has(competency.competency_id)) {
+        await executeQuery(
+          'INSERT INTO questions_competencies (question_id, competency_id, weight) VALUES (?, ?, ?)',
+          [keepId, competency.competency_id, competency.weight]
+        );
+      }
+    }
+
+    // Standard assignments that used the duplicate now use the kept item (or drop it if they already have both)
+    const keptAssignments = await executeQuery('SELECT assignment_id FROM assignment_questions WHERE question_id = ?', [keepId]);
+    const keptAssignmentIds = new Set(keptAssignments.map(row => row.assignment_id));
+    const duplicateSlots = await executeQuery('SELECT id, assignment_id FROM assignment_questions WHERE question_id = ?', [duplicateId]);
+    for (const slot of duplicateSlots) {
+      if (keptAssignmentIds.has(slot.assignment_id)) {
+        await executeQuery('DELETE FROM assignment_questions WHERE id = ?', [slot.id]);
+      } else {
+        await executeQuery('UPDATE assignment_questions SET question_id = ? WHERE id = ?', [keepId, slot.id]);
+      }
+    }
+
+    const responses = await executeQuery('SELECT id FROM assessment_responses WHERE question_id = ? LIMIT 1', [duplicateId]);
+    let outcome;
+    if (responses.length > 0) {
+      await executeQuery(
+        "UPDATE questions SET status = 'retired', status_changed_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [duplicateId]
+      );
+      await recordReviewEntry({
+        questionId: duplicateId,
+        userId: req.user.id,
+        comment: `Merged into question #${keepId}`,
+        statusFrom: duplicate.status === 'retired' ? null : duplicate.status,
+        statusTo: duplicate.status === 'retired' ? null : 'retired'
+      });
+      outcome = 'retired';
+    } else {
+      await executeQuery('DELETE FROM questions_competencies WHERE question_id = ?', [duplicateId]);
+      await executeQuery('DELETE FROM question_versions WHERE question_id = ?', [duplicateId]);
+      await executeQuery('DELETE FROM question_review_comments WHERE question_id = ?', [duplicateId]);
+      await executeQuery('DELETE FROM questions WHERE id = ?', [duplicateId]);
+      outcome = 'deleted';
+    }
+
+    res.json({
+      message: `Question #${duplicateId} merged into #${keepId} and ${outcome}`,
+      keepId,
+      duplicateId,
+      outcome
+    });
+  } catch (error) {
+    console.error('Error merging duplicate questions:', error);
+    res.status(500).json({
+      error: 'Failed to merge questions',
+      code: 'MERGE_QUESTIONS_ERROR'
+    });
+  }
+};
+
+const formatProposal = (row) => ({
+  id: row.id,
+  runId: row.run_id,
+  questionId: row.question_id,
+  questionText: row.question_text,
+  questionType: row.question_type || 'MCQ',
+  subjectName: row.subject_name,
+  gradeName: row.grade_name,
+  currentDifficulty: row.difficulty_level,
+  authoredDifficulty: row.authored_difficulty,
+  proposedDifficulty: row.proposed_difficulty,
+  standardError: Number(row.standard_error),
+  responseCount: row.response_count,
+  status: row.status,
+  createdAt: row.created_at
+});
+
+// Refit item difficulties from response history and create recalibration proposals
+export const runCalibration = async (req, res) => {
+  try {
+    const subjectId = req.body.subjectId ? Number(req.body.subjectId) : null;
+    const minResponses = req.body.minResponses !== undefined ? Number(req.body.minResponses) : MIN_CALIBRATION_RESPONSES;
+    const threshold = req.body.threshold !== undefined ? Number(req.body.threshold) : CALIBRATION_THRESHOLD;
+
+    if (!Number.isInteger(minResponses) || minResponses < 1) {
+      return res.status(400).json({
+        error: 'Minimum responses must be a positive whole number',
+        code: 'INVALID_MIN_RESPONSES'
+      });
+    }
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      return res.status(400).json({
+        error: 'Threshold must be zero or greater',
+        code: 'INVALID_THRESHOLD'
+      });
+    }
+
+    const result = await runItemCalibration({ subjectId, minResponses, threshold, startedBy: req.user.id });
+
+    res.json({
+      message: 'Item calibration completed',
+      ...result
+    });
+  } catch (error) {
+    console.error('Error running item calibration:', error);
+    res.status(500).json({
+      error: 'Failed to run item calibration',
+      code: 'RUN_CALIBRATION_ERROR'
+    });
+  }
+};
+
+// List recalibration proposals (pending by default)
+export const getCalibrationProposals = async (req, res) => {
+  try {
+    const { subjectId, status = 'pending' } = req.query;
+
+    let whereClause = 'WHERE p.status = ?';
+    const params = [status];
+    if (subjectId) {
+      whereClause += ' AND q.subject_id = ?';
+      params.push(subjectId);
+    }
+
+    const rows = await executeQuery(`
+      SELECT
+        p.*,
+        q.question_text,
+        q.question_type,
+        q.difficulty_level,
+        s.name as subject_name,
+        g.display_name as grade_name
+      FROM item_calibration_proposals p
+      JOIN questions q ON p.question_id = q.id
+      JOIN subjects s ON q.subject_id = s.id
+      LEFT JOIN grades g ON q.grade_id = g.id
+      ${whereClause}
+      ORDER BY ABS(p.proposed_difficulty - p.authored_difficulty) DESC
+    `, params);
+
+    res.json({ proposals: rows.map(formatProposal) });
+  } catch (error) {
+    console.error('Error fetching calibration proposals:', error);
+    res.status(500).json({
+      error: 'Failed to fetch calibration proposals',
+      code: 'FETCH_CALIBRATION_PROPOSALS_ERROR'
+    });
+  }
+};
+
+const findProposal = async (proposalId) => {
+  const rows = await executeQuery(`
+    SELECT p.*, q.difficulty_level
+    FROM item_calibration_proposals p
+    JOIN questions q ON p.question_id = q.id
+    WHERE p.id = ?
+  `, [proposalId]);
+  return rows[0];
+};
+
+// Apply a proposal's difficulty to the question and record it in the difficulty history
+export const acceptCalibrationProposal = async (req, res) => {
+  try {
+    const proposal = await findProposal(req.params.id);
+
+    if (!proposal) {
+      return res.status(404).json({
+        error: 'Calibration proposal not found',
+        code: 'PROPOSAL_NOT_FOUND'
+      });
+    }
+    if (proposal.status !== 'pending') {
+      return res.status(409).json({
+        error: `Calibration proposal is already ${proposal.status}`,
+        code: 'PROPOSAL_NOT_PENDING'
+      });
+    }
+
+    // The proposal is claimed first, so two admins accepting it at once cannot both apply it
+    const applied = await withTransaction(async (query) => {
+      const claim = await query(
+        "UPDATE item_calibration_proposals SET status = 'accepted', reviewed_by = ?, reviewed_at = NOW() WHERE id = ? AND status = 'pending'",
+        [req.user.id, proposal.id]
+      );
+      if (claim.affectedRows !== 1) {
+        return false;
+      }
+
+      await query(
+        'UPDATE questions SET difficulty_level = ? WHERE id = ?',
+        [proposal.proposed_difficulty, proposal.question_id]
+      );
+      // Difficulty is versioned content; new responses are pinned to the recalibrated version
+      await recordQuestionVersion(proposal.question_id, { changeType: 'edited', createdBy: req.user.id }, query);
+      await recordDifficultyChange({
+        questionId: proposal.question_id,
+        oldDifficulty: proposal.difficulty_level,
+        newDifficulty: proposal.proposed_difficulty,
+        source: 'calibration',
+        proposalId: proposal.id,
+        changedBy: req.user.id
+      }, query);
+      return true;
+    });
+
+    if (!applied) {
+      return res.status(409).json({
+        error: 'Calibration proposal was already reviewed',
+        code: 'PROPOSAL_NOT_PENDING'
+      });
+    }
+
+    res.json({
+      message: 'Difficulty updated',
+      questionId: proposal.question_id,
+      difficultyLevel: proposal.proposed_difficulty
+    });
+  } catch (error) {
+    console.error('Error accepting calibration proposal:', error);
+    res.status(500).json({
+      error: 'Failed to accept calibration proposal',
+      code: 'ACCEPT_PROPOSAL_ERROR'
+    });
+  }
+};
+
+// Keep the authored difficulty and close the proposal
+export const dismissCalibrationProposal = async (req, res) => {
+  try {
+    const proposal = await findProposal(req.params.id);
+
+    if (!proposal) {
+      return res.status(404).json({
+        error: 'Calibration proposal not found',
+        code: 'PROPOSAL_NOT_FOUND'
+      });
+    }
+    if (proposal.status !== 'pending') {
+      return res.status(409).json({
+        error: `Calibration proposal is already ${proposal.status}`,
+        code: 'PROPOSAL_NOT_PENDING'
+      });
+    }
+
+    await executeQuery(
+      "UPDATE item_calibration_proposals SET status = 'dismissed', reviewed_by = ?, reviewed_at = NOW() WHERE id = ?",
+      [req.user.id, proposal.id]
+    );
+
+    res.json({ message: 'Calibration proposal dismissed' });
+  } catch (error) {
+    console.error('Error dismissing calibration proposal:', error);
+    res.status(500).json({
+      error: 'Failed to dismiss calibration proposal',
+      code: 'DISMISS_PROPOSAL_ERROR'
+    });
+  }
+};
+
+// Audit trail of difficulty changes for one question
+export const getDifficultyHistory = async (req, res) => {
+  try {
+    const rows = await executeQuery(`
+      SELECT h.*, u.first_name, u.last_name, p.response_count, p.standard_error
+      FROM question_difficulty_history h
+      LEFT JOIN users u ON h.changed_by = u.id
+      LEFT JOIN item_calibration_proposals p ON h.proposal_id = p.id
+      WHERE h.question_id = ?
+      ORDER BY h.changed_at DESC, h.id DESC
+    `, [req.params.id]);
+
+    res.json({
+      history: rows.map(row => ({
+        id: row.id,
+        oldDifficulty: row.old_difficulty,
+        newDifficulty: row.new_difficulty,
+        source: row.source,
+        proposalId: row.proposal_id,
+        responseCount: row.response_count,
+        standardError: row.standard_error !== null ? Number(row.standard_error) : null,
+        changedBy: row.first_name ? `${row.first_name} ${row.last_name}` : null,
+        changedAt: row.changed_at
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching difficulty history:', error);
+    res.status(500).json({
+      error: 'Failed to fetch difficulty history',
+      code: 'FETCH_DIFFICULTY_HISTORY_ERROR'
+    });
+  }
+};
@@ -1,4 +1,8 @@
 import { executeQuery } from '../config/database.js';
+import { createAdaptiveSession } from '../utils/adaptiveSessionStore.js';
+import { parseCompetencyBlueprint } from '../utils/contentBalancing.js';
+import { getTimeRemainingSeconds } from '../utils/assessmentTimer.js';
+import { getStudentAccommodations, applyTimeMultiplier, serializeAccommodations } from '../utils/accommodations.js';
 
 // Seeded random number generator for deterministic shuffling
 function seededRandom(seed) {
@@ -19,7 +23,111 @@ function shuffleWithSeed(array, seed) {
   }
   return result;
 }
-import { activeSessions } from './studentController.js';
+
+// Questions of an assignment in their configured order
+const getAssignmentQuestions = async (assignmentId) => {
+  return executeQuery(`
+    SELECT 
+      q.id,
+      q.question_text as questionText,
+      q.options,
+      q.question_type,
+      q.question_metadata,
+      q.correct_option_index as correctOptionIndex,
+      q.difficulty_level as difficultyLevel,
+      aq.question_order as questionOrder,
+      aq.points
+    FROM assignment_questions aq
+    JOIN questions q ON aq.question_id = q.id
+    WHERE aq.assignment_id = ?
+    ORDER BY aq.question_order ASC
+  `, [assignmentId]);
+};
+
+// Shape a Standard-mode question for the student, shuffling its options if the assignment asks for it
+const formatStandardQuestion = (q, assignment, studentId) => {
+  let options = typeof q.options === 'string' ? JSON.parse(q.options) : q.options;
+  let correctIndex = q.correctOptionIndex;
+
+  if (assignment.optionSequence === 'random') {
+    // Shuffle options deterministically using assignmentId + questionId + studentId as seed
+    // This ensures the same shuffle is used when validating answers
+    // We'll use assignmentId, questionId, and studentId to create a unique seed
+    const seed = assignment.id * 1000000 + q.id * 1000 + studentId;
+    
+    const optionsWithIndex = options.map((opt, idx) => ({ opt, originalIdx: idx }));
+    const shuffled = shuffleWithSeed([...optionsWithIndex], seed);
+    
+    options = shuffled.map((item) => item.opt);
+    // Find the new position of the original correct index
+    correctIndex = shuffled.findIndex((item) => item.originalIdx === correctIndex);
+  }
+
+  // Parse question_metadata if present
+  let parsedMetadata = q.question_metadata;
+  if (parsedMetadata && typeof parsedMetadata === 'string') {
+    try {
+      parsedMetadata = JSON.parse(parsedMetadata);
+    } catch (e) {
+      console.error('Error parsing question_metadata:', e);
+      parsedMetadata = null;
+    }
+  }
+
+  return {
+    id: q.id,
+    text: q.questionText,
+    options: options,
+    questionType: q.question_type || 'MCQ',
+    questionMetadata: parsedMetadata,
+    correctOptionIndex: correctIndex,
+    difficultyLevel: q.difficultyLevel,
+    questionOrder: q.questionOrder,
+    points: q.points
+  };
+};
+
+/**
+ * Rebuild the question list of a Standard assessment that is being resumed
+ * Answered questions come first in the order they were answered, followed by the remaining ones
+ * @param {number} assessmentId - Assessment ID
+ * @param {number} assignmentId - Assignment the assessment belongs to
+ * @param {number} studentId - Student ID (part of the option shuffle seed)
+ * @returns {Promise<{questions: Array, answeredCount: number}|null>} - null if the assignment no longer exists
+ */
+export const getStandardResumeQuestions = async (assessmentId, assignmentId, studentId) => {
+  const assignments = await executeQuery(
+    'SELECT id, question_sequence as questionSequence, option_sequence as optionSequence FROM assignments WHERE id = ?',
+    [assignmentId]
+  );
+
+  if (assignments.length === 0) {
+    return null;
+  }
+
+  const assignment = assignments[0];
+  const questions = (await getAssignmentQuestions(assignmentId)).map(q => formatStandardQuestion(q, assignment, studentId));
+
+  const responses = await executeQuery(
+    'SELECT question_id FROM assessment_responses WHERE assessment_id = ? ORDER BY question_order ASC',
+    [assessmentId]
+  );
+  const answeredIds = responses.map(r => r.question_id);
+
+  const answered = answeredIds
+    .map(id => questions.find(q => q.id === id))
+    .filter(Boolean);
+  let remaining = questions.filter(q => !answeredIds.includes(q.id));
+
+  if (assignment.questionSequence === 'random') {
+    remaining = remaining.sort(() => Math.random() - 0.5);
+  }
+
+  return {
+    questions: [...answered, ...remaining].map((q, index) => ({ ...q, questionOrder: index + 1 })),
+    answeredCount: answered.length
+  };
+};
 
 // Get assignments assigned to the current student
 export const getStudentAssignments = async (req, res) => {
@@ -341,22 +449,7 @@ export const startStandardAssignment = async (req, res) => {
     }
 
     // Get questions for this assignment in order
-    const questions = await executeQuery(`
-      SELECT 
-        q.id,
-        q.question_text as questionText,
-        q.options,
-        q.question_type,
-        q.question_metadata,
-        q.correct_option_index as correctOptionIndex,
-        q.difficulty_level as difficultyLevel,
-        aq.question_order as questionOrder,
-        aq.points
-      FROM assignment_questions aq
-      JOIN questions q ON aq.question_id = q.id
-      WHERE aq.assignment_id = ?
-      ORDER BY aq.question_order ASC
-    `, [assignmentId]);
+    const questions = await getAssignmentQuestions(assignmentId);
 
     if (questions.length === 0) {
       return res.status(400).json({
@@ -365,13 +458,17 @@ export const startStandardAssignment = async (req, res) => {
       });
     }
 
+    // Extended time and other accommodations for this student
+    const accommodations = await getStudentAccommodations(studentId);
+    const timeLimitMinutes = applyTimeMultiplier(assignment.timeLimitMinutes, accommodations);
+
     // Create assessment record
     const currentYear = new Date().getFullYear();
     const assessmentResult = await executeQuery(`
       INSERT INTO assessments 
       (student_id, subject_id, grade_id, assessment_period, year, 
-       total_questions, time_limit_minutes, assessment_mode, assignment_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       total_questions, time_limit_minutes, expires_at, assessment_mode, assignment_id, accommodations)
+      VALUES (?, ?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?, ?, ?)
     `, [
       studentId,
       assignment.subjectId,
@@ -379,55 +476,17 @@ export const startStandardAssignment = async (req, res) => {
       'BOY', // Default period for assignments (Beginning of Year)
       currentYear,
       assignment.totalQuestions,
-      assignment.timeLimitMinutes,
+      timeLimitMinutes,
+      timeLimitMinutes,
       'Standard',
-      assignmentId
+      assignmentId,
+      serializeAccommodations(accommodations)
     ]);
 
     const assessmentId = assessmentResult.insertId;
 
     // If option sequence is random, shuffle options for each question
-    let questionsToReturn = questions.map(q => {
-      let options = typeof q.options === 'string' ? JSON.parse(q.options) : q.options;
-      let correctIndex = q.correctOptionIndex;
-
-      if (assignment.optionSequence === 'random') {
-        // Shuffle options deterministically using assignmentId + questionId + studentId as seed
-        // This ensures the same shuffle is used when validating answers
-        // We'll use assignmentId, questionId, and studentId to create a unique seed
-        const seed = assignment.id * 1000000 + q.id * 1000 + studentId;
-        
-        const optionsWithIndex = options.map((opt, idx) => ({ opt, originalIdx: idx }));
-        const shuffled = shuffleWithSeed([...optionsWithIndex], seed);
-        
-        options = shuffled.map((item) => item.opt);
-        // Find the new position of the original correct index
-        correctIndex = shuffled.findIndex((item) => item.originalIdx === correctIndex);
-      }
-
-      // Parse question_metadata if present
-      let parsedMetadata = q.question_metadata;
-      if (parsedMetadata && typeof parsedMetadata === 'string') {
-        try {
-          parsedMetadata = JSON.parse(parsedMetadata);
-        } catch (e) {
-          console.error('Error parsing question_metadata:', e);
-          parsedMetadata = null;
-        }
-      }
-
-      return {
-        id: q.id,
-        text: q.questionText,
-        options: options,
-        questionType: q.question_type || 'MCQ',
-        questionMetadata: parsedMetadata,
-        correctOptionIndex: correctIndex,
-        difficultyLevel: q.difficultyLevel,
-        questionOrder: q.questionOrder,
-        points: q.points
-      };
-    });
+    let questionsToReturn = questions.map(q => formatStandardQuestion(q, assignment, studentId));
 
     // If question sequence is random, shuffle questions
     if (assignment.questionSequence === 'random') {
@@ -444,7 +503,9 @@ export const startStandardAssignment = async (req, res) => {
       assignmentId: assignment.id,
       assignmentName: assignment.name,
       mode: 'Standard',
-      timeLimitMinutes: assignment.timeLimitMinutes,
+      timeLimitMinutes,
+      timeRemainingSeconds: await getTimeRemainingSeconds(assessmentId),
+      accommodations,
       question: questionsToReturn[0],
       questionNumber: 1,
       totalQuestions: questionsToReturn.length,
@@ -522,7 +583,7 @@ export const startAdaptiveAssignment = async (req, res) => {
 
     // Use existing adaptive assessment logic
     // Import the adaptive logic from studentController
-    const { findClosestQuestion } = await import('./studentController.js');
+    const { selectAdaptiveQuestion } = await import('./studentController.js');
     
     // Get starting difficulty from assignment or previous assessment
     let startingDifficulty = assignment.difficultyLevel || 225;
@@ -530,7 +591,7 @@ export const startAdaptiveAssignment = async (req, res) => {
     const previousAssessments = await executeQuery(`
       SELECT rit_score 
       FROM assessments 
-      WHERE student_id = ? AND subject_id = ? AND year = ?
+      WHERE student_id = ? AND subject_id = ? AND year = ? AND rit_score IS NOT NULL
       ORDER BY date_taken DESC LIMIT 1
     `, [studentId, assignment.subjectId, new Date().getFullYear()]);
 
@@ -545,14 +606,38 @@ export const startAdaptiveAssignment = async (req, res) => {
     );
     const studentGradeId = studentInfo[0]?.grade_id || assignment.gradeId;
 
+    // Apply the grade/subject stopping rules and blueprint; the assignment's own question count stays the maximum
+    const adaptiveRules = await executeQuery(`
+      SELECT min_question_count, target_standard_error, competency_blueprint
+      FROM assessment_configurations
+      WHERE grade_id = ? AND subject_id = ? AND is_active = 1
+    `, [assignment.gradeId, assignment.subjectId]);
+
+    // Extended time and other accommodations for this student
+    const accommodations = await getStudentAccommodations(studentId);
+    const timeLimitMinutes = applyTimeMultiplier(assignment.timeLimitMinutes, accommodations);
+
+    // Session for Adaptive mode (required for submitAnswer to work)
+    const session = {
+      studentId: studentId,
+      subjectId: assignment.subjectId,
+      period: 'BOY', // Default period for assignments (Beginning of Year)
+      questionCount: 0,
+      maxQuestions: assignment.totalQuestions,
+      minQuestions: adaptiveRules[0]?.min_question_count || null,
+      targetStandardError: adaptiveRules[0]?.target_standard_error ? Number(adaptiveRules[0].target_standard_error) : null,
+      competencyBlueprint: parseCompetencyBlueprint(adaptiveRules[0]?.competency_blueprint),
+      competencyCounts: {},
+      timeLimitMinutes,
+      currentRIT: startingDifficulty,
+      standardError: null,
+      responses: [],
+      usedQuestions: new Set(),
+      startingDifficulty: startingDifficulty
+    };
+
     // Get first question
-    const firstQuestion = await findClosestQuestion(
-      startingDifficulty,
-      null,
-      assignment.subjectId,
-      null,
-      studentGradeId
-    );
+    const firstQuestion = await selectAdaptiveQuestion(session, studentGradeId);
 
     if (!firstQuestion) {
       return res.status(404).json({
@@ -566,8 +651,8 @@ export const startAdaptiveAssignment = async (req, res) => {
     const assessmentResult = await executeQuery(`
       INSERT INTO assessments 
       (student_id, subject_id, grade_id, assessment_period, year, 
-       total_questions, time_limit_minutes, assessment_mode, assignment_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       total_questions, time_limit_minutes, expires_at, assessment_mode, assignment_id, accommodations)
+      VALUES (?, ?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?, ?, ?)
     `, [
       studentId,
       assignment.subjectId,
@@ -575,29 +660,21 @@ export const startAdaptiveAssignment = async (req, res) => {
       'BOY', // Default period for assignments (Beginning of Year)
       currentYear,
       assignment.totalQuestions,
-      assignment.timeLimitMinutes,
+      timeLimitMinutes,
+      timeLimitMinutes,
       'Adaptive',
-      assignmentId
+      assignmentId,
+      serializeAccommodations(accommodations)
     ]);
 
     const assessmentId = assessmentResult.insertId;
 
-    // Create session for Adaptive mode (required for submitAnswer to work)
-    const sessionId = `${studentId}_${assignment.subjectId}_assignment_${assignmentId}`;
-    activeSessions.set(sessionId, {
+    await createAdaptiveSession({
+      ...session,
       assessmentId: assessmentId,
-      studentId: studentId,
-      subjectId: assignment.subjectId,
-      period: 'BOY', // Default period for assignments (Beginning of Year)
       currentDifficulty: firstQuestion.difficulty_level,
-      questionCount: 0,
-      maxQuestions: assignment.totalQuestions,
-      timeLimitMinutes: assignment.timeLimitMinutes,
-      currentRIT: 0,
-      highestCorrectDifficulty: 0,
-      usedQuestions: new Set(),
-      startTime: Date.now(),
-      startingDifficulty: startingDifficulty
+      currentQuestionId: firstQuestion.id,
+      startTime: Date.now()
     });
 
     // Parse options if needed
@@ -615,7 +692,9 @@ export const startAdaptiveAssignment = async (req, res) => {
       assignmentId: assignment.id,
       assignmentName: assignment.name,
       mode: 'Adaptive',
-      timeLimitMinutes: assignment.timeLimitMinutes,
+      timeLimitMinutes,
+      timeRemainingSeconds: await getTimeRemainingSeconds(assessmentId),
+      accommodations,
       question: {
         id: firstQuestion.id,
         text: firstQuestion.question_text,
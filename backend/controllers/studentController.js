@@ -1,5 +1,19 @@
 import { executeQuery } from '../config/database.js';
 import { gradeAnswerWithAI, generateQuestionDescription, generatePerformanceAnalysis, generateCompetencyRecommendations, generateCompetencyFeedback } from '../utils/geminiService.js';
+import { estimateAbility, formatEstimate, DEFAULT_PRIOR_MEAN } from '../utils/abilityEstimator.js';
+import { getNextQuestionDifficulty, getAdaptiveStopReason } from '../utils/adaptiveSelection.js';
+import { parseCompetencyBlueprint, selectBlueprintCompetency } from '../utils/contentBalancing.js';
+import { chooseExposureControlledItem, RANDOMESQUE_POOL_SIZE } from '../utils/exposureControl.js';
+import { versionedColumn, RESPONSE_VERSION_JOIN_SQL } from '../utils/questionVersions.js';
+import { getTimeRemainingSeconds, endPause, getResponseTimeSeconds, ASSESSMENT_DEADLINE_SQL, DEADLINE_GRACE_SECONDS, DEFAULT_MAX_PAUSE_MINUTES } from '../utils/assessmentTimer.js';
+import { getPartialCreditPolicy, scoreMultipleSelect, scoreParts, scoreOrdering, responseScore } from '../utils/partialCredit.js';
+import { scoreNumericAnswer, describeNumericKey } from '../utils/numericAnswer.js';
+import { parseOrderingSequence, getOrderingItems, describeOrdering } from '../utils/orderingAnswer.js';
+import { parseHotspotClick, scoreHotspotClick, getHotspotRegions, describeHotspotClick, describeHotspotRegions } from '../utils/hotspotAnswer.js';
+import { getCategorizeStructure, parseCategorizePlacement, describeCategorize } from '../utils/categorizeAnswer.js';
+import { getStudentAccommodations, applyTimeMultiplier, serializeAccommodations, parseAccommodations } from '../utils/accommodations.js';
+import { getStandardResumeQuestions } from './studentAssignmentsController.js';
+import { createAdaptiveSession, getAdaptiveSession, saveAdaptiveSession, deleteAdaptiveSession } from '../utils/adaptiveSessionStore.js';
 
 // Seeded random number generator for deterministic shuffling
 function seededRandom(seed) {
@@ -21,30 +35,14 @@ function shuffleWithSeed(array, seed) {
   return result;
 }
 
-// In-memory storage for active assessment sessions
-export const activeSessions = new Map();
-
-// Maarif Adaptive Testing Algorithm - Progressive Difficulty Adjustment
-const getNextQuestionDifficulty = (currentDifficulty, isCorrect) => {
-  // Progressive adjustment: 3-5 points for more dynamic progression
-  const adjustment = Math.floor(Math.random() * 3) + 3; // 3-5 points
-  
-  if (isCorrect) {
-    // Progressive increase: move to higher difficulty level
-    return Math.min(350, currentDifficulty + adjustment);
-  } else {
-    // Progressive decrease: move to lower difficulty level
-    return Math.max(100, currentDifficulty - adjustment);
-  }
-};
-
-// Find closest available question based on target difficulty
-export const findClosestQuestion = async (currentDifficulty, isCorrect, subjectId, assessmentId, studentGradeId, usedQuestions = null) => {
+// Query the approved questions closest to the target difficulty (randomesque candidates), optionally restricted to one competency
+const queryClosestQuestion = async (targetDifficulty, subjectId, assessmentId, studentGradeId, usedQuestions, competencyId) => {
   let questions;
-  
-  // Calculate target difficulty using progressive adjustment
-  const targetDifficulty = getNextQuestionDifficulty(currentDifficulty, isCorrect);
-  console.log(`Current difficulty: ${currentDifficulty}, Target difficulty: ${targetDifficulty}, isCorrect: ${isCorrect}`);
+
+  const competencyClause = competencyId
+    ? 'AND id IN (SELECT question_id FROM questions_competencies WHERE competency_id = ?)'
+    : '';
+  const competencyParams = competencyId ? [competencyId] : [];
   
   if (assessmentId && usedQuestions) {
     // If assessmentId exists and we have usedQuestions, exclude both database records and in-memory used questions
@@ -53,89 +51,335 @@ export const findClosestQuestion = async (currentDifficulty, isCorrect, subjectI
     
     // Find closest question to TARGET difficulty (not just harder/easier)
     questions = await executeQuery(`
-      SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+      SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
       FROM questions 
-      WHERE subject_id = ? 
+      WHERE subject_id = ?
+      AND status = 'approved'
       AND (grade_id = ? OR grade_id IS NULL)
       AND id NOT IN (
         SELECT question_id FROM assessment_responses WHERE assessment_id = ?
       )
       AND id NOT IN (${placeholders || 'NULL'})
+      ${competencyClause}
       ORDER BY ABS(difficulty_level - ?) ASC, RAND()
-      LIMIT 1
-    `, [subjectId, studentGradeId, assessmentId, ...usedQuestionsArray, targetDifficulty]);
+      LIMIT ${RANDOMESQUE_POOL_SIZE}
+    `, [subjectId, studentGradeId, assessmentId, ...usedQuestionsArray, ...competencyParams, targetDifficulty]);
 
     // If no questions found, fall back to any available question
     if (questions.length === 0) {
       questions = await executeQuery(`
-        SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+        SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
         FROM questions 
         WHERE subject_id = ?
+        AND status = 'approved'
         AND (grade_id = ? OR grade_id IS NULL)
         AND id NOT IN (
           SELECT question_id FROM assessment_responses WHERE assessment_id = ?
         )
         AND id NOT IN (${placeholders || 'NULL'})
+        ${competencyClause}
         ORDER BY ABS(difficulty_level - ?) ASC, RAND()
-        LIMIT 1
-      `, [subjectId, studentGradeId, assessmentId, ...usedQuestionsArray, targetDifficulty]);
+        LIMIT ${RANDOMESQUE_POOL_SIZE}
+      `, [subjectId, studentGradeId, assessmentId, ...usedQuestionsArray, ...competencyParams, targetDifficulty]);
     }
   } else if (assessmentId) {
     // If only assessmentId exists, exclude already used questions from database
     // Find closest question to TARGET difficulty
     questions = await executeQuery(`
-      SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+      SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
       FROM questions 
-      WHERE subject_id = ? 
+      WHERE subject_id = ?
+      AND status = 'approved'
       AND (grade_id = ? OR grade_id IS NULL)
       AND id NOT IN (
         SELECT question_id FROM assessment_responses WHERE assessment_id = ?
       )
+      ${competencyClause}
       ORDER BY ABS(difficulty_level - ?) ASC, RAND()
-      LIMIT 1
-    `, [subjectId, studentGradeId, assessmentId, targetDifficulty]);
+      LIMIT ${RANDOMESQUE_POOL_SIZE}
+    `, [subjectId, studentGradeId, assessmentId, ...competencyParams, targetDifficulty]);
 
     // If no questions found, fall back to any available question
     if (questions.length === 0) {
       questions = await executeQuery(`
-        SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+        SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
         FROM questions 
         WHERE subject_id = ?
+        AND status = 'approved'
         AND id NOT IN (
           SELECT question_id FROM assessment_responses WHERE assessment_id = ?
         )
+        ${competencyClause}
         ORDER BY ABS(difficulty_level - ?) ASC, RAND()
-        LIMIT 1
-      `, [subjectId, assessmentId, targetDifficulty]);
+        LIMIT ${RANDOMESQUE_POOL_SIZE}
+      `, [subjectId, assessmentId, ...competencyParams, targetDifficulty]);
     }
   } else {
     // If no assessmentId (first question), find the closest question to the starting difficulty
     // For high Growth Metric scores, we want to start with questions at or near that level
     questions = await executeQuery(`
-      SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+      SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
       FROM questions 
-      WHERE subject_id = ? 
+      WHERE subject_id = ?
+      AND status = 'approved'
       AND (grade_id = ? OR grade_id IS NULL)
+      ${competencyClause}
       ORDER BY ABS(difficulty_level - ?) ASC, RAND()
-      LIMIT 1
-    `, [subjectId, studentGradeId, currentDifficulty]);
+      LIMIT ${RANDOMESQUE_POOL_SIZE}
+    `, [subjectId, studentGradeId, ...competencyParams, targetDifficulty]);
 
     // If no questions found, fall back to any available question
     if (questions.length === 0) {
       questions = await executeQuery(`
-        SELECT id, question_text, options, question_type, question_metadata, difficulty_level 
+        SELECT id, question_text, options, question_type, question_metadata, difficulty_level,
+        (SELECT exposure_count FROM question_exposure WHERE question_id = questions.id) as exposure_count
         FROM questions 
         WHERE subject_id = ?
+        AND status = 'approved'
         AND (grade_id = ? OR grade_id IS NULL)
+        ${competencyClause}
         ORDER BY difficulty_level DESC
-        LIMIT 1
-      `, [subjectId, studentGradeId]);
+        LIMIT ${RANDOMESQUE_POOL_SIZE}
+      `, [subjectId, studentGradeId, ...competencyParams]);
+    }
+  }
+
+  return questions;
+};
+
+// Find closest available question based on target difficulty
+// When a blueprint competency is given, prefer questions from it and fall back to the whole pool;
+// the final pick is randomized among the closest items to limit item exposure
+export const findClosestQuestion = async (targetDifficulty, subjectId, assessmentId, studentGradeId, usedQuestions = null, competencyId = null) => {
+  console.log(`Target difficulty: ${targetDifficulty}${competencyId ? `, competency: ${competencyId}` : ''}`);
+
+  let candidates = [];
+  if (competencyId) {
+    candidates = await queryClosestQuestion(targetDifficulty, subjectId, assessmentId, studentGradeId, usedQuestions, competencyId);
+    if (candidates.length === 0) {
+      console.log(`No questions left for competency ${competencyId}, selecting from the whole pool`);
+    }
+  }
+
+  if (candidates.length === 0) {
+    candidates = await queryClosestQuestion(targetDifficulty, subjectId, assessmentId, studentGradeId, usedQuestions, null);
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  // Exposure control: draw among the closest items, holding back over-exposed ones. Rates are taken over the
+  // adaptive tests of the student's grade, the only tests that can be served a grade's items
+  const testsAdministered = await executeQuery(
+    "SELECT COUNT(*) as count FROM assessments WHERE subject_id = ? AND grade_id = ? AND assessment_mode = 'Adaptive'",
+    [subjectId, studentGradeId]
+  );
+  return chooseExposureControlledItem(candidates, testsAdministered[0].count);
+};
+
+// Pick the next question for an adaptive session: closest to the current ability estimate,
+// drawn from the blueprint competency that is furthest behind its target share
+export const selectAdaptiveQuestion = async (session, studentGradeId) => {
+  const competencyId = selectBlueprintCompetency(session.competencyBlueprint, session.competencyCounts, session.questionCount);
+  const question = await findClosestQuestion(
+    getNextQuestionDifficulty(session.currentRIT),
+    session.subjectId,
+    session.assessmentId || null,
+    studentGradeId,
+    session.usedQuestions,
+    competencyId
+  );
+
+  // Record the exposure so over-used items are held back in later tests
+  if (question) {
+    await executeQuery(
+      'INSERT INTO question_exposure (question_id, exposure_count, last_exposed_at) VALUES (?, 1, NOW()) ON DUPLICATE KEY UPDATE exposure_count = exposure_count + 1, last_exposed_at = NOW()',
+      [question.id]
+    );
+  }
+
+  // Count the served question toward every competency it measures
+  if (question && session.competencyBlueprint) {
+    const competencies = await executeQuery(
+      'SELECT competency_id FROM questions_competencies WHERE question_id = ?',
+      [question.id]
+    );
+    session.competencyCounts = session.competencyCounts || {};
+    for (const { competency_id } of competencies) {
+      session.competencyCounts[competency_id] = (session.competencyCounts[competency_id] || 0) + 1;
     }
   }
 
-  return questions.length > 0 ? questions[0] : null;
+  return question;
 };
 
+// Estimate the Growth Metric and its standard error from every response stored for an assessment
+export const scoreAssessmentResponses = async (assessmentId, priorMean = DEFAULT_PRIOR_MEAN) => {
+  const responses = await executeQuery(
+    'SELECT question_difficulty, is_correct, score FROM assessment_responses WHERE assessment_id = ? ORDER BY question_order',
+    [assessmentId]
+  );
+
+  const estimate = estimateAbility(
+    responses.map(r => ({ difficulty: r.question_difficulty, score: responseScore(r) })),
+    { priorMean }
+  );
+
+  return formatEstimate(estimate);
+};
+
+// Score a finished assessment and mark the linked assignment as completed
+const finalizeAssessment = async ({ assessmentId, studentId, startTime, endTime = Date.now(), priorMean, stopReason }) => {
+  const assessmentInfo = await executeQuery(
+    'SELECT assignment_id, paused_seconds FROM assessments WHERE id = ?',
+    [assessmentId]
+  );
+  const pausedSeconds = assessmentInfo[0]?.paused_seconds || 0;
+  const duration = Math.max(0, Math.round((endTime - startTime - pausedSeconds * 1000) / 60000)); // minutes, excluding pauses
+
+  const { ritScore, standardError } = await scoreAssessmentResponses(assessmentId, priorMean);
+
+  // Calculate correct answers count
+  const correctAnswersResult = await executeQuery(
+    'SELECT COUNT(*) as correct_count FROM assessment_responses WHERE assessment_id = ? AND is_correct = 1',
+    [assessmentId]
+  );
+  const correctAnswers = correctAnswersResult[0].correct_count;
+
+  // Update assessment with Growth Metric score, its standard error and the rule that ended the test;
+  // a test event that another request scored first keeps that score
+  const scored = await executeQuery(
+    'UPDATE assessments SET rit_score = ?, rit_standard_error = ?, correct_answers = ?, duration_minutes = ?, stop_reason = ? WHERE id = ? AND rit_score IS NULL',
+    [ritScore, standardError, correctAnswers, duration, stopReason, assessmentId]
+  );
+
+  // Update assignment_students if this is an assignment-based assessment (both Standard and Adaptive)
+  if (scored.affectedRows === 1 && assessmentInfo.length > 0 && assessmentInfo[0].assignment_id) {
+    const assignmentId = assessmentInfo[0].assignment_id;
+    
+    // Check if assignment_students record exists
+    const existingRecord = await executeQuery(
+      'SELECT id FROM assignment_students WHERE assignment_id = ? AND student_id = ?',
+      [assignmentId, studentId]
+    );
+    
+    if (existingRecord.length > 0) {
+      // Update existing record
+      await executeQuery(
+        'UPDATE assignment_students SET is_completed = 1, completed_at = NOW() WHERE assignment_id = ? AND student_id = ?',
+        [assignmentId, studentId]
+      );
+    } else {
+      // Create new record for grade-level assignments
+      await executeQuery(
+        'INSERT INTO assignment_students (assignment_id, student_id, is_completed, completed_at) VALUES (?, ?, 1, NOW())',
+        [assignmentId, studentId]
+      );
+    }
+  }
+
+  return { ritScore, standardError, correctAnswers, duration, stopReason };
+};
+
+// Result of a test event that is already closed
+const closedAssessmentResult = (assessment) => ({
+  ritScore: assessment.rit_score,
+  standardError: assessment.rit_standard_error !== null ? Number(assessment.rit_standard_error) : null,
+  stopReason: assessment.stop_reason
+});
+
+// Close a test event whose deadline has passed: score what was answered, or mark it abandoned if nothing was
+// Shared by submitAnswer, the finish endpoint and the background sweeper
+export const closeExpiredAssessment = async (assessmentId) => {
+  // A pause that outlived its allowance is closed first so its credited time is kept
+  await endPause(assessmentId);
+
+  const assessments = await executeQuery(`
+    SELECT 
+      a.id, a.student_id, a.created_at, a.rit_score, a.rit_standard_error, a.stop_reason, a.paused_seconds,
+      ${ASSESSMENT_DEADLINE_SQL} as deadline
+    FROM assessments a
+    WHERE a.id = ?
+  `, [assessmentId]);
+
+  if (assessments.length === 0) {
+    return null;
+  }
+
+  const assessment = assessments[0];
+
+  // Already closed (finished normally, or closed by another request or the sweeper)
+  if (assessment.rit_score !== null || assessment.stop_reason !== null) {
+    return closedAssessmentResult(assessment);
+  }
+
+  // Claim the test event before closing it: only the request whose update matches goes on, so a late answer,
+  // a sweeper tick or another app instance racing this one cannot score it (or complete its assignment) twice
+  const claim = await executeQuery(
+    "UPDATE assessments SET stop_reason = 'time_limit' WHERE id = ? AND rit_score IS NULL AND stop_reason IS NULL",
+    [assessmentId]
+  );
+  if (claim.affectedRows !== 1) {
+    const closed = await executeQuery(
+      'SELECT rit_score, rit_standard_error, stop_reason FROM assessments WHERE id = ?',
+      [assessmentId]
+    );
+    return closed.length > 0 ? closedAssessmentResult(closed[0]) : null;
+  }
+
+  // Counted after the claim; answers that arrive from now on find the test closed
+  const responseCount = await executeQuery(
+    'SELECT COUNT(*) as count FROM assessment_responses WHERE assessment_id = ?',
+    [assessmentId]
+  );
+
+  const session = await getAdaptiveSession(assessmentId);
+  const startTime = session?.startTime || new Date(assessment.created_at).getTime();
+  const endTime = assessment.deadline ? Math.min(Date.now(), new Date(assessment.deadline).getTime()) : Date.now();
+
+  let result;
+  if (responseCount[0].count > 0) {
+    result = await finalizeAssessment({
+      assessmentId,
+      studentId: assessment.student_id,
+      startTime,
+      endTime,
+      priorMean: session?.startingDifficulty ?? DEFAULT_PRIOR_MEAN,
+      stopReason: 'time_limit'
+    });
+  } else {
+    // Nothing was answered, so there is nothing to score; the assignment stays open for another attempt
+    const duration = Math.max(0, Math.round((endTime - startTime - assessment.paused_seconds * 1000) / 60000));
+    await executeQuery(
+      "UPDATE assessments SET stop_reason = 'abandoned', duration_minutes = ? WHERE id = ?",
+      [duration, assessmentId]
+    );
+    result = { ritScore: null, standardError: null, correctAnswers: 0, duration, stopReason: 'abandoned' };
+  }
+
+  await deleteAdaptiveSession(assessmentId);
+  return result;
+};
+
+// Build the JSON returned when an answer arrives for a test event that is already over
+const closedAssessmentResponse = (assessmentId, { ritScore, standardError, stopReason }) => ({
+  completed: true,
+  assessmentId,
+  ritScore,
+  standardError,
+  stopReason,
+  timeRemainingSeconds: 0,
+  message: ritScore !== null
+    ? `Assessment completed! Time limit reached. Your Growth Metric score is ${ritScore}`
+    : 'Time limit reached before any question was answered'
+});
+
 // Start new assessment
 export const startAssessment = async (req, res) => {
   try {
@@ -177,7 +421,7 @@ export const startAssessment = async (req, res) => {
 
     // Get assessment configuration for this grade-subject combination
     const configResult = await executeQuery(`
-      SELECT time_limit_minutes, question_count 
+      SELECT time_limit_minutes, question_count, min_question_count, target_standard_error, competency_blueprint 
       FROM assessment_configurations 
       WHERE grade_id = ? AND subject_id = ? AND is_active = 1
     `, [studentGradeId, subjectId]);
@@ -190,7 +434,8 @@ export const startAssessment = async (req, res) => {
     }
 
     const config = configResult[0];
-    const timeLimitMinutes = config.time_limit_minutes;
+    const accommodations = await getStudentAccommodations(studentId);
+    const timeLimitMinutes = applyTimeMultiplier(config.time_limit_minutes, accommodations);
     const questionCount = config.question_count;
 
     // Check for previous Growth Metric score to determine starting difficulty (within current year)
@@ -209,9 +454,28 @@ export const startAssessment = async (req, res) => {
       console.log(`No previous Growth Metric score found, using default difficulty ${startingDifficulty} for student ${studentId}, subject ${subjectId}`);
     }
 
+    // Initialize session with Maarif adaptive tracking (persisted so the test can be resumed)
+    const session = {
+      studentId,
+      subjectId,
+      period,
+      questionCount: 0,
+      maxQuestions: questionCount, // Use dynamic question count
+      minQuestions: config.min_question_count || null, // Minimum items before the precision rule applies
+      targetStandardError: config.target_standard_error ? Number(config.target_standard_error) : null, // Precision-based stop
+      competencyBlueprint: parseCompetencyBlueprint(config.competency_blueprint), // Target share of items per competency
+      competencyCounts: {}, // Items served per competency
+      timeLimitMinutes: timeLimitMinutes, // Store time limit
+      currentRIT: startingDifficulty, // Current Growth Metric estimate (EAP)
+      standardError: null, // Standard error of the current estimate
+      responses: [], // Scored responses feeding the ability estimate
+      usedQuestions: new Set(), // Track used questions
+      startingDifficulty: startingDifficulty // Store the starting difficulty for reference
+    };
+
     // Get first question based on adaptive starting difficulty
     console.log(`Finding first question with starting difficulty: ${startingDifficulty}`);
-    const firstQuestion = await findClosestQuestion(startingDifficulty, null, subjectId, null, studentGradeId);
+    const firstQuestion = await selectAdaptiveQuestion(session, studentGradeId);
     console.log(`First question found with difficulty: ${firstQuestion?.difficulty_level}`);
     
     // Log the session details for debugging
@@ -226,31 +490,23 @@ export const startAssessment = async (req, res) => {
     
     // Create assessment record with current year and configuration
     const result = await executeQuery(
-      'INSERT INTO assessments (student_id, subject_id, grade_id, assessment_period, year, total_questions, time_limit_minutes) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [studentId, subjectId, studentGradeId, period, currentYear, questionCount, timeLimitMinutes]
+      'INSERT INTO assessments (student_id, subject_id, grade_id, assessment_period, year, total_questions, time_limit_minutes, expires_at, accommodations) VALUES (?, ?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE), ?)',
+      [studentId, subjectId, studentGradeId, period, currentYear, questionCount, timeLimitMinutes, timeLimitMinutes, serializeAccommodations(accommodations)]
     );
 
-    // Initialize session with Maarif adaptive tracking
-    const sessionId = `${studentId}_${subjectId}_${period}`;
-    activeSessions.set(sessionId, {
+    await createAdaptiveSession({
+      ...session,
       assessmentId: result.insertId,
-      studentId,
-      subjectId,
-      period,
       currentDifficulty: firstQuestion.difficulty_level,
-      questionCount: 0,
-      maxQuestions: questionCount, // Use dynamic question count
-      timeLimitMinutes: timeLimitMinutes, // Store time limit
-      currentRIT: 0, // Current Growth Metric based on last answered question
-      highestCorrectDifficulty: 0, // Track final Growth Metric score
-      usedQuestions: new Set(), // Track used questions
-      startTime: Date.now(),
-      startingDifficulty: startingDifficulty // Store the starting difficulty for reference
+      currentQuestionId: firstQuestion.id, // Question the student is expected to answer next
+      startTime: Date.now()
     });
 
     res.json({
       assessmentId: result.insertId,
       timeLimitMinutes: timeLimitMinutes,
+      timeRemainingSeconds: await getTimeRemainingSeconds(result.insertId),
+      accommodations,
       question: {
         id: firstQuestion.id,
         text: firstQuestion.question_text,
@@ -312,10 +568,14 @@ export const submitAnswer = async (req, res) => {
     const studentGradeId = studentInfo[0].grade_id;
 
     // Check if assessment exists and get its mode
-    const assessments = await executeQuery(
-      'SELECT id, student_id, subject_id, assessment_mode, total_questions, time_limit_minutes, created_at, assignment_id FROM assessments WHERE id = ?',
-      [assessmentId]
-    );
+    const assessments = await executeQuery(`
+      SELECT 
+        a.id, a.student_id, a.subject_id, a.assessment_mode, a.total_questions, a.time_limit_minutes, 
+        a.created_at, a.assignment_id, a.rit_score, a.rit_standard_error, a.stop_reason, a.paused_at,
+        TIMESTAMPDIFF(SECOND, NOW(), ${ASSESSMENT_DEADLINE_SQL}) as seconds_remaining
+      FROM assessments a 
+      WHERE a.id = ?
+    `, [assessmentId]);
 
     if (assessments.length === 0) {
       return res.status(404).json({
@@ -334,25 +594,58 @@ export const submitAnswer = async (req, res) => {
       });
     }
 
-    // For Standard mode, we don't need in-memory sessions
+    // The test already ended (normally, or closed by the deadline sweeper); nothing more can be recorded
+    if (assessment.rit_score !== null || assessment.stop_reason !== null) {
+      return res.json(closedAssessmentResponse(assessmentId, {
+        ritScore: assessment.rit_score,
+        standardError: assessment.rit_standard_error !== null ? Number(assessment.rit_standard_error) : null,
+        stopReason: assessment.stop_reason
+      }));
+    }
+
+    // Answers sent after the deadline (beyond a short grace period) are not recorded; the test is closed instead
+    if (assessment.seconds_remaining !== null && Number(assessment.seconds_remaining) < -DEADLINE_GRACE_SECONDS) {
+      const closed = await closeExpiredAssessment(assessmentId);
+      return res.json(closedAssessmentResponse(assessmentId, closed));
+    }
+
+    if (assessment.paused_at !== null) {
+      return res.status(409).json({
+        error: 'This assessment is paused. Resume it before answering',
+        code: 'ASSESSMENT_PAUSED'
+      });
+    }
+
+    // For Standard mode, we don't need persisted sessions
     let session = null;
-    let sessionId = null;
 
     if (assessment.assessment_mode === 'Adaptive') {
-      // Find active session for Adaptive mode
-      sessionId = Object.keys(Object.fromEntries(activeSessions)).find(key => {
-        const sess = activeSessions.get(key);
-        return sess.studentId === studentId && sess.assessmentId === assessmentId;
-      });
+      // Load the persisted session for Adaptive mode
+      session = await getAdaptiveSession(assessmentId);
 
-      if (!sessionId) {
+      if (!session || session.studentId !== studentId) {
         return res.status(404).json({
           error: 'Assessment session not found',
           code: 'SESSION_NOT_FOUND'
         });
       }
 
-      session = activeSessions.get(sessionId);
+      // Only the question that was last served may be answered (guards against stale tabs and replays)
+      if (session.currentQuestionId && Number(session.currentQuestionId) !== Number(questionId)) {
+        return res.status(409).json({
+          error: 'This question is no longer the current question of the assessment',
+          code: 'QUESTION_NOT_CURRENT'
+        });
+      }
+
+      // Claim the session before grading so a concurrent submission of the same answer is rejected
+      const claimed = await saveAdaptiveSession(session);
+      if (!claimed) {
+        return res.status(409).json({
+          error: 'This answer is already being processed',
+          code: 'SESSION_CONFLICT'
+        });
+      }
     } else {
       // For Standard mode, create a virtual session from database
       // Get current question count from responses
@@ -371,17 +664,21 @@ export const submitAnswer = async (req, res) => {
         subjectId: assessment.subject_id,
         questionCount: questionCount,
         maxQuestions: assessment.total_questions,
+        minQuestions: null,
+        targetStandardError: null,
         timeLimitMinutes: assessment.time_limit_minutes,
         startTime: startTime,
         usedQuestions: new Set(),
-        currentRIT: 225, // Default for Standard mode
-        highestCorrectDifficulty: 0
+        responses: [], // Standard mode is scored from stored responses at completion
+        startingDifficulty: DEFAULT_PRIOR_MEAN,
+        currentRIT: DEFAULT_PRIOR_MEAN, // Default for Standard mode
+        standardError: null
       };
     }
 
     // Get question details including question type, DOK level, and question text for AI grading
     const questions = await executeQuery(
-      'SELECT correct_option_index, correct_answer, question_type, question_metadata, difficulty_level, question_text, dok_level FROM questions WHERE id = ?',
+      'SELECT correct_option_index, correct_answer, question_type, question_metadata, difficulty_level, question_text, dok_level, current_version_id FROM questions WHERE id = ?',
       [questionId]
     );
 
@@ -458,7 +755,10 @@ export const submitAnswer = async (req, res) => {
     }
     
     // Determine if answer is correct based on question type
+    // score is the credit earned (0-1); multi-part types can earn partial credit under the question's policy
     let isCorrect = false;
+    let score = null;
+    const partialCreditPolicy = getPartialCreditPolicy(question.question_metadata);
     let selectedIndices = [];
     let finalAnswerIndex = answerIndex; // Store the final value to save to database
     
@@ -510,9 +810,9 @@ export const submitAnswer = async (req, res) => {
       selectedIndices.sort((a, b) => a - b);
       correctIndices.sort((a, b) => a - b);
       
-      // Check if all correct answers are selected and no incorrect ones
-      isCorrect = selectedIndices.length === correctIndices.length &&
-                  selectedIndices.every((val, idx) => val === correctIndices[idx]);
+      // Full credit needs all correct answers selected and no incorrect ones
+      score = scoreMultipleSelect(selectedIndices, correctIndices, partialCreditPolicy);
+      isCorrect = score === 1;
       
       // Store selected indices as JSON string for database
       finalAnswerIndex = JSON.stringify(selectedIndices);
@@ -567,15 +867,17 @@ export const submitAnswer = async (req, res) => {
           throw new Error('No answers provided for FillInBlank question');
         }
         
-        // For FillInBlank, check that all blanks are answered correctly
-        // Each blank must have the correct option selected
-        if (selectedIndices.length !== correctIndices.length) {
-          isCorrect = false;
+        // For FillInBlank, each blank must have the correct option selected
+        // (unanswered blanks count as wrong; extra answers make the response wrong)
+        if (selectedIndices.length > correctIndices.length) {
+          score = 0;
         } else {
-          isCorrect = selectedIndices.every((selectedIdx, blankIdx) => 
-            selectedIdx === correctIndices[blankIdx]
+          score = scoreParts(
+            correctIndices.map((correctIdx, blankIdx) => selectedIndices[blankIdx] === correctIdx),
+            partialCreditPolicy
           );
         }
+        isCorrect = score === 1;
         
         // Store selected indices as JSON string for database
         finalAnswerIndex = JSON.stringify(selectedIndices);
@@ -638,10 +940,14 @@ export const submitAnswer = async (req, res) => {
         
         // For Matching, check that each left item is matched to the correct right item
         // correctPairs is array of {left: index, right: index}
-        isCorrect = selectedIndices.every((selectedRightIdx, leftIdx) => {
-          const correctPair = correctPairs.find((p) => p.left === leftIdx);
-          return correctPair && correctPair.right === selectedRightIdx;
-        });
+        score = scoreParts(
+          selectedIndices.map((selectedRightIdx, leftIdx) => {
+            const correctPair = correctPairs.find((p) => p.left === leftIdx);
+            return Boolean(correctPair && correctPair.right === selectedRightIdx);
+          }),
+          partialCreditPolicy
+        );
+        isCorrect = score === 1;
         
         // Store selected matches as JSON string for database
         finalAnswerIndex = JSON.stringify(selectedIndices);
@@ -652,6 +958,66 @@ export const submitAnswer = async (req, res) => {
           code: 'INVALID_MATCHING_ANSWER'
         });
       }
+    } else if (question.question_type === 'NumericEntry') {
+      // For NumericEntry: answerIndex is the typed number (optionally with a unit), scored against the key within tolerance
+      if (typeof answerIndex !== 'string' && typeof answerIndex !== 'number') {
+        return res.status(400).json({
+          error: 'Invalid NumericEntry answer format: expected the typed number',
+          code: 'INVALID_NUMERIC_ANSWER'
+        });
+      }
+      finalAnswerIndex = String(answerIndex).trim();
+      score = scoreNumericAnswer(finalAnswerIndex, question.correct_answer, question.question_metadata);
+      isCorrect = score === 1;
+    } else if (question.question_type === 'Ordering') {
+      // For Ordering: answerIndex is the item indices in the order the student arranged them
+      const items = getOrderingItems(question.question_metadata);
+      const selectedOrder = parseOrderingSequence(answerIndex, items.length);
+      if (!selectedOrder) {
+        return res.status(400).json({
+          error: `Invalid Ordering answer format: expected each of the ${items.length} steps exactly once`,
+          code: 'INVALID_ORDERING_ANSWER'
+        });
+      }
+      const correctOrder = parseOrderingSequence(question.correct_answer, items.length) || [];
+      score = scoreOrdering(selectedOrder, correctOrder, partialCreditPolicy);
+      isCorrect = score === 1;
+
+      // Store the arrangement as JSON string for database
+      finalAnswerIndex = JSON.stringify(selectedOrder);
+    } else if (question.question_type === 'Hotspot') {
+      // For Hotspot: answerIndex is the click {x, y} as fractions of the image size
+      const click = parseHotspotClick(answerIndex);
+      if (!click) {
+        return res.status(400).json({
+          error: 'Invalid Hotspot answer format: expected the click position on the image',
+          code: 'INVALID_HOTSPOT_ANSWER'
+        });
+      }
+      score = scoreHotspotClick(click, question.correct_answer);
+      isCorrect = score === 1;
+
+      // Store the click as JSON string for database
+      finalAnswerIndex = JSON.stringify(click);
+    } else if (question.question_type === 'Categorize') {
+      // For Categorize: answerIndex is the category index the student chose for each item
+      const { categories, items } = getCategorizeStructure(question.question_metadata);
+      const placement = parseCategorizePlacement(answerIndex, items.length, categories.length);
+      if (!placement) {
+        return res.status(400).json({
+          error: `Invalid Categorize answer format: expected a category for each of the ${items.length} items`,
+          code: 'INVALID_CATEGORIZE_ANSWER'
+        });
+      }
+      const correctPlacement = parseCategorizePlacement(question.correct_answer, items.length, categories.length) || [];
+      score = scoreParts(
+        placement.map((categoryIdx, itemIdx) => categoryIdx === correctPlacement[itemIdx]),
+        partialCreditPolicy
+      );
+      isCorrect = score === 1;
+
+      // Store the placement as JSON string for database
+      finalAnswerIndex = JSON.stringify(placement);
     } else if (question.question_type === 'ShortAnswer' || question.question_type === 'Essay') {
       // For ShortAnswer and Essay, use AI grading
       // Store the text answer as-is
@@ -744,9 +1110,15 @@ export const submitAnswer = async (req, res) => {
     // Include AI grading result if available (for Short Answer/Essay)
     const aiGradingResult = question.aiGradingResult || null;
     
+    if (score === null) {
+      score = isCorrect ? 1 : 0;
+    }
+
+    const responseTimeSeconds = await getResponseTimeSeconds(assessmentId);
+
     await executeQuery(
-      'INSERT INTO assessment_responses (assessment_id, question_id, question_order, selected_option_index, is_correct, question_difficulty, ai_grading_result) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [assessmentId, questionId, questionOrder, finalAnswerIndex, isCorrect, question.difficulty_level, aiGradingResult]
+      'INSERT INTO assessment_responses (assessment_id, question_id, question_version_id, question_order, selected_option_index, is_correct, score, question_difficulty, response_time_seconds, ai_grading_result) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [assessmentId, questionId, question.current_version_id, questionOrder, finalAnswerIndex, isCorrect, score, question.difficulty_level, responseTimeSeconds, aiGradingResult]
     );
 
     // Update session (only for Adaptive mode, Standard mode doesn't use session state)
@@ -758,148 +1130,70 @@ export const submitAnswer = async (req, res) => {
       session.questionCount++;
     }
 
-    // Update current Growth Metric based on the question that was just answered
-    if (isCorrect) {
-      // If answered correctly, current Growth Metric becomes the difficulty of this question
-      session.currentRIT = question.difficulty_level;
-    }
-    // If answered incorrectly, current Growth Metric stays the same
-    
-    // Also update highest correct difficulty for final Growth Metric score calculation
-    if (isCorrect && question.difficulty_level > session.highestCorrectDifficulty) {
-      session.highestCorrectDifficulty = question.difficulty_level;
-    }
-
-    // Check time limit
-    const elapsedMinutes = Math.round((Date.now() - session.startTime) / 60000);
-    if (elapsedMinutes >= session.timeLimitMinutes) {
-      const duration = elapsedMinutes;
-
-      // Calculate average difficulty across all attempted questions in this assessment
-      const avgResult = await executeQuery(
-        'SELECT AVG(question_difficulty) as avg_difficulty FROM assessment_responses WHERE assessment_id = ?',
-        [assessmentId]
-      );
-      const ritScore = Math.round(avgResult[0].avg_difficulty || question.difficulty_level);
-
-      // Calculate correct answers count
-      const correctAnswersResult = await executeQuery(
-        'SELECT COUNT(*) as correct_count FROM assessment_responses WHERE assessment_id = ? AND is_correct = 1',
-        [assessmentId]
-      );
-      const correctAnswers = correctAnswersResult[0].correct_count;
-
-      // Update assessment with Growth Metric score
-      await executeQuery(
-        'UPDATE assessments SET rit_score = ?, correct_answers = ?, duration_minutes = ? WHERE id = ?',
-        [ritScore, correctAnswers, duration, assessmentId]
-      );
-
-      // Update assignment_students if this is an assignment-based assessment
-      const assignmentResult3 = await executeQuery(
-        'SELECT assignment_id FROM assessments WHERE id = ?',
-        [assessmentId]
-      );
-      if (assignmentResult3.length > 0 && assignmentResult3[0].assignment_id) {
-        const assignmentId = assignmentResult3[0].assignment_id;
-        
-        // Check if assignment_students record exists
-        const existingRecord = await executeQuery(
-          'SELECT id FROM assignment_students WHERE assignment_id = ? AND student_id = ?',
-          [assignmentId, studentId]
-        );
-        
-        if (existingRecord.length > 0) {
-          // Update existing record
-          await executeQuery(
-            'UPDATE assignment_students SET is_completed = 1, completed_at = NOW() WHERE assignment_id = ? AND student_id = ?',
-            [assignmentId, studentId]
-          );
-        } else {
-          // Create new record for grade-level assignments
-          await executeQuery(
-            'INSERT INTO assignment_students (assignment_id, student_id, is_completed, completed_at) VALUES (?, ?, 1, NOW())',
-            [assignmentId, studentId]
-          );
-        }
-      }
+    // Update the ability estimate with the response that was just recorded
+    session.responses.push({ difficulty: question.difficulty_level, score });
+    const estimate = formatEstimate(estimateAbility(session.responses, { priorMean: session.startingDifficulty }));
+    session.currentRIT = estimate.ritScore;
+    session.standardError = estimate.standardError;
+
+    // Check time limit against the deadline stored with the assessment
+    const timeRemainingSeconds = await getTimeRemainingSeconds(assessmentId);
+    if (timeRemainingSeconds !== null && timeRemainingSeconds <= 0) {
+      const { ritScore, standardError, stopReason } = await finalizeAssessment({
+        assessmentId,
+        studentId,
+        startTime: session.startTime,
+        priorMean: session.startingDifficulty,
+        stopReason: 'time_limit'
+      });
 
       // Clean up session (only for Adaptive mode)
-      if (sessionId && assessment.assessment_mode === 'Adaptive') {
-        activeSessions.delete(sessionId);
+      if (assessment.assessment_mode === 'Adaptive') {
+        await deleteAdaptiveSession(assessmentId);
       }
 
       return res.json({
         completed: true,
         isCorrect,
+        score,
         assessmentId: assessmentId,
+        ritScore,
+        standardError,
+        stopReason,
+        timeRemainingSeconds: 0,
         message: `Assessment completed! Time limit reached. Your Growth Metric score is ${ritScore}`
       });
     }
 
-    // Check if assessment is complete (dynamic question count)
-    if (session.questionCount >= session.maxQuestions) {
-      const duration = Math.round((Date.now() - session.startTime) / 60000); // minutes
-
-      // Calculate average difficulty across all attempted questions in this assessment
-      const avgResult = await executeQuery(
-        'SELECT AVG(question_difficulty) as avg_difficulty FROM assessment_responses WHERE assessment_id = ?',
-        [assessmentId]
-      );
-      const ritScore = Math.round(avgResult[0].avg_difficulty || question.difficulty_level);
-
-      // Calculate correct answers count
-      const correctAnswersResult = await executeQuery(
-        'SELECT COUNT(*) as correct_count FROM assessment_responses WHERE assessment_id = ? AND is_correct = 1',
-        [assessmentId]
-      );
-      const correctAnswers = correctAnswersResult[0].correct_count;
-
-      // Update assessment with Growth Metric score
-      await executeQuery(
-        'UPDATE assessments SET rit_score = ?, correct_answers = ?, duration_minutes = ? WHERE id = ?',
-        [ritScore, correctAnswers, duration, assessmentId]
-      );
-
-      // Update assignment_students if this is an assignment-based assessment (both Standard and Adaptive)
-      const assignmentResult4 = await executeQuery(
-        'SELECT assignment_id FROM assessments WHERE id = ?',
-        [assessmentId]
-      );
-      if (assignmentResult4.length > 0 && assignmentResult4[0].assignment_id) {
-        const assignmentId = assignmentResult4[0].assignment_id;
-        
-        // Check if assignment_students record exists
-        const existingRecord = await executeQuery(
-          'SELECT id FROM assignment_students WHERE assignment_id = ? AND student_id = ?',
-          [assignmentId, studentId]
-        );
-        
-        if (existingRecord.length > 0) {
-          // Update existing record
-          await executeQuery(
-            'UPDATE assignment_students SET is_completed = 1, completed_at = NOW() WHERE assignment_id = ? AND student_id = ?',
-            [assignmentId, studentId]
-          );
-        } else {
-          // Create new record for grade-level assignments
-          await executeQuery(
-            'INSERT INTO assignment_students (assignment_id, student_id, is_completed, completed_at) VALUES (?, ?, 1, NOW())',
-            [assignmentId, studentId]
-          );
-        }
-      }
+    // Check if assessment is complete (maximum length, or precision target for Adaptive mode)
+    const adaptiveStopReason = assessment.assessment_mode === 'Adaptive'
+      ? getAdaptiveStopReason(session)
+      : (session.questionCount >= session.maxQuestions ? 'max_items' : null);
+    if (adaptiveStopReason) {
+      const { ritScore, standardError, stopReason } = await finalizeAssessment({
+        assessmentId,
+        studentId,
+        startTime: session.startTime,
+        priorMean: session.startingDifficulty,
+        stopReason: adaptiveStopReason
+      });
 
       // Clean up session (only for Adaptive mode)
-      if (sessionId && assessment.assessment_mode === 'Adaptive') {
-        activeSessions.delete(sessionId);
+      if (assessment.assessment_mode === 'Adaptive') {
+        await deleteAdaptiveSession(assessmentId);
       }
 
       return res.json({
         completed: true,
         isCorrect,
+        score,
         assessmentId: assessmentId,
-        message: `Assessment completed! Your Growth Metric score is ${ritScore}`
+        ritScore,
+        standardError,
+        stopReason,
+        message: stopReason === 'precision_reached'
+          ? `Assessment completed! Your Growth Metric score of ${ritScore} was measured precisely enough to finish early`
+          : `Assessment completed! Your Growth Metric score is ${ritScore}`
       });
     }
 
@@ -915,63 +1209,22 @@ export const submitAnswer = async (req, res) => {
       
       // Check if all questions are answered
       if (totalResponses >= assessment.total_questions) {
-        // Calculate final score and mark as complete
-        const startTime = assessment.created_at ? new Date(assessment.created_at).getTime() : Date.now();
-        const duration = Math.round((Date.now() - startTime) / 60000);
-        
-        // Calculate average difficulty across all attempted questions
-        const avgResult = await executeQuery(
-          'SELECT AVG(question_difficulty) as avg_difficulty FROM assessment_responses WHERE assessment_id = ?',
-          [assessmentId]
-        );
-        const ritScore = Math.round(avgResult[0].avg_difficulty || question.difficulty_level);
-        
-        // Calculate correct answers count
-        const correctAnswersResult = await executeQuery(
-          'SELECT COUNT(*) as correct_count FROM assessment_responses WHERE assessment_id = ? AND is_correct = 1',
-          [assessmentId]
-        );
-        const correctAnswers = correctAnswersResult[0].correct_count;
-        
-        // Update assessment with Growth Metric score
-        await executeQuery(
-          'UPDATE assessments SET rit_score = ?, correct_answers = ?, duration_minutes = ? WHERE id = ?',
-          [ritScore, correctAnswers, duration, assessmentId]
-        );
-        
-        // Update assignment_students if this is an assignment-based assessment
-        const assignmentResult5 = await executeQuery(
-          'SELECT assignment_id FROM assessments WHERE id = ?',
-          [assessmentId]
-        );
-        if (assignmentResult5.length > 0 && assignmentResult5[0].assignment_id) {
-          const assignmentId = assignmentResult5[0].assignment_id;
-          
-          // Check if assignment_students record exists
-          const existingRecord = await executeQuery(
-            'SELECT id FROM assignment_students WHERE assignment_id = ? AND student_id = ?',
-            [assignmentId, studentId]
-          );
-          
-          if (existingRecord.length > 0) {
-            // Update existing record
-            await executeQuery(
-              'UPDATE assignment_students SET is_completed = 1, completed_at = NOW() WHERE assignment_id = ? AND student_id = ?',
-              [assignmentId, studentId]
-            );
-          } else {
-            // Create new record for grade-level assignments
-            await executeQuery(
-              'INSERT INTO assignment_students (assignment_id, student_id, is_completed, completed_at) VALUES (?, ?, 1, NOW())',
-              [assignmentId, studentId]
-            );
-          }
-        }
+        const { ritScore, standardError, stopReason } = await finalizeAssessment({
+          assessmentId,
+          studentId,
+          startTime: session.startTime,
+          priorMean: session.startingDifficulty,
+          stopReason: 'max_items'
+        });
         
         return res.json({
           completed: true,
           isCorrect,
+          score,
           assessmentId: assessmentId,
+          ritScore,
+          standardError,
+          stopReason,
           message: `Assessment completed! Your Growth Metric score is ${ritScore}`
         });
       }
@@ -980,85 +1233,62 @@ export const submitAnswer = async (req, res) => {
       return res.json({
         completed: false,
         isCorrect,
-        assessmentId: assessmentId
+        score,
+        assessmentId: assessmentId,
+        timeRemainingSeconds
       });
     }
 
-    // For Adaptive mode, find next question using adaptive algorithm
-    console.log(`Question ${session.questionCount}: Difficulty ${question.difficulty_level}, Correct: ${isCorrect}`);
-    const nextQuestion = await findClosestQuestion(question.difficulty_level, isCorrect, session.subjectId, assessmentId, studentGradeId, session.usedQuestions);
+    // For Adaptive mode, find next question targeting the updated ability estimate
+    console.log(`Question ${session.questionCount}: Difficulty ${question.difficulty_level}, Correct: ${isCorrect}, Estimate: ${session.currentRIT} ± ${session.standardError}`);
+    const nextQuestion = await selectAdaptiveQuestion(session, studentGradeId);
     console.log(`Next question difficulty: ${nextQuestion?.difficulty_level}`);
 
     if (!nextQuestion) {
       // No more questions available, complete the assessment
-      const duration = Math.round((Date.now() - session.startTime) / 60000);
-
-      // Calculate average difficulty across all attempted questions in this assessment
-      const avgResult = await executeQuery(
-        'SELECT AVG(question_difficulty) as avg_difficulty FROM assessment_responses WHERE assessment_id = ?',
-        [assessmentId]
-      );
-      const ritScore = Math.round(avgResult[0].avg_difficulty || question.difficulty_level);
-
-      // Calculate correct answers count
-      const correctAnswersResult = await executeQuery(
-        'SELECT COUNT(*) as correct_count FROM assessment_responses WHERE assessment_id = ? AND is_correct = 1',
-        [assessmentId]
-      );
-      const correctAnswers = correctAnswersResult[0].correct_count;
-
-      // Update assessment with Growth Metric score
-      await executeQuery(
-        'UPDATE assessments SET rit_score = ?, correct_answers = ?, duration_minutes = ? WHERE id = ?',
-        [ritScore, correctAnswers, duration, assessmentId]
-      );
-
-      // Update assignment_students if this is an assignment-based assessment
-      const assignmentResult2 = await executeQuery(
-        'SELECT assignment_id FROM assessments WHERE id = ?',
-        [assessmentId]
-      );
-      if (assignmentResult2.length > 0 && assignmentResult2[0].assignment_id) {
-        const assignmentId = assignmentResult2[0].assignment_id;
-        
-        // Check if assignment_students record exists
-        const existingRecord = await executeQuery(
-          'SELECT id FROM assignment_students WHERE assignment_id = ? AND student_id = ?',
-          [assignmentId, studentId]
-        );
-        
-        if (existingRecord.length > 0) {
-          // Update existing record
-          await executeQuery(
-            'UPDATE assignment_students SET is_completed = 1, completed_at = NOW() WHERE assignment_id = ? AND student_id = ?',
-            [assignmentId, studentId]
-          );
-        } else {
-          // Create new record for grade-level assignments
-          await executeQuery(
-            'INSERT INTO assignment_students (assignment_id, student_id, is_completed, completed_at) VALUES (?, ?, 1, NOW())',
-            [assignmentId, studentId]
-          );
-        }
-      }
+      const { ritScore, standardError, stopReason } = await finalizeAssessment({
+        assessmentId,
+        studentId,
+        startTime: session.startTime,
+        priorMean: session.startingDifficulty,
+        stopReason: 'item_bank_exhausted'
+      });
 
       // Clean up session (only for Adaptive mode)
-      if (sessionId && assessment.assessment_mode === 'Adaptive') {
-        activeSessions.delete(sessionId);
+      if (assessment.assessment_mode === 'Adaptive') {
+        await deleteAdaptiveSession(assessmentId);
       }
 
       return res.json({
         completed: true,
         isCorrect,
+        score,
         assessmentId: assessmentId,
+        ritScore,
+        standardError,
+        stopReason,
         message: `Assessment completed! No more questions available. Your Growth Metric score is ${ritScore}`
       });
     }
 
+    // Persist the updated estimate and the question being served
+    session.currentDifficulty = nextQuestion.difficulty_level;
+    session.currentQuestionId = nextQuestion.id;
+    const saved = await saveAdaptiveSession(session);
+    if (!saved) {
+      return res.status(409).json({
+        error: 'Assessment session was updated by another request',
+        code: 'SESSION_CONFLICT'
+      });
+    }
+
     res.json({
       completed: false,
       isCorrect,
+      score,
       currentRIT: session.currentRIT,
+      standardError: session.standardError,
+      timeRemainingSeconds,
       question: {
         id: nextQuestion.id,
         text: nextQuestion.question_text,
@@ -1098,6 +1328,405 @@ export const submitAnswer = async (req, res) => {
   }
 };
 
+// Get the student's assessments that were started but not finished (paused or interrupted)
+export const getInProgressAssessments = async (req, res) => {
+  try {
+    const studentId = req.user.id;
+
+    // Adaptive tests can only be resumed while their session exists; Standard tests are rebuilt from the assignment
+    const assessments = await executeQuery(`
+      SELECT 
+        a.id, a.subject_id, a.assessment_mode, a.assessment_period, a.assignment_id, a.total_questions,
+        a.created_at, a.paused_at, s.name as subject_name, asg.name as assignment_name,
+        (SELECT COUNT(*) FROM assessment_responses ar WHERE ar.assessment_id = a.id) as questions_answered,
+        TIMESTAMPDIFF(SECOND, NOW(), ${ASSESSMENT_DEADLINE_SQL}) as seconds_remaining
+      FROM assessments a
+      JOIN subjects s ON a.subject_id = s.id
+      LEFT JOIN assignments asg ON a.assignment_id = asg.id
+      LEFT JOIN adaptive_sessions ads ON ads.assessment_id = a.id
+      WHERE a.student_id = ? 
+        AND a.rit_score IS NULL 
+        AND a.stop_reason IS NULL
+        AND (ads.assessment_id IS NOT NULL OR (a.assessment_mode = 'Standard' AND a.assignment_id IS NOT NULL))
+      HAVING seconds_remaining IS NULL OR seconds_remaining > 0
+      ORDER BY a.created_at DESC
+    `, [studentId]);
+
+    res.json(assessments.map(assessment => ({
+      assessmentId: assessment.id,
+      subjectId: assessment.subject_id,
+      subjectName: assessment.subject_name,
+      mode: assessment.assessment_mode,
+      period: assessment.assessment_period,
+      assignmentId: assessment.assignment_id,
+      assignmentName: assessment.assignment_name,
+      questionsAnswered: assessment.questions_answered,
+      totalQuestions: assessment.total_questions,
+      startedAt: assessment.created_at,
+      paused: assessment.paused_at !== null,
+      timeRemainingSeconds: assessment.seconds_remaining !== null ? Number(assessment.seconds_remaining) : null
+    })));
+  } catch (error) {
+    console.error('Error fetching in-progress assessments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch in-progress assessments',
+      code: 'FETCH_IN_PROGRESS_ERROR'
+    });
+  }
+};
+
+// Parse the options/metadata of a question row into the payload sent to the student
+const formatQuestionPayload = (question, questionNumber, totalQuestions) => ({
+  id: question.id,
+  text: question.question_text,
+  options: (() => {
+    if (typeof question.options === 'string') {
+      try {
+        return JSON.parse(question.options);
+      } catch (parseError) {
+        console.error('Error parsing options JSON:', parseError);
+        return [];
+      }
+    }
+    return question.options;
+  })(),
+  questionType: question.question_type || 'MCQ',
+  questionMetadata: (() => {
+    if (!question.question_metadata) return null;
+    try {
+      return typeof question.question_metadata === 'string'
+        ? JSON.parse(question.question_metadata)
+        : question.question_metadata;
+    } catch (e) {
+      console.error('Error parsing question_metadata for resumed question:', e);
+      return null;
+    }
+  })(),
+  questionNumber,
+  totalQuestions
+});
+
+// Resume an assessment in progress (after a pause, refresh, restart or device switch)
+export const resumeAssessment = async (req, res) => {
+  try {
+    const { assessmentId } = req.params;
+    const studentId = req.user.id;
+
+    const assessments = await executeQuery(`
+      SELECT 
+        a.id, a.student_id, a.subject_id, a.assessment_mode, a.assessment_period, a.assignment_id,
+        a.time_limit_minutes, a.total_questions, a.rit_score, a.stop_reason, a.paused_at, a.accommodations,
+        asg.name as assignment_name
+      FROM assessments a
+      LEFT JOIN assignments asg ON a.assignment_id = asg.id
+      WHERE a.id = ?
+    `, [assessmentId]);
+
+    const assessment = assessments[0];
+    if (!assessment || assessment.student_id !== studentId || assessment.rit_score !== null || assessment.stop_reason !== null) {
+      return res.status(404).json({
+        error: 'Assessment session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+    }
+
+    // A test whose deadline passed while the student was away is closed instead of resumed
+    const timeRemainingSeconds = await getTimeRemainingSeconds(assessmentId);
+    if (timeRemainingSeconds !== null && timeRemainingSeconds <= 0) {
+      const closed = await closeExpiredAssessment(assessmentId);
+      return res.status(410).json({
+        error: 'The time limit for this assessment has passed',
+        code: 'ASSESSMENT_EXPIRED',
+        assessmentId: assessment.id,
+        ritScore: closed?.ritScore ?? null
+      });
+    }
+
+    const common = {
+      assessmentId: assessment.id,
+      subjectId: assessment.subject_id,
+      period: assessment.assessment_period,
+      assignmentId: assessment.assignment_id,
+      assignmentName: assessment.assignment_name,
+      mode: assessment.assessment_mode,
+      timeLimitMinutes: assessment.time_limit_minutes,
+      timeRemainingSeconds,
+      paused: assessment.paused_at !== null,
+      accommodations: parseAccommodations(assessment.accommodations)
+    };
+
+    if (assessment.assessment_mode === 'Standard') {
+      const standard = assessment.assignment_id
+        ? await getStandardResumeQuestions(assessment.id, assessment.assignment_id, studentId)
+        : null;
+
+      if (!standard || standard.answeredCount >= standard.questions.length) {
+        return res.status(404).json({
+          error: 'Assessment session not found',
+          code: 'SESSION_NOT_FOUND'
+        });
+      }
+
+      return res.json({
+        ...common,
+        currentRIT: null,
+        standardError: null,
+        question: {
+          ...standard.questions[standard.answeredCount],
+          questionNumber: standard.answeredCount + 1,
+          totalQuestions: standard.questions.length
+        },
+        allQuestions: standard.questions
+      });
+    }
+
+    const session = await getAdaptiveSession(assessmentId);
+    if (!session || session.studentId !== studentId) {
+      return res.status(404).json({
+        error: 'Assessment session not found',
+        code: 'SESSION_NOT_FOUND'
+      });
+    }
+
+    const questions = await executeQuery(
+      'SELECT id, question_text, options, question_type, question_metadata FROM questions WHERE id = ?',
+      [session.currentQuestionId]
+    );
+
+    if (questions.length === 0) {
+      return res.status(404).json({
+        error: 'Current question not found',
+        code: 'QUESTION_NOT_FOUND'
+      });
+    }
+
+    res.json({
+      ...common,
+      currentRIT: session.currentRIT,
+      standardError: session.standardError,
+      question: formatQuestionPayload(questions[0], session.questionCount + 1, session.maxQuestions)
+    });
+  } catch (error) {
+    console.error('Error resuming assessment:', error);
+    res.status(500).json({
+      error: 'Failed to resume assessment',
+      code: 'RESUME_ASSESSMENT_ERROR'
+    });
+  }
+};
+
+// Load an assessment for a pause/resume request and check that it belongs to the student and is still open
+const getOpenAssessmentForStudent = async (assessmentId, studentId, res) => {
+  const assessments = await executeQuery(`
+    SELECT 
+      a.id, a.student_id, a.rit_score, a.stop_reason, a.paused_at, a.paused_seconds, a.accommodations,
+      ac.max_pause_minutes
+    FROM assessments a
+    LEFT JOIN assessment_configurations ac 
+      ON ac.grade_id = a.grade_id AND ac.subject_id = a.subject_id AND ac.is_active = 1
+    WHERE a.id = ?
+  `, [assessmentId]);
+
+  if (assessments.length === 0) {
+    res.status(404).json({
+      error: 'Assessment not found',
+      code: 'ASSESSMENT_NOT_FOUND'
+    });
+    return null;
+  }
+
+  const assessment = assessments[0];
+
+  if (assessment.student_id !== studentId) {
+    res.status(403).json({
+      error: 'You are not authorized to access this assessment',
+      code: 'UNAUTHORIZED'
+    });
+    return null;
+  }
+
+  if (assessment.rit_score !== null || assessment.stop_reason !== null) {
+    res.status(409).json({
+      error: 'This assessment has already ended',
+      code: 'ASSESSMENT_CLOSED'
+    });
+    return null;
+  }
+
+  return assessment;
+};
+
+// Pause a test event (fire drill, prayer time, illness); the clock stops until the student resumes
+// or the grade/subject pause allowance (plus any accommodated break time) runs out
+export const pauseAssessment = async (req, res) => {
+  try {
+    const { assessmentId } = req.params;
+    const { reason } = req.body || {};
+    const studentId = req.user.id;
+
+    const assessment = await getOpenAssessmentForStudent(assessmentId, studentId, res);
+    if (!assessment) return;
+
+    if (assessment.paused_at !== null) {
+      return res.status(409).json({
+        error: 'This assessment is already paused',
+        code: 'ALREADY_PAUSED'
+      });
+    }
+
+    const timeRemainingSeconds = await getTimeRemainingSeconds(assessmentId);
+    if (timeRemainingSeconds !== null && timeRemainingSeconds <= 0) {
+      const closed = await closeExpiredAssessment(assessmentId);
+      return res.status(410).json({
+        error: 'The time limit for this assessment has passed',
+        code: 'ASSESSMENT_EXPIRED',
+        assessmentId: assessment.id,
+        ritScore: closed?.ritScore ?? null
+      });
+    }
+
+    // A student's break allowance adds to the grade/subject allowance (and allows pausing even where it is 0)
+    const maxPauseMinutes = (assessment.max_pause_minutes ?? DEFAULT_MAX_PAUSE_MINUTES) +
+      parseAccommodations(assessment.accommodations).breakMinutes;
+    if (maxPauseMinutes <= 0) {
+      return res.status(403).json({
+        error: 'Pausing is not allowed for this assessment',
+        code: 'PAUSE_NOT_ALLOWED'
+      });
+    }
+
+    const pauseAllowanceSeconds = maxPauseMinutes * 60 - assessment.paused_seconds;
+    if (pauseAllowanceSeconds <= 0) {
+      return res.status(409).json({
+        error: `The maximum pause time of ${maxPauseMinutes} minutes has been used`,
+        code: 'PAUSE_LIMIT_REACHED'
+      });
+    }
+
+    const result = await executeQuery(
+      `UPDATE assessments 
+       SET paused_at = NOW(), pause_limit_at = DATE_ADD(NOW(), INTERVAL ? SECOND) 
+       WHERE id = ? AND paused_at IS NULL AND rit_score IS NULL AND stop_reason IS NULL`,
+      [pauseAllowanceSeconds, assessmentId]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(409).json({
+        error: 'This assessment is already paused',
+        code: 'ALREADY_PAUSED'
+      });
+    }
+
+    await executeQuery(
+      'INSERT INTO assessment_pauses (assessment_id, paused_at, reason) SELECT id, paused_at, ? FROM assessments WHERE id = ?',
+      [reason ? String(reason).trim().slice(0, 255) || null : null, assessmentId]
+    );
+
+    res.json({
+      assessmentId: assessment.id,
+      paused: true,
+      pauseAllowanceSeconds,
+      timeRemainingSeconds
+    });
+  } catch (error) {
+    console.error('Error pausing assessment:', error);
+    res.status(500).json({
+      error: 'Failed to pause assessment',
+      code: 'PAUSE_ASSESSMENT_ERROR'
+    });
+  }
+};
+
+// Restart the clock of a paused test event
+export const continueAssessment = async (req, res) => {
+  try {
+    const { assessmentId } = req.params;
+    const studentId = req.user.id;
+
+    const assessment = await getOpenAssessmentForStudent(assessmentId, studentId, res);
+    if (!assessment) return;
+
+    const creditedSeconds = await endPause(assessmentId);
+    if (creditedSeconds === null) {
+      return res.status(409).json({
+        error: 'This assessment is not paused',
+        code: 'NOT_PAUSED'
+      });
+    }
+
+    // Pauses beyond the allowance count against the time limit, which may have run out meanwhile
+    const timeRemainingSeconds = await getTimeRemainingSeconds(assessmentId);
+    if (timeRemainingSeconds !== null && timeRemainingSeconds <= 0) {
+      const closed = await closeExpiredAssessment(assessmentId);
+      return res.status(410).json({
+        error: 'The time limit for this assessment has passed',
+        code: 'ASSESSMENT_EXPIRED',
+        assessmentId: assessment.id,
+        ritScore: closed?.ritScore ?? null
+      });
+    }
+
+    res.json({
+      assessmentId: assessment.id,
+      paused: false,
+      creditedSeconds,
+      timeRemainingSeconds
+    });
+  } catch (error) {
+    console.error('Error resuming paused assessment:', error);
+    res.status(500).json({
+      error: 'Failed to resume assessment',
+      code: 'CONTINUE_ASSESSMENT_ERROR'
+    });
+  }
+};
+
+// Close a test whose countdown reached zero on the client without a final answer being submitted
+export const finishExpiredAssessment = async (req, res) => {
+  try {
+    const { assessmentId } = req.params;
+    const studentId = req.user.id;
+
+    const assessments = await executeQuery(
+      'SELECT student_id FROM assessments WHERE id = ?',
+      [assessmentId]
+    );
+
+    if (assessments.length === 0) {
+      return res.status(404).json({
+        error: 'Assessment not found',
+        code: 'ASSESSMENT_NOT_FOUND'
+      });
+    }
+
+    if (assessments[0].student_id !== studentId) {
+      return res.status(403).json({
+        error: 'You are not authorized to finish this assessment',
+        code: 'UNAUTHORIZED'
+      });
+    }
+
+    // The server clock decides; a client whose countdown ran fast gets the real remaining time back
+    const timeRemainingSeconds = await getTimeRemainingSeconds(assessmentId);
+    if (timeRemainingSeconds === null || timeRemainingSeconds > 0) {
+      return res.status(409).json({
+        error: 'The time limit for this assessment has not been reached',
+        code: 'NOT_EXPIRED',
+        timeRemainingSeconds
+      });
+    }
+
+    const closed = await closeExpiredAssessment(assessmentId);
+    res.json(closedAssessmentResponse(Number(assessmentId), closed));
+  } catch (error) {
+    console.error('Error finishing expired assessment:', error);
+    res.status(500).json({
+      error: 'Failed to finish assessment',
+      code: 'FINISH_ASSESSMENT_ERROR'
+    });
+  }
+};
+
 // Get assessment results by subject
 export const getResultsBySubject = async (req, res) => {
   try {
@@ -1136,6 +1765,22 @@ export const getResultsBySubject = async (req, res) => {
   }
 };
 
+// Correct answer sent with a result row; Ordering, Hotspot and Categorize keys live in correct_answer,
+// so send them parsed for the results view to lay out
+const resultCorrectAnswer = (response, questionMetadata) => {
+  if (response.question_type === 'Ordering') {
+    return parseOrderingSequence(response.correct_answer, getOrderingItems(questionMetadata).length) || [];
+  }
+  if (response.question_type === 'Hotspot') {
+    return getHotspotRegions(response.correct_answer);
+  }
+  if (response.question_type === 'Categorize') {
+    const { categories, items } = getCategorizeStructure(questionMetadata);
+    return parseCategorizePlacement(response.correct_answer, items.length, categories.length) || [];
+  }
+  return response.correct_option_index;
+};
+
 // Get detailed assessment results
 export const getAssessmentResults = async (req, res) => {
   try {
@@ -1150,12 +1795,15 @@ export const getAssessmentResults = async (req, res) => {
         a.subject_id,
         a.assessment_period,
         a.rit_score,
+        a.rit_standard_error,
+        a.stop_reason,
         a.correct_answers,
         a.total_questions,
         a.date_taken,
         a.duration_minutes,
         a.year,
         a.assessment_mode,
+        a.accommodations,
         s.name as subject_name,
         u.first_name,
         u.last_name,
@@ -1223,17 +1871,21 @@ export const getAssessmentResults = async (req, res) => {
       SELECT 
         ar.question_order,
         ar.is_correct,
+        ar.score,
         ar.question_difficulty,
-        q.question_text,
-        q.options,
+        ${versionedColumn('question_text')},
+        ${versionedColumn('options')},
         ar.selected_option_index,
-        q.correct_option_index,
-        q.question_type,
-        q.question_metadata,
+        ${versionedColumn('correct_option_index')},
+        ${versionedColumn('correct_answer')},
+        ${versionedColumn('question_type')},
+        ${versionedColumn('question_metadata')},
         ar.ai_grading_result,
-        q.id as question_id
+        q.id as question_id,
+        qv.version_number as question_version
       FROM assessment_responses ar
       JOIN questions q ON ar.question_id = q.id
+      ${RESPONSE_VERSION_JOIN_SQL}
       WHERE ar.assessment_id = ?
       ORDER BY ar.question_order
     `, [assessmentId]);
@@ -1443,6 +2095,24 @@ export const getAssessmentResults = async (req, res) => {
             formattedCorrectAnswer = options[Number(response.correct_option_index)] || 'N/A';
           }
         }
+      } else if (response.question_type === 'NumericEntry') {
+        // For NumericEntry: selected_option_index contains the typed number, correct_answer the key
+        formattedSelectedAnswer = response.selected_option_index !== null && response.selected_option_index !== undefined
+          ? String(response.selected_option_index).trim() || 'N/A'
+          : 'N/A';
+        formattedCorrectAnswer = describeNumericKey(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Ordering') {
+        // For Ordering: selected_option_index and correct_answer are sequences of item indices
+        formattedSelectedAnswer = describeOrdering(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeOrdering(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Hotspot') {
+        // For Hotspot: selected_option_index is the click, correct_answer the correct regions
+        formattedSelectedAnswer = describeHotspotClick(response.selected_option_index);
+        formattedCorrectAnswer = describeHotspotRegions(response.correct_answer);
+      } else if (response.question_type === 'Categorize') {
+        // For Categorize: selected_option_index and correct_answer hold the category index of each item
+        formattedSelectedAnswer = describeCategorize(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeCategorize(response.correct_answer, questionMetadata);
       } else if (response.question_type === 'ShortAnswer' || response.question_type === 'Essay') {
         // For ShortAnswer and Essay: selected_option_index contains the text answer directly
         if (response.selected_option_index && typeof response.selected_option_index === 'string') {
@@ -1487,14 +2157,16 @@ export const getAssessmentResults = async (req, res) => {
       return {
         questionNumber: response.question_order,
         isCorrect: response.is_correct,
+        score: responseScore(response),
         difficulty: response.question_difficulty,
+        questionVersion: response.question_version || null,
         questionText: response.question_text,
         questionType: response.question_type,
         options: options,
         questionMetadata: questionMetadata,
         selectedAnswer: parsedSelectedAnswer, // Keep raw value for reference
         formattedSelectedAnswer: formattedSelectedAnswer, // Formatted for display
-        correctAnswer: response.correct_option_index, // Keep raw value for reference
+        correctAnswer: resultCorrectAnswer(response, questionMetadata), // Keep raw value for reference
         formattedCorrectAnswer: formattedCorrectAnswer, // Formatted for display
         aiGradingResult: aiGradingResult
       };
@@ -1516,7 +2188,9 @@ export const getAssessmentResults = async (req, res) => {
         year: assessment.year,
         dateTaken: assessment.date_taken,
         duration: assessment.duration_minutes,
-        mode: assessment.assessment_mode || 'Adaptive'
+        mode: assessment.assessment_mode || 'Adaptive',
+        stopReason: assessment.stop_reason || null,
+        accommodations: assessment.accommodations ? parseAccommodations(assessment.accommodations) : null
       },
       statistics: {
         totalQuestions,
@@ -1524,6 +2198,9 @@ export const getAssessmentResults = async (req, res) => {
         incorrectAnswers,
         previousRIT,
         currentRIT,
+        standardError: assessment.rit_standard_error !== null && assessment.rit_standard_error !== undefined
+          ? Number(assessment.rit_standard_error)
+          : null,
         accuracy: Math.round((correctAnswers / totalQuestions) * 100)
       },
       responses: formattedResponses,
@@ -1585,12 +2262,15 @@ export const getLatestAssessmentDetails = async (req, res) => {
         a.subject_id,
         a.assessment_period,
         a.rit_score,
+        a.rit_standard_error,
+        a.stop_reason,
         a.correct_answers,
         a.total_questions,
         a.date_taken,
         a.duration_minutes,
         a.year,
         a.assessment_mode,
+        a.accommodations,
         s.name as subject_name
       FROM assessments a
       JOIN subjects s ON a.subject_id = s.id
@@ -1647,17 +2327,21 @@ export const getLatestAssessmentDetails = async (req, res) => {
       SELECT 
         ar.question_order,
         ar.is_correct,
+        ar.score,
         ar.question_difficulty,
-        q.question_text,
-        q.options,
+        ${versionedColumn('question_text')},
+        ${versionedColumn('options')},
         ar.selected_option_index,
-        q.correct_option_index,
-        q.question_type,
-        q.question_metadata,
+        ${versionedColumn('correct_option_index')},
+        ${versionedColumn('correct_answer')},
+        ${versionedColumn('question_type')},
+        ${versionedColumn('question_metadata')},
         ar.ai_grading_result,
-        q.id as question_id
+        q.id as question_id,
+        qv.version_number as question_version
       FROM assessment_responses ar
       JOIN questions q ON ar.question_id = q.id
+      ${RESPONSE_VERSION_JOIN_SQL}
       WHERE ar.assessment_id = ?
       ORDER BY ar.question_order
     `, [assessmentId]);
@@ -1867,6 +2551,24 @@ export const getLatestAssessmentDetails = async (req, res) => {
             formattedCorrectAnswer = options[Number(response.correct_option_index)] || 'N/A';
           }
         }
+      } else if (response.question_type === 'NumericEntry') {
+        // For NumericEntry: selected_option_index contains the typed number, correct_answer the key
+        formattedSelectedAnswer = response.selected_option_index !== null && response.selected_option_index !== undefined
+          ? String(response.selected_option_index).trim() || 'N/A'
+          : 'N/A';
+        formattedCorrectAnswer = describeNumericKey(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Ordering') {
+        // For Ordering: selected_option_index and correct_answer are sequences of item indices
+        formattedSelectedAnswer = describeOrdering(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeOrdering(response.correct_answer, questionMetadata);
+      } else if (response.question_type === 'Hotspot') {
+        // For Hotspot: selected_option_index is the click, correct_answer the correct regions
+        formattedSelectedAnswer = describeHotspotClick(response.selected_option_index);
+        formattedCorrectAnswer = describeHotspotRegions(response.correct_answer);
+      } else if (response.question_type === 'Categorize') {
+        // For Categorize: selected_option_index and correct_answer hold the category index of each item
+        formattedSelectedAnswer = describeCategorize(response.selected_option_index, questionMetadata);
+        formattedCorrectAnswer = describeCategorize(response.correct_answer, questionMetadata);
       } else if (response.question_type === 'ShortAnswer' || response.question_type === 'Essay') {
         // For ShortAnswer and Essay: selected_option_index contains the text answer directly
         if (response.selected_option_index && typeof response.selected_option_index === 'string') {
@@ -1906,14 +2608,16 @@ export const getLatestAssessmentDetails = async (req, res) => {
       return {
         questionNumber: response.question_order,
         isCorrect: response.is_correct,
+        score: responseScore(response),
         difficulty: response.question_difficulty,
+        questionVersion: response.question_version || null,
         questionText: response.question_text,
         questionType: response.question_type,
         options: options,
         questionMetadata: questionMetadata,
         selectedAnswer: parsedSelectedAnswer,
         formattedSelectedAnswer: formattedSelectedAnswer,
-        correctAnswer: response.correct_option_index,
+        correctAnswer: resultCorrectAnswer(response, questionMetadata),
         formattedCorrectAnswer: formattedCorrectAnswer,
         aiGradingResult: aiGradingResult
       };
@@ -1935,7 +2639,9 @@ export const getLatestAssessmentDetails = async (req, res) => {
         year: assessment.year,
         dateTaken: assessment.date_taken,
         duration: assessment.duration_minutes,
-        mode: assessment.assessment_mode || 'Adaptive'
+        mode: assessment.assessment_mode || 'Adaptive',
+        stopReason: assessment.stop_reason || null,
+        accommodations: assessment.accommodations ? parseAccommodations(assessment.accommodations) : null
       },
       statistics: {
         totalQuestions,
@@ -1943,6 +2649,9 @@ export const getLatestAssessmentDetails = async (req, res) => {
         incorrectAnswers,
         previousRIT,
         currentRIT,
+        standardError: assessment.rit_standard_error !== null && assessment.rit_standard_error !== undefined
+          ? Number(assessment.rit_standard_error)
+          : null,
         accuracy: Math.round((correctAnswers / totalQuestions) * 100)
       },
       responses: formattedResponses,
@@ -2593,12 +3302,14 @@ export const generatePerformanceAnalysisEndpoint = async (req, res) => {
       SELECT 
         ar.question_order,
         ar.is_correct,
+        ar.score,
         ar.question_difficulty,
-        q.question_text,
-        q.question_type,
+        ${versionedColumn('question_text')},
+        ${versionedColumn('question_type')},
         ar.ai_grading_result
       FROM assessment_responses ar
       JOIN questions q ON ar.question_id = q.id
+      ${RESPONSE_VERSION_JOIN_SQL}
       WHERE ar.assessment_id = ?
       ORDER BY ar.question_order
     `, [assessmentId]);
@@ -2619,6 +3330,7 @@ export const generatePerformanceAnalysisEndpoint = async (req, res) => {
       return {
         questionNumber: response.question_order,
         isCorrect: response.is_correct === 1,
+        score: responseScore(response),
         difficulty: response.question_difficulty,
         questionType: response.question_type,
         questionText: response.question_text,
@@ -136,8 +136,8 @@ export const validateQuestion = [
     .custom((value, { req }) => {
       const questionType = req.body.questionType || 'MCQ';
       
-      // For FillInBlank, Matching, ShortAnswer, and Essay questions, options can be empty (options are in questionMetadata or not needed)
-      if (questionType === 'FillInBlank' || questionType === 'Matching' || questionType === 'ShortAnswer' || questionType === 'Essay') {
+      // For FillInBlank, Matching, NumericEntry, Ordering, Hotspot, Categorize, ShortAnswer, and Essay questions, options can be empty (options are in questionMetadata or not needed)
+      if (questionType === 'FillInBlank' || questionType === 'Matching' || questionType === 'NumericEntry' || questionType === 'Ordering' || questionType === 'Hotspot' || questionType === 'Categorize' || questionType === 'ShortAnswer' || questionType === 'Essay') {
         // Allow empty array or undefined for these types
         if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
           return true;
@@ -208,7 +208,7 @@ export const validateAnswerSubmission = [
   
   body('answerIndex')
     .custom((value) => {
-      // Allow integer (for MCQ/TrueFalse), array (for MultipleSelect/FillInBlank/Matching), or string (for ShortAnswer/Essay)
+      // Allow integer (for MCQ/TrueFalse), array (for MultipleSelect/FillInBlank/Matching/Ordering/Categorize), click position (for Hotspot), or string (for NumericEntry/ShortAnswer/Essay)
       if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
         return true;
       }
@@ -225,13 +225,20 @@ export const validateAnswerSubmission = [
         return true;
       }
       if (typeof value === 'string') {
-        // Allow strings for ShortAnswer and Essay (text responses)
+        // Allow strings for NumericEntry, ShortAnswer and Essay (typed responses)
         if (value.trim().length === 0) {
           throw new Error('Text answer cannot be empty');
         }
         return true;
       }
-      throw new Error('Answer index must be a non-negative integer, an array of non-negative integers, or a string');
+      if (value && typeof value === 'object' && typeof value.x === 'number' && typeof value.y === 'number') {
+        // Hotspot click as fractions of the image width and height
+        if (value.x < 0 || value.x > 1 || value.y < 0 || value.y > 1) {
+          throw new Error('Click position must be on the image');
+        }
+        return true;
+      }
+      throw new Error('Answer index must be a non-negative integer, an array of non-negative integers, a click position, or a string');
     })
     .withMessage('Answer index must be a non-negative integer, an array of non-negative integers, or a string'),
   
@@ -266,8 +273,8 @@ export const validateBulkQuestions = [
         ? req.body.questions[questionIndex].questionType || 'MCQ'
         : 'MCQ';
       
-      // For FillInBlank, Matching, ShortAnswer, and Essay questions, options can be empty (options are in questionMetadata or not needed)
-      if (questionType === 'FillInBlank' || questionType === 'Matching' || questionType === 'ShortAnswer' || questionType === 'Essay') {
+      // For FillInBlank, Matching, NumericEntry, Ordering, Hotspot, Categorize, ShortAnswer, and Essay questions, options can be empty (options are in questionMetadata or not needed)
+      if (questionType === 'FillInBlank' || questionType === 'Matching' || questionType === 'NumericEntry' || questionType === 'Ordering' || questionType === 'Hotspot' || questionType === 'Categorize' || questionType === 'ShortAnswer' || questionType === 'Essay') {
         // Allow empty array or undefined for these types
         if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
           return true;
@@ -0,0 +1,10 @@
+-- Adaptive stopping rules per grade/subject configuration
+-- question_count is the maximum test length; a test may end earlier once
+-- min_question_count items are answered and the standard error drops below target_standard_error
+ALTER TABLE assessment_configurations
+ADD COLUMN IF NOT EXISTS min_question_count INT NULL COMMENT 'Minimum number of items before the precision rule may stop the test (NULL = no minimum)' AFTER question_count,
+ADD COLUMN IF NOT EXISTS target_standard_error DECIMAL(5,1) NULL COMMENT 'Stop once the Growth Metric standard error is at or below this value (NULL = disabled)' AFTER min_question_count;
+
+-- Record which rule ended each test event
+ALTER TABLE assessments
+ADD COLUMN IF NOT EXISTS stop_reason ENUM('max_items', 'precision_reached', 'time_limit', 'item_bank_exhausted') NULL COMMENT 'Stopping rule that ended the test event' AFTER rit_standard_error;
@@ -0,0 +1,15 @@
+-- Server-side deadline for each test event
+-- expires_at is fixed when the test starts (start time + time limit); remaining time is always computed from it
+ALTER TABLE assessments
+ADD COLUMN IF NOT EXISTS expires_at DATETIME NULL COMMENT 'Deadline after which answers are no longer accepted' AFTER time_limit_minutes;
+
+-- Backfill deadlines for tests that are still open
+UPDATE assessments
+SET expires_at = DATE_ADD(created_at, INTERVAL time_limit_minutes MINUTE)
+WHERE expires_at IS NULL AND rit_score IS NULL AND time_limit_minutes IS NOT NULL;
+
+CREATE INDEX idx_assessments_expires_at ON assessments (expires_at);
+
+-- Tests that expired before any question was answered are closed as abandoned
+ALTER TABLE assessments
+MODIFY COLUMN stop_reason ENUM('max_items', 'precision_reached', 'time_limit', 'item_bank_exhausted', 'abandoned') NULL COMMENT 'Stopping rule that ended the test event';
@@ -0,0 +1,24 @@
+-- Pause and resume of test events
+-- Paused time is credited back to the deadline, up to max_pause_minutes per test event
+
+-- Maximum total pause time per test event for each grade/subject (0 = pausing disabled)
+ALTER TABLE assessment_configurations
+ADD COLUMN IF NOT EXISTS max_pause_minutes INT NOT NULL DEFAULT 15 COMMENT 'Maximum total pause time per test event in minutes (0 = pausing disabled)' AFTER competency_blueprint;
+
+-- Current pause state and total credited pause time of each test event
+ALTER TABLE assessments
+ADD COLUMN IF NOT EXISTS paused_at DATETIME NULL COMMENT 'Start of the current pause (NULL = not paused)' AFTER expires_at,
+ADD COLUMN IF NOT EXISTS pause_limit_at DATETIME NULL COMMENT 'End of the pause allowance; the clock runs again after this even if still paused' AFTER paused_at,
+ADD COLUMN IF NOT EXISTS paused_seconds INT NOT NULL DEFAULT 0 COMMENT 'Pause time already credited to expires_at' AFTER pause_limit_at;
+
+-- Audit log of every pause, reviewed by proctors with the student's responses
+CREATE TABLE IF NOT EXISTS assessment_pauses (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    assessment_id INT NOT NULL,
+    paused_at DATETIME NOT NULL,
+    resumed_at DATETIME NULL,
+    credited_seconds INT NULL COMMENT 'Part of the pause that did not count against the time limit',
+    reason VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_assessment_pauses_assessment (assessment_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,4 @@
+-- Categorize questions: students sort each item into one of several categories (buckets).
+-- Categories and items go in question_metadata; the category index of each item goes in correct_answer.
+ALTER TABLE questions
+MODIFY COLUMN question_type ENUM('MCQ', 'TrueFalse', 'Matching', 'FillInBlank', 'ShortAnswer', 'Essay', 'MultipleSelect', 'NumericEntry', 'Ordering', 'Hotspot', 'Categorize') NOT NULL DEFAULT 'MCQ';
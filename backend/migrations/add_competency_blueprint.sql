@@ -0,0 +1,4 @@
+-- Competency content balancing for adaptive tests
+-- Blueprint format: [{"competencyId": 3, "targetPercent": 40}, ...]; NULL disables balancing
+ALTER TABLE assessment_configurations
+ADD COLUMN IF NOT EXISTS competency_blueprint JSON NULL COMMENT 'Target share of adaptive items per competency' AFTER target_standard_error;
@@ -0,0 +1,4 @@
+-- Hotspot questions: students click the part of an image that shows something.
+-- The image goes in question_metadata.hotspot; the correct regions go in correct_answer so they are not sent to students.
+ALTER TABLE questions
+MODIFY COLUMN question_type ENUM('MCQ', 'TrueFalse', 'Matching', 'FillInBlank', 'ShortAnswer', 'Essay', 'MultipleSelect', 'NumericEntry', 'Ordering', 'Hotspot') NOT NULL DEFAULT 'MCQ';
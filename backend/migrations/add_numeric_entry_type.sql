@@ -0,0 +1,4 @@
+-- NumericEntry questions: students type a number that is scored against the key within a tolerance.
+-- The key stays in correct_answer; tolerance, accepted number forms and units go in question_metadata.numeric.
+ALTER TABLE questions
+MODIFY COLUMN question_type ENUM('MCQ', 'TrueFalse', 'Matching', 'FillInBlank', 'ShortAnswer', 'Essay', 'MultipleSelect', 'NumericEntry') NOT NULL DEFAULT 'MCQ';
@@ -0,0 +1,4 @@
+-- Ordering questions: students arrange steps into the correct sequence.
+-- Steps (in display order) go in question_metadata.items; the correct sequence of item indices goes in correct_answer.
+ALTER TABLE questions
+MODIFY COLUMN question_type ENUM('MCQ', 'TrueFalse', 'Matching', 'FillInBlank', 'ShortAnswer', 'Essay', 'MultipleSelect', 'NumericEntry', 'Ordering') NOT NULL DEFAULT 'MCQ';
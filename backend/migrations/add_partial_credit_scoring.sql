@@ -0,0 +1,84 @@
+-- Partial-credit scoring: fraction of credit earned on each response (MultipleSelect, Matching, FillInBlank)
+ALTER TABLE assessment_responses
+ADD COLUMN IF NOT EXISTS score DECIMAL(5,4) NULL COMMENT 'Credit earned (0-1); NULL for responses scored before partial credit (use is_correct)' AFTER is_correct;
+
+UPDATE assessment_responses SET score = IF(is_correct = 1, 1, 0) WHERE score IS NULL;
+
+-- Competency breakdown weighs each response by the credit it earned instead of counting only fully correct answers
+DROP PROCEDURE IF EXISTS `CalculateCompetencyScores`;
+
+CREATE PROCEDURE `CalculateCompetencyScores` (IN `assessment_id_param` INT)
+BEGIN
+  DECLARE student_id_var INT;
+  DECLARE subject_id_var INT;
+  
+  -- Get assessment details
+  SELECT a.student_id, a.subject_id 
+  INTO student_id_var, subject_id_var
+  FROM assessments a 
+  WHERE a.id = assessment_id_param;
+  
+  -- Calculate competency scores for all competencies in this assessment
+  INSERT INTO assessment_competency_breakdown 
+    (assessment_id, competency_id, questions_attempted, questions_correct, 
+     total_weight, weighted_correct, competency_score)
+  SELECT 
+    assessment_id_param,
+    c.id as competency_id,
+    COUNT(*) as questions_attempted,
+    SUM(CASE WHEN ar.is_correct = 1 THEN 1 ELSE 0 END) as questions_correct,
+    SUM(qc.weight) as total_weight,
+    SUM(COALESCE(ar.score, ar.is_correct) * qc.weight) as weighted_correct,
+    CASE 
+      WHEN SUM(qc.weight) > 0 THEN (SUM(COALESCE(ar.score, ar.is_correct) * qc.weight) / SUM(qc.weight)) * 100
+      ELSE 0 
+    END as competency_score
+  FROM competencies c
+  JOIN questions_competencies qc ON c.id = qc.competency_id
+  JOIN assessment_responses ar ON qc.question_id = ar.question_id
+  WHERE ar.assessment_id = assessment_id_param
+  GROUP BY c.id
+  ON DUPLICATE KEY UPDATE
+    questions_attempted = VALUES(questions_attempted),
+    questions_correct = VALUES(questions_correct),
+    total_weight = VALUES(total_weight),
+    weighted_correct = VALUES(weighted_correct),
+    competency_score = VALUES(competency_score);
+  
+  -- Update student competency scores with feedback
+  INSERT INTO student_competency_scores 
+    (student_id, competency_id, subject_id, assessment_id, questions_attempted,
+     questions_correct, raw_score, weighted_score, final_score, feedback_type, feedback_text)
+  SELECT 
+    student_id_var,
+    acb.competency_id,
+    subject_id_var,
+    assessment_id_param,
+    acb.questions_attempted,
+    acb.questions_correct,
+    CASE WHEN acb.questions_attempted > 0 THEN (acb.questions_correct / acb.questions_attempted) * 100 ELSE 0 END as raw_score,
+    CASE WHEN acb.total_weight > 0 THEN (acb.weighted_correct / acb.total_weight) * 100 ELSE 0 END as weighted_score,
+    acb.competency_score as final_score,
+    CASE 
+      WHEN acb.competency_score >= c.strong_threshold THEN 'strong'
+      WHEN acb.competency_score >= c.neutral_threshold THEN 'neutral'
+      ELSE 'growth'
+    END as feedback_type,
+    CASE 
+      WHEN acb.competency_score >= c.strong_threshold THEN c.strong_description
+      WHEN acb.competency_score >= c.neutral_threshold THEN c.neutral_description
+      ELSE c.growth_description
+    END as feedback_text
+  FROM assessment_competency_breakdown acb
+  JOIN competencies c ON acb.competency_id = c.id
+  WHERE acb.assessment_id = assessment_id_param
+  ON DUPLICATE KEY UPDATE
+    questions_attempted = VALUES(questions_attempted),
+    questions_correct = VALUES(questions_correct),
+    raw_score = VALUES(raw_score),
+    weighted_score = VALUES(weighted_score),
+    final_score = VALUES(final_score),
+    feedback_type = VALUES(feedback_type),
+    feedback_text = VALUES(feedback_text),
+    date_calculated = CURRENT_TIMESTAMP;
+END;
@@ -0,0 +1,23 @@
+-- Editorial workflow: questions move draft -> review -> approved -> retired, and only approved items reach students.
+-- The column is added with an 'approved' default so the existing bank stays live, then new rows default to 'draft'.
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS status ENUM('draft', 'review', 'approved', 'retired') NOT NULL DEFAULT 'approved' COMMENT 'Editorial status; only approved items are served',
+ADD COLUMN IF NOT EXISTS reviewer_id INT NULL COMMENT 'Admin assigned to review the item (NULL = any admin)',
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP NULL,
+ADD INDEX IF NOT EXISTS idx_questions_subject_status (subject_id, status),
+ADD INDEX IF NOT EXISTS idx_questions_reviewer (reviewer_id);
+
+ALTER TABLE questions
+MODIFY COLUMN status ENUM('draft', 'review', 'approved', 'retired') NOT NULL DEFAULT 'draft' COMMENT 'Editorial status; only approved items are served';
+
+-- Review comments and status changes, newest last
+CREATE TABLE IF NOT EXISTS question_review_comments (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    question_id INT NOT NULL,
+    user_id INT NULL COMMENT 'Admin who commented or changed the status',
+    comment TEXT NULL,
+    status_from ENUM('draft', 'review', 'approved', 'retired') NULL COMMENT 'Set when the entry records a status change',
+    status_to ENUM('draft', 'review', 'approved', 'retired') NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_review_comments_question (question_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
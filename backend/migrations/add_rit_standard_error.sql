@@ -0,0 +1,3 @@
+-- Store the standard error of the Growth Metric (Rasch EAP estimate) for each test event
+ALTER TABLE assessments
+ADD COLUMN IF NOT EXISTS rit_standard_error DECIMAL(5,1) NULL COMMENT 'Standard error of rit_score (posterior SD of the EAP ability estimate)' AFTER rit_score;
@@ -0,0 +1,14 @@
+-- Per-student testing accommodations, edited by admins on the student form
+CREATE TABLE IF NOT EXISTS student_accommodations (
+    student_id INT NOT NULL PRIMARY KEY,
+    time_multiplier DECIMAL(3,2) NOT NULL DEFAULT 1.00 COMMENT 'Multiplier applied to the configured time limit',
+    break_minutes INT NOT NULL DEFAULT 0 COMMENT 'Extra pause time on top of the grade/subject allowance',
+    text_to_speech TINYINT(1) NOT NULL DEFAULT 0 COMMENT 'Read-aloud enabled on the test page',
+    large_font TINYINT(1) NOT NULL DEFAULT 0 COMMENT 'Enlarged text on the test page',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Accommodations in effect for each test event (snapshot taken when the test starts)
+ALTER TABLE assessments
+ADD COLUMN IF NOT EXISTS accommodations JSON NULL COMMENT 'Accommodations applied to this test event (NULL = none)' AFTER paused_seconds;
@@ -0,0 +1,5 @@
+-- CSV imports of questions and students commit every row in one transaction (or none of them).
+-- MyISAM ignores transactions, so the tables the imports write move to InnoDB.
+ALTER TABLE questions ENGINE=InnoDB;
+ALTER TABLE questions_competencies ENGINE=InnoDB;
+ALTER TABLE users ENGINE=InnoDB;
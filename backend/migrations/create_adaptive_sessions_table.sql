@@ -0,0 +1,10 @@
+-- Durable state for in-flight adaptive assessments (replaces the process-local activeSessions Map)
+CREATE TABLE IF NOT EXISTS adaptive_sessions (
+    assessment_id INT NOT NULL PRIMARY KEY,
+    student_id INT NOT NULL,
+    state JSON NOT NULL COMMENT 'Serialized session: difficulty, used questions, start time, estimator state, current question',
+    version INT NOT NULL DEFAULT 0 COMMENT 'Optimistic lock; incremented on every update',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    KEY idx_adaptive_sessions_student (student_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
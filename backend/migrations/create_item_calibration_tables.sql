@@ -0,0 +1,42 @@
+-- Empirical item calibration: each run refits item difficulties from response history
+CREATE TABLE IF NOT EXISTS item_calibration_runs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    subject_id INT NULL COMMENT 'NULL = all subjects',
+    min_responses INT NOT NULL COMMENT 'Minimum responses an item needed to be refitted',
+    threshold INT NOT NULL COMMENT 'Minimum difference (scale points) that produced a proposal',
+    items_calibrated INT NOT NULL DEFAULT 0,
+    proposals_created INT NOT NULL DEFAULT 0,
+    started_by INT NULL COMMENT 'Admin who started the run (NULL = scheduled job)',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Difficulty changes suggested by a calibration run, waiting for an admin decision
+CREATE TABLE IF NOT EXISTS item_calibration_proposals (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    run_id INT NOT NULL,
+    question_id INT NOT NULL,
+    authored_difficulty INT NOT NULL COMMENT 'difficulty_level when the proposal was made',
+    proposed_difficulty INT NOT NULL COMMENT 'Empirically fitted difficulty',
+    standard_error DECIMAL(6,1) NOT NULL,
+    response_count INT NOT NULL,
+    status ENUM('pending', 'accepted', 'dismissed', 'superseded') NOT NULL DEFAULT 'pending',
+    reviewed_by INT NULL,
+    reviewed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_proposal_run (run_id),
+    INDEX idx_proposal_question_status (question_id, status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Audit trail of every change to questions.difficulty_level
+CREATE TABLE IF NOT EXISTS question_difficulty_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    question_id INT NOT NULL,
+    old_difficulty INT NOT NULL,
+    new_difficulty INT NOT NULL,
+    source ENUM('calibration', 'manual') NOT NULL,
+    proposal_id INT NULL COMMENT 'Accepted calibration proposal, if any',
+    changed_by INT NULL,
+    changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_difficulty_history_question (question_id, changed_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
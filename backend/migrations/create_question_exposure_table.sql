@@ -0,0 +1,17 @@
+-- Per-item exposure counters for adaptive item selection
+-- exposure_count / adaptive tests in the subject gives the item's exposure rate
+CREATE TABLE IF NOT EXISTS question_exposure (
+    question_id INT NOT NULL PRIMARY KEY,
+    exposure_count INT NOT NULL DEFAULT 0 COMMENT 'Times the item was served in an adaptive test',
+    last_exposed_at TIMESTAMP NULL COMMENT 'When the item was last served',
+    KEY idx_question_exposure_count (exposure_count)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Seed counters from adaptive responses recorded before exposure tracking existed
+INSERT INTO question_exposure (question_id, exposure_count, last_exposed_at)
+SELECT ar.question_id, COUNT(*), MAX(ar.created_at)
+FROM assessment_responses ar
+JOIN assessments a ON ar.assessment_id = a.id
+WHERE a.assessment_mode = 'Adaptive'
+GROUP BY ar.question_id
+ON DUPLICATE KEY UPDATE exposure_count = VALUES(exposure_count), last_exposed_at = VALUES(last_exposed_at);
@@ -0,0 +1,44 @@
+-- Immutable question versions: every create, edit and rollback stores a full copy of the question content
+CREATE TABLE IF NOT EXISTS question_versions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    question_id INT NOT NULL,
+    version_number INT NOT NULL,
+    question_text TEXT NOT NULL,
+    question_type VARCHAR(50) NULL,
+    options JSON NULL,
+    correct_option_index INT NULL,
+    correct_answer TEXT NULL,
+    question_metadata JSON NULL,
+    difficulty_level INT NULL,
+    dok_level INT NULL,
+    standard VARCHAR(255) NULL,
+    content_focus TEXT NULL,
+    change_type ENUM('created', 'edited', 'rollback') NOT NULL DEFAULT 'edited',
+    restored_from_version INT NULL COMMENT 'Version number copied by a rollback',
+    created_by INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uniq_question_version (question_id, version_number)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Version currently served to students
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS current_version_id INT NULL COMMENT 'Latest row in question_versions';
+
+-- Version each response was answered on (NULL = answered before versioning; shows the current content)
+ALTER TABLE assessment_responses
+ADD COLUMN IF NOT EXISTS question_version_id INT NULL COMMENT 'question_versions row the student answered' AFTER question_id,
+ADD INDEX IF NOT EXISTS idx_responses_question_version (question_version_id);
+
+-- Existing questions start at version 1
+INSERT INTO question_versions
+    (question_id, version_number, question_text, question_type, options, correct_option_index, correct_answer,
+     question_metadata, difficulty_level, dok_level, standard, content_focus, change_type, created_by, created_at)
+SELECT q.id, 1, q.question_text, q.question_type, q.options, q.correct_option_index, q.correct_answer,
+       q.question_metadata, q.difficulty_level, q.dok_level, q.standard, q.content_focus, 'created', q.created_by, q.created_at
+FROM questions q
+WHERE NOT EXISTS (SELECT 1 FROM question_versions qv WHERE qv.question_id = q.id);
+
+UPDATE questions q
+JOIN question_versions qv ON qv.question_id = q.id AND qv.version_number = 1
+SET q.current_version_id = qv.id
+WHERE q.current_version_id IS NULL;
@@ -11,9 +11,17 @@ import {
   createQuestion,
   createBulkQuestions,
   getQuestionsBySubject,
+  exportQuestions,
   getQuestionById,
   updateQuestion,
   deleteQuestion,
+  getQuestionVersions,
+  rollbackQuestionVersion,
+  getQuestionReviews,
+  addQuestionReviewComment,
+  updateQuestionStatus,
+  assignQuestionReviewer,
+  getQuestionReviewers,
   debugQuestions,
   getSubjectPerformanceDashboard,
   getAchievementGapAnalysis,
@@ -23,6 +31,7 @@ import {
   getStudentCompetencyGrowth,
   importStudentsFromCSV,
   importQuestionsFromCSV,
+  checkQuestionCSVDuplicates,
   getTopPerformers,
   getStudentAssessmentResponses
 } from '../controllers/adminController.js';
@@ -71,9 +80,20 @@ router.get('/assessments/:assessmentId/responses', getStudentAssessmentResponses
 router.post('/questions', validateQuestion, createQuestion);
 router.post('/questions/bulk', validateBulkQuestions, createBulkQuestions);
 router.post('/questions/import-csv', importQuestionsFromCSV);
+router.post('/questions/check-duplicates', checkQuestionCSVDuplicates);
+router.get('/questions/export', exportQuestions);
 router.get('/questions/:subjectId', validateSubjectId, getQuestionsBySubject);
 router.get('/question/:id', validateId, getQuestionById);
 router.put('/questions/:id', validateId, validateQuestion, updateQuestion);
 router.delete('/questions/:id', validateId, deleteQuestion);
+router.get('/questions/:id/versions', validateId, getQuestionVersions);
+router.post('/questions/:id/versions/:versionId/rollback', validateId, rollbackQuestionVersion);
+
+// Editorial workflow
+router.get('/question-reviewers', getQuestionReviewers);
+router.get('/questions/:id/reviews', validateId, getQuestionReviews);
+router.post('/questions/:id/reviews', validateId, addQuestionReviewComment);
+router.put('/questions/:id/status', validateId, updateQuestionStatus);
+router.put('/questions/:id/reviewer', validateId, assignQuestionReviewer);
 
 export default router;
@@ -0,0 +1,38 @@
+import express from 'express';
+import {
+  getExposureReport,
+  getItemAnalysis,
+  getDifAnalysis,
+  getDuplicateReport,
+  mergeDuplicateQuestions,
+  runCalibration,
+  getCalibrationProposals,
+  acceptCalibrationProposal,
+  dismissCalibrationProposal,
+  getDifficultyHistory
+} from '../controllers/itemBankController.js';
+import { authenticateToken, adminOnly } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// All routes require admin authentication
+router.use(authenticateToken);
+router.use(adminOnly);
+
+// Item bank health reports
+router.get('/exposure', getExposureReport);
+router.get('/item-analysis', getItemAnalysis);
+router.get('/dif', getDifAnalysis);
+
+// Near-duplicate detection
+router.get('/duplicates', getDuplicateReport);
+router.post('/duplicates/merge', mergeDuplicateQuestions);
+
+// Empirical difficulty calibration
+router.post('/calibration/run', runCalibration);
+router.get('/calibration/proposals', getCalibrationProposals);
+router.post('/calibration/proposals/:id/accept', acceptCalibrationProposal);
+router.post('/calibration/proposals/:id/dismiss', dismissCalibrationProposal);
+router.get('/questions/:id/difficulty-history', getDifficultyHistory);
+
+export default router;
@@ -2,6 +2,11 @@ import express from 'express';
 import { 
   startAssessment,
   submitAnswer,
+  getInProgressAssessments,
+  resumeAssessment,
+  finishExpiredAssessment,
+  pauseAssessment,
+  continueAssessment,
   getResultsBySubject,
   getDashboardData,
   getAssessmentResults,
@@ -34,6 +39,11 @@ router.use(studentOnly);
 // Assessment operations
 router.post('/assessments/start', validateAssessmentStart, startAssessment);
 router.post('/assessments/answer', validateAnswerSubmission, submitAnswer);
+router.get('/assessments/in-progress', getInProgressAssessments);
+router.get('/assessments/:assessmentId/resume', validateAssessmentId, resumeAssessment);
+router.post('/assessments/:assessmentId/finish-expired', validateAssessmentId, finishExpiredAssessment);
+router.post('/assessments/:assessmentId/pause', validateAssessmentId, pauseAssessment);
+router.post('/assessments/:assessmentId/resume', validateAssessmentId, continueAssessment);
 
 // Results and analytics
 router.get('/assessments/results/:subjectId', validateSubjectId, getResultsBySubject);
@@ -0,0 +1,54 @@
+/**
+ * Empirical item calibration job
+ *
+ * Refits item difficulties from assessment_responses and stores difficulty recalibration proposals for items
+ * whose fitted difficulty differs from the authored value by more than the threshold. Proposals are reviewed
+ * and accepted in the admin question list; this job never changes difficulty_level itself.
+ * Safe to run on a schedule (e.g. nightly cron): each run supersedes the previous pending proposals.
+ *
+ * Options:
+ *   --subject <id>              Only calibrate this subject's items
+ *   --min-responses <n>         Minimum scored responses per item (default 30)
+ *   --threshold <points>        Minimum difference to propose a change (default 10)
+ *
+ * Example:
+ *   node scripts/calibrate-items.js --subject 2 --min-responses 50
+ */
+
+import pool from '../config/database.js';
+import {
+  runItemCalibration,
+  MIN_CALIBRATION_RESPONSES,
+  CALIBRATION_THRESHOLD
+} from '../utils/itemCalibration.js';
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const options = {
+    subjectId: args.subject ? Number(args.subject) : null,
+    minResponses: args['min-responses'] ? Number(args['min-responses']) : MIN_CALIBRATION_RESPONSES,
+    threshold: args.threshold ? Number(args.threshold) : CALIBRATION_THRESHOLD
+  };
+
+  console.log('📐 Calibrating items...', options);
+  const result = await runItemCalibration(options);
+  console.log(`✅ Run ${result.runId}: ${result.itemsCalibrated} items calibrated, ${result.proposalsCreated} proposals created`);
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Calibration failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
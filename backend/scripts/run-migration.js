@@ -26,24 +26,28 @@ async function runMigration() {
     connection = await mysql.createConnection(dbConfig);
     console.log('✅ Connected to database');
 
-    // Read migration file
-    const migrationPath = path.join(__dirname, '../migrations/create_settings_table.sql');
+    // Read migration file (defaults to the settings table migration)
+    const migrationFile = process.argv[2] || 'create_settings_table.sql';
+    const migrationPath = path.join(__dirname, '../migrations', migrationFile);
     const sql = fs.readFileSync(migrationPath, 'utf8');
 
-    console.log('📄 Running migration: create_settings_table.sql');
+    console.log(`📄 Running migration: ${migrationFile}`);
     await connection.query(sql);
     
     console.log('✅ Migration completed successfully!');
-    console.log('📊 Settings table created/updated');
-    
-    // Verify the table was created
-    const [tables] = await connection.query(
-      "SHOW TABLES LIKE 'settings'"
-    );
-    
-    if (tables.length > 0) {
-      const [rows] = await connection.query('SELECT * FROM settings WHERE id = 1');
-      console.log('✅ Settings table verified:', rows.length > 0 ? 'Settings row exists' : 'Settings row missing');
+
+    if (migrationFile === 'create_settings_table.sql') {
+      console.log('📊 Settings table created/updated');
+
+      // Verify the table was created
+      const [tables] = await connection.query(
+        "SHOW TABLES LIKE 'settings'"
+      );
+      
+      if (tables.length > 0) {
+        const [rows] = await connection.query('SELECT * FROM settings WHERE id = 1');
+        console.log('✅ Settings table verified:', rows.length > 0 ? 'Settings row exists' : 'Settings row missing');
+      }
     }
     
   } catch (error) {
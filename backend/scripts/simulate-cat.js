@@ -0,0 +1,444 @@
+/**
+ * Offline CAT simulation for the Maarif adaptive algorithm
+ *
+ * Simulates virtual examinees with known true abilities against an item bank and reports how well the
+ * adaptive test recovers those abilities (bias, RMSE), how long tests run and how evenly items are exposed.
+ * Uses the same estimator, targeting, stopping, content-balancing and exposure rules as the live flow,
+ * with the SQL item query mirrored in memory. Runs are fully determined by --seed and never call Gemini.
+ *
+ * Item bank sources (pick one):
+ *   --bank <file.json>          JSON fixture: { "items": [{ "id", "difficulty", "competencyIds" }], "blueprint": [...] }
+ *   --from-db --subject <id>    Load approved questions from MySQL (optionally --grade <id>, which also loads the config blueprint)
+ *   --synthetic-bank <size>     Generate a seeded synthetic bank
+ *
+ * Options:
+ *   --examinees <n>             Number of virtual examinees (default 1000)
+ *   --seed <n>                  Random seed (default 1)
+ *   --max-items <n>             Maximum test length (default 20)
+ *   --min-items <n>             Minimum items before the precision rule applies
+ *   --target-se <value>         Stop once the standard error reaches this value
+ *   --start <value>             Starting difficulty / prior mean (default 225)
+ *   --ability-mean <value>      Mean of simulated true abilities (default 225)
+ *   --ability-sd <value>        SD of simulated true abilities (default 50)
+ *   --no-exposure-control       Always take the closest item (pre-exposure-control behaviour)
+ *   --no-blueprint              Ignore the competency blueprint
+ *   --save-bank <file.json>     Write the loaded bank as a fixture (e.g. to snapshot the DB for CI)
+ *   --out <file.json>           Write the full report as JSON
+ *   --json                      Print the report as JSON instead of a summary
+ *   --max-rmse <value>          Exit with code 1 if RMSE exceeds this value (CI gate)
+ *   --max-bias <value>          Exit with code 1 if |bias| exceeds this value (CI gate)
+ *
+ * Example:
+ *   node scripts/simulate-cat.js --synthetic-bank 300 --examinees 2000 --seed 7 --target-se 3.5 --min-items 10
+ */
+
+import mysql from 'mysql2/promise';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import {
+  estimateAbility,
+  formatEstimate,
+  probabilityCorrect,
+  SCALE_MIN,
+  SCALE_MAX,
+  DEFAULT_PRIOR_MEAN,
+  DEFAULT_PRIOR_SD
+} from '../utils/abilityEstimator.js';
+import { getNextQuestionDifficulty, getAdaptiveStopReason } from '../utils/adaptiveSelection.js';
+import { parseCompetencyBlueprint, selectBlueprintCompetency } from '../utils/contentBalancing.js';
+import { chooseExposureControlledItem, exposureRate, MAX_EXPOSURE_RATE, RANDOMESQUE_POOL_SIZE } from '../utils/exposureControl.js';
+
+dotenv.config();
+
+// Width of the true-ability bands used for conditional bias/RMSE
+const ABILITY_BAND_WIDTH = 25;
+
+// Parse --key value / --flag arguments
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+// Seeded PRNG (mulberry32) so every run with the same seed is identical
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return function() {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Normal draw via Box-Muller
+function randomNormal(random, mean, sd) {
+  const u = 1 - random();
+  const v = random();
+  return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+const clampToScale = (value) => Math.min(SCALE_MAX, Math.max(SCALE_MIN, value));
+
+function generateSyntheticBank(size, random) {
+  const competencyIds = [1, 2, 3, 4];
+  const items = [];
+  for (let i = 0; i < size; i++) {
+    items.push({
+      id: i + 1,
+      difficulty: Math.round(clampToScale(randomNormal(random, DEFAULT_PRIOR_MEAN, 45))),
+      competencyIds: [competencyIds[i % competencyIds.length]]
+    });
+  }
+  return {
+    source: `synthetic (${size} items)`,
+    items,
+    blueprint: competencyIds.map(competencyId => ({ competencyId, targetPercent: 25 }))
+  };
+}
+
+function loadBankFromFile(filePath) {
+  const fixture = JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf8'));
+  const items = Array.isArray(fixture) ? fixture : fixture.items;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error(`No items found in ${filePath}`);
+  }
+
+  return {
+    source: filePath,
+    items: items.map(item => ({
+      id: Number(item.id),
+      difficulty: Number(item.difficulty ?? item.difficulty_level),
+      competencyIds: (item.competencyIds || []).map(Number)
+    })),
+    blueprint: Array.isArray(fixture) ? null : parseCompetencyBlueprint(fixture.blueprint)
+  };
+}
+
+async function loadBankFromDatabase(subjectId, gradeId) {
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST || 'localhost',
+    port: process.env.DB_PORT || 3306,
+    user: process.env.DB_USER || 'root',
+    password: process.env.DB_PASSWORD || '',
+    database: process.env.DB_NAME || 'map_assessment'
+  });
+
+  try {
+    const params = [subjectId];
+    let gradeClause = '';
+    if (gradeId) {
+      gradeClause = 'AND (q.grade_id = ? OR q.grade_id IS NULL)';
+      params.push(gradeId);
+    }
+
+    const [rows] = await connection.query(`
+      SELECT q.id, q.difficulty_level, GROUP_CONCAT(qc.competency_id) as competency_ids
+      FROM questions q
+      LEFT JOIN questions_competencies qc ON qc.question_id = q.id
+      WHERE q.subject_id = ? AND q.status = 'approved' ${gradeClause}
+      GROUP BY q.id, q.difficulty_level
+    `, params);
+
+    let blueprint = null;
+    if (gradeId) {
+      const [configs] = await connection.query(
+        'SELECT competency_blueprint FROM assessment_configurations WHERE grade_id = ? AND subject_id = ?',
+        [gradeId, subjectId]
+      );
+      blueprint = parseCompetencyBlueprint(configs[0]?.competency_blueprint);
+    }
+
+    return {
+      source: `database (subject ${subjectId}${gradeId ? `, grade ${gradeId}` : ''})`,
+      items: rows.map(row => ({
+        id: row.id,
+        difficulty: Number(row.difficulty_level),
+        competencyIds: row.competency_ids ? String(row.competency_ids).split(',').map(Number) : []
+      })),
+      blueprint
+    };
+  } finally {
+    await connection.end();
+  }
+}
+
+// In-memory mirror of queryClosestQuestion: unused items ordered by distance to the target, random tie-break
+function closestCandidates(bank, targetDifficulty, usedIds, competencyId, random) {
+  return bank
+    .filter(item => !usedIds.has(item.id))
+    .filter(item => !competencyId || item.competencyIds.includes(competencyId))
+    .map(item => ({ item, distance: Math.abs(item.difficulty - targetDifficulty), tieBreak: random() }))
+    .sort((a, b) => a.distance - b.distance || a.tieBreak - b.tieBreak)
+    .slice(0, RANDOMESQUE_POOL_SIZE)
+    .map(candidate => candidate.item);
+}
+
+// In-memory mirror of findClosestQuestion (competency preference, then exposure-controlled draw)
+function findClosestItem(bank, targetDifficulty, usedIds, competencyId, exposure, testsAdministered, options, random) {
+  let candidates = competencyId ? closestCandidates(bank, targetDifficulty, usedIds, competencyId, random) : [];
+  if (candidates.length === 0) {
+    candidates = closestCandidates(bank, targetDifficulty, usedIds, null, random);
+  }
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  if (!options.exposureControl) {
+    return candidates[0];
+  }
+
+  const withExposure = candidates.map(item => ({ ...item, exposure_count: exposure.get(item.id) || 0 }));
+  return chooseExposureControlledItem(withExposure, testsAdministered, random);
+}
+
+function simulateExaminee(trueAbility, bank, options, exposure, testsAdministered, random) {
+  const session = {
+    questionCount: 0,
+    maxQuestions: options.maxItems,
+    minQuestions: options.minItems,
+    targetStandardError: options.targetSe,
+    currentRIT: options.start,
+    standardError: null,
+    responses: [],
+    competencyCounts: {}
+  };
+  const usedIds = new Set();
+  let stopReason = null;
+
+  while (!stopReason) {
+    const competencyId = selectBlueprintCompetency(options.blueprint, session.competencyCounts, session.questionCount);
+    const item = findClosestItem(
+      bank,
+      getNextQuestionDifficulty(session.currentRIT),
+      usedIds,
+      competencyId,
+      exposure,
+      testsAdministered,
+      options,
+      random
+    );
+
+    if (!item) {
+      stopReason = 'item_bank_exhausted';
+      break;
+    }
+
+    usedIds.add(item.id);
+    exposure.set(item.id, (exposure.get(item.id) || 0) + 1);
+    for (const id of item.competencyIds) {
+      session.competencyCounts[id] = (session.competencyCounts[id] || 0) + 1;
+    }
+
+    const correct = random() < probabilityCorrect(trueAbility, item.difficulty);
+    session.responses.push({ difficulty: item.difficulty, score: correct ? 1 : 0 });
+    session.questionCount++;
+
+    const estimate = formatEstimate(estimateAbility(session.responses, { priorMean: options.start, priorSd: DEFAULT_PRIOR_SD }));
+    session.currentRIT = estimate.ritScore;
+    session.standardError = estimate.standardError;
+
+    stopReason = getAdaptiveStopReason(session);
+  }
+
+  return {
+    trueAbility,
+    estimate: session.currentRIT,
+    standardError: session.standardError,
+    testLength: session.questionCount,
+    stopReason
+  };
+}
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function accuracyStats(results) {
+  const n = results.length;
+  const errors = results.map(r => r.estimate - r.trueAbility);
+  return {
+    n,
+    bias: n ? round(errors.reduce((sum, e) => sum + e, 0) / n) : null,
+    rmse: n ? round(Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / n)) : null,
+    meanAbsoluteError: n ? round(errors.reduce((sum, e) => sum + Math.abs(e), 0) / n) : null,
+    meanStandardError: n ? round(results.reduce((sum, r) => sum + (r.standardError || 0), 0) / n) : null,
+    meanTestLength: n ? round(results.reduce((sum, r) => sum + r.testLength, 0) / n) : null
+  };
+}
+
+function summarize(results, bank, exposure, options) {
+  const lengths = results.map(r => r.testLength);
+  const stopReasons = {};
+  for (const r of results) {
+    stopReasons[r.stopReason] = (stopReasons[r.stopReason] || 0) + 1;
+  }
+
+  // Conditional accuracy by true-ability band
+  const bands = [];
+  for (let low = SCALE_MIN; low < SCALE_MAX; low += ABILITY_BAND_WIDTH) {
+    const high = low + ABILITY_BAND_WIDTH;
+    const inBand = results.filter(r => r.trueAbility >= low && (r.trueAbility < high || (high >= SCALE_MAX && r.trueAbility <= SCALE_MAX)));
+    if (inBand.length > 0) {
+      bands.push({ band: `${low}-${high - 1}`, ...accuracyStats(inBand) });
+    }
+  }
+
+  const rates = bank.items.map(item => ({
+    id: item.id,
+    difficulty: item.difficulty,
+    exposureCount: exposure.get(item.id) || 0,
+    exposureRate: round(exposureRate(exposure.get(item.id) || 0, results.length), 3)
+  }));
+  const usedItems = rates.filter(r => r.exposureCount > 0).length;
+
+  return {
+    settings: {
+      bankSource: bank.source,
+      bankSize: bank.items.length,
+      examinees: results.length,
+      seed: options.seed,
+      maxItems: options.maxItems,
+      minItems: options.minItems,
+      targetStandardError: options.targetSe,
+      startingDifficulty: options.start,
+      abilityMean: options.abilityMean,
+      abilitySd: options.abilitySd,
+      exposureControl: options.exposureControl,
+      blueprint: options.blueprint
+    },
+    accuracy: accuracyStats(results),
+    testLength: {
+      mean: round(lengths.reduce((sum, l) => sum + l, 0) / lengths.length),
+      min: Math.min(...lengths),
+      max: Math.max(...lengths),
+      stopReasons
+    },
+    exposure: {
+      maxExposureRate: Math.max(...rates.map(r => r.exposureRate)),
+      exposureCeiling: MAX_EXPOSURE_RATE,
+      itemsOverCeiling: rates.filter(r => r.exposureRate >= MAX_EXPOSURE_RATE).length,
+      itemsNeverUsed: bank.items.length - usedItems,
+      poolUtilization: round(usedItems / bank.items.length, 3),
+      mostExposed: [...rates].sort((a, b) => b.exposureRate - a.exposureRate).slice(0, 10)
+    },
+    conditionalAccuracy: bands
+  };
+}
+
+function printSummary(report) {
+  const { settings, accuracy, testLength, exposure } = report;
+  console.log('📦 Item bank:', `${settings.bankSource}, ${settings.bankSize} items`);
+  console.log('👥 Examinees:', settings.examinees, `(seed ${settings.seed}, true ability ~ N(${settings.abilityMean}, ${settings.abilitySd}))`);
+  console.log('⚙️  Rules:', `max ${settings.maxItems} items`
+    + (settings.minItems ? `, min ${settings.minItems}` : '')
+    + (settings.targetStandardError ? `, stop at SE ≤ ${settings.targetStandardError}` : '')
+    + `, exposure control ${settings.exposureControl ? 'on' : 'off'}`
+    + `, blueprint ${settings.blueprint ? 'on' : 'off'}`);
+  console.log('');
+  console.log('🎯 Accuracy');
+  console.log(`   Bias: ${accuracy.bias}   RMSE: ${accuracy.rmse}   MAE: ${accuracy.meanAbsoluteError}   Mean SE: ${accuracy.meanStandardError}`);
+  console.log('📏 Test length');
+  console.log(`   Mean: ${testLength.mean}   Min: ${testLength.min}   Max: ${testLength.max}`);
+  console.log('   Stop reasons:', Object.entries(testLength.stopReasons).map(([reason, count]) => `${reason} ${count}`).join(', '));
+  console.log('👁️  Exposure');
+  console.log(`   Max rate: ${exposure.maxExposureRate}   Over ${exposure.exposureCeiling}: ${exposure.itemsOverCeiling} items   Never used: ${exposure.itemsNeverUsed}   Pool utilization: ${exposure.poolUtilization}`);
+  console.log('');
+  console.log('📊 Accuracy by true ability');
+  for (const band of report.conditionalAccuracy) {
+    console.log(`   ${band.band.padEnd(8)} n=${String(band.n).padEnd(5)} bias=${String(band.bias).padEnd(7)} rmse=${String(band.rmse).padEnd(7)} length=${band.meanTestLength}`);
+  }
+}
+
+async function runSimulation() {
+  const args = parseArgs(process.argv.slice(2));
+  const seed = args.seed !== undefined ? Number(args.seed) : 1;
+  const random = createRandom(seed);
+
+  let bank;
+  if (args.bank) {
+    bank = loadBankFromFile(args.bank);
+  } else if (args['from-db']) {
+    if (!args.subject) {
+      throw new Error('--from-db requires --subject <id>');
+    }
+    bank = await loadBankFromDatabase(Number(args.subject), args.grade ? Number(args.grade) : null);
+  } else if (args['synthetic-bank']) {
+    bank = generateSyntheticBank(Number(args['synthetic-bank']), random);
+  } else {
+    throw new Error('Provide an item bank with --bank <file.json>, --from-db --subject <id> or --synthetic-bank <size>');
+  }
+
+  if (bank.items.length === 0) {
+    throw new Error('The item bank is empty');
+  }
+
+  if (args['save-bank']) {
+    fs.writeFileSync(path.resolve(args['save-bank']), JSON.stringify({ items: bank.items, blueprint: bank.blueprint }, null, 2));
+    console.error(`💾 Item bank saved to ${args['save-bank']}`);
+  }
+
+  const options = {
+    seed,
+    examinees: args.examinees !== undefined ? Number(args.examinees) : 1000,
+    maxItems: args['max-items'] !== undefined ? Number(args['max-items']) : 20,
+    minItems: args['min-items'] !== undefined ? Number(args['min-items']) : null,
+    targetSe: args['target-se'] !== undefined ? Number(args['target-se']) : null,
+    start: args.start !== undefined ? Number(args.start) : DEFAULT_PRIOR_MEAN,
+    abilityMean: args['ability-mean'] !== undefined ? Number(args['ability-mean']) : DEFAULT_PRIOR_MEAN,
+    abilitySd: args['ability-sd'] !== undefined ? Number(args['ability-sd']) : DEFAULT_PRIOR_SD,
+    exposureControl: !args['no-exposure-control'],
+    blueprint: args['no-blueprint'] ? null : bank.blueprint
+  };
+
+  const exposure = new Map();
+  const results = [];
+  for (let i = 0; i < options.examinees; i++) {
+    const trueAbility = round(clampToScale(randomNormal(random, options.abilityMean, options.abilitySd)), 1);
+    results.push(simulateExaminee(trueAbility, bank.items, options, exposure, i + 1, random));
+  }
+
+  const report = summarize(results, bank, exposure, options);
+
+  if (args.out) {
+    fs.writeFileSync(path.resolve(args.out), JSON.stringify(report, null, 2));
+    console.error(`💾 Report written to ${args.out}`);
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printSummary(report);
+  }
+
+  // Optional CI gates
+  const failures = [];
+  if (args['max-rmse'] !== undefined && report.accuracy.rmse > Number(args['max-rmse'])) {
+    failures.push(`RMSE ${report.accuracy.rmse} exceeds ${args['max-rmse']}`);
+  }
+  if (args['max-bias'] !== undefined && Math.abs(report.accuracy.bias) > Number(args['max-bias'])) {
+    failures.push(`|bias| ${Math.abs(report.accuracy.bias)} exceeds ${args['max-bias']}`);
+  }
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`❌ ${failure}`));
+    process.exit(1);
+  }
+}
+
+runSimulation().catch(error => {
+  console.error('❌ Simulation failed:', error.message);
+  process.exit(1);
+});
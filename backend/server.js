@@ -26,6 +26,8 @@ import competenciesRoutes from './routes/competencies.js';
 import ssoRoutes from './routes/sso.js';
 import assignmentsRoutes from './routes/assignments.js';
 import uploadsRoutes from './routes/uploads.js';
+import itemBankRoutes from './routes/itemBank.js';
+import { startAssessmentSweeper } from './utils/assessmentSweeper.js';
 import rateLimit from 'express-rate-limit';
 
 // Load environment variables
@@ -85,6 +87,7 @@ app.use('/api/grades', gradesRoutes);
 app.use('/api/admin/assessment-configs', assessmentConfigRoutes);
 app.use('/api/admin/competencies', competenciesRoutes);
 app.use('/api/admin/assignments', assignmentsRoutes);
+app.use('/api/admin/item-bank', itemBankRoutes);
 app.use('/api/sso', ssoRoutes);
 app.use('/api/uploads', uploadsRoutes);
 
@@ -128,6 +131,9 @@ const startServer = async () => {
       console.log(`🏥 Health Check: http://localhost:${PORT}/health`);
     });
 
+    // Close timed-out assessments that were abandoned mid-test
+    startAssessmentSweeper();
+
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
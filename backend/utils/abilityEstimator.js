@@ -0,0 +1,106 @@
+/**
+ * Rasch (1PL) ability estimation for adaptive assessments
+ * Estimates a student's Growth Metric on the same 100-350 scale as question difficulty_level
+ * using Expected A Posteriori (EAP) estimation with a normal population prior.
+ */
+
+// Bounds of the Growth Metric / difficulty scale
+export const SCALE_MIN = 100;
+export const SCALE_MAX = 350;
+
+// Scale points per logit (a 10-point gap between ability and difficulty is a 1-logit gap)
+export const POINTS_PER_LOGIT = 10;
+
+// Population prior used when nothing else is known about the student
+export const DEFAULT_PRIOR_MEAN = 225;
+export const DEFAULT_PRIOR_SD = 50;
+
+// Spacing of the quadrature grid across the scale
+const QUADRATURE_STEP = 0.5;
+
+/**
+ * Probability of a correct response under the Rasch model
+ * @param {number} ability - Student ability on the Growth Metric scale
+ * @param {number} difficulty - Question difficulty on the same scale
+ * @returns {number} - Probability of answering correctly (0-1)
+ */
+export function probabilityCorrect(ability, difficulty) {
+  return 1 / (1 + Math.exp(-(ability - difficulty) / POINTS_PER_LOGIT));
+}
+
+/**
+ * Fisher information an item provides at a given ability (in scale points^-2)
+ * @param {number} ability - Student ability on the Growth Metric scale
+ * @param {number} difficulty - Question difficulty on the same scale
+ * @returns {number} - Item information
+ */
+export function itemInformation(ability, difficulty) {
+  const p = probabilityCorrect(ability, difficulty);
+  return (p * (1 - p)) / (POINTS_PER_LOGIT * POINTS_PER_LOGIT);
+}
+
+/**
+ * Estimate ability and its standard error from a set of scored responses
+ * @param {Array<{difficulty: number, score: number}>} responses - Responses with question difficulty and score (0-1)
+ * @param {Object} [options] - Estimation options
+ * @param {number} [options.priorMean] - Mean of the normal prior on the Growth Metric scale
+ * @param {number} [options.priorSd] - Standard deviation of the normal prior
+ * @returns {{ability: number, standardError: number, itemsUsed: number}} - EAP estimate and posterior SD
+ */
+export function estimateAbility(responses, { priorMean = DEFAULT_PRIOR_MEAN, priorSd = DEFAULT_PRIOR_SD } = {}) {
+  const scored = (responses || []).filter(r =>
+    Number.isFinite(Number(r.difficulty)) && Number.isFinite(Number(r.score))
+  );
+
+  // Work in log space so long tests don't underflow
+  const grid = [];
+  let maxLogPosterior = -Infinity;
+  for (let theta = SCALE_MIN; theta <= SCALE_MAX; theta += QUADRATURE_STEP) {
+    const z = (theta - priorMean) / priorSd;
+    let logPosterior = -0.5 * z * z;
+
+    for (const response of scored) {
+      const p = probabilityCorrect(theta, Number(response.difficulty));
+      const score = Math.min(1, Math.max(0, Number(response.score)));
+      logPosterior += score * Math.log(p) + (1 - score) * Math.log(1 - p);
+    }
+
+    grid.push({ theta, logPosterior });
+    if (logPosterior > maxLogPosterior) {
+      maxLogPosterior = logPosterior;
+    }
+  }
+
+  let totalWeight = 0;
+  let weightedSum = 0;
+  for (const point of grid) {
+    point.weight = Math.exp(point.logPosterior - maxLogPosterior);
+    totalWeight += point.weight;
+    weightedSum += point.weight * point.theta;
+  }
+  const ability = weightedSum / totalWeight;
+
+  let weightedVariance = 0;
+  for (const point of grid) {
+    weightedVariance += point.weight * (point.theta - ability) ** 2;
+  }
+  const standardError = Math.sqrt(weightedVariance / totalWeight);
+
+  return {
+    ability,
+    standardError,
+    itemsUsed: scored.length
+  };
+}
+
+/**
+ * Round an estimate for storage and display
+ * @param {{ability: number, standardError: number}} estimate - Output of estimateAbility
+ * @returns {{ritScore: number, standardError: number}} - Integer Growth Metric score and SE to one decimal
+ */
+export function formatEstimate(estimate) {
+  return {
+    ritScore: Math.round(Math.min(SCALE_MAX, Math.max(SCALE_MIN, estimate.ability))),
+    standardError: Math.round(estimate.standardError * 10) / 10
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Per-student testing accommodations (special education)
+ * Stored per student in student_accommodations and snapshotted onto each assessment at start,
+ * so results always show what was in effect for that test event even if the student's settings change later.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+export const DEFAULT_ACCOMMODATIONS = Object.freeze({
+  timeMultiplier: 1,   // Time limit multiplier (1.5 = time and a half)
+  breakMinutes: 0,     // Extra pause time on top of the grade/subject allowance
+  textToSpeech: false, // Read-aloud button on questions
+  largeFont: false     // Enlarged text on the test page
+});
+
+export const MAX_TIME_MULTIPLIER = 3;
+export const MAX_BREAK_MINUTES = 120;
+
+/**
+ * Normalize an accommodations object (from a request body or stored JSON)
+ * @param {Object|string|null} value - Raw accommodations
+ * @returns {{timeMultiplier: number, breakMinutes: number, textToSpeech: boolean, largeFont: boolean}}
+ */
+export function parseAccommodations(value) {
+  if (!value) {
+    return { ...DEFAULT_ACCOMMODATIONS };
+  }
+
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return { ...DEFAULT_ACCOMMODATIONS };
+    }
+  }
+
+  return {
+    timeMultiplier: Number(raw.timeMultiplier) || DEFAULT_ACCOMMODATIONS.timeMultiplier,
+    breakMinutes: Number(raw.breakMinutes) || DEFAULT_ACCOMMODATIONS.breakMinutes,
+    textToSpeech: Boolean(raw.textToSpeech),
+    largeFont: Boolean(raw.largeFont)
+  };
+}
+
+/**
+ * Validate accommodations sent by an admin
+ * @param {Object|null|undefined} accommodations - Accommodations from the request body
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validateAccommodations(accommodations) {
+  if (accommodations === null || accommodations === undefined) {
+    return null;
+  }
+
+  if (typeof accommodations !== 'object' || Array.isArray(accommodations)) {
+    return { error: 'Accommodations must be an object', code: 'INVALID_ACCOMMODATIONS' };
+  }
+
+  const { timeMultiplier, breakMinutes } = accommodations;
+
+  if (timeMultiplier !== undefined) {
+    const multiplier = Number(timeMultiplier);
+    if (!Number.isFinite(multiplier) || multiplier < 1 || multiplier > MAX_TIME_MULTIPLIER) {
+      return { error: `Time multiplier must be between 1 and ${MAX_TIME_MULTIPLIER}`, code: 'INVALID_ACCOMMODATIONS' };
+    }
+  }
+
+  if (breakMinutes !== undefined) {
+    const minutes = Number(breakMinutes);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_BREAK_MINUTES) {
+      return { error: `Break allowance must be a whole number of minutes between 0 and ${MAX_BREAK_MINUTES}`, code: 'INVALID_ACCOMMODATIONS' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether any accommodation differs from the defaults
+ * @param {Object} accommodations - Normalized accommodations
+ * @returns {boolean}
+ */
+export function hasAccommodations(accommodations) {
+  return accommodations.timeMultiplier !== 1 ||
+    accommodations.breakMinutes > 0 ||
+    accommodations.textToSpeech ||
+    accommodations.largeFont;
+}
+
+/**
+ * Apply the time multiplier to a configured time limit
+ * @param {number} timeLimitMinutes - Configured time limit
+ * @param {Object} accommodations - Normalized accommodations
+ * @returns {number} - Time limit for this student, rounded up to whole minutes
+ */
+export function applyTimeMultiplier(timeLimitMinutes, accommodations) {
+  if (!timeLimitMinutes) {
+    return timeLimitMinutes;
+  }
+  return Math.ceil(timeLimitMinutes * accommodations.timeMultiplier);
+}
+
+/**
+ * Load a student's accommodations
+ * @param {number} studentId - Student ID
+ * @returns {Promise<Object>} - Normalized accommodations (defaults if none are set)
+ */
+export async function getStudentAccommodations(studentId) {
+  const rows = await executeQuery(
+    'SELECT time_multiplier, break_minutes, text_to_speech, large_font FROM student_accommodations WHERE student_id = ?',
+    [studentId]
+  );
+
+  if (rows.length === 0) {
+    return { ...DEFAULT_ACCOMMODATIONS };
+  }
+
+  return parseAccommodations({
+    timeMultiplier: rows[0].time_multiplier,
+    breakMinutes: rows[0].break_minutes,
+    textToSpeech: rows[0].text_to_speech === 1,
+    largeFont: rows[0].large_font === 1
+  });
+}
+
+/**
+ * Store a student's accommodations (removes the row when everything is back to default)
+ * @param {number} studentId - Student ID
+ * @param {Object} accommodations - Validated accommodations
+ */
+export async function saveStudentAccommodations(studentId, accommodations) {
+  const normalized = parseAccommodations(accommodations);
+
+  if (!hasAccommodations(normalized)) {
+    await executeQuery('DELETE FROM student_accommodations WHERE student_id = ?', [studentId]);
+    return;
+  }
+
+  await executeQuery(`
+    INSERT INTO student_accommodations (student_id, time_multiplier, break_minutes, text_to_speech, large_font)
+    VALUES (?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      time_multiplier = VALUES(time_multiplier),
+      break_minutes = VALUES(break_minutes),
+      text_to_speech = VALUES(text_to_speech),
+      large_font = VALUES(large_font)
+  `, [
+    studentId,
+    normalized.timeMultiplier,
+    normalized.breakMinutes,
+    normalized.textToSpeech ? 1 : 0,
+    normalized.largeFont ? 1 : 0
+  ]);
+}
+
+/**
+ * Snapshot stored on the assessment row (null when no accommodation applies)
+ * @param {Object} accommodations - Normalized accommodations
+ * @returns {string|null} - JSON for assessments.accommodations
+ */
+export function serializeAccommodations(accommodations) {
+  return hasAccommodations(accommodations) ? JSON.stringify(accommodations) : null;
+}
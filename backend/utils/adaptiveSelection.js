@@ -0,0 +1,37 @@
+/**
+ * Pure rules of the Maarif adaptive algorithm
+ * Shared by the live assessment flow (studentController) and the offline CAT simulator (scripts/simulate-cat.js)
+ * so algorithm changes can be evaluated before they reach students.
+ */
+
+import { SCALE_MIN, SCALE_MAX } from './abilityEstimator.js';
+
+/**
+ * Difficulty the next item should target - the current ability estimate
+ * Under the Rasch model an item is most informative when its difficulty equals the student's ability
+ * @param {number} abilityEstimate - Current Growth Metric estimate
+ * @returns {number} - Target difficulty on the 100-350 scale
+ */
+export function getNextQuestionDifficulty(abilityEstimate) {
+  return Math.min(SCALE_MAX, Math.max(SCALE_MIN, Math.round(abilityEstimate)));
+}
+
+/**
+ * Decide whether an adaptive test should stop after the latest response
+ * @param {Object} state - questionCount, maxQuestions, minQuestions, targetStandardError and standardError
+ * @returns {'max_items'|'precision_reached'|null} - Stopping rule that applies, or null to continue
+ */
+export function getAdaptiveStopReason({ questionCount, maxQuestions, minQuestions, targetStandardError, standardError }) {
+  if (questionCount >= maxQuestions) {
+    return 'max_items';
+  }
+
+  if (targetStandardError && standardError !== null && standardError !== undefined) {
+    const minimumMet = !minQuestions || questionCount >= minQuestions;
+    if (minimumMet && standardError <= targetStandardError) {
+      return 'precision_reached';
+    }
+  }
+
+  return null;
+}
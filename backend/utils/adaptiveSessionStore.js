@@ -0,0 +1,80 @@
+/**
+ * Durable storage for in-flight adaptive assessment sessions
+ * Session state lives in the adaptive_sessions table so a test survives backend restarts,
+ * page refreshes and device switches, and any backend instance can serve the next answer.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+// Convert in-memory session state into a JSON-safe object
+function serializeSession(session) {
+  const { version, ...state } = session;
+  return JSON.stringify({
+    ...state,
+    usedQuestions: Array.from(session.usedQuestions || [])
+  });
+}
+
+// Rebuild in-memory session state from a database row
+function deserializeSession(row) {
+  const state = typeof row.state === 'string' ? JSON.parse(row.state) : row.state;
+  return {
+    ...state,
+    usedQuestions: new Set(state.usedQuestions || []),
+    responses: state.responses || [],
+    version: row.version
+  };
+}
+
+/**
+ * Persist a newly started adaptive session
+ * @param {Object} session - Session state (must include assessmentId and studentId)
+ * @returns {Promise<Object>} - The stored session including its version
+ */
+export async function createAdaptiveSession(session) {
+  await executeQuery(
+    'INSERT INTO adaptive_sessions (assessment_id, student_id, state, version) VALUES (?, ?, ?, 0)',
+    [session.assessmentId, session.studentId, serializeSession(session)]
+  );
+  return { ...session, version: 0 };
+}
+
+/**
+ * Load an adaptive session by assessment ID
+ * @param {number} assessmentId - Assessment the session belongs to
+ * @returns {Promise<Object|null>} - Session state, or null if none is in progress
+ */
+export async function getAdaptiveSession(assessmentId) {
+  const rows = await executeQuery(
+    'SELECT state, version FROM adaptive_sessions WHERE assessment_id = ?',
+    [assessmentId]
+  );
+  return rows.length > 0 ? deserializeSession(rows[0]) : null;
+}
+
+/**
+ * Save session state if nobody else has changed it since it was loaded (optimistic locking)
+ * @param {Object} session - Session state previously returned by this module
+ * @returns {Promise<boolean>} - false if another request updated the session first
+ */
+export async function saveAdaptiveSession(session) {
+  const result = await executeQuery(
+    'UPDATE adaptive_sessions SET state = ?, version = version + 1 WHERE assessment_id = ? AND version = ?',
+    [serializeSession(session), session.assessmentId, session.version]
+  );
+
+  if (result.affectedRows === 0) {
+    return false;
+  }
+
+  session.version += 1;
+  return true;
+}
+
+/**
+ * Remove a session once its assessment is finished
+ * @param {number} assessmentId - Assessment the session belongs to
+ */
+export async function deleteAdaptiveSession(assessmentId) {
+  await executeQuery('DELETE FROM adaptive_sessions WHERE assessment_id = ?', [assessmentId]);
+}
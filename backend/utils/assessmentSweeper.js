@@ -0,0 +1,61 @@
+/**
+ * Background job that closes test events whose deadline passed without a final answer
+ * (closed browser, lost connection). Answered items are scored with stop reason time_limit;
+ * tests with no answers are marked abandoned so the student can start again.
+ */
+
+import { executeQuery } from '../config/database.js';
+import { ASSESSMENT_DEADLINE_SQL, DEADLINE_GRACE_SECONDS } from './assessmentTimer.js';
+import { closeExpiredAssessment } from '../controllers/studentController.js';
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Close every open assessment that is past its deadline (plus the grace period)
+ * @returns {Promise<number>} - Number of assessments closed
+ */
+export async function sweepExpiredAssessments() {
+  const expired = await executeQuery(`
+    SELECT a.id
+    FROM assessments a
+    WHERE a.rit_score IS NULL
+      AND a.stop_reason IS NULL
+      AND a.time_limit_minutes IS NOT NULL
+      AND ${ASSESSMENT_DEADLINE_SQL} < DATE_SUB(NOW(), INTERVAL ? SECOND)
+  `, [DEADLINE_GRACE_SECONDS]);
+
+  let closed = 0;
+  for (const { id } of expired) {
+    try {
+      await closeExpiredAssessment(id);
+      closed++;
+    } catch (error) {
+      console.error(`Error closing expired assessment ${id}:`, error);
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Run the sweep now and then on a fixed interval
+ * @param {number} intervalMs - Interval between sweeps (ASSESSMENT_SWEEP_INTERVAL_MS overrides the default)
+ * @returns {NodeJS.Timeout} - Interval handle
+ */
+export function startAssessmentSweeper(intervalMs = Number(process.env.ASSESSMENT_SWEEP_INTERVAL_MS) || DEFAULT_SWEEP_INTERVAL_MS) {
+  const run = async () => {
+    try {
+      const closed = await sweepExpiredAssessments();
+      if (closed > 0) {
+        console.log(`⏱️  Closed ${closed} expired assessment(s)`);
+      }
+    } catch (error) {
+      console.error('Error sweeping expired assessments:', error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
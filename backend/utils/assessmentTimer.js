@@ -0,0 +1,103 @@
+/**
+ * Server-side deadlines for test events
+ * Each assessment stores its own expires_at; remaining time is always computed by the database clock
+ * so the countdown shown to students cannot drift from (or be extended past) the real deadline.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+// Answers arriving this long after the deadline are still accepted (network latency, auto-submit)
+export const DEADLINE_GRACE_SECONDS = 15;
+
+// Maximum total pause per test event when no grade/subject configuration applies
+export const DEFAULT_MAX_PAUSE_MINUTES = 15;
+
+// Deadline stored for an assessment row aliased as `a` (older rows without expires_at fall back to created_at + limit)
+export const STORED_DEADLINE_SQL = 'COALESCE(a.expires_at, DATE_ADD(a.created_at, INTERVAL a.time_limit_minutes MINUTE))';
+
+// Seconds of the current pause that do not count against the time limit (capped at the pause allowance)
+export const CURRENT_PAUSE_CREDIT_SQL = 'IF(a.paused_at IS NULL, 0, GREATEST(0, TIMESTAMPDIFF(SECOND, a.paused_at, LEAST(NOW(), COALESCE(a.pause_limit_at, NOW())))))';
+
+// Effective deadline: while a test is paused its deadline moves forward with the clock, so the remaining time stays frozen
+export const ASSESSMENT_DEADLINE_SQL = `DATE_ADD(${STORED_DEADLINE_SQL}, INTERVAL ${CURRENT_PAUSE_CREDIT_SQL} SECOND)`;
+
+/**
+ * Seconds left before an assessment's deadline
+ * @param {number} assessmentId - Assessment ID
+ * @returns {Promise<number|null>} - Remaining seconds (0 once expired), or null if the test has no time limit
+ */
+export async function getTimeRemainingSeconds(assessmentId) {
+  const rows = await executeQuery(
+    `SELECT TIMESTAMPDIFF(SECOND, NOW(), ${ASSESSMENT_DEADLINE_SQL}) as seconds_remaining FROM assessments a WHERE a.id = ?`,
+    [assessmentId]
+  );
+
+  if (rows.length === 0 || rows[0].seconds_remaining === null) {
+    return null;
+  }
+
+  return Math.max(0, Number(rows[0].seconds_remaining));
+}
+
+/**
+ * End the current pause of an assessment and credit the paused time to its deadline
+ * @param {number} assessmentId - Assessment ID
+ * @returns {Promise<number|null>} - Seconds credited, or null if the assessment was not paused
+ */
+export async function endPause(assessmentId) {
+  const rows = await executeQuery(
+    `SELECT a.paused_at, ${CURRENT_PAUSE_CREDIT_SQL} as credit FROM assessments a WHERE a.id = ?`,
+    [assessmentId]
+  );
+
+  if (rows.length === 0 || rows[0].paused_at === null) {
+    return null;
+  }
+
+  const credit = Number(rows[0].credit);
+
+  // The paused_at guard lets only one of two concurrent resumes apply the credit
+  const result = await executeQuery(`
+    UPDATE assessments a
+    SET a.expires_at = DATE_ADD(${STORED_DEADLINE_SQL}, INTERVAL ? SECOND),
+        a.paused_seconds = a.paused_seconds + ?,
+        a.pause_limit_at = NULL,
+        a.paused_at = NULL
+    WHERE a.id = ? AND a.paused_at IS NOT NULL
+  `, [credit, credit, assessmentId]);
+
+  if (result.affectedRows === 0) {
+    return null;
+  }
+
+  await executeQuery(
+    'UPDATE assessment_pauses SET resumed_at = NOW(), credited_seconds = ? WHERE assessment_id = ? AND resumed_at IS NULL',
+    [credit, assessmentId]
+  );
+
+  return credit;
+}
+
+/**
+ * Seconds the student spent on the question being answered now
+ * Measured from the previous answer (or the test start), restarting after a resume so pauses are not counted.
+ * @param {number} assessmentId - Assessment ID
+ * @returns {Promise<number|null>} - Elapsed seconds, or null if the assessment does not exist
+ */
+export async function getResponseTimeSeconds(assessmentId) {
+  const rows = await executeQuery(`
+    SELECT TIMESTAMPDIFF(SECOND, GREATEST(
+      a.created_at,
+      COALESCE((SELECT MAX(ar.created_at) FROM assessment_responses ar WHERE ar.assessment_id = a.id), a.created_at),
+      COALESCE((SELECT MAX(ap.resumed_at) FROM assessment_pauses ap WHERE ap.assessment_id = a.id), a.created_at)
+    ), NOW()) as elapsed_seconds
+    FROM assessments a
+    WHERE a.id = ?
+  `, [assessmentId]);
+
+  if (rows.length === 0 || rows[0].elapsed_seconds === null) {
+    return null;
+  }
+
+  return Math.max(0, Number(rows[0].elapsed_seconds));
+}
@@ -0,0 +1,122 @@
+/**
+ * Structure helpers for Categorize questions (students sort each item into one of several buckets)
+ * question_metadata.categories holds the bucket names and question_metadata.items the things to sort;
+ * correct_answer holds a JSON array with the category index of each item, so the key is never sent to
+ * students. Responses are stored the same way. A category can hold any number of items (or none).
+ * Scoring uses scoreParts (one part per item) so it follows the question's partial-credit policy.
+ */
+
+export const MIN_CATEGORIES = 2;
+export const MIN_CATEGORIZE_ITEMS = 2;
+
+const parseJson = (value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const isTextList = (list, minLength) =>
+  Array.isArray(list) && list.length >= minLength && list.every(entry => typeof entry === 'string' && entry.trim());
+
+/**
+ * Read the categories and items of a Categorize question
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{categories: string[], items: string[]}}
+ */
+export function getCategorizeStructure(questionMetadata) {
+  const metadata = parseJson(questionMetadata);
+  return {
+    categories: Array.isArray(metadata?.categories) ? metadata.categories.map(category => String(category)) : [],
+    items: Array.isArray(metadata?.items) ? metadata.items.map(item => String(item)) : []
+  };
+}
+
+/**
+ * Parse a placement (student response or correct_answer): the category index of every item
+ * @param {string|number[]} placement - JSON array or array of category indices, one per item
+ * @param {number} itemCount - Number of items in the question
+ * @param {number} categoryCount - Number of categories in the question
+ * @returns {number[]|null} - Category index per item, or null when an item is unsorted or out of range
+ */
+export function parseCategorizePlacement(placement, itemCount, categoryCount) {
+  const parsed = parseJson(placement);
+  if (!Array.isArray(parsed) || parsed.length !== itemCount) {
+    return null;
+  }
+
+  // An unsorted item (null or blank) must not read as category 0
+  const indices = parsed.map(idx => (idx === null || idx === '' ? NaN : Number(idx)));
+  if (indices.some(idx => !Number.isInteger(idx) || idx < 0 || idx >= categoryCount)) {
+    return null;
+  }
+  return indices;
+}
+
+/**
+ * Validate the categories, items and key sent with a Categorize question
+ * @param {string|number[]} correctAnswer - Category index of each item
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validateCategorizeQuestion(correctAnswer, questionMetadata) {
+  if (!questionMetadata) {
+    return {
+      error: 'For Categorize questions, questionMetadata with categories and items arrays is required',
+      code: 'MISSING_CATEGORIZE_METADATA'
+    };
+  }
+
+  const metadata = parseJson(questionMetadata);
+  if (metadata === undefined) {
+    return { error: 'questionMetadata must be valid JSON', code: 'INVALID_METADATA_JSON' };
+  }
+
+  if (!isTextList(metadata?.categories, MIN_CATEGORIES)) {
+    return {
+      error: `questionMetadata must contain a categories array with at least ${MIN_CATEGORIES} non-empty names`,
+      code: 'INVALID_CATEGORIZE_METADATA'
+    };
+  }
+  if (!isTextList(metadata?.items, MIN_CATEGORIZE_ITEMS)) {
+    return {
+      error: `questionMetadata must contain an items array with at least ${MIN_CATEGORIZE_ITEMS} non-empty items`,
+      code: 'INVALID_CATEGORIZE_METADATA'
+    };
+  }
+
+  if (correctAnswer === undefined || correctAnswer === null || correctAnswer === '') {
+    return {
+      error: 'For Categorize questions, correctAnswer (the category index of each item) is required',
+      code: 'MISSING_CATEGORIZE_ANSWER'
+    };
+  }
+  if (!parseCategorizePlacement(correctAnswer, metadata.items.length, metadata.categories.length)) {
+    return {
+      error: 'correctAnswer must give every item the index of an existing category',
+      code: 'INVALID_CATEGORIZE_ANSWER'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Readable placement for result views, e.g. "Vertebrate: Frog, Eagle; Invertebrate: Snail"
+ * @param {string|number[]} placement - Category index of each item
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {string}
+ */
+export function describeCategorize(placement, questionMetadata) {
+  const { categories, items } = getCategorizeStructure(questionMetadata);
+  const indices = parseCategorizePlacement(placement, items.length, categories.length);
+  if (!indices) return 'N/A';
+  return categories
+    .map((category, categoryIdx) => {
+      const members = items.filter((_, itemIdx) => indices[itemIdx] === categoryIdx);
+      return `${category}: ${members.length > 0 ? members.join(', ') : '(none)'}`;
+    })
+    .join('; ');
+}
@@ -0,0 +1,97 @@
+/**
+ * Competency content balancing for adaptive assessments
+ * A blueprint on the grade/subject configuration sets the target share of items per competency.
+ * Before each pick the selector restricts the item pool to the competency furthest behind its
+ * target share, then chooses the item closest to the ability estimate within that competency.
+ */
+
+/**
+ * Normalize a stored blueprint
+ * @param {string|Array|null} value - competency_blueprint column value
+ * @returns {Array<{competencyId: number, targetPercent: number}>|null} - Blueprint entries, or null if none
+ */
+export function parseCompetencyBlueprint(value) {
+  if (!value) return null;
+
+  let entries = value;
+  if (typeof value === 'string') {
+    try {
+      entries = JSON.parse(value);
+    } catch (e) {
+      console.error('Error parsing competency blueprint:', e);
+      return null;
+    }
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) return null;
+
+  return entries.map(entry => ({
+    competencyId: Number(entry.competencyId),
+    targetPercent: Number(entry.targetPercent)
+  }));
+}
+
+/**
+ * Validate a blueprint submitted by an admin
+ * @param {Array|null} blueprint - Blueprint entries
+ * @returns {{error: string, code: string}|null} - Error payload, or null if valid
+ */
+export function validateCompetencyBlueprint(blueprint) {
+  if (blueprint === null || blueprint === undefined) return null;
+
+  if (!Array.isArray(blueprint)) {
+    return { error: 'Competency blueprint must be a list of competencies with target percentages', code: 'INVALID_BLUEPRINT' };
+  }
+
+  const seen = new Set();
+  let totalPercent = 0;
+  for (const entry of blueprint) {
+    const competencyId = Number(entry?.competencyId);
+    const targetPercent = Number(entry?.targetPercent);
+
+    if (!Number.isInteger(competencyId) || competencyId < 1) {
+      return { error: 'Each blueprint entry needs a valid competency', code: 'INVALID_BLUEPRINT' };
+    }
+    if (seen.has(competencyId)) {
+      return { error: 'A competency can only appear once in the blueprint', code: 'INVALID_BLUEPRINT' };
+    }
+    if (!Number.isFinite(targetPercent) || targetPercent <= 0 || targetPercent > 100) {
+      return { error: 'Blueprint target percentages must be between 0 and 100', code: 'INVALID_BLUEPRINT' };
+    }
+
+    seen.add(competencyId);
+    totalPercent += targetPercent;
+  }
+
+  if (totalPercent > 100) {
+    return { error: 'Blueprint target percentages cannot add up to more than 100%', code: 'INVALID_BLUEPRINT' };
+  }
+
+  return null;
+}
+
+/**
+ * Choose the competency the next item should come from
+ * @param {Array<{competencyId: number, targetPercent: number}>|null} blueprint - Blueprint entries
+ * @param {Object<string, number>} competencyCounts - Items already administered per competency ID
+ * @param {number} itemsAdministered - Items already administered in the test
+ * @returns {number|null} - Competency ID furthest behind its target, or null if none is behind
+ */
+export function selectBlueprintCompetency(blueprint, competencyCounts, itemsAdministered) {
+  if (!blueprint || blueprint.length === 0) return null;
+
+  let selected = null;
+  let largestDeficit = 0;
+  for (const { competencyId, targetPercent } of blueprint) {
+    // Items this competency should have once the next item is given, minus items it already has
+    const expected = (targetPercent / 100) * (itemsAdministered + 1);
+    const deficit = expected - ((competencyCounts || {})[competencyId] || 0);
+
+    if (deficit > largestDeficit) {
+      largestDeficit = deficit;
+      selected = competencyId;
+    }
+  }
+
+  return selected;
+}
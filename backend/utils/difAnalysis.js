@@ -0,0 +1,129 @@
+/**
+ * Differential item functioning (DIF)
+ * Mantel-Haenszel DIF for each item: students are matched on their final Growth Metric, then the odds of a correct
+ * answer are compared between a focal group and everyone else within each ability stratum. Results follow the
+ * ETS A/B/C classification of the MH D-DIF statistic (negative values mean the item is harder for the focal group).
+ */
+
+// Width of the ability strata students are matched within (Growth Metric points)
+export const DIF_STRATUM_WIDTH = 10;
+
+// Both groups need at least this many responses to an item before it is analysed
+export const MIN_GROUP_RESPONSES = 10;
+
+// ETS thresholds on |MH D-DIF|
+const MODERATE_DIF = 1;
+const LARGE_DIF = 1.5;
+
+// MH chi-square critical value (p < .05) and one-sided z for "significantly greater than 1"
+const CHI_SQUARE_CRITICAL = 3.84;
+const Z_ONE_SIDED = 1.645;
+
+// Scale factor converting ln(odds ratio) to the ETS delta metric
+const DELTA_SCALE = -2.35;
+
+/**
+ * Mantel-Haenszel DIF statistics for one item and one focal group
+ * @param {Array<{ability: number, correct: boolean, focal: boolean}>} responses - Responses to the item
+ * @returns {Object|null} - Null when either group has too few responses or the odds ratio is undefined;
+ *   otherwise { focalCount, referenceCount, focalPValue, referencePValue, oddsRatio, deltaDif, standardError,
+ *   chiSquare, classification: 'A'|'B'|'C' }
+ */
+export function mantelHaenszel(responses) {
+  const focalCount = responses.filter(r => r.focal).length;
+  const referenceCount = responses.length - focalCount;
+
+  if (focalCount < MIN_GROUP_RESPONSES || referenceCount < MIN_GROUP_RESPONSES) {
+    return null;
+  }
+
+  // 2x2 table per ability stratum: A/B = reference right/wrong, C/D = focal right/wrong
+  const strata = new Map();
+  for (const r of responses) {
+    const key = Math.floor(r.ability / DIF_STRATUM_WIDTH);
+    if (!strata.has(key)) {
+      strata.set(key, { A: 0, B: 0, C: 0, D: 0 });
+    }
+    const table = strata.get(key);
+    if (r.focal) {
+      table[r.correct ? 'C' : 'D']++;
+    } else {
+      table[r.correct ? 'A' : 'B']++;
+    }
+  }
+
+  let sumR = 0;
+  let sumS = 0;
+  let sumPR = 0;
+  let sumPSQR = 0;
+  let sumQS = 0;
+  let sumA = 0;
+  let sumExpectedA = 0;
+  let sumVarianceA = 0;
+
+  for (const { A, B, C, D } of strata.values()) {
+    const n = A + B + C + D;
+    const nReference = A + B;
+    const nFocal = C + D;
+    const nCorrect = A + C;
+    const nIncorrect = B + D;
+
+    // Strata with only one group or only one outcome carry no information
+    if (nReference === 0 || nFocal === 0 || nCorrect === 0 || nIncorrect === 0 || n < 2) {
+      continue;
+    }
+
+    const R = (A * D) / n;
+    const S = (B * C) / n;
+    const P = (A + D) / n;
+    const Q = (B + C) / n;
+
+    sumR += R;
+    sumS += S;
+    sumPR += P * R;
+    sumPSQR += P * S + Q * R;
+    sumQS += Q * S;
+
+    sumA += A;
+    sumExpectedA += (nReference * nCorrect) / n;
+    sumVarianceA += (nReference * nFocal * nCorrect * nIncorrect) / (n * n * (n - 1));
+  }
+
+  if (sumR === 0 || sumS === 0 || sumVarianceA === 0) {
+    return null;
+  }
+
+  const oddsRatio = sumR / sumS;
+  const deltaDif = DELTA_SCALE * Math.log(oddsRatio);
+
+  // Robins-Breslow-Greenland variance of ln(odds ratio)
+  const logVariance = sumPR / (2 * sumR * sumR) + sumPSQR / (2 * sumR * sumS) + sumQS / (2 * sumS * sumS);
+  const standardError = Math.abs(DELTA_SCALE) * Math.sqrt(logVariance);
+
+  const chiSquare = (Math.abs(sumA - sumExpectedA) - 0.5) ** 2 / sumVarianceA;
+  const magnitude = Math.abs(deltaDif);
+
+  let classification = 'B';
+  if (magnitude < MODERATE_DIF || chiSquare < CHI_SQUARE_CRITICAL) {
+    classification = 'A';
+  } else if (magnitude >= LARGE_DIF && (magnitude - MODERATE_DIF) / standardError > Z_ONE_SIDED) {
+    classification = 'C';
+  }
+
+  const pValue = group => {
+    const members = responses.filter(r => r.focal === group);
+    return members.filter(r => r.correct).length / members.length;
+  };
+
+  return {
+    focalCount,
+    referenceCount,
+    focalPValue: Math.round(pValue(true) * 1000) / 1000,
+    referencePValue: Math.round(pValue(false) * 1000) / 1000,
+    oddsRatio: Math.round(oddsRatio * 1000) / 1000,
+    deltaDif: Math.round(deltaDif * 100) / 100,
+    standardError: Math.round(standardError * 100) / 100,
+    chiSquare: Math.round(chiSquare * 100) / 100,
+    classification
+  };
+}
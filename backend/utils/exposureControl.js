@@ -0,0 +1,50 @@
+/**
+ * Item exposure control for adaptive assessments
+ * Randomesque selection with an exposure ceiling: instead of always giving the single closest item,
+ * the selector draws at random from the few items closest to the target difficulty, skipping items
+ * that have already been shown in more than MAX_EXPOSURE_RATE of the adaptive tests of their subject and grade.
+ */
+
+// Number of closest-difficulty items the next question is drawn from
+export const RANDOMESQUE_POOL_SIZE = 5;
+
+// Highest share of adaptive tests an item should appear in before it is held back
+export const MAX_EXPOSURE_RATE = 0.25;
+
+// Below this many administered tests exposure rates are too noisy to act on
+export const MIN_TESTS_FOR_EXPOSURE_CONTROL = 20;
+
+/**
+ * Share of the adaptive tests an item could be served to (same subject and grade) in which it was shown
+ * @param {number} exposureCount - Times the item was administered
+ * @param {number} testsAdministered - Adaptive tests started in the item's subject and grade
+ * @returns {number} - Exposure rate (0-1)
+ */
+export function exposureRate(exposureCount, testsAdministered) {
+  if (!testsAdministered) return 0;
+  return Math.min(1, (Number(exposureCount) || 0) / testsAdministered);
+}
+
+/**
+ * Pick the next item from the closest-difficulty candidates
+ * @param {Array<{exposure_count?: number}>} candidates - Candidate items ordered by closeness to the target difficulty
+ * @param {number} testsAdministered - Adaptive tests started in the subject and grade being tested
+ * @param {Function} [random] - Random number source in [0, 1), injectable for reproducible simulations
+ * @returns {Object|null} - Selected item, or null if there are no candidates
+ */
+export function chooseExposureControlledItem(candidates, testsAdministered, random = Math.random) {
+  if (!candidates || candidates.length === 0) return null;
+
+  const pool = candidates.slice(0, RANDOMESQUE_POOL_SIZE);
+
+  // Hold back over-exposed items unless every candidate is over-exposed
+  let eligible = pool;
+  if (testsAdministered >= MIN_TESTS_FOR_EXPOSURE_CONTROL) {
+    const underCeiling = pool.filter(item => exposureRate(item.exposure_count, testsAdministered) < MAX_EXPOSURE_RATE);
+    if (underCeiling.length > 0) {
+      eligible = underCeiling;
+    }
+  }
+
+  return eligible[Math.floor(random() * eligible.length)];
+}
@@ -0,0 +1,160 @@
+/**
+ * Scoring for Hotspot questions (students click the part of an image that shows something)
+ * question_metadata.hotspot holds the image; correct_answer holds the correct regions as JSON so they are
+ * never sent to students. Coordinates are fractions (0-1) of the image's width and height, so scoring does
+ * not depend on the size the image was displayed at. A click inside any correct region earns full credit.
+ */
+
+export const HOTSPOT_SHAPES = {
+  RECT: 'rect',       // {shape, x, y, width, height} - top-left corner and size
+  POLYGON: 'polygon'  // {shape, points: [{x, y}, ...]} - at least 3 corners
+};
+
+const MIN_POLYGON_POINTS = 3;
+
+const isFraction = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const parseJson = (value) => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Check a single region
+ * @param {Object} region - Region as drawn by the author
+ * @returns {boolean}
+ */
+function isValidRegion(region) {
+  if (!region || typeof region !== 'object') return false;
+  if (region.shape === HOTSPOT_SHAPES.RECT) {
+    return isFraction(region.x) && isFraction(region.y) &&
+      isFraction(region.width) && isFraction(region.height) &&
+      region.width > 0 && region.height > 0 &&
+      region.x + region.width <= 1.0001 && region.y + region.height <= 1.0001;
+  }
+  if (region.shape === HOTSPOT_SHAPES.POLYGON) {
+    return Array.isArray(region.points) && region.points.length >= MIN_POLYGON_POINTS &&
+      region.points.every(point => isFraction(point?.x) && isFraction(point?.y));
+  }
+  return false;
+}
+
+/**
+ * Read the correct regions of a Hotspot question
+ * @param {string|Object[]} correctAnswer - correct_answer column (JSON array of regions)
+ * @returns {Object[]} - Valid regions only
+ */
+export function getHotspotRegions(correctAnswer) {
+  const regions = parseJson(correctAnswer);
+  return Array.isArray(regions) ? regions.filter(isValidRegion) : [];
+}
+
+/**
+ * Validate the image and regions sent with a Hotspot question
+ * @param {string|Object[]} correctAnswer - Correct regions
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validateHotspotQuestion(correctAnswer, questionMetadata) {
+  const metadata = parseJson(questionMetadata);
+  if (metadata === undefined) {
+    return { error: 'questionMetadata must be valid JSON', code: 'INVALID_METADATA_JSON' };
+  }
+
+  const imageUrl = metadata?.hotspot?.imageUrl;
+  if (typeof imageUrl !== 'string' || !imageUrl.trim()) {
+    return {
+      error: 'For Hotspot questions, questionMetadata.hotspot.imageUrl (the uploaded image) is required',
+      code: 'MISSING_HOTSPOT_IMAGE'
+    };
+  }
+
+  const regions = parseJson(correctAnswer);
+  if (!Array.isArray(regions) || regions.length === 0) {
+    return {
+      error: 'For Hotspot questions, correctAnswer must contain at least one correct region',
+      code: 'MISSING_HOTSPOT_REGIONS'
+    };
+  }
+  const invalidIndex = regions.findIndex(region => !isValidRegion(region));
+  if (invalidIndex !== -1) {
+    return {
+      error: `Region ${invalidIndex + 1} must be a rectangle or a polygon of at least ${MIN_POLYGON_POINTS} points, with coordinates between 0 and 1`,
+      code: 'INVALID_HOTSPOT_REGION'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a student's click
+ * @param {string|Object} answer - {x, y} as fractions of the image size (object or JSON)
+ * @returns {{x: number, y: number}|null} - Click, or null when it is not a point on the image
+ */
+export function parseHotspotClick(answer) {
+  const click = parseJson(answer);
+  if (!click || typeof click !== 'object' || !isFraction(click.x) || !isFraction(click.y)) {
+    return null;
+  }
+  return { x: click.x, y: click.y };
+}
+
+/**
+ * Whether a point lies inside a region
+ * @param {{x: number, y: number}} point - Click position
+ * @param {Object} region - Valid region
+ * @returns {boolean}
+ */
+export function isPointInRegion(point, region) {
+  if (region.shape === HOTSPOT_SHAPES.RECT) {
+    return point.x >= region.x && point.x <= region.x + region.width &&
+      point.y >= region.y && point.y <= region.y + region.height;
+  }
+
+  // Ray casting: count how many polygon edges a horizontal ray from the point crosses
+  let inside = false;
+  const { points } = region;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const crosses = (points[i].y > point.y) !== (points[j].y > point.y) &&
+      point.x < ((points[j].x - points[i].x) * (point.y - points[i].y)) / (points[j].y - points[i].y) + points[i].x;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Score a Hotspot response
+ * @param {{x: number, y: number}} click - Parsed click
+ * @param {string|Object[]} correctAnswer - Correct regions
+ * @returns {number} - 1 when the click is inside a correct region, otherwise 0
+ */
+export function scoreHotspotClick(click, correctAnswer) {
+  return getHotspotRegions(correctAnswer).some(region => isPointInRegion(click, region)) ? 1 : 0;
+}
+
+/**
+ * Readable click for result views, e.g. "Clicked 42% across, 31% down"
+ * @param {string|Object} answer - Stored click
+ * @returns {string}
+ */
+export function describeHotspotClick(answer) {
+  const click = parseHotspotClick(answer);
+  if (!click) return 'N/A';
+  return `Clicked ${Math.round(click.x * 100)}% across, ${Math.round(click.y * 100)}% down`;
+}
+
+/**
+ * Readable key for result views, e.g. "2 marked regions on the image"
+ * @param {string|Object[]} correctAnswer - Correct regions
+ * @returns {string}
+ */
+export function describeHotspotRegions(correctAnswer) {
+  const count = getHotspotRegions(correctAnswer).length;
+  if (count === 0) return 'N/A';
+  return `${count} marked region${count === 1 ? '' : 's'} on the image`;
+}
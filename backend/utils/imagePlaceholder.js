@@ -56,3 +56,18 @@ export function convertImagePlaceholders(text, req = null) {
   
   return result;
 }
+
+/**
+ * Converts img tags of uploaded images back to placeholders (the inverse of convertImagePlaceholders)
+ * Used when question text comes back from a CSV export, to tell whether it was edited
+ * @param {string} text - Question text HTML
+ * @returns {string} Text with {filename.png} placeholders in place of the img tags
+ */
+export function imageTagsToPlaceholders(text) {
+  if (!text || typeof text !== 'string') {
+    return text;
+  }
+
+  const imageTagRegex = /<img\b[^>]*?\ssrc=["'][^"']*\/uploads\/images\/([a-zA-Z0-9._-]+\.(png|jpg|jpeg|gif|webp|svg))["'][^>]*>/gi;
+  return text.replace(imageTagRegex, (match, filename) => `{${filename}}`);
+}
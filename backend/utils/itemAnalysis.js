@@ -0,0 +1,130 @@
+/**
+ * Classical item analysis
+ * Difficulty (p-value), discrimination and distractor statistics for each question, computed from the responses
+ * of completed test events. Because adaptive tests give every student a different form, discrimination is the
+ * point-biserial correlation between the item score and the student's final Growth Metric rather than a raw total.
+ */
+
+// Items need this many responses before they are flagged for review
+export const MIN_ANALYSIS_RESPONSES = 20;
+
+// An incorrect option chosen by fewer than this share of students is a dead distractor
+export const DEAD_DISTRACTOR_SHARE = 0.05;
+
+// Question types whose options are analysed one by one
+export const OPTION_ANALYSIS_TYPES = ['MCQ', 'MultipleSelect'];
+
+/**
+ * Point-biserial correlation between item score and ability
+ * @param {Array<{score: number, ability: number}>} responses - Item score (0-1) and the student's Growth Metric
+ * @returns {number|null} - Correlation, or null when either variable has no variance
+ */
+export function pointBiserial(responses) {
+  const n = responses.length;
+  if (n < 2) {
+    return null;
+  }
+
+  const meanScore = responses.reduce((sum, r) => sum + r.score, 0) / n;
+  const meanAbility = responses.reduce((sum, r) => sum + r.ability, 0) / n;
+
+  let covariance = 0;
+  let scoreVariance = 0;
+  let abilityVariance = 0;
+  for (const r of responses) {
+    covariance += (r.score - meanScore) * (r.ability - meanAbility);
+    scoreVariance += (r.score - meanScore) ** 2;
+    abilityVariance += (r.ability - meanAbility) ** 2;
+  }
+
+  if (scoreVariance === 0 || abilityVariance === 0) {
+    return null;
+  }
+
+  return covariance / Math.sqrt(scoreVariance * abilityVariance);
+}
+
+/**
+ * Option indices stored in assessment_responses.selected_option_index
+ * @param {*} value - Stored answer (index or JSON array of indices)
+ * @returns {number[]} - Selected option indices
+ */
+export function parseSelectedOptions(value) {
+  if (value === null || value === undefined || value === '') {
+    return [];
+  }
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  const indices = Array.isArray(parsed) ? parsed : [parsed];
+  return indices.map(Number).filter(Number.isInteger);
+}
+
+const round = (value, digits) => (value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits);
+
+/**
+ * Item statistics and review flags for one question
+ * @param {Object} item - Question and its responses
+ * @param {string} item.questionType - Question type
+ * @param {number} item.optionCount - Number of answer options
+ * @param {number[]} item.correctIndices - Correct option indices (in authored order)
+ * @param {Array<{score: number, ability: number, responseTime: number|null, selected: number[]|null}>} item.responses
+ *   Responses with option indices already mapped back to authored order; selected is null for responses to a
+ *   version whose options or key differ, which count toward every statistic except the option shares
+ * @returns {Object} - timesAdministered, pValue, pointBiserial, meanResponseTime, options, flags
+ */
+export function analyzeItem({ questionType, optionCount, correctIndices, responses }) {
+  const n = responses.length;
+  const pValue = n > 0 ? responses.reduce((sum, r) => sum + r.score, 0) / n : null;
+  const discrimination = pointBiserial(responses);
+
+  const timedResponses = responses.filter(r => r.responseTime !== null && r.responseTime !== undefined);
+  const meanResponseTime = timedResponses.length > 0
+    ? timedResponses.reduce((sum, r) => sum + r.responseTime, 0) / timedResponses.length
+    : null;
+
+  let options = null;
+  if (OPTION_ANALYSIS_TYPES.includes(questionType) && optionCount > 0) {
+    const counts = new Array(optionCount).fill(0);
+    const optionResponses = responses.filter(response => response.selected !== null);
+    for (const response of optionResponses) {
+      for (const index of new Set(response.selected)) {
+        if (index >= 0 && index < optionCount) {
+          counts[index]++;
+        }
+      }
+    }
+    options = counts.map((count, index) => ({
+      index,
+      correct: correctIndices.includes(index),
+      count,
+      share: optionResponses.length > 0 ? round(count / optionResponses.length, 3) : 0
+    }));
+  }
+
+  const flags = [];
+  if (n >= MIN_ANALYSIS_RESPONSES) {
+    if (discrimination !== null && discrimination < 0) {
+      flags.push('negative_discrimination');
+    }
+    if (options && options.some(option => !option.correct && option.share < DEAD_DISTRACTOR_SHARE)) {
+      flags.push('dead_distractor');
+    }
+  }
+
+  return {
+    timesAdministered: n,
+    pValue: round(pValue, 3),
+    pointBiserial: round(discrimination, 3),
+    meanResponseTime: round(meanResponseTime, 1),
+    options,
+    flags
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Empirical item calibration
+ * Fits each item's Rasch difficulty from the assessment_responses history, anchored to the final Growth Metric
+ * of each completed test event, and proposes a new difficulty_level when the fit disagrees with the authored value.
+ * Proposals are only applied when an admin accepts them; every change to difficulty_level is recorded in
+ * question_difficulty_history.
+ */
+
+import { executeQuery } from '../config/database.js';
+import { probabilityCorrect, POINTS_PER_LOGIT, SCALE_MIN, SCALE_MAX } from './abilityEstimator.js';
+import { responseScore } from './partialCredit.js';
+
+// Items need at least this many scored responses before their difficulty is refitted
+export const MIN_CALIBRATION_RESPONSES = 30;
+
+// Propose a change when the fitted difficulty differs from the authored one by more than this (scale points)
+export const CALIBRATION_THRESHOLD = 10;
+
+// Newton-Raphson settings
+const MAX_ITERATIONS = 50;
+const MAX_STEP = 10;
+const CONVERGENCE = 0.01;
+
+/**
+ * Maximum-likelihood Rasch difficulty of one item given the abilities of the students who answered it
+ * @param {Array<{ability: number, score: number}>} responses - Student ability (Growth Metric) and score (0-1)
+ * @param {number} [startDifficulty] - Starting value (usually the authored difficulty)
+ * @returns {{difficulty: number, standardError: number, responseCount: number}|null} - Null when every
+ *   response earned full credit or none (the likelihood has no maximum inside the scale)
+ */
+export function estimateItemDifficulty(responses, startDifficulty = (SCALE_MIN + SCALE_MAX) / 2) {
+  const scored = responses.filter(r => Number.isFinite(r.ability) && Number.isFinite(r.score));
+  const totalScore = scored.reduce((sum, r) => sum + r.score, 0);
+
+  if (scored.length === 0 || totalScore <= 0 || totalScore >= scored.length) {
+    return null;
+  }
+
+  let difficulty = Math.min(SCALE_MAX, Math.max(SCALE_MIN, startDifficulty));
+  let information = 0;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let residual = 0;
+    information = 0;
+    for (const response of scored) {
+      const p = probabilityCorrect(response.ability, difficulty);
+      residual += p - response.score;
+      information += p * (1 - p);
+    }
+
+    const step = Math.max(-MAX_STEP, Math.min(MAX_STEP, POINTS_PER_LOGIT * residual / information));
+    difficulty = Math.min(SCALE_MAX, Math.max(SCALE_MIN, difficulty + step));
+
+    if (Math.abs(step) < CONVERGENCE) {
+      break;
+    }
+  }
+
+  return {
+    difficulty,
+    standardError: POINTS_PER_LOGIT / Math.sqrt(information),
+    responseCount: scored.length
+  };
+}
+
+/**
+ * Refit item difficulties and store proposals for items that drifted from their authored value
+ * Earlier pending proposals for the refitted items are marked as superseded.
+ * @param {Object} [options] - Calibration options
+ * @param {number|null} [options.subjectId] - Only calibrate this subject's items
+ * @param {number} [options.minResponses] - Minimum responses per item
+ * @param {number} [options.threshold] - Minimum difference (scale points) to propose a change
+ * @param {number|null} [options.startedBy] - Admin who started the run (null for scheduled runs)
+ * @returns {Promise<{runId: number, itemsCalibrated: number, proposalsCreated: number}>}
+ */
+export async function runItemCalibration({
+  subjectId = null,
+  minResponses = MIN_CALIBRATION_RESPONSES,
+  threshold = CALIBRATION_THRESHOLD,
+  startedBy = null
+} = {}) {
+  const params = [];
+  let subjectFilter = '';
+  if (subjectId) {
+    subjectFilter = 'AND q.subject_id = ?';
+    params.push(subjectId);
+  }
+
+  const rows = await executeQuery(`
+    SELECT ar.question_id, ar.is_correct, ar.score, a.rit_score, q.difficulty_level
+    FROM assessment_responses ar
+    JOIN assessments a ON ar.assessment_id = a.id
+    JOIN questions q ON ar.question_id = q.id
+    WHERE a.rit_score IS NOT NULL
+      AND q.question_type NOT IN ('ShortAnswer', 'Essay')
+      ${subjectFilter}
+  `, params);
+
+  const items = new Map();
+  for (const row of rows) {
+    if (!items.has(row.question_id)) {
+      items.set(row.question_id, { authoredDifficulty: row.difficulty_level, responses: [] });
+    }
+    items.get(row.question_id).responses.push({ ability: Number(row.rit_score), score: responseScore(row) });
+  }
+
+  const runResult = await executeQuery(
+    'INSERT INTO item_calibration_runs (subject_id, min_responses, threshold, started_by) VALUES (?, ?, ?, ?)',
+    [subjectId, minResponses, threshold, startedBy]
+  );
+  const runId = runResult.insertId;
+
+  let itemsCalibrated = 0;
+  let proposalsCreated = 0;
+
+  for (const [questionId, item] of items) {
+    if (item.responses.length < minResponses) {
+      continue;
+    }
+
+    const fit = estimateItemDifficulty(item.responses, item.authoredDifficulty);
+    if (!fit) {
+      continue;
+    }
+    itemsCalibrated++;
+
+    await executeQuery(
+      "UPDATE item_calibration_proposals SET status = 'superseded' WHERE question_id = ? AND status = 'pending'",
+      [questionId]
+    );
+
+    const proposedDifficulty = Math.round(fit.difficulty);
+    if (Math.abs(proposedDifficulty - item.authoredDifficulty) <= threshold) {
+      continue;
+    }
+
+    await executeQuery(`
+      INSERT INTO item_calibration_proposals
+        (run_id, question_id, authored_difficulty, proposed_difficulty, standard_error, response_count)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      runId,
+      questionId,
+      item.authoredDifficulty,
+      proposedDifficulty,
+      Math.round(fit.standardError * 10) / 10,
+      fit.responseCount
+    ]);
+    proposalsCreated++;
+  }
+
+  await executeQuery(
+    'UPDATE item_calibration_runs SET items_calibrated = ?, proposals_created = ?, completed_at = NOW() WHERE id = ?',
+    [itemsCalibrated, proposalsCreated, runId]
+  );
+
+  return { runId, itemsCalibrated, proposalsCreated };
+}
+
+/**
+ * Change a question's difficulty and record who changed it and why
+ * @param {Object} change - Difficulty change
+ * @param {number} change.questionId - Question ID
+ * @param {number} change.oldDifficulty - Difficulty before the change
+ * @param {number} change.newDifficulty - Difficulty after the change
+ * @param {'calibration'|'manual'} change.source - What triggered the change
+ * @param {number|null} [change.proposalId] - Accepted calibration proposal
+ * @param {number|null} [change.changedBy] - Admin who made the change
+ * @param {Function} [query] - Query runner; pass a transaction's runner to record the change inside it
+ */
+export async function recordDifficultyChange({ questionId, oldDifficulty, newDifficulty, source, proposalId = null, changedBy = null }, query = executeQuery) {
+  await query(`
+    INSERT INTO question_difficulty_history (question_id, old_difficulty, new_difficulty, source, proposal_id, changed_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [questionId, oldDifficulty, newDifficulty, source, proposalId, changedBy]);
+}
@@ -0,0 +1,226 @@
+/**
+ * Scoring for NumericEntry questions (typed numeric answers)
+ * The key is stored in correct_answer as the author wrote it (e.g. "3/4" or "2.5"); the tolerance,
+ * the number forms students may type and the accepted units live in question_metadata.numeric.
+ * Scoring is deterministic: a response earns 1 when it parses to a value within tolerance of the key.
+ */
+
+export const NUMERIC_TOLERANCE_MODES = {
+  EXACT: 'exact',       // Value must equal the key
+  ABSOLUTE: 'absolute', // Value may differ from the key by at most `value`
+  RELATIVE: 'relative'  // Value may differ from the key by at most `value` percent of the key
+};
+
+// Ways a number may be written: decimal covers integers; mixed numbers look like "1 1/2"
+export const NUMERIC_ANSWER_FORMS = ['decimal', 'fraction', 'mixed'];
+
+// Guards against floating point noise when comparing equivalent forms such as 3/4 and 0.75
+const EPSILON = 1e-9;
+
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const FRACTION_PATTERN = /^([+-]?\d+)\s*\/\s*(\d+)$/;
+const MIXED_PATTERN = /^([+-]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/;
+
+/**
+ * Parse a typed number
+ * @param {string|number} text - What the student or author typed
+ * @param {string[]} [forms] - Allowed forms (see NUMERIC_ANSWER_FORMS)
+ * @returns {{value: number, form: string}|null} - Parsed value, or null when it is not a number in an allowed form
+ */
+export function parseNumericValue(text, forms = NUMERIC_ANSWER_FORMS) {
+  // Thousands separators ("1,250") are accepted; a comma is never read as a decimal point
+  const cleaned = String(text ?? '').trim().replace(/(\d),(?=\d{3}(\D|$))/g, '$1');
+  if (!cleaned) return null;
+
+  if (forms.includes('decimal') && DECIMAL_PATTERN.test(cleaned)) {
+    return { value: Number(cleaned), form: 'decimal' };
+  }
+
+  const fraction = cleaned.match(FRACTION_PATTERN);
+  if (fraction && forms.includes('fraction')) {
+    const denominator = Number(fraction[2]);
+    return denominator === 0 ? null : { value: Number(fraction[1]) / denominator, form: 'fraction' };
+  }
+
+  const mixed = cleaned.match(MIXED_PATTERN);
+  if (mixed && forms.includes('mixed')) {
+    const denominator = Number(mixed[4]);
+    if (denominator === 0) return null;
+    const magnitude = Number(mixed[2]) + Number(mixed[3]) / denominator;
+    return { value: mixed[1] === '-' ? -magnitude : magnitude, form: 'mixed' };
+  }
+
+  return null;
+}
+
+/**
+ * Read the NumericEntry settings of a question
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{tolerance: {mode: string, value: number}, forms: string[], units: string[], unitRequired: boolean}}
+ */
+export function getNumericSettings(questionMetadata) {
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      metadata = null;
+    }
+  }
+
+  const numeric = metadata?.numeric || {};
+  const mode = Object.values(NUMERIC_TOLERANCE_MODES).includes(numeric.tolerance?.mode)
+    ? numeric.tolerance.mode
+    : NUMERIC_TOLERANCE_MODES.EXACT;
+  const toleranceValue = Number(numeric.tolerance?.value);
+  const forms = Array.isArray(numeric.forms)
+    ? numeric.forms.filter(form => NUMERIC_ANSWER_FORMS.includes(form))
+    : [];
+  const units = Array.isArray(numeric.units)
+    ? numeric.units.map(unit => String(unit).trim()).filter(Boolean)
+    : [];
+
+  return {
+    tolerance: {
+      mode,
+      value: mode === NUMERIC_TOLERANCE_MODES.EXACT || !Number.isFinite(toleranceValue) ? 0 : Math.abs(toleranceValue)
+    },
+    forms: forms.length > 0 ? forms : NUMERIC_ANSWER_FORMS,
+    units,
+    unitRequired: units.length > 0 && numeric.unitRequired === true
+  };
+}
+
+/**
+ * Validate the key and settings sent with a NumericEntry question
+ * @param {string|number} correctAnswer - Key as typed by the author
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validateNumericQuestion(correctAnswer, questionMetadata) {
+  if (correctAnswer === undefined || correctAnswer === null || String(correctAnswer).trim() === '') {
+    return {
+      error: 'For NumericEntry questions, correctAnswer (the numeric key) is required',
+      code: 'MISSING_NUMERIC_ANSWER'
+    };
+  }
+
+  if (!parseNumericValue(correctAnswer)) {
+    return {
+      error: 'correctAnswer must be a number, fraction (3/4) or mixed number (1 1/2)',
+      code: 'INVALID_NUMERIC_ANSWER'
+    };
+  }
+
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return { error: 'questionMetadata must be valid JSON', code: 'INVALID_METADATA_JSON' };
+    }
+  }
+
+  const tolerance = metadata?.numeric?.tolerance;
+  if (tolerance) {
+    if (!Object.values(NUMERIC_TOLERANCE_MODES).includes(tolerance.mode)) {
+      return {
+        error: `Tolerance mode must be one of: ${Object.values(NUMERIC_TOLERANCE_MODES).join(', ')}`,
+        code: 'INVALID_NUMERIC_TOLERANCE'
+      };
+    }
+    const value = Number(tolerance.value);
+    if (tolerance.mode !== NUMERIC_TOLERANCE_MODES.EXACT && (!Number.isFinite(value) || value < 0)) {
+      return {
+        error: 'Tolerance must be a non-negative number',
+        code: 'INVALID_NUMERIC_TOLERANCE'
+      };
+    }
+  }
+
+  const forms = metadata?.numeric?.forms;
+  if (forms !== undefined && (!Array.isArray(forms) || forms.length === 0 || forms.some(form => !NUMERIC_ANSWER_FORMS.includes(form)))) {
+    return {
+      error: `Accepted forms must be a non-empty list drawn from: ${NUMERIC_ANSWER_FORMS.join(', ')}`,
+      code: 'INVALID_NUMERIC_FORMS'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Separate the unit from a typed answer
+ * @param {string} text - Typed answer, e.g. "12.5 cm"
+ * @param {string[]} units - Accepted units
+ * @returns {{numberText: string, unit: string|null, unknownUnit: boolean}}
+ */
+function splitUnit(text, units) {
+  const trimmed = String(text ?? '').trim();
+  const lower = trimmed.toLowerCase();
+  // Longest first so "cm" is not read as "m" plus a stray "c"
+  const unit = [...units]
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => lower.endsWith(candidate.toLowerCase()));
+
+  if (unit) {
+    return { numberText: trimmed.slice(0, trimmed.length - unit.length).trim(), unit, unknownUnit: false };
+  }
+
+  // Anything after the number that is not an accepted unit makes the answer wrong
+  const trailing = trimmed.match(/^(.*?\d)\s*([^\d\s./,+-][^\d]*)$/);
+  if (trailing) {
+    return { numberText: trailing[1].trim(), unit: trailing[2].trim(), unknownUnit: true };
+  }
+  return { numberText: trimmed, unit: null, unknownUnit: false };
+}
+
+/**
+ * Score a NumericEntry response
+ * @param {string|number} response - Typed answer
+ * @param {string|number} correctAnswer - Key as stored in correct_answer
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {number} - 1 when the answer matches the key within tolerance, otherwise 0
+ */
+export function scoreNumericAnswer(response, correctAnswer, questionMetadata) {
+  const settings = getNumericSettings(questionMetadata);
+  const key = parseNumericValue(correctAnswer);
+  if (!key) return 0;
+
+  const { numberText, unit, unknownUnit } = splitUnit(response, settings.units);
+  if (unknownUnit || (settings.unitRequired && !unit)) return 0;
+
+  const answer = parseNumericValue(numberText, settings.forms);
+  if (!answer) return 0;
+
+  const difference = Math.abs(answer.value - key.value);
+  let allowed = EPSILON * Math.max(1, Math.abs(key.value));
+  if (settings.tolerance.mode === NUMERIC_TOLERANCE_MODES.ABSOLUTE) {
+    allowed += settings.tolerance.value;
+  } else if (settings.tolerance.mode === NUMERIC_TOLERANCE_MODES.RELATIVE) {
+    allowed += Math.abs(key.value) * settings.tolerance.value / 100;
+  }
+
+  return difference <= allowed ? 1 : 0;
+}
+
+/**
+ * Readable key for result views, e.g. "3/4 cm (±5%)"
+ * @param {string|number} correctAnswer - Key as stored in correct_answer
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {string}
+ */
+export function describeNumericKey(correctAnswer, questionMetadata) {
+  if (correctAnswer === undefined || correctAnswer === null || correctAnswer === '') return 'N/A';
+  const settings = getNumericSettings(questionMetadata);
+  let text = String(correctAnswer).trim();
+  if (settings.units.length > 0) {
+    text += ` ${settings.units[0]}`;
+  }
+  if (settings.tolerance.mode === NUMERIC_TOLERANCE_MODES.ABSOLUTE && settings.tolerance.value > 0) {
+    text += ` (±${settings.tolerance.value})`;
+  } else if (settings.tolerance.mode === NUMERIC_TOLERANCE_MODES.RELATIVE && settings.tolerance.value > 0) {
+    text += ` (±${settings.tolerance.value}%)`;
+  }
+  return text;
+}
@@ -0,0 +1,150 @@
+/**
+ * Structure helpers for Ordering questions (students arrange steps into sequence)
+ * question_metadata.items holds the steps in the order students first see them; correct_answer holds
+ * the correct sequence as a JSON array of indices into items. Responses are stored the same way.
+ * Scoring lives in partialCredit.js (scoreOrdering) so it follows the question's partial-credit policy.
+ */
+
+export const MIN_ORDERING_ITEMS = 2;
+
+/**
+ * Parse an arrangement (student response or correct_answer) as a permutation of item indices
+ * @param {string|number[]} order - JSON array or array of indices into items
+ * @param {number} itemCount - Number of items in the question
+ * @returns {number[]|null} - Indices in the arranged order, or null when it is not a full arrangement
+ */
+export function parseOrderingSequence(order, itemCount) {
+  let parsed = order;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length !== itemCount) {
+    return null;
+  }
+
+  const indices = parsed.map(Number);
+  const seen = new Set();
+  for (const idx of indices) {
+    if (!Number.isInteger(idx) || idx < 0 || idx >= itemCount || seen.has(idx)) {
+      return null;
+    }
+    seen.add(idx);
+  }
+  return indices;
+}
+
+/**
+ * Read the items of an Ordering question
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {string[]}
+ */
+export function getOrderingItems(questionMetadata) {
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      metadata = null;
+    }
+  }
+  return Array.isArray(metadata?.items) ? metadata.items.map(item => String(item)) : [];
+}
+
+/**
+ * Validate the items and correct sequence sent with an Ordering question
+ * @param {string|number[]} correctAnswer - Correct sequence of item indices
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validateOrderingQuestion(correctAnswer, questionMetadata) {
+  if (!questionMetadata) {
+    return {
+      error: 'For Ordering questions, questionMetadata with an items array is required',
+      code: 'MISSING_ORDERING_METADATA'
+    };
+  }
+
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return { error: 'questionMetadata must be valid JSON', code: 'INVALID_METADATA_JSON' };
+    }
+  }
+
+  const items = metadata?.items;
+  if (!Array.isArray(items) || items.length < MIN_ORDERING_ITEMS) {
+    return {
+      error: `questionMetadata must contain an items array with at least ${MIN_ORDERING_ITEMS} steps`,
+      code: 'INVALID_ORDERING_METADATA'
+    };
+  }
+  if (items.some(item => typeof item !== 'string' || !item.trim())) {
+    return {
+      error: 'Every step must be non-empty text',
+      code: 'INVALID_ORDERING_METADATA'
+    };
+  }
+
+  if (correctAnswer === undefined || correctAnswer === null || correctAnswer === '') {
+    return {
+      error: 'For Ordering questions, correctAnswer (the correct sequence of item indices) is required',
+      code: 'MISSING_ORDERING_ANSWER'
+    };
+  }
+  if (!parseOrderingSequence(correctAnswer, items.length)) {
+    return {
+      error: 'correctAnswer must list every item index exactly once',
+      code: 'INVALID_ORDERING_ANSWER'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build the stored structure from steps written in their correct order
+ * The display order is a shuffle seeded by the step text, so re-importing the same steps gives the same
+ * order, and it never matches the correct sequence.
+ * @param {string[]} steps - Steps in the correct order
+ * @returns {{items: string[], correctOrder: number[]}}
+ */
+export function buildOrderingItems(steps) {
+  const positions = steps.map((_, idx) => idx);
+  let seed = 0;
+  for (const char of steps.join('\u0000')) {
+    seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  for (let i = positions.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+  // A shuffle that lands on the correct sequence would give the answer away
+  if (positions.length > 1 && positions.every((pos, idx) => pos === idx)) {
+    positions.push(positions.shift());
+  }
+
+  // positions[displayIdx] is the step shown at displayIdx
+  const items = positions.map(pos => steps[pos]);
+  const correctOrder = steps.map((_, stepIdx) => positions.indexOf(stepIdx));
+  return { items, correctOrder };
+}
+
+/**
+ * Readable arrangement for result views, e.g. "Prophase → Metaphase → Anaphase"
+ * @param {string|number[]} order - Arrangement of item indices
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {string}
+ */
+export function describeOrdering(order, questionMetadata) {
+  const items = getOrderingItems(questionMetadata);
+  const indices = parseOrderingSequence(order, items.length);
+  if (!indices) return 'N/A';
+  return indices.map(idx => items[idx]).join(' → ');
+}
@@ -0,0 +1,188 @@
+/**
+ * Partial-credit scoring for multi-part question types (MultipleSelect, Matching, FillInBlank, Ordering, Categorize)
+ * The policy is stored in question_metadata.partialCredit; questions without one keep all-or-nothing scoring.
+ * A response's score (0-1) feeds the Rasch estimate directly; only a score of 1 counts as "correct".
+ */
+
+export const PARTIAL_CREDIT_QUESTION_TYPES = ['MultipleSelect', 'Matching', 'FillInBlank', 'Ordering', 'Categorize'];
+
+export const PARTIAL_CREDIT_POLICIES = {
+  ALL_OR_NOTHING: 'all_or_nothing', // Full credit only when every part is right
+  PER_PART: 'per_part'              // Credit for each correct part (pair, blank, correct pick, step in sequence or sorted item)
+};
+
+/**
+ * Read the partial-credit policy of a question
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{policy: string, wrongPickPenalty: number}} - Normalized policy
+ */
+export function getPartialCreditPolicy(questionMetadata) {
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      metadata = null;
+    }
+  }
+
+  const partialCredit = metadata?.partialCredit;
+  if (!partialCredit || partialCredit.policy !== PARTIAL_CREDIT_POLICIES.PER_PART) {
+    return { policy: PARTIAL_CREDIT_POLICIES.ALL_OR_NOTHING, wrongPickPenalty: 0 };
+  }
+
+  const penalty = Number(partialCredit.wrongPickPenalty);
+  return {
+    policy: PARTIAL_CREDIT_POLICIES.PER_PART,
+    wrongPickPenalty: Number.isFinite(penalty) ? Math.min(1, Math.max(0, penalty)) : 0
+  };
+}
+
+/**
+ * Validate the partial-credit settings sent with a question
+ * @param {string} questionType - Question type
+ * @param {Object|string|null} questionMetadata - Question metadata (object or JSON)
+ * @returns {{error: string, code: string}|null} - Error response body, or null if valid
+ */
+export function validatePartialCredit(questionType, questionMetadata) {
+  let metadata = questionMetadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return null; // Malformed metadata is reported by the type-specific checks
+    }
+  }
+
+  const partialCredit = metadata?.partialCredit;
+  if (partialCredit === undefined || partialCredit === null) {
+    return null;
+  }
+
+  if (!PARTIAL_CREDIT_QUESTION_TYPES.includes(questionType)) {
+    return {
+      error: `Partial credit is only available for ${PARTIAL_CREDIT_QUESTION_TYPES.join(', ')} questions`,
+      code: 'INVALID_PARTIAL_CREDIT'
+    };
+  }
+
+  if (!Object.values(PARTIAL_CREDIT_POLICIES).includes(partialCredit.policy)) {
+    return {
+      error: `Partial credit policy must be one of: ${Object.values(PARTIAL_CREDIT_POLICIES).join(', ')}`,
+      code: 'INVALID_PARTIAL_CREDIT'
+    };
+  }
+
+  if (partialCredit.wrongPickPenalty !== undefined) {
+    const penalty = Number(partialCredit.wrongPickPenalty);
+    if (!Number.isFinite(penalty) || penalty < 0 || penalty > 1) {
+      return {
+        error: 'Wrong pick penalty must be between 0 and 1',
+        code: 'INVALID_PARTIAL_CREDIT'
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Score a MultipleSelect response
+ * Per-part credit is the share of correct options picked, minus the penalty for each wrong pick.
+ * @param {number[]} selectedIndices - Options the student picked
+ * @param {number[]} correctIndices - Correct options
+ * @param {Object} policy - Output of getPartialCreditPolicy
+ * @returns {number} - Score between 0 and 1
+ */
+export function scoreMultipleSelect(selectedIndices, correctIndices, policy) {
+  const selected = [...new Set(selectedIndices.map(Number))];
+  const correct = new Set(correctIndices.map(Number));
+  const hits = selected.filter(idx => correct.has(idx)).length;
+  const wrongPicks = selected.length - hits;
+
+  if (hits === correct.size && wrongPicks === 0) {
+    return 1;
+  }
+  if (policy.policy !== PARTIAL_CREDIT_POLICIES.PER_PART || correct.size === 0) {
+    return 0;
+  }
+
+  return roundScore(Math.max(0, hits / correct.size - wrongPicks * policy.wrongPickPenalty));
+}
+
+/**
+ * Score a response made of independent parts (Matching pairs, FillInBlank blanks, Categorize items)
+ * @param {boolean[]} partResults - Whether each part was answered correctly
+ * @param {Object} policy - Output of getPartialCreditPolicy
+ * @returns {number} - Score between 0 and 1
+ */
+export function scoreParts(partResults, policy) {
+  if (partResults.length === 0) {
+    return 0;
+  }
+
+  const correctParts = partResults.filter(Boolean).length;
+  if (correctParts === partResults.length) {
+    return 1;
+  }
+  if (policy.policy !== PARTIAL_CREDIT_POLICIES.PER_PART) {
+    return 0;
+  }
+
+  return roundScore(correctParts / partResults.length);
+}
+
+/**
+ * Score an Ordering response
+ * Per-part credit is the share of steps in the longest run kept in correct relative order
+ * (the longest common subsequence of the response and the correct sequence).
+ * @param {number[]} selectedOrder - Item indices in the order the student arranged them
+ * @param {number[]} correctOrder - Item indices in the correct order
+ * @param {Object} policy - Output of getPartialCreditPolicy
+ * @returns {number} - Score between 0 and 1
+ */
+export function scoreOrdering(selectedOrder, correctOrder, policy) {
+  if (correctOrder.length === 0) {
+    return 0;
+  }
+  if (selectedOrder.length === correctOrder.length && selectedOrder.every((idx, pos) => idx === correctOrder[pos])) {
+    return 1;
+  }
+  if (policy.policy !== PARTIAL_CREDIT_POLICIES.PER_PART) {
+    return 0;
+  }
+
+  // Both are permutations of the same items, so the common subsequence is the longest increasing run of correct positions
+  const correctPosition = new Map(correctOrder.map((idx, pos) => [idx, pos]));
+  const tails = [];
+  for (const idx of selectedOrder) {
+    const pos = correctPosition.get(idx);
+    if (pos === undefined) continue;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (tails[mid] < pos) low = mid + 1;
+      else high = mid;
+    }
+    tails[low] = pos;
+  }
+
+  return roundScore(tails.length / correctOrder.length);
+}
+
+/**
+ * Score stored for a response (older rows have no score and fall back to is_correct)
+ * @param {{score?: number|string|null, is_correct: number|boolean}} response - assessment_responses row
+ * @returns {number} - Score between 0 and 1
+ */
+export function responseScore(response) {
+  if (response.score !== null && response.score !== undefined) {
+    return Number(response.score);
+  }
+  return response.is_correct ? 1 : 0;
+}
+
+function roundScore(score) {
+  return Math.round(score * 10000) / 10000;
+}
@@ -0,0 +1,232 @@
+/**
+ * Near-duplicate question detection
+ * Compares items by their normalised stem (word overlap) and by the overlap of their answer choices,
+ * entirely in-process so it can run on every create, on CSV previews and as a bank-wide report.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+// Combined similarity at or above which two items are reported as near-duplicates
+export const SIMILARITY_THRESHOLD = 0.8;
+
+// Share of the combined score taken by the stem when both items have answer choices
+const STEM_WEIGHT = 0.75;
+
+// Matches returned when checking a single question
+export const MAX_SIMILAR_MATCHES = 5;
+
+const parseJson = (value, fallback) => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Reduce question text to comparable words: no markup, entities, case, punctuation or extra spaces
+ * @param {string} text - Question stem or option (may contain HTML)
+ * @returns {string}
+ */
+export function normalizeQuestionText(text) {
+  return String(text || '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Dice coefficient of two sets (1 = identical, 0 = nothing shared)
+function dice(a, b) {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const value of a) {
+    if (b.has(value)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Answer texts of a question, whatever its type (choices, matching columns or blank options)
+ * @param {Array|string|null} options - Options array or JSON
+ * @param {Object|string|null} questionMetadata - Metadata object or JSON
+ * @returns {string[]}
+ */
+export function questionOptionTexts(options, questionMetadata) {
+  const texts = [...(parseJson(options, []) || [])];
+  const metadata = parseJson(questionMetadata, null);
+  if (metadata) {
+    texts.push(...(metadata.leftItems || []), ...(metadata.rightItems || []), ...(metadata.items || []), ...(metadata.categories || []));
+    (metadata.blanks || []).forEach(blank => texts.push(...(blank.options || [])));
+  }
+  return texts.filter(text => typeof text === 'string');
+}
+
+/**
+ * Precompute what the comparison needs for one question
+ * @param {Object} question - { questionText, options, questionMetadata }
+ * @returns {{stem: string, stemWords: Set<string>, options: Set<string>}}
+ */
+export function buildSimilarityProfile({ questionText, options, questionMetadata }) {
+  const stem = normalizeQuestionText(questionText);
+  return {
+    stem,
+    stemWords: new Set(stem.split(' ').filter(Boolean)),
+    options: new Set(questionOptionTexts(options, questionMetadata).map(normalizeQuestionText).filter(Boolean))
+  };
+}
+
+/**
+ * Similarity of two questions
+ * @param {Object} a - Profile from buildSimilarityProfile
+ * @param {Object} b - Profile from buildSimilarityProfile
+ * @returns {{score: number, stemSimilarity: number, optionOverlap: number|null}}
+ */
+export function compareProfiles(a, b) {
+  const stemSimilarity = a.stem === b.stem ? 1 : dice(a.stemWords, b.stemWords);
+  if (a.options.size === 0 || b.options.size === 0) {
+    return { score: stemSimilarity, stemSimilarity, optionOverlap: null };
+  }
+  const optionOverlap = dice(a.options, b.options);
+  return {
+    score: STEM_WEIGHT * stemSimilarity + (1 - STEM_WEIGHT) * optionOverlap,
+    stemSimilarity,
+    optionOverlap
+  };
+}
+
+// Highest score two stems of these lengths could reach (lets the batch report skip hopeless pairs)
+function maxPossibleScore(a, b) {
+  const sizes = [a.stemWords.size, b.stemWords.size];
+  const stemBound = sizes[0] + sizes[1] === 0 ? 1 : (2 * Math.min(...sizes)) / (sizes[0] + sizes[1]);
+  return a.options.size === 0 || b.options.size === 0 ? stemBound : STEM_WEIGHT * stemBound + (1 - STEM_WEIGHT);
+}
+
+const roundScore = (value) => (value === null ? null : Math.round(value * 1000) / 1000);
+
+/**
+ * Load the live (not retired) questions of a subject, optionally limited to one grade and its grade-less items
+ * @param {Object} filters - { subjectId, gradeId }
+ * @returns {Promise<Array>}
+ */
+export async function loadComparableQuestions({ subjectId, gradeId = null }) {
+  const params = [subjectId];
+  let gradeClause = '';
+  if (gradeId) {
+    gradeClause = 'AND (q.grade_id = ? OR q.grade_id IS NULL)';
+    params.push(gradeId);
+  }
+
+  return executeQuery(`
+    SELECT q.id, q.subject_id, q.grade_id, q.question_text, q.question_type, q.options, q.question_metadata,
+           q.difficulty_level, q.status, g.display_name as grade_name
+    FROM questions q
+    LEFT JOIN grades g ON q.grade_id = g.id
+    WHERE q.subject_id = ? AND q.status <> 'retired' ${gradeClause}
+  `, params);
+}
+
+/**
+ * Find bank questions similar to a candidate question
+ * @param {Object} candidate - { questionText, options, questionMetadata }
+ * @param {Array} bank - Rows from loadComparableQuestions
+ * @param {Object} [settings] - { threshold, excludeId, limit }
+ * @returns {Array<{question: Object, score: number, stemSimilarity: number, optionOverlap: number|null}>}
+ */
+export function findSimilarQuestions(candidate, bank, { threshold = SIMILARITY_THRESHOLD, excludeId = null, limit = MAX_SIMILAR_MATCHES } = {}) {
+  const profile = buildSimilarityProfile(candidate);
+  if (!profile.stem) return [];
+
+  return bank
+    .filter(question => question.id !== Number(excludeId))
+    .map(question => ({
+      question,
+      ...compareProfiles(profile, buildSimilarityProfile({
+        questionText: question.question_text,
+        options: question.options,
+        questionMetadata: question.question_metadata
+      }))
+    }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(match => ({
+      ...match,
+      score: roundScore(match.score),
+      stemSimilarity: roundScore(match.stemSimilarity),
+      optionOverlap: roundScore(match.optionOverlap)
+    }));
+}
+
+/**
+ * All near-duplicate pairs within a set of questions, most similar first
+ * @param {Array} questions - Rows from loadComparableQuestions
+ * @param {number} [threshold] - Minimum combined similarity
+ * @returns {Array<{first: Object, second: Object, score: number, stemSimilarity: number, optionOverlap: number|null}>}
+ */
+export function findDuplicatePairs(questions, threshold = SIMILARITY_THRESHOLD) {
+  const profiles = questions.map(question => buildSimilarityProfile({
+    questionText: question.question_text,
+    options: question.options,
+    questionMetadata: question.question_metadata
+  }));
+
+  const pairs = [];
+  for (let i = 0; i < questions.length; i++) {
+    if (!profiles[i].stem) continue;
+    for (let j = i + 1; j < questions.length; j++) {
+      if (!profiles[j].stem || maxPossibleScore(profiles[i], profiles[j]) < threshold) continue;
+      const similarity = compareProfiles(profiles[i], profiles[j]);
+      if (similarity.score >= threshold) {
+        pairs.push({
+          first: questions[i],
+          second: questions[j],
+          score: roundScore(similarity.score),
+          stemSimilarity: roundScore(similarity.stemSimilarity),
+          optionOverlap: roundScore(similarity.optionOverlap)
+        });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * API shape of a question taking part in a similarity match
+ * @param {Object} question - Row from loadComparableQuestions
+ * @returns {Object}
+ */
+export function formatSimilarQuestion(question) {
+  return {
+    id: question.id,
+    gradeId: question.grade_id,
+    gradeName: question.grade_name,
+    questionText: question.question_text,
+    questionType: question.question_type || 'MCQ',
+    options: parseJson(question.options, []),
+    difficultyLevel: question.difficulty_level,
+    status: question.status
+  };
+}
+
+/**
+ * API shape of a match returned by findSimilarQuestions
+ * @param {Object} match - Match with the bank row and its scores
+ * @returns {Object}
+ */
+export function formatSimilarMatch(match) {
+  return {
+    question: formatSimilarQuestion(match.question),
+    score: match.score,
+    stemSimilarity: match.stemSimilarity,
+    optionOverlap: match.optionOverlap
+  };
+}
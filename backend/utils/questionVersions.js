@@ -0,0 +1,78 @@
+/**
+ * Question versioning
+ * Questions are edited in place, but every create, edit and rollback also stores an immutable copy in
+ * question_versions. Responses record the version they were answered on, so results keep showing the
+ * stem, options and key the student actually saw.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+// Content fields copied into every version (and back into questions on rollback)
+export const VERSIONED_FIELDS = [
+  'question_text',
+  'question_type',
+  'options',
+  'correct_option_index',
+  'correct_answer',
+  'question_metadata',
+  'difficulty_level',
+  'dok_level',
+  'standard',
+  'content_focus'
+];
+
+/**
+ * Check whether two rows of the same question differ in any versioned content field
+ * @param {Object} before - Row read before the edit (with every field in VERSIONED_FIELDS)
+ * @param {Object} after - Row read after the edit
+ * @returns {boolean}
+ */
+export function versionedContentChanged(before, after) {
+  return VERSIONED_FIELDS.some(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+}
+
+/**
+ * Store the question's current content as its next version and make it the current version
+ * @param {number} questionId - Question ID
+ * @param {Object} [options] - Version details
+ * @param {'created'|'edited'|'rollback'} [options.changeType] - What produced the version
+ * @param {number|null} [options.createdBy] - Admin who made the change
+ * @param {number|null} [options.restoredFromVersion] - Version number copied by a rollback
+ * @param {Function} [query] - Query runner; pass a transaction's runner to record the version inside it
+ * @returns {Promise<{id: number, versionNumber: number}>} - The new version
+ */
+export async function recordQuestionVersion(questionId, { changeType = 'edited', createdBy = null, restoredFromVersion = null } = {}, query = executeQuery) {
+  const latest = await query(
+    'SELECT COALESCE(MAX(version_number), 0) as latest FROM question_versions WHERE question_id = ?',
+    [questionId]
+  );
+  const versionNumber = Number(latest[0].latest) + 1;
+
+  const result = await query(`
+    INSERT INTO question_versions
+      (question_id, version_number, ${VERSIONED_FIELDS.join(', ')}, change_type, restored_from_version, created_by)
+    SELECT id, ?, ${VERSIONED_FIELDS.join(', ')}, ?, ?, ?
+    FROM questions
+    WHERE id = ?
+  `, [versionNumber, changeType, restoredFromVersion, createdBy, questionId]);
+
+  await query(
+    'UPDATE questions SET current_version_id = ? WHERE id = ?',
+    [result.insertId, questionId]
+  );
+
+  return { id: result.insertId, versionNumber };
+}
+
+/**
+ * Versioned column for result queries that join assessment_responses `ar`, questions `q` and question_versions `qv`
+ * Falls back to the live question for responses recorded before versioning.
+ * @param {string} field - Column name from VERSIONED_FIELDS
+ * @returns {string} - SQL select expression aliased to the column name
+ */
+export function versionedColumn(field) {
+  return `IF(qv.id IS NULL, q.${field}, qv.${field}) as ${field}`;
+}
+
+// Join that pins each response to the question version it was answered on
+export const RESPONSE_VERSION_JOIN_SQL = 'LEFT JOIN question_versions qv ON ar.question_version_id = qv.id';
@@ -0,0 +1,76 @@
+/**
+ * Editorial workflow for questions
+ * New items start as drafts, are submitted for review, and only approved items are served to students.
+ * Retired items are withdrawn from new tests but stay attached to the responses already recorded.
+ */
+
+import { executeQuery } from '../config/database.js';
+
+export const QUESTION_STATUSES = ['draft', 'review', 'approved', 'retired'];
+
+// Status for items created through the editor or CSV import
+export const INITIAL_QUESTION_STATUS = 'draft';
+
+// Status an approved item returns to when its content is edited, so the change is reviewed before students see it
+export const EDITED_APPROVED_STATUS = 'review';
+
+// Allowed moves from each status (review can be sent back to draft with comments)
+export const STATUS_TRANSITIONS = {
+  draft: ['review'],
+  review: ['approved', 'draft'],
+  approved: ['retired'],
+  retired: ['approved']
+};
+
+/**
+ * Check whether a question may move from one status to another
+ * @param {string} from - Current status
+ * @param {string} to - Requested status
+ * @returns {boolean}
+ */
+export function canTransition(from, to) {
+  return (STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Store a review comment and/or status change in the question's review trail
+ * @param {Object} entry - Review entry
+ * @param {number} entry.questionId - Question ID
+ * @param {number|null} entry.userId - Admin who made the entry
+ * @param {string|null} [entry.comment] - Comment text
+ * @param {string|null} [entry.statusFrom] - Previous status when the entry records a transition
+ * @param {string|null} [entry.statusTo] - New status when the entry records a transition
+ * @param {Function} [query] - Query runner; pass a transaction's runner to record the entry inside it
+ * @returns {Promise<number>} - ID of the new entry
+ */
+export async function recordReviewEntry({ questionId, userId, comment = null, statusFrom = null, statusTo = null }, query = executeQuery) {
+  const result = await query(
+    'INSERT INTO question_review_comments (question_id, user_id, comment, status_from, status_to) VALUES (?, ?, ?, ?, ?)',
+    [questionId, userId, comment, statusFrom, statusTo]
+  );
+  return result.insertId;
+}
+
+/**
+ * Send an approved question back to review after its content was edited, and log the move in its review trail
+ * Drafts, items in review and retired items keep their status.
+ * @param {Object} edit - Edit details
+ * @param {number} edit.questionId - Question ID
+ * @param {string} edit.status - Status before the edit
+ * @param {number|null} edit.userId - Admin who made the edit
+ * @param {string} [edit.comment] - Review trail comment
+ * @param {Function} [query] - Query runner; pass a transaction's runner to reset the status inside it
+ * @returns {Promise<string>} - Status after the edit
+ */
+export async function reopenReviewAfterEdit({ questionId, status, userId, comment = 'Content edited after approval' }, query = executeQuery) {
+  if (status !== 'approved') {
+    return status;
+  }
+
+  await query(
+    'UPDATE questions SET status = ?, status_changed_at = CURRENT_TIMESTAMP WHERE id = ?',
+    [EDITED_APPROVED_STATUS, questionId]
+  );
+  await recordReviewEntry({ questionId, userId, comment, statusFrom: status, statusTo: EDITED_APPROVED_STATUS }, query);
+  return EDITED_APPROVED_STATUS;
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { AssessmentConfiguration, Grade, Subject } from '../types';
-import { X, Save, Clock, Hash } from 'lucide-react';
+import { AssessmentConfiguration, CompetencyBlueprintEntry, Competency, Grade, Subject } from '../types';
+import { competenciesAPI } from '../services/api';
+import { X, Save, Clock, Hash, Target, Layers, Plus, Trash2, PauseCircle } from 'lucide-react';
 
 interface AssessmentConfigFormProps {
   config?: AssessmentConfiguration | null;
@@ -22,9 +23,20 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
     subjectId: 0,
     timeLimitMinutes: 30,
     questionCount: 10,
+    minQuestionCount: null as number | null,
+    targetStandardError: null as number | null,
+    competencyBlueprint: [] as CompetencyBlueprintEntry[],
+    maxPauseMinutes: 15,
     isActive: true
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+
+  useEffect(() => {
+    competenciesAPI.getActive()
+      .then(setCompetencies)
+      .catch((error) => console.error('Failed to load competencies:', error));
+  }, []);
 
   useEffect(() => {
     if (config) {
@@ -33,6 +45,10 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
         subjectId: config.subjectId,
         timeLimitMinutes: config.timeLimitMinutes,
         questionCount: config.questionCount,
+        minQuestionCount: config.minQuestionCount ?? null,
+        targetStandardError: config.targetStandardError ?? null,
+        competencyBlueprint: config.competencyBlueprint ?? [],
+        maxPauseMinutes: config.maxPauseMinutes ?? 15,
         isActive: config.isActive
       });
     }
@@ -61,6 +77,36 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
       newErrors.questionCount = 'Question count cannot exceed 100';
     }
 
+    if (formData.minQuestionCount !== null) {
+      if (formData.minQuestionCount < 1) {
+        newErrors.minQuestionCount = 'Minimum question count must be at least 1';
+      } else if (formData.minQuestionCount > formData.questionCount) {
+        newErrors.minQuestionCount = 'Minimum cannot exceed the maximum number of questions';
+      }
+    }
+
+    if (formData.targetStandardError !== null && formData.targetStandardError <= 0) {
+      newErrors.targetStandardError = 'Target standard error must be greater than 0';
+    }
+
+    if (!Number.isInteger(formData.maxPauseMinutes) || formData.maxPauseMinutes < 0 || formData.maxPauseMinutes > 240) {
+      newErrors.maxPauseMinutes = 'Maximum pause time must be between 0 and 240 minutes';
+    }
+
+    if (formData.competencyBlueprint.length > 0) {
+      const competencyIds = formData.competencyBlueprint.map(entry => entry.competencyId);
+      const totalPercent = formData.competencyBlueprint.reduce((sum, entry) => sum + (entry.targetPercent || 0), 0);
+      if (competencyIds.some(id => !id)) {
+        newErrors.competencyBlueprint = 'Select a competency for every blueprint row';
+      } else if (new Set(competencyIds).size !== competencyIds.length) {
+        newErrors.competencyBlueprint = 'Each competency can only appear once';
+      } else if (formData.competencyBlueprint.some(entry => !entry.targetPercent || entry.targetPercent <= 0 || entry.targetPercent > 100)) {
+        newErrors.competencyBlueprint = 'Target percentages must be between 1 and 100';
+      } else if (totalPercent > 100) {
+        newErrors.competencyBlueprint = 'Target percentages cannot add up to more than 100%';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -73,6 +119,12 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
     }
   };
 
+  const handleBlueprintChange = (entries: CompetencyBlueprintEntry[]) => {
+    handleInputChange('competencyBlueprint', entries);
+  };
+
+  const blueprintTotal = formData.competencyBlueprint.reduce((sum, entry) => sum + (entry.targetPercent || 0), 0);
+
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     
@@ -180,7 +232,7 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
             <label className="block text-sm font-medium text-gray-700 mb-2">
               <div className="flex items-center space-x-2">
                 <Hash className="h-4 w-4" />
-                <span>Number of Questions *</span>
+                <span>Maximum Number of Questions *</span>
               </div>
             </label>
             <input
@@ -202,6 +254,157 @@ const AssessmentConfigForm: React.FC<AssessmentConfigFormProps> = ({
             </p>
           </div>
 
+          {/* Adaptive Stopping Rules */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <div className="flex items-center space-x-2">
+                  <Hash className="h-4 w-4" />
+                  <span>Minimum Questions</span>
+                </div>
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={formData.minQuestionCount ?? ''}
+                onChange={(e) => handleInputChange('minQuestionCount', e.target.value === '' ? null : Number(e.target.value))}
+                className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.minQuestionCount ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder="None"
+              />
+              {errors.minQuestionCount && (
+                <p className="mt-1 text-sm text-red-600">{errors.minQuestionCount}</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <div className="flex items-center space-x-2">
+                  <Target className="h-4 w-4" />
+                  <span>Stop when SE ≤</span>
+                </div>
+              </label>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={formData.targetStandardError ?? ''}
+                onChange={(e) => handleInputChange('targetStandardError', e.target.value === '' ? null : Number(e.target.value))}
+                className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.targetStandardError ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder="Off"
+              />
+              {errors.targetStandardError && (
+                <p className="mt-1 text-sm text-red-600">{errors.targetStandardError}</p>
+              )}
+            </div>
+          </div>
+          <p className="-mt-4 text-xs text-gray-500">
+            Adaptive tests end early once the minimum is reached and the Growth Metric standard error falls to the target. Leave blank to always give the maximum number of questions.
+          </p>
+
+          {/* Pause Allowance */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <div className="flex items-center space-x-2">
+                <PauseCircle className="h-4 w-4" />
+                <span>Maximum Pause Time (minutes)</span>
+              </div>
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="240"
+              value={formData.maxPauseMinutes}
+              onChange={(e) => handleInputChange('maxPauseMinutes', Number(e.target.value))}
+              className={`w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                errors.maxPauseMinutes ? 'border-red-300' : 'border-gray-300'
+              }`}
+              placeholder="15"
+            />
+            {errors.maxPauseMinutes && (
+              <p className="mt-1 text-sm text-red-600">{errors.maxPauseMinutes}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Total time a student may pause one test without it counting against the time limit. Set to 0 to disable pausing.
+            </p>
+          </div>
+
+          {/* Competency Blueprint */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              <div className="flex items-center space-x-2">
+                <Layers className="h-4 w-4" />
+                <span>Competency Blueprint</span>
+              </div>
+            </label>
+            <div className="space-y-2">
+              {formData.competencyBlueprint.map((entry, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <select
+                    value={entry.competencyId || ''}
+                    onChange={(e) => handleBlueprintChange(formData.competencyBlueprint.map((item, i) =>
+                      i === index ? { ...item, competencyId: Number(e.target.value) } : item
+                    ))}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  >
+                    <option value="">Select a competency</option>
+                    {competencies.map((competency) => (
+                      <option key={competency.id} value={competency.id}>
+                        {competency.code} - {competency.name}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="relative w-24">
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={entry.targetPercent || ''}
+                      onChange={(e) => handleBlueprintChange(formData.competencyBlueprint.map((item, i) =>
+                        i === index ? { ...item, targetPercent: Number(e.target.value) } : item
+                      ))}
+                      className="w-full pl-3 pr-7 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      placeholder="25"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">%</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleBlueprintChange(formData.competencyBlueprint.filter((_, i) => i !== index))}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Remove competency"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => handleBlueprintChange([...formData.competencyBlueprint, { competencyId: 0, targetPercent: 0 }])}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-700 flex items-center space-x-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add competency</span>
+                </button>
+                {formData.competencyBlueprint.length > 0 && (
+                  <span className={`text-xs font-medium ${blueprintTotal > 100 ? 'text-red-600' : 'text-gray-500'}`}>
+                    Total: {blueprintTotal}%
+                  </span>
+                )}
+              </div>
+            </div>
+            {errors.competencyBlueprint && (
+              <p className="mt-1 text-sm text-red-600">{errors.competencyBlueprint}</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">
+              Adaptive tests draw each next question from the competency furthest behind its target share. Leave empty to select on difficulty alone.
+            </p>
+          </div>
+
           {/* Active Status */}
           <div>
             <label className="flex items-center space-x-3">
@@ -452,9 +452,22 @@ const AssessmentConfigList: React.FC = () => {
                     <div className="flex items-center space-x-2">
                       <Hash className="h-4 w-4 text-gray-400" />
                       <span className="text-sm text-gray-900">
-                        {config.questionCount} questions
+                        {config.minQuestionCount ? `${config.minQuestionCount}–` : ''}{config.questionCount} questions
                       </span>
                     </div>
+                    {config.targetStandardError && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Stops early at SE ≤ {config.targetStandardError}
+                      </div>
+                    )}
+                    {config.competencyBlueprint && config.competencyBlueprint.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Balanced across {config.competencyBlueprint.length} competencies
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500 mt-1">
+                      {config.maxPauseMinutes === 0 ? 'Pausing disabled' : `Pause up to ${config.maxPauseMinutes ?? 15} min`}
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { X, Clock, Hash, List, CheckCircle2, Droplets, ArrowLeftRight, Type, FileText, AlertTriangle, Download } from 'lucide-react';
+import { X, Clock, Hash, List, CheckCircle2, Droplets, ArrowLeftRight, Type, FileText, AlertTriangle, Download, ListOrdered, Crosshair, Boxes } from 'lucide-react';
 import { assignmentsAPI } from '../services/api';
 import { exportAssessmentToPDF } from '../utils/pdfExport';
+import { DEFAULT_NUMERIC_SETTINGS, describeNumericKey } from '../utils/numericAnswer';
+import { stepsInCorrectOrder } from '../utils/ordering';
+import { parseHotspotRegions } from '../utils/hotspot';
+import { itemsByCategory } from '../utils/categorize';
+import { renderMathInHtml } from '../utils/math';
+import HotspotImage from './HotspotImage';
+import MathText from './MathText';
 
 interface AssessmentQuestionsModalProps {
   isOpen: boolean;
@@ -17,7 +24,7 @@ interface Question {
   questionText: string;
   options?: string;
   difficultyLevel?: number;
-  questionType?: 'MCQ' | 'TrueFalse' | 'MultipleSelect' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay';
+  questionType?: 'MCQ' | 'TrueFalse' | 'MultipleSelect' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'NumericEntry' | 'Ordering' | 'Hotspot' | 'Categorize';
   questionMetadata?: any;
   correctOptionIndex?: number;
   correctAnswer?: string;
@@ -117,6 +124,10 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
     if (type === 'FillInBlank') return 'bg-pink-100 text-pink-800';
     if (type === 'TrueFalse') return 'bg-cyan-100 text-cyan-800';
     if (type === 'Matching') return 'bg-teal-100 text-teal-800';
+    if (type === 'NumericEntry') return 'bg-lime-100 text-lime-800';
+    if (type === 'Ordering') return 'bg-sky-100 text-sky-800';
+    if (type === 'Hotspot') return 'bg-amber-100 text-amber-800';
+    if (type === 'Categorize') return 'bg-rose-100 text-rose-800';
     return 'bg-gray-100 text-gray-800';
   };
 
@@ -128,6 +139,10 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
     if (type === 'FillInBlank') return 'Fill in Blanks';
     if (type === 'TrueFalse') return 'True/False';
     if (type === 'Matching') return 'Matching';
+    if (type === 'NumericEntry') return 'Numeric Entry';
+    if (type === 'Ordering') return 'Ordering';
+    if (type === 'Hotspot') return 'Hotspot';
+    if (type === 'Categorize') return 'Categorize';
     return type || 'MCQ';
   };
 
@@ -138,6 +153,10 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
     if (type === 'Matching') return <ArrowLeftRight className="h-4 w-4" />;
     if (type === 'ShortAnswer') return <Type className="h-4 w-4" />;
     if (type === 'Essay') return <FileText className="h-4 w-4" />;
+    if (type === 'NumericEntry') return <Hash className="h-4 w-4" />;
+    if (type === 'Ordering') return <ListOrdered className="h-4 w-4" />;
+    if (type === 'Hotspot') return <Crosshair className="h-4 w-4" />;
+    if (type === 'Categorize') return <Boxes className="h-4 w-4" />;
     return <List className="h-4 w-4" />;
   };
 
@@ -317,7 +336,7 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                     {/* Question Text */}
                     <div 
                       className="text-gray-900 font-medium mb-4 prose prose-sm max-w-none"
-                      dangerouslySetInnerHTML={{ __html: question.questionText }}
+                      dangerouslySetInnerHTML={{ __html: renderMathInHtml(question.questionText) }}
                     />
 
                     {/* ShortAnswer and Essay Instructions */}
@@ -354,11 +373,11 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                                 return (
                                   <div key={leftIdx} className="p-3 border border-gray-200 rounded bg-gray-50">
                                     <div className="text-sm text-gray-900">
-                                      <span className="font-medium">{leftIdx + 1}.</span> {leftItem}
+                                      <span className="font-medium">{leftIdx + 1}.</span> <MathText text={leftItem} />
                                     </div>
                                     {correctRightItem && (
                                       <div className="text-xs text-green-700 mt-1 font-medium">
-                                        → Matches: {String.fromCharCode(65 + correctRightIdx)}. {correctRightItem}
+                                        → Matches: {String.fromCharCode(65 + correctRightIdx)}. <MathText text={correctRightItem} />
                                       </div>
                                     )}
                                   </div>
@@ -374,7 +393,7 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                               {question.questionMetadata.rightItems.map((rightItem: string, rightIdx: number) => (
                                 <div key={rightIdx} className="p-3 border border-gray-200 rounded bg-gray-50">
                                   <div className="text-sm text-gray-900">
-                                    <span className="font-medium">{String.fromCharCode(65 + rightIdx)}.</span> {rightItem}
+                                    <span className="font-medium">{String.fromCharCode(65 + rightIdx)}.</span> <MathText text={rightItem} />
                                   </div>
                                 </div>
                               ))}
@@ -410,7 +429,7 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                                         ? 'text-green-800 font-medium'
                                         : 'text-gray-700'
                                     }`}>
-                                      {option}
+                                      <MathText text={option} />
                                     </span>
                                     {isCorrect && (
                                       <span className="text-xs text-green-600 font-medium ml-auto">(Correct)</span>
@@ -422,6 +441,47 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                           </div>
                         ))}
                       </div>
+                    ) : questionType === 'NumericEntry' ? (
+                      /* Numeric Entry key with its tolerance and unit */
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm text-green-800">
+                          <span className="font-medium">Correct answer:</span>{' '}
+                          {describeNumericKey(question.correctAnswer, { ...DEFAULT_NUMERIC_SETTINGS, ...question.questionMetadata?.numeric })}
+                        </p>
+                      </div>
+                    ) : questionType === 'Hotspot' && question.questionMetadata?.hotspot?.imageUrl ? (
+                      /* For Hotspot, show the image with the correct regions */
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm font-medium text-green-800 mb-2">Correct regions:</p>
+                        <HotspotImage
+                          imageUrl={question.questionMetadata.hotspot.imageUrl}
+                          imageAlt={question.questionMetadata.hotspot.imageAlt}
+                          regions={parseHotspotRegions(question.correctAnswer)}
+                          className="max-w-xs"
+                        />
+                      </div>
+                    ) : questionType === 'Categorize' && Array.isArray(question.questionMetadata?.categories) && Array.isArray(question.questionMetadata?.items) ? (
+                      /* Categorize items under their correct category */
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm font-medium text-green-800 mb-1">Correct categories:</p>
+                        <ul className="space-y-0.5 text-sm text-green-800">
+                          {itemsByCategory(question.questionMetadata.categories, question.questionMetadata.items, question.correctAnswer).map(({ category, items }, categoryIdx) => (
+                            <li key={categoryIdx}>
+                              <span className="font-medium"><MathText text={category} />:</span> <MathText text={items.length > 0 ? items.join(', ') : '(none)'} />
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : questionType === 'Ordering' && Array.isArray(question.questionMetadata?.items) ? (
+                      /* Ordering steps in their correct order */
+                      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                        <p className="text-sm font-medium text-green-800 mb-1">Correct order:</p>
+                        <ol className="list-decimal list-inside space-y-0.5 text-sm text-green-800">
+                          {stepsInCorrectOrder(question.questionMetadata.items, question.correctAnswer).map((step, stepIdx) => (
+                            <li key={stepIdx}><MathText text={step} /></li>
+                          ))}
+                        </ol>
+                      </div>
                     ) : (questionType === 'ShortAnswer' || questionType === 'Essay') ? (
                       /* Short Answer and Essay Note */
                       <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -477,7 +537,7 @@ const AssessmentQuestionsModal: React.FC<AssessmentQuestionsModalProps> = ({ isO
                                   ? 'text-green-900 font-medium'
                                   : 'text-gray-700'
                               }`}>
-                                {option}
+                                <MathText text={option} />
                               </span>
                               {isCorrect && (
                                 <span className="text-xs text-green-600 font-medium">Correct Answer</span>
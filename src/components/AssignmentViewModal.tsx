@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, User, Building, GraduationCap, Clock, CheckCircle, XCircle, Trophy, Calendar, Search, FileText, Eye, Brain } from 'lucide-react';
+import { X, User, Building, GraduationCap, Clock, CheckCircle, XCircle, Trophy, Calendar, Search, FileText, Eye, Brain, PauseCircle, Accessibility } from 'lucide-react';
 import { assignmentsAPI } from '../services/api';
+import { AssessmentPauseLogEntry } from '../types';
+import { describeAccommodations } from '../utils/pdfExport';
+import { isInsideMath, renderMathInHtml } from '../utils/math';
+import MathText from './MathText';
 
 interface AssignmentViewModalProps {
   isOpen: boolean;
@@ -395,6 +399,39 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                 </div>
               ) : studentResponses?.responses ? (
                 <div className="space-y-6">
+                  {/* Accommodations in effect for this test event */}
+                  {describeAccommodations(studentResponses.assessment?.accommodations).length > 0 && (
+                    <div className="border border-blue-200 bg-blue-50 rounded-lg p-4 flex items-center flex-wrap gap-2">
+                      <Accessibility className="h-5 w-5 text-blue-700" />
+                      <span className="font-semibold text-gray-900">Accommodations:</span>
+                      <span className="text-sm text-gray-700">
+                        {describeAccommodations(studentResponses.assessment.accommodations).join(', ')}
+                      </span>
+                    </div>
+                  )}
+                  {/* Pause log for proctor review */}
+                  {studentResponses.pauses?.length > 0 && (
+                    <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                      <div className="flex items-center gap-2 mb-2">
+                        <PauseCircle className="h-5 w-5 text-yellow-700" />
+                        <span className="font-semibold text-gray-900">
+                          Paused {studentResponses.pauses.length} time{studentResponses.pauses.length === 1 ? '' : 's'}
+                        </span>
+                        <span className="text-sm text-gray-600">
+                          • {Math.round((studentResponses.assessment?.pausedSeconds || 0) / 60)} min not counted against the time limit
+                        </span>
+                      </div>
+                      <ul className="space-y-1 text-sm text-gray-700">
+                        {studentResponses.pauses.map((pause: AssessmentPauseLogEntry, idx: number) => (
+                          <li key={idx}>
+                            {new Date(pause.pausedAt).toLocaleString()} → {pause.resumedAt ? new Date(pause.resumedAt).toLocaleTimeString() : 'not resumed'}
+                            {pause.creditedSeconds !== null && ` (${Math.round(pause.creditedSeconds / 60)} min credited)`}
+                            {pause.reason && ` — ${pause.reason}`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   {studentResponses.responses.map((response: any, idx: number) => (
                     <div
                       key={idx}
@@ -418,6 +455,7 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                         {response.difficulty && (
                           <span className="text-sm text-gray-500">
                             Difficulty: {response.difficulty}
+                            {response.questionVersion && ` · Version ${response.questionVersion}`}
                           </span>
                         )}
                       </div>
@@ -435,8 +473,8 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                             const blankPattern = /(___+|\[blank\]|\[BLANK\]|\{[0-9]+\})/gi;
                             let matchCount = 0;
                             
-                            questionText = questionText.replace(blankPattern, (match: string) => {
-                              if (matchCount < blanks.length && matchCount < selectedAnswers.length) {
+                            questionText = questionText.replace(blankPattern, (match: string, _blank: string, offset: number, text: string) => {
+                              if (!isInsideMath(text, offset) && matchCount < blanks.length && matchCount < selectedAnswers.length) {
                                 const blank = blanks[matchCount];
                                 const selectedIndex = selectedAnswers[matchCount];
                                 const selectedText = blank.options && blank.options[selectedIndex] !== undefined
@@ -449,13 +487,13 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                               return match;
                             });
                             
-                            return <div dangerouslySetInnerHTML={{ __html: questionText }} />;
+                            return <div dangerouslySetInnerHTML={{ __html: renderMathInHtml(questionText) }} />;
                           })()}
                         </div>
                       ) : response.questionType === 'Matching' && response.questionMetadata ? (
                         // Special handling for Matching - show in table format
                         <div className="mb-3">
-                          <div className="text-gray-900 mb-3" dangerouslySetInnerHTML={{ __html: response.questionText }} />
+                          <div className="text-gray-900 mb-3" dangerouslySetInnerHTML={{ __html: renderMathInHtml(response.questionText) }} />
                           <div className="mt-4 overflow-x-auto">
                             <table className="min-w-full border border-gray-300 rounded-lg">
                               <thead className="bg-gray-100">
@@ -509,15 +547,15 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                                     
                                     return (
                                       <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                                        <td className="px-4 py-2 text-sm text-gray-900 border-b border-gray-200">{leftItem}</td>
+                                        <td className="px-4 py-2 text-sm text-gray-900 border-b border-gray-200"><MathText text={leftItem} /></td>
                                         <td className={`px-4 py-2 text-sm border-b border-gray-200 ${
                                           isMatchCorrect ? 'text-emerald-600 font-medium' : 'text-red-600 font-medium'
                                         }`}>
-                                          {selectedRightItem}
+                                          <MathText text={selectedRightItem} />
                                         </td>
                                         {!response.isCorrect && (
                                           <td className="px-4 py-2 text-sm text-emerald-600 font-medium border-b border-gray-200">
-                                            {correctRightItem}
+                                            <MathText text={correctRightItem} />
                                           </td>
                                         )}
                                       </tr>
@@ -531,7 +569,7 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                       ) : (
                         // Default display for other question types (MCQ, TrueFalse, MultipleSelect, ShortAnswer, Essay)
                         <>
-                          <div className="text-gray-900 mb-4" dangerouslySetInnerHTML={{ __html: response.questionText }} />
+                          <div className="text-gray-900 mb-4" dangerouslySetInnerHTML={{ __html: renderMathInHtml(response.questionText) }} />
 
                           {response.options && response.options.length > 0 && (
                             <div className="space-y-2 mb-4">
@@ -568,7 +606,7 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                                       )}
                                       <span
                                         className={`text-sm ${isSelected ? 'font-medium' : ''}`}
-                                        dangerouslySetInnerHTML={{ __html: option }}
+                                        dangerouslySetInnerHTML={{ __html: renderMathInHtml(option) }}
                                       />
                                       <div className="ml-auto flex items-center gap-2">
                                         {isSelected && isCorrect && (
@@ -618,18 +656,22 @@ const AssignmentViewModal: React.FC<AssignmentViewModalProps> = ({ isOpen, onClo
                                   <div>
                                     <span className="font-medium text-gray-700">Student's Answer: </span>
                                     <span className={response.isCorrect ? 'text-emerald-600' : 'text-red-600'}>
-                                      {response.formattedSelectedAnswer !== undefined 
-                                        ? response.formattedSelectedAnswer 
-                                        : (response.options && response.options[response.selectedAnswer as number] || 'N/A')}
+                                      <MathText
+                                        text={response.formattedSelectedAnswer !== undefined
+                                          ? response.formattedSelectedAnswer
+                                          : (response.options && response.options[response.selectedAnswer as number] || 'N/A')}
+                                      />
                                     </span>
                                   </div>
                                   {!response.isCorrect && (
                                     <div>
                                       <span className="font-medium text-gray-700">Correct Answer: </span>
                                       <span className="text-emerald-600">
-                                        {response.formattedCorrectAnswer !== undefined 
-                                          ? response.formattedCorrectAnswer 
-                                          : (response.options && response.options[response.correctAnswer as number] || 'N/A')}
+                                        <MathText
+                                          text={response.formattedCorrectAnswer !== undefined
+                                            ? response.formattedCorrectAnswer
+                                            : (response.options && response.options[response.correctAnswer as number] || 'N/A')}
+                                        />
                                       </span>
                                     </div>
                                   )}
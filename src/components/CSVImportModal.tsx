@@ -1,6 +1,7 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Upload, FileText, CheckCircle, AlertTriangle, X, Download, Users, Eye, EyeOff } from 'lucide-react';
 import { studentsAPI } from '../services/api';
+import { CSVImportRowError, downloadCsvImportReport } from '../utils/csvImportReport';
 
 interface CSVRow {
   firstName: string;
@@ -14,7 +15,7 @@ interface CSVRow {
 interface ImportResult {
   success: Array<{
     row: number;
-    userId: number;
+    userId: number | null; // null in a dry run
     username: string;
     firstName: string;
     lastName: string;
@@ -23,11 +24,7 @@ interface ImportResult {
     schoolName: string | null;
     gradeName: string | null;
   }>;
-  errors: Array<{
-    row: number;
-    error: string;
-    data: CSVRow;
-  }>;
+  errors: CSVImportRowError<CSVRow>[];
   summary: {
     total: number;
     successful: number;
@@ -47,8 +44,35 @@ const CSVImportModal: React.FC<CSVImportModalProps> = ({ isOpen, onClose, onImpo
   const [importResults, setImportResults] = useState<ImportResult | null>(null);
   const [error, setError] = useState<string>('');
   const [showPasswords, setShowPasswords] = useState(false);
+  const [validation, setValidation] = useState<ImportResult | null>(null);
+  const [validating, setValidating] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Check every row on the server when the preview opens; nothing is imported while a row has an error
+  useEffect(() => {
+    if (step !== 'preview' || csvData.length === 0) return;
+    let cancelled = false;
+    setValidating(true);
+    setValidation(null);
+    studentsAPI.importFromCSV(csvData, true)
+      .then(result => {
+        if (!cancelled) setValidation(result.results);
+      })
+      .catch(err => {
+        console.error('Error validating students CSV:', err);
+        if (!cancelled) {
+          const message = (err as { response?: { data?: { error?: string } } }).response?.data?.error;
+          setError(message || 'Failed to check the CSV file');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setValidating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, csvData]);
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -126,8 +150,11 @@ const CSVImportModal: React.FC<CSVImportModalProps> = ({ isOpen, onClose, onImpo
       setImportResults(result.results);
       setStep('results');
       onImportComplete();
-    } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to import students');
+    } catch (err) {
+      // A file that no longer validates comes back with its report; a failed write rolls back every row
+      const data = (err as { response?: { data?: { error?: string; results?: ImportResult } } }).response?.data;
+      setError(data?.error || 'Failed to import students');
+      if (data?.results) setValidation(data.results);
       setStep('preview');
     }
   };
@@ -146,10 +173,17 @@ Jane,Smith,jane.smith,password456,Springfield Elementary,Grade 2`;
     window.URL.revokeObjectURL(url);
   };
 
+  const downloadReport = () => {
+    if (!validation) return;
+    // Passwords stay out of the report
+    downloadCsvImportReport(validation.errors, ['firstName', 'lastName', 'username', 'school', 'grade'], 'student_import_errors.csv');
+  };
+
   const resetModal = () => {
     setStep('upload');
     setCsvData([]);
     setImportResults(null);
+    setValidation(null);
     setError('');
     setShowPasswords(false);
     if (fileInputRef.current) {
@@ -164,6 +198,10 @@ Jane,Smith,jane.smith,password456,Springfield Elementary,Grade 2`;
 
   if (!isOpen) return null;
 
+  const rowErrors = new Map<number, string[]>();
+  validation?.errors.forEach(item => rowErrors.set(item.row, [...(rowErrors.get(item.row) || []), item.error]));
+  const canImport = !validating && validation !== null && validation.errors.length === 0;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-hidden">
@@ -263,6 +301,48 @@ Jane,Smith,jane.smith,password456,Springfield Elementary,Grade 2`;
                 </button>
               </div>
 
+              {validating && (
+                <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                  <span className="text-sm text-blue-800">Checking every row...</span>
+                </div>
+              )}
+
+              {validation && validation.errors.length === 0 && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+                  <CheckCircle className="h-5 w-5 text-green-600" />
+                  <span className="text-sm text-green-800">
+                    All {validation.summary.successful} rows are ready to import
+                  </span>
+                </div>
+              )}
+
+              {validation && validation.errors.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center space-x-2">
+                      <AlertTriangle className="h-5 w-5 text-red-600" />
+                      <span className="text-sm font-medium text-red-800">
+                        {validation.summary.failed} row{validation.summary.failed === 1 ? '' : 's'} with errors, {validation.summary.successful} ready.
+                        Fix the file and upload it again; no student is imported until every row passes.
+                      </span>
+                    </div>
+                    <button
+                      onClick={downloadReport}
+                      className="flex items-center space-x-1 text-sm text-red-700 hover:text-red-900 flex-shrink-0 ml-3"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Download report</span>
+                    </button>
+                  </div>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {validation.errors.map((item, index) => (
+                      <li key={index}>Row {item.row}: {item.error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="min-w-full bg-white border border-gray-200 rounded-lg">
                   <thead className="bg-gray-50">
@@ -278,7 +358,11 @@ Jane,Smith,jane.smith,password456,Springfield Elementary,Grade 2`;
                   </thead>
                   <tbody className="divide-y divide-gray-200">
                     {csvData.map((row, index) => (
-                      <tr key={index} className="hover:bg-gray-50">
+                      <tr
+                        key={index}
+                        className={rowErrors.has(index + 1) ? 'bg-red-50' : 'hover:bg-gray-50'}
+                        title={rowErrors.get(index + 1)?.join('\n')}
+                      >
                         <td className="px-4 py-3 text-sm text-gray-900">{index + 1}</td>
                         <td className="px-4 py-3 text-sm text-gray-900">{row.firstName}</td>
                         <td className="px-4 py-3 text-sm text-gray-900">{row.lastName}</td>
@@ -303,7 +387,8 @@ Jane,Smith,jane.smith,password456,Springfield Elementary,Grade 2`;
                 </button>
                 <button
                   onClick={handleImport}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                  disabled={!canImport}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
                   <Users className="h-4 w-4" />
                   <span>Import {csvData.length} Students</span>
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Scale, AlertTriangle, CheckCircle } from 'lucide-react';
+import { itemBankAPI } from '../services/api';
+import { Grade, Subject, DifAnalysisReport, DifGrouping, DifClassification } from '../types';
+
+interface DifAnalysisDashboardProps {
+  grades: Grade[];
+  subjects: Subject[];
+}
+
+// Strip HTML so rich-text question stems fit in a table cell
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const GROUPING_LABELS: Record<DifGrouping, string> = {
+  school_type: 'School type (National / International)',
+  school: 'School',
+  accommodations: 'Testing accommodations'
+};
+
+const getClassificationStyle = (classification: DifClassification) => {
+  if (classification === 'C') return 'bg-red-100 text-red-800';
+  if (classification === 'B') return 'bg-amber-100 text-amber-800';
+  return 'bg-green-100 text-green-800';
+};
+
+const getClassificationLabel = (classification: DifClassification) => {
+  if (classification === 'C') return 'C · Large';
+  if (classification === 'B') return 'B · Moderate';
+  return 'A · Negligible';
+};
+
+const DifAnalysisDashboard: React.FC<DifAnalysisDashboardProps> = ({ grades, subjects }) => {
+  const [groupBy, setGroupBy] = useState<DifGrouping>('school_type');
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
+  const [selectedGrade, setSelectedGrade] = useState<number | null>(null);
+  const [minClassification, setMinClassification] = useState<DifClassification>('B');
+  const [report, setReport] = useState<DifAnalysisReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await itemBankAPI.getDifAnalysis({
+          groupBy,
+          subjectId: selectedSubject || undefined,
+          gradeId: selectedGrade || undefined,
+          minClassification
+        });
+        setReport(response);
+      } catch (error) {
+        console.error('Error loading DIF analysis:', error);
+        setError('Failed to load DIF analysis');
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReport();
+  }, [groupBy, selectedSubject, selectedGrade, minClassification]);
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Item Fairness Filters</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Compare Groups By</label>
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as DifGrouping)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(GROUPING_LABELS) as DifGrouping[]).map(grouping => (
+                <option key={grouping} value={grouping}>{GROUPING_LABELS[grouping]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+            <select
+              value={selectedSubject || ''}
+              onChange={(e) => setSelectedSubject(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Subjects</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Grade</label>
+            <select
+              value={selectedGrade || ''}
+              onChange={(e) => setSelectedGrade(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Grades</option>
+              {grades.map(grade => (
+                <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Show</label>
+            <select
+              value={minClassification}
+              onChange={(e) => setMinClassification(e.target.value as DifClassification)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="B">Moderate or large DIF (B, C)</option>
+              <option value="C">Large DIF only (C)</option>
+              <option value="A">All analysed items</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <Scale className="h-5 w-5 text-blue-600" />
+              <span>Differential Item Functioning</span>
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Mantel-Haenszel DIF: students are matched in {report ? report.stratumWidth : 10}-point Growth Metric bands and each group is
+              compared with the other students. Negative MH D-DIF means the item is harder for the focal group than for equally able peers.
+              Groups need at least {report ? report.minGroupResponses : 10} responses to an item.
+            </p>
+          </div>
+          {report && (
+            <span className="text-sm font-medium text-gray-700 bg-gray-100 px-3 py-1 rounded-full whitespace-nowrap">
+              {report.items.length} results
+            </span>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-600 flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        ) : !report || report.items.length === 0 ? (
+          <div className="p-12 text-center">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="text-gray-600 text-sm">
+              {report && report.groups.length === 0
+                ? 'Not enough responses to compare groups for these filters yet'
+                : 'No items show DIF at this level for these filters'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Focal vs Reference</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">P-Value (Focal / Ref)</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">MH D-DIF</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Classification</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.items.map(item => (
+                  <tr key={`${item.questionId}-${item.focalGroup}`}>
+                    <td className="px-6 py-4 max-w-md">
+                      <div className="text-sm text-gray-900 line-clamp-2">{toPlainText(item.questionText)}</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        #{item.questionId} · {item.subjectName} · {item.gradeName || 'All grades'} · Difficulty {item.difficultyLevel}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      <div className="font-medium text-gray-900">{item.focalGroup} <span className="text-xs text-gray-500">({item.focalCount})</span></div>
+                      <div className="text-xs text-gray-500">vs {item.referenceGroup} ({item.referenceCount})</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.focalPValue.toFixed(2)} / {item.referencePValue.toFixed(2)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`font-semibold ${item.deltaDif < 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                        {item.deltaDif > 0 ? '+' : ''}{item.deltaDif.toFixed(2)}
+                      </span>
+                      <span className="text-xs text-gray-500 ml-1">± {item.standardError.toFixed(2)}</span>
+                      <div className="text-xs text-gray-500">
+                        {item.deltaDif < 0 ? 'Harder for focal group' : 'Easier for focal group'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getClassificationStyle(item.classification)}`}>
+                        {getClassificationLabel(item.classification)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DifAnalysisDashboard;
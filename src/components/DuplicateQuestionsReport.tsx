@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, AlertTriangle, CheckCircle, Trash2, GitMerge } from 'lucide-react';
+import { adminAPI, itemBankAPI } from '../services/api';
+import { Grade, Subject, DuplicateReport, SimilarQuestion } from '../types';
+import { QUESTION_STATUS_LABELS, QUESTION_STATUS_STYLES } from '../utils/questionStatus';
+
+interface DuplicateQuestionsReportProps {
+  grades: Grade[];
+  subjects: Subject[];
+}
+
+// Strip HTML so rich-text question stems fit in a table cell
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const DuplicateQuestionsReport: React.FC<DuplicateQuestionsReportProps> = ({ grades, subjects }) => {
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(subjects[0]?.id ?? null);
+  const [selectedGrade, setSelectedGrade] = useState<number | null>(null);
+  const [threshold, setThreshold] = useState(0.8);
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!selectedSubject && subjects.length > 0) {
+      setSelectedSubject(subjects[0].id);
+    }
+  }, [subjects, selectedSubject]);
+
+  useEffect(() => {
+    if (!selectedSubject) return;
+
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await itemBankAPI.getDuplicateReport({
+          subjectId: selectedSubject,
+          gradeId: selectedGrade || undefined,
+          threshold
+        });
+        setReport(response);
+      } catch (error) {
+        console.error('Error loading duplicate report:', error);
+        setError('Failed to load duplicate report');
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReport();
+  }, [selectedSubject, selectedGrade, threshold, reloadKey]);
+
+  const handleMerge = async (keep: SimilarQuestion, duplicate: SimilarQuestion) => {
+    const fate = duplicate.responseCount ? 'retired (it has student responses)' : 'deleted';
+    if (!window.confirm(`Keep question #${keep.id} and merge #${duplicate.id} into it? #${duplicate.id} will be ${fate}.`)) {
+      return;
+    }
+    setWorking(true);
+    setMessage(null);
+    try {
+      const result = await itemBankAPI.mergeDuplicateQuestions(keep.id, duplicate.id);
+      setMessage(result.message);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error merging questions:', error);
+      setMessage('Failed to merge questions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDelete = async (question: SimilarQuestion) => {
+    if (!window.confirm(`Delete question #${question.id}? This action cannot be undone.`)) {
+      return;
+    }
+    setWorking(true);
+    setMessage(null);
+    try {
+      await adminAPI.deleteQuestion(question.id);
+      setMessage(`Question #${question.id} deleted`);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      setMessage('Failed to delete question');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderQuestion = (question: SimilarQuestion, other: SimilarQuestion) => (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex items-center flex-wrap gap-2 text-xs text-gray-500">
+        <span className="font-medium text-gray-700">#{question.id}</span>
+        <span>{question.gradeName || 'All grades'}</span>
+        <span>· Difficulty {question.difficultyLevel}</span>
+        <span>· {question.responseCount || 0} response{question.responseCount === 1 ? '' : 's'}</span>
+        <span className={`px-2 py-0.5 rounded-full font-medium ${QUESTION_STATUS_STYLES[question.status]}`}>
+          {QUESTION_STATUS_LABELS[question.status]}
+        </span>
+      </div>
+      <p className="text-sm text-gray-900">{toPlainText(question.questionText)}</p>
+      {question.options.length > 0 && (
+        <p className="text-xs text-gray-600">
+          {question.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${toPlainText(option)}`).join('   ')}
+        </p>
+      )}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => handleMerge(question, other)}
+          disabled={working}
+          className="flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          <GitMerge className="h-3.5 w-3.5" />
+          <span>Keep this, merge #{other.id}</span>
+        </button>
+        {!question.responseCount && (
+          <button
+            onClick={() => handleDelete(question)}
+            disabled={working}
+            className="flex items-center space-x-1 text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            <span>Delete</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Duplicate Item Filters</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+            <select
+              value={selectedSubject || ''}
+              onChange={(e) => setSelectedSubject(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Grade</label>
+            <select
+              value={selectedGrade || ''}
+              onChange={(e) => setSelectedGrade(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Grades</option>
+              {grades.map(grade => (
+                <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Similarity</label>
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={0.9}>Near-identical (90%+)</option>
+              <option value={0.8}>Likely duplicates (80%+)</option>
+              <option value={0.7}>Possible duplicates (70%+)</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <Copy className="h-5 w-5 text-blue-600" />
+              <span>Near-Duplicate Questions</span>
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Pairs of live questions whose normalised wording and answer choices overlap. Merging keeps one item, moves the other's
+              competency tags and assignment slots to it, and deletes the other (or retires it if students have answered it).
+            </p>
+          </div>
+          {report && (
+            <span className="text-sm font-medium text-gray-700 bg-gray-100 px-3 py-1 rounded-full whitespace-nowrap">
+              {report.pairs.length} pairs in {report.questionCount} questions
+            </span>
+          )}
+        </div>
+
+        {message && (
+          <div className="mx-6 mt-4 px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">{message}</div>
+        )}
+
+        {loading ? (
+          <div className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-600 flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        ) : !report || report.pairs.length === 0 ? (
+          <div className="p-12 text-center">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="text-gray-600 text-sm">No near-duplicate questions found for these filters</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {report.pairs.map(pair => (
+              <li key={`${pair.questions[0].id}-${pair.questions[1].id}`} className="p-6">
+                <div className="flex items-center space-x-3 mb-3 text-sm">
+                  <span className="px-3 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                    {formatPercent(pair.score)} similar
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    Wording {formatPercent(pair.stemSimilarity)} · Answer choices {formatPercent(pair.optionOverlap)}
+                  </span>
+                </div>
+                <div className="flex flex-col md:flex-row gap-6">
+                  {renderQuestion(pair.questions[0], pair.questions[1])}
+                  {renderQuestion(pair.questions[1], pair.questions[0])}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateQuestionsReport;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { HotspotPoint, HotspotRegion } from '../types';
+
+interface HotspotImageProps {
+  imageUrl: string;
+  imageAlt?: string;
+  regions?: HotspotRegion[]; // Correct regions to outline (authoring and results only)
+  draftPoints?: HotspotPoint[]; // Region being drawn: rectangle corners or polygon points so far
+  draftShape?: HotspotRegion['shape'];
+  click?: HotspotPoint | null; // Student's click marker
+  clickCorrect?: boolean; // Colours the marker once the answer is scored
+  onPointerDown?: (point: HotspotPoint) => void;
+  onPointerMove?: (point: HotspotPoint) => void;
+  onPointerUp?: (point: HotspotPoint) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Position of a pointer event as fractions (0-1) of the image size
+const toImagePoint = (e: React.PointerEvent<SVGSVGElement>): HotspotPoint => {
+  const bounds = e.currentTarget.getBoundingClientRect();
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return {
+    x: clamp((e.clientX - bounds.left) / bounds.width),
+    y: clamp((e.clientY - bounds.top) / bounds.height)
+  };
+};
+
+const polygonPoints = (points: HotspotPoint[]) => points.map(point => `${point.x * 100},${point.y * 100}`).join(' ');
+
+const HotspotImage: React.FC<HotspotImageProps> = ({
+  imageUrl,
+  imageAlt,
+  regions = [],
+  draftPoints = [],
+  draftShape = 'rect',
+  click,
+  clickCorrect,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  disabled = false,
+  className = ''
+}) => {
+  const interactive = !disabled && (onPointerDown || onPointerMove || onPointerUp);
+
+  return (
+    <div className={`relative inline-block select-none ${className}`}>
+      <img src={imageUrl} alt={imageAlt || 'Question diagram'} draggable={false} className="block max-w-full h-auto rounded-lg border border-gray-200" />
+      {/* The overlay uses a 0-100 coordinate space stretched over the image */}
+      <svg
+        className={`absolute inset-0 w-full h-full ${interactive ? 'cursor-crosshair' : ''}`}
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        onPointerDown={interactive && onPointerDown ? (e) => onPointerDown(toImagePoint(e)) : undefined}
+        onPointerMove={interactive && onPointerMove ? (e) => onPointerMove(toImagePoint(e)) : undefined}
+        onPointerUp={interactive && onPointerUp ? (e) => onPointerUp(toImagePoint(e)) : undefined}
+      >
+        {regions.map((region, idx) => region.shape === 'rect' ? (
+          <rect
+            key={idx}
+            x={region.x * 100}
+            y={region.y * 100}
+            width={region.width * 100}
+            height={region.height * 100}
+            className="fill-emerald-400/30 stroke-emerald-600"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ) : (
+          <polygon
+            key={idx}
+            points={polygonPoints(region.points)}
+            className="fill-emerald-400/30 stroke-emerald-600"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {draftPoints.length > 1 && draftShape === 'rect' && (
+          <rect
+            x={Math.min(draftPoints[0].x, draftPoints[1].x) * 100}
+            y={Math.min(draftPoints[0].y, draftPoints[1].y) * 100}
+            width={Math.abs(draftPoints[1].x - draftPoints[0].x) * 100}
+            height={Math.abs(draftPoints[1].y - draftPoints[0].y) * 100}
+            className="fill-blue-400/20 stroke-blue-600"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {draftPoints.length > 0 && draftShape === 'polygon' && (
+          <polyline
+            points={polygonPoints(draftPoints)}
+            className="fill-blue-400/20 stroke-blue-600"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      {draftShape === 'polygon' && draftPoints.map((point, idx) => (
+        <span
+          key={idx}
+          className="pointer-events-none absolute h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-blue-600"
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+        />
+      ))}
+      {click && (
+        <span
+          className={`pointer-events-none absolute h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-4 border-white shadow ${
+            clickCorrect === undefined ? 'bg-blue-600' : clickCorrect ? 'bg-emerald-600' : 'bg-red-600'
+          }`}
+          style={{ left: `${click.x * 100}%`, top: `${click.y * 100}%` }}
+          aria-hidden="true"
+        />
+      )}
+    </div>
+  );
+};
+
+export default HotspotImage;
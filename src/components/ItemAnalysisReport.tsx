@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, AlertTriangle, CheckCircle, Download, ChevronDown, ChevronRight } from 'lucide-react';
+import { itemBankAPI } from '../services/api';
+import { Grade, Subject, School, ItemAnalysisReport as AnalysisReport, ItemAnalysisEntry, ItemAnalysisFlag } from '../types';
+
+interface ItemAnalysisReportProps {
+  grades: Grade[];
+  subjects: Subject[];
+  schools: School[];
+}
+
+// Strip HTML so rich-text question stems fit in a table cell
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const FLAG_LABELS: Record<ItemAnalysisFlag, string> = {
+  negative_discrimination: 'Negative discrimination',
+  dead_distractor: 'Dead distractor'
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const csvCell = (value: string | number | null) => {
+  if (value === null || value === undefined) return '""';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const exportItemAnalysisToCSV = (items: ItemAnalysisEntry[]) => {
+  const headers = [
+    'Question ID', 'Question', 'Type', 'Subject', 'Grade', 'Difficulty', 'Times Administered',
+    'P-Value', 'Point-Biserial', 'Mean Response Time (s)', 'Option Shares', 'Flags'
+  ];
+
+  const rows = items.map(item => [
+    item.questionId,
+    toPlainText(item.questionText),
+    item.questionType,
+    item.subjectName,
+    item.gradeName,
+    item.difficultyLevel,
+    item.timesAdministered,
+    item.pValue,
+    item.pointBiserial,
+    item.meanResponseTime,
+    item.options
+      ? item.options.map(option => `${String.fromCharCode(65 + option.index)}${option.correct ? '*' : ''}: ${formatPercent(option.share)}`).join('; ')
+      : '',
+    item.flags.map(flag => FLAG_LABELS[flag]).join('; ')
+  ]);
+
+  const csvContent = [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `Item_Analysis_${new Date().toISOString().split('T')[0]}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const ItemAnalysisReport: React.FC<ItemAnalysisReportProps> = ({ grades, subjects, schools }) => {
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
+  const [selectedGrade, setSelectedGrade] = useState<number | null>(null);
+  const [selectedSchool, setSelectedSchool] = useState<number | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedItem, setExpandedItem] = useState<number | null>(null);
+  const [report, setReport] = useState<AnalysisReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await itemBankAPI.getItemAnalysis({
+          subjectId: selectedSubject || undefined,
+          gradeId: selectedGrade || undefined,
+          schoolId: selectedSchool || undefined
+        });
+        setReport(response);
+      } catch (error) {
+        console.error('Error loading item analysis:', error);
+        setError('Failed to load item analysis');
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadReport();
+  }, [selectedSubject, selectedGrade, selectedSchool]);
+
+  const items = report ? report.items.filter(item => !flaggedOnly || item.flags.length > 0) : [];
+  const flaggedCount = report ? report.items.filter(item => item.flags.length > 0).length : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Item Analysis Filters</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+            <select
+              value={selectedSubject || ''}
+              onChange={(e) => setSelectedSubject(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Subjects</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Grade</label>
+            <select
+              value={selectedGrade || ''}
+              onChange={(e) => setSelectedGrade(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Grades</option>
+              {grades.map(grade => (
+                <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">School</label>
+            <select
+              value={selectedSchool || ''}
+              onChange={(e) => setSelectedSchool(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Schools</option>
+              {schools.map(school => (
+                <option key={school.id} value={school.id}>{school.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Show</label>
+            <select
+              value={flaggedOnly ? 'flagged' : 'all'}
+              onChange={(e) => setFlaggedOnly(e.target.value === 'flagged')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All administered items</option>
+              <option value="flagged">Items flagged for review</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <BarChart3 className="h-5 w-5 text-blue-600" />
+              <span>Classical Item Analysis</span>
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              P-value is the average credit earned; point-biserial correlates the item score with the student's Growth Metric.
+              Items with at least {report ? report.minResponses : 20} responses are flagged when discrimination is negative or an
+              incorrect option is chosen by fewer than {report ? Math.round(report.deadDistractorShare * 100) : 5}% of students.
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {report && (
+              <span className="text-sm font-medium text-gray-700 bg-gray-100 px-3 py-1 rounded-full whitespace-nowrap">
+                {report.items.length} items · {flaggedCount} flagged
+              </span>
+            )}
+            <button
+              onClick={() => exportItemAnalysisToCSV(items)}
+              disabled={items.length === 0}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-600 flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-12 text-center">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="text-gray-600 text-sm">
+              {flaggedOnly ? 'No items flagged for these filters' : 'No completed responses for these filters yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject / Grade</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Administered</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">P-Value</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Point-Biserial</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mean Time</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flags</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {items.map(item => (
+                  <React.Fragment key={item.questionId}>
+                    <tr className={item.flags.length > 0 ? 'bg-amber-50/40' : ''}>
+                      <td className="px-6 py-4 max-w-md">
+                        <button
+                          onClick={() => setExpandedItem(expandedItem === item.questionId ? null : item.questionId)}
+                          disabled={!item.options}
+                          className="flex items-start space-x-2 text-left disabled:cursor-default"
+                        >
+                          {item.options && (
+                            expandedItem === item.questionId
+                              ? <ChevronDown className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                              : <ChevronRight className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                          )}
+                          <div>
+                            <div className="text-sm text-gray-900 line-clamp-2">{toPlainText(item.questionText)}</div>
+                            <div className="text-xs text-gray-500 mt-1">#{item.questionId} · {item.questionType} · Difficulty {item.difficultyLevel}</div>
+                          </div>
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        <div>{item.subjectName}</div>
+                        <div className="text-xs text-gray-500">{item.gradeName || 'All grades'}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.timesAdministered}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.pValue !== null ? item.pValue.toFixed(2) : '—'}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${
+                        item.pointBiserial !== null && item.pointBiserial < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}>
+                        {item.pointBiserial !== null ? item.pointBiserial.toFixed(2) : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                        {item.meanResponseTime !== null ? `${Math.round(item.meanResponseTime)}s` : '—'}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map(flag => (
+                            <span key={flag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                              {FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedItem === item.questionId && item.options && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-12 py-4">
+                          <div className="space-y-2">
+                            {item.options.map(option => (
+                              <div key={option.index} className="flex items-center space-x-3 text-sm">
+                                <span className={`w-6 font-semibold ${option.correct ? 'text-green-700' : 'text-gray-600'}`}>
+                                  {String.fromCharCode(65 + option.index)}
+                                </span>
+                                <span className="w-64 truncate text-gray-700">{toPlainText(option.text || '')}</span>
+                                <div className="w-40 bg-gray-200 rounded-full h-2">
+                                  <div
+                                    className={`h-2 rounded-full ${option.correct ? 'bg-green-500' : 'bg-gray-500'}`}
+                                    style={{ width: `${Math.min(100, option.share * 100)}%` }}
+                                  ></div>
+                                </div>
+                                <span className={`text-xs ${
+                                  !option.correct && report && option.share < report.deadDistractorShare ? 'text-amber-700 font-semibold' : 'text-gray-600'
+                                }`}>
+                                  {formatPercent(option.share)} ({option.count})
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ItemAnalysisReport;
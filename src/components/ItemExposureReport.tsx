@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Eye, AlertTriangle, CheckCircle } from 'lucide-react';
+import { itemBankAPI } from '../services/api';
+import { Grade, Subject, ItemExposureReport as ExposureReport } from '../types';
+
+interface ItemExposureReportProps {
+  grades: Grade[];
+  subjects: Subject[];
+}
+
+// Strip HTML so rich-text question stems fit in a table cell
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const ItemExposureReport: React.FC<ItemExposureReportProps> = ({ grades, subjects }) => {
+  const [selectedSubject, setSelectedSubject] = useState<number | null>(null);
+  const [selectedGrade, setSelectedGrade] = useState<number | null>(null);
+  const [overExposedOnly, setOverExposedOnly] = useState(true);
+  const [report, setReport] = useState<ExposureReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await itemBankAPI.getExposureReport({
+        subjectId: selectedSubject || undefined,
+        gradeId: selectedGrade || undefined,
+        minRate: overExposedOnly ? undefined : 0
+      });
+      setReport(response);
+    } catch (error) {
+      console.error('Error loading item exposure report:', error);
+      const message = (error as { response?: { data?: { error?: string } } }).response?.data?.error;
+      setError(message || (error instanceof Error ? error.message : 'Failed to load item exposure report'));
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedSubject, selectedGrade, overExposedOnly]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Item Exposure Filters</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Subject</label>
+            <select
+              value={selectedSubject || ''}
+              onChange={(e) => setSelectedSubject(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Subjects</option>
+              {subjects.map(subject => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Grade</label>
+            <select
+              value={selectedGrade || ''}
+              onChange={(e) => setSelectedGrade(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All Grades</option>
+              {grades.map(grade => (
+                <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Show</label>
+            <select
+              value={overExposedOnly ? 'over' : 'all'}
+              onChange={(e) => setOverExposedOnly(e.target.value === 'over')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="over">Over-exposed items only</option>
+              <option value="all">All administered items</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <Eye className="h-5 w-5 text-blue-600" />
+              <span>Adaptive Item Exposure</span>
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Share of the adaptive tests of an item's subject and grade in which it was shown. Items above{' '}
+              {report ? Math.round(report.maxExposureRate * 100) : 25}% are held back by the selector and are candidates to retire or clone.
+            </p>
+          </div>
+          {report && (
+            <span className="text-sm font-medium text-gray-700 bg-gray-100 px-3 py-1 rounded-full whitespace-nowrap">
+              {report.items.length} items
+            </span>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+            <div className="h-40 bg-gray-200 rounded"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-sm text-red-600 flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        ) : !report || report.items.length === 0 ? (
+          <div className="p-12 text-center">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+            <p className="text-gray-600 text-sm">
+              {overExposedOnly ? 'No over-exposed items for these filters' : 'No adaptive exposure recorded for these filters yet'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject / Grade</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Difficulty</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Times Shown</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exposure Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Shown</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.items.map(item => (
+                  <tr key={item.questionId} className={item.overExposed ? 'bg-red-50/40' : ''}>
+                    <td className="px-6 py-4 max-w-md">
+                      <div className="text-sm text-gray-900 line-clamp-2">{toPlainText(item.questionText)}</div>
+                      <div className="text-xs text-gray-500 mt-1">#{item.questionId} · {item.questionType}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      <div>{item.subjectName}</div>
+                      <div className="text-xs text-gray-500">{item.gradeName || 'All grades'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{item.difficultyLevel}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {item.exposureCount} <span className="text-xs text-gray-500">of {item.testsAdministered} tests</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-24 bg-gray-200 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${item.overExposed ? 'bg-red-500' : 'bg-blue-500'}`}
+                            style={{ width: `${Math.min(100, item.exposureRate * 100)}%` }}
+                          ></div>
+                        </div>
+                        <span className={`text-sm font-semibold ${item.overExposed ? 'text-red-600' : 'text-gray-900'}`}>
+                          {(item.exposureRate * 100).toFixed(1)}%
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {item.lastExposedAt ? new Date(item.lastExposedAt).toLocaleDateString() : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ItemExposureReport;
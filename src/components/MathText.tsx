@@ -0,0 +1,25 @@
+import React, { useMemo } from 'react';
+import { hasMath, renderMathInHtml, renderMathInText } from '../utils/math';
+
+interface MathTextProps {
+  text?: string | null; // Plain text (options, items); anything outside the math is escaped
+  html?: string | null; // Rich text from the editor (question text); rendered as HTML
+  as?: 'span' | 'div';
+  className?: string;
+}
+
+// Renders \( ... \), \[ ... \] and $$ ... $$ math with KaTeX; text without math is shown unchanged
+const MathText: React.FC<MathTextProps> = ({ text, html, as: Tag = 'span', className }) => {
+  const markup = useMemo(() => {
+    if (html !== undefined && html !== null) return renderMathInHtml(html);
+    if (text && hasMath(text)) return renderMathInText(text);
+    return null;
+  }, [text, html]);
+
+  if (markup === null) {
+    return <Tag className={className}>{text}</Tag>;
+  }
+  return <Tag className={className} dangerouslySetInnerHTML={{ __html: markup }} />;
+};
+
+export default MathText;
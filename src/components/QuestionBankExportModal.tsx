@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { Download, AlertTriangle, CheckCircle, X, Package } from 'lucide-react';
+import { adminAPI, competenciesAPI, gradesAPI } from '../services/api';
+import { Competency, ExportedQuestion, Grade, QuestionExportResult, QuestionStatus, Subject } from '../types';
+import { QUESTION_STATUS_LABELS } from '../utils/questionStatus';
+import { buildQtiPackage } from '../utils/qti';
+import { buildGift, buildMoodleXml } from '../utils/moodle';
+import { buildQuestionCsvPackage } from '../utils/questionCsv';
+
+interface QuestionBankExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  subjects: Subject[];
+  initialSubjectId?: number | null;
+}
+
+interface ExportFormat {
+  id: string;
+  label: string;
+  description: string;
+  fileSuffix: string; // Appended to the download name, with the extension
+  build: (questions: ExportedQuestion[]) => Promise<QuestionExportResult>;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'qti21',
+    label: 'QTI 2.1 package',
+    description: 'Zip with imsmanifest.xml, one item file per question and its media. Accepted by Moodle, Canvas and most item banks.',
+    fileSuffix: 'qti21.zip',
+    build: questions => buildQtiPackage(questions, '2.1')
+  },
+  {
+    id: 'qti30',
+    label: 'QTI 3.0 package',
+    description: 'Same content using QTI 3.0 element names, for platforms that read the newer version.',
+    fileSuffix: 'qti30.zip',
+    build: questions => buildQtiPackage(questions, '3.0')
+  },
+  {
+    id: 'moodlexml',
+    label: 'Moodle XML',
+    description: 'One XML file with images embedded, grouped into subject and grade categories. Keeps every type except Hotspot.',
+    fileSuffix: 'moodle.xml',
+    build: buildMoodleXml
+  },
+  {
+    id: 'gift',
+    label: 'GIFT',
+    description: 'Plain text Moodle can import. Media stays linked; ordering and multi-blank questions need Moodle XML.',
+    fileSuffix: 'gift.txt',
+    build: buildGift
+  },
+  {
+    id: 'csv',
+    label: 'CSV for spreadsheet review',
+    description: 'Zip with one CSV per question type in the import template layouts, plus the images. Re-importing an edited file updates the questions by their id.',
+    fileSuffix: 'csv.zip',
+    build: buildQuestionCsvPackage
+  }
+];
+
+const QuestionBankExportModal: React.FC<QuestionBankExportModalProps> = ({ isOpen, onClose, subjects, initialSubjectId }) => {
+  const [grades, setGrades] = useState<Grade[]>([]);
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [subjectId, setSubjectId] = useState<number | ''>('');
+  const [gradeId, setGradeId] = useState<number | ''>('');
+  const [competencyId, setCompetencyId] = useState<number | ''>('');
+  const [status, setStatus] = useState<QuestionStatus | ''>('approved');
+  const [formatId, setFormatId] = useState(EXPORT_FORMATS[0].id);
+  const [exporting, setExporting] = useState(false);
+  const [result, setResult] = useState<Omit<QuestionExportResult, 'blob'> | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSubjectId(initialSubjectId ?? '');
+    Promise.all([gradesAPI.getActive(), competenciesAPI.getActive()])
+      .then(([gradeList, competencyList]) => {
+        setGrades(gradeList);
+        setCompetencies(competencyList);
+      })
+      .catch(err => console.error('Error loading grades and competencies:', err));
+  }, [isOpen, initialSubjectId]);
+
+  const handleExport = async () => {
+    const format = EXPORT_FORMATS.find(entry => entry.id === formatId) || EXPORT_FORMATS[0];
+    setExporting(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const { questions } = await adminAPI.exportQuestions({
+        subjectId: subjectId === '' ? null : subjectId,
+        gradeId: gradeId === '' ? null : gradeId,
+        competencyId: competencyId === '' ? null : competencyId,
+        status: status === '' ? null : status
+      });
+      if (questions.length === 0) {
+        setError('No questions match these filters');
+        return;
+      }
+
+      const { blob, ...summary } = await format.build(questions);
+      const subjectName = subjects.find(subject => subject.id === subjectId)?.name;
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `question_bank_${(subjectName || 'all_subjects').toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${format.fileSuffix}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+      setResult(summary);
+    } catch (err) {
+      const message = (err as { response?: { data?: { error?: string } } }).response?.data?.error;
+      setError(message || (err instanceof Error ? err.message : 'Failed to export questions'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setResult(null);
+    setError('');
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <Download className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Export Question Bank</h2>
+              <p className="text-sm text-gray-600">Download the questions that match the filters, with answer keys and media</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)] space-y-6">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                <span className="text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+              <select
+                value={subjectId}
+                onChange={(e) => setSubjectId(e.target.value ? parseInt(e.target.value) : '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">All subjects</option>
+                {subjects.map(subject => (
+                  <option key={subject.id} value={subject.id}>{subject.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Grade</label>
+              <select
+                value={gradeId}
+                onChange={(e) => setGradeId(e.target.value ? parseInt(e.target.value) : '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">All grades</option>
+                {grades.map(grade => (
+                  <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Competency</label>
+              <select
+                value={competencyId}
+                onChange={(e) => setCompetencyId(e.target.value ? parseInt(e.target.value) : '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">All competencies</option>
+                {competencies.map(competency => (
+                  <option key={competency.id} value={competency.id}>{competency.code} - {competency.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as QuestionStatus | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Any status</option>
+                {(Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[]).map(value => (
+                  <option key={value} value={value}>{QUESTION_STATUS_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="space-y-2">
+              {EXPORT_FORMATS.map(format => (
+                <label
+                  key={format.id}
+                  className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                    formatId === format.id ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="exportFormat"
+                    checked={formatId === format.id}
+                    onChange={() => setFormatId(format.id)}
+                    className="mt-1 h-4 w-4 text-indigo-600"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{format.label}</div>
+                    <div className="text-xs text-gray-600">{format.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <span className="text-sm text-green-800">
+                  Exported {result.exported} question{result.exported === 1 ? '' : 's'}
+                  {result.skipped.length > 0 && `; ${result.skipped.length} could not be exported`}
+                </span>
+              </div>
+              {result.skipped.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm font-medium text-red-800 mb-2">Not exported</p>
+                  <ul className="space-y-1 text-xs text-red-700">
+                    {result.skipped.map(item => (
+                      <li key={item.sourceId}>
+                        <span className="font-medium">{item.sourceId}</span> {item.title}: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {result.notes.length > 0 && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm font-medium text-yellow-800 mb-2">Exported with changes</p>
+                  <ul className="space-y-1 text-xs text-yellow-800">
+                    {result.notes.map((item, idx) => (
+                      <li key={`${item.sourceId}-${idx}`}>
+                        <span className="font-medium">{item.sourceId}</span>: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={exporting}
+              className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              <Package className="h-4 w-4" />
+              <span>{exporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankExportModal;
@@ -0,0 +1,617 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileText, CheckCircle, AlertTriangle, X, Download, Package, Copy, XCircle } from 'lucide-react';
+import { adminAPI, competenciesAPI, gradesAPI } from '../services/api';
+import { Competency, Grade, HotspotRegion, NumericEntrySettings, QuestionDraft, QuestionExchangeIssue, QuestionImportParseResult, Subject } from '../types';
+import { describeNumericKey, DEFAULT_NUMERIC_SETTINGS } from '../utils/numericAnswer';
+import { stepsInCorrectOrder } from '../utils/ordering';
+import { itemsByCategory } from '../utils/categorize';
+
+interface QuestionBankImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImportComplete: () => void;
+  subject: Subject;
+  formatName: string; // e.g. "QTI package"
+  accept: string; // File input filter, e.g. ".zip"
+  parseFile: (file: File) => Promise<QuestionImportParseResult>;
+}
+
+interface ImportOutcome {
+  sourceId: string;
+  title: string;
+  status: 'imported' | 'duplicate' | 'failed';
+  message: string;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  MCQ: 'Multiple Choice',
+  TrueFalse: 'True/False',
+  MultipleSelect: 'Multiple Select',
+  FillInBlank: 'Fill in the Blanks',
+  Matching: 'Matching',
+  ShortAnswer: 'Short Answer',
+  Essay: 'Essay',
+  NumericEntry: 'Numeric Entry',
+  Ordering: 'Ordering',
+  Hotspot: 'Hotspot',
+  Categorize: 'Categorize'
+};
+
+const plainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Problems the server would reject the draft for (checked before importing so they show in the preview)
+const draftProblems = (draft: QuestionDraft) => {
+  const problems: string[] = [];
+  const textLength = draft.questionText.trim().length;
+  if (textLength < 10 || textLength > 1000) {
+    problems.push(`Question text must be 10-1000 characters (it has ${textLength})`);
+  }
+  if (draft.options.some(option => option.length > 500)) {
+    problems.push('An option is longer than 500 characters');
+  }
+  return problems;
+};
+
+// Readable key for the preview table
+const describeDraftAnswer = (draft: QuestionDraft) => {
+  const metadata = (draft.questionMetadata || {}) as {
+    blanks?: Array<{ options: string[]; correctIndex: number }>;
+    leftItems?: string[];
+    rightItems?: string[];
+    correctPairs?: Array<{ left: number; right: number }>;
+    categories?: string[];
+    items?: string[];
+    numeric?: NumericEntrySettings;
+  };
+
+  switch (draft.questionType) {
+    case 'MCQ':
+    case 'TrueFalse':
+      return draft.options[draft.correctOptionIndex] || '-';
+    case 'MultipleSelect':
+      return (JSON.parse(draft.correctAnswer || '[]') as number[]).map(idx => draft.options[idx]).join(', ');
+    case 'FillInBlank':
+      return (metadata.blanks || []).map(blank => blank.options[blank.correctIndex]).join(' | ');
+    case 'Matching':
+      return (metadata.correctPairs || [])
+        .map(pair => `${metadata.leftItems?.[pair.left]} → ${metadata.rightItems?.[pair.right]}`)
+        .join(', ');
+    case 'Categorize':
+      return itemsByCategory(metadata.categories || [], metadata.items || [], draft.correctAnswer)
+        .map(group => `${group.category}: ${group.items.join(', ') || '(none)'}`)
+        .join('; ');
+    case 'NumericEntry':
+      return describeNumericKey(draft.correctAnswer, metadata.numeric || DEFAULT_NUMERIC_SETTINGS);
+    case 'Ordering':
+      return stepsInCorrectOrder(metadata.items || [], draft.correctAnswer).join(' → ');
+    case 'Hotspot': {
+      const regions = JSON.parse(draft.correctAnswer || '[]') as HotspotRegion[];
+      return `${regions.length} correct area${regions.length === 1 ? '' : 's'}`;
+    }
+    default:
+      return 'AI Graded';
+  }
+};
+
+const QuestionBankImportModal: React.FC<QuestionBankImportModalProps> = ({
+  isOpen,
+  onClose,
+  onImportComplete,
+  subject,
+  formatName,
+  accept,
+  parseFile
+}) => {
+  const [step, setStep] = useState<'upload' | 'reading' | 'preview' | 'importing' | 'results'>('upload');
+  const [parsed, setParsed] = useState<QuestionImportParseResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [grades, setGrades] = useState<Grade[]>([]);
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [gradeId, setGradeId] = useState<number | ''>('');
+  const [difficultyLevel, setDifficultyLevel] = useState(200);
+  const [competencyId, setCompetencyId] = useState<number | ''>('');
+  const [allowDuplicates, setAllowDuplicates] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([]);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    Promise.all([gradesAPI.getActive(), competenciesAPI.getActive()])
+      .then(([gradeList, competencyList]) => {
+        setGrades(gradeList);
+        setCompetencies(competencyList);
+      })
+      .catch(err => console.error('Error loading grades and competencies:', err));
+  }, [isOpen]);
+
+  // Object URLs of package media live until the modal is reset
+  useEffect(() => {
+    const media = parsed?.media;
+    return () => {
+      media?.forEach((_, url) => URL.revokeObjectURL(url));
+    };
+  }, [parsed]);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setStep('reading');
+    setError('');
+    try {
+      const result = await parseFile(file);
+      setParsed(result);
+      setSelected(new Set(result.drafts.filter(draft => draftProblems(draft).length === 0).map(draft => draft.sourceId)));
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read the ${formatName}`);
+      setStep('upload');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const toggleDraft = (sourceId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(sourceId)) {
+        next.delete(sourceId);
+      } else {
+        next.add(sourceId);
+      }
+      return next;
+    });
+  };
+
+  // Upload the package media a draft uses (each file once) and point the draft at the stored copies
+  const uploadDraftMedia = async (draft: QuestionDraft, uploaded: Map<string, string>) => {
+    let text = draft.questionText;
+    let metadata = draft.questionMetadata ? JSON.stringify(draft.questionMetadata) : '';
+    for (const [objectUrl, file] of parsed?.media || []) {
+      if (!text.includes(objectUrl) && !metadata.includes(objectUrl)) continue;
+      if (!uploaded.has(objectUrl)) {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await adminAPI.uploadFile(formData);
+        if (!response?.file?.url) {
+          throw new Error(`Upload of ${file.name} failed`);
+        }
+        uploaded.set(objectUrl, response.file.url);
+      }
+      const storedUrl = uploaded.get(objectUrl) as string;
+      text = text.split(objectUrl).join(storedUrl);
+      metadata = metadata.split(objectUrl).join(storedUrl);
+    }
+    return { questionText: text, questionMetadata: metadata ? JSON.parse(metadata) : undefined };
+  };
+
+  const handleImport = async () => {
+    if (!parsed || gradeId === '') {
+      setError('Choose the grade for the imported questions');
+      return;
+    }
+
+    const drafts = parsed.drafts.filter(draft => selected.has(draft.sourceId));
+    setStep('importing');
+    setError('');
+    setProgress({ done: 0, total: drafts.length });
+
+    const results: ImportOutcome[] = [];
+    const uploaded = new Map<string, string>();
+    for (const draft of drafts) {
+      try {
+        const media = await uploadDraftMedia(draft, uploaded);
+        const response = await adminAPI.createQuestion({
+          subjectId: subject.id,
+          gradeId,
+          questionText: media.questionText,
+          questionType: draft.questionType,
+          options: draft.options,
+          correctOptionIndex: draft.correctOptionIndex,
+          correctAnswer: draft.correctAnswer,
+          questionMetadata: media.questionMetadata,
+          difficultyLevel,
+          competencies: competencyId !== '' ? [{ id: competencyId }] : undefined,
+          allowDuplicate: allowDuplicates
+        });
+        results.push({ sourceId: draft.sourceId, title: draft.title, status: 'imported', message: `Created question #${response.question?.id}` });
+      } catch (err) {
+        const data = (err as { response?: { data?: { error?: string; code?: string; details?: Array<{ message: string }> } } }).response?.data;
+        const message = data?.details?.map(detail => detail.message).join('; ') || data?.error || (err instanceof Error ? err.message : 'Unknown error');
+        results.push({
+          sourceId: draft.sourceId,
+          title: draft.title,
+          status: data?.code === 'DUPLICATE_QUESTION' ? 'duplicate' : 'failed',
+          message
+        });
+      }
+      setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+    }
+
+    setOutcomes(results);
+    setStep('results');
+    if (results.some(result => result.status === 'imported')) {
+      onImportComplete();
+    }
+  };
+
+  const downloadReport = () => {
+    const escapeCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const skipped: QuestionExchangeIssue[] = parsed?.skipped || [];
+    const rows = [
+      ['Item', 'Title', 'Result', 'Details'],
+      ...outcomes.map(outcome => [outcome.sourceId, outcome.title, outcome.status, outcome.message]),
+      ...skipped.map(item => [item.sourceId, item.title, 'skipped', item.reason])
+    ];
+    const blob = new Blob([rows.map(row => row.map(escapeCell).join(',')).join('\n')], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'question_import_report.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const resetModal = () => {
+    setStep('upload');
+    setParsed(null);
+    setSelected(new Set());
+    setOutcomes([]);
+    setProgress({ done: 0, total: 0 });
+    setAllowDuplicates(false);
+    setError('');
+  };
+
+  const handleClose = () => {
+    resetModal();
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const countOf = (status: ImportOutcome['status']) => outcomes.filter(outcome => outcome.status === status).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-6xl w-full max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-indigo-100 rounded-lg">
+              <Package className="h-6 w-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import {formatName}</h2>
+              <p className="text-sm text-gray-600">
+                {(step === 'upload' || step === 'reading') && `Questions are added to ${subject.name}`}
+                {step === 'preview' && parsed && `${parsed.drafts.length} question${parsed.drafts.length === 1 ? '' : 's'} read, ${parsed.skipped.length} skipped`}
+                {step === 'importing' && 'Importing questions...'}
+                {step === 'results' && 'Import completed'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-140px)]">
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                <span className="text-red-800">{error}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Upload Step */}
+          {step === 'upload' && (
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+              <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-lg font-medium text-gray-900 mb-2">Upload {formatName}</p>
+              <p className="text-sm text-gray-600 mb-4">
+                Each item is checked and previewed before anything is saved. Items that cannot be imported are listed with the reason.
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={accept}
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                Choose File
+              </button>
+            </div>
+          )}
+
+          {step === 'reading' && (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+              <p className="text-lg font-medium text-gray-900">Reading {formatName}...</p>
+            </div>
+          )}
+
+          {/* Preview Step */}
+          {step === 'preview' && parsed && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Subject</label>
+                  <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-900">{subject.name}</div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Grade *</label>
+                  <select
+                    value={gradeId}
+                    onChange={(e) => setGradeId(e.target.value ? parseInt(e.target.value) : '')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">Select grade</option>
+                    {grades.map(grade => (
+                      <option key={grade.id} value={grade.id}>{grade.display_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Growth Metric Score</label>
+                  <input
+                    type="number"
+                    min={100}
+                    max={350}
+                    value={difficultyLevel}
+                    onChange={(e) => setDifficultyLevel(parseInt(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Competency</label>
+                  <select
+                    value={competencyId}
+                    onChange={(e) => setCompetencyId(e.target.value ? parseInt(e.target.value) : '')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">None</option>
+                    {competencies.map(competency => (
+                      <option key={competency.id} value={competency.id}>{competency.code} - {competency.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center space-x-2 mb-3">
+                  <FileText className="h-5 w-5 text-indigo-600" />
+                  <span className="font-medium">Questions to import ({selected.size} of {parsed.drafts.length} selected)</span>
+                </div>
+                {parsed.drafts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No item in the file can be imported.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full bg-white border border-gray-200 rounded-lg">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-3"></th>
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Correct Answer</th>
+                          <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {parsed.drafts.map(draft => {
+                          const problems = draftProblems(draft);
+                          return (
+                            <tr key={draft.sourceId} className={problems.length > 0 ? 'bg-red-50' : 'hover:bg-gray-50'}>
+                              <td className="px-3 py-3">
+                                <input
+                                  type="checkbox"
+                                  checked={selected.has(draft.sourceId)}
+                                  onChange={() => toggleDraft(draft.sourceId)}
+                                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                                />
+                              </td>
+                              <td className="px-3 py-3 text-sm text-gray-900 max-w-[10rem] truncate" title={draft.title}>
+                                {draft.title}
+                              </td>
+                              <td className="px-3 py-3 text-sm">
+                                <span className="px-2 py-1 rounded text-xs font-medium bg-indigo-100 text-indigo-800 whitespace-nowrap">
+                                  {TYPE_LABELS[draft.questionType] || draft.questionType}
+                                </span>
+                              </td>
+                              <td className="px-3 py-3 text-sm text-gray-900 max-w-xs truncate" title={plainText(draft.questionText)}>
+                                {plainText(draft.questionText) || '-'}
+                              </td>
+                              <td className="px-3 py-3 text-sm text-gray-900 font-medium max-w-xs truncate" title={describeDraftAnswer(draft)}>
+                                {describeDraftAnswer(draft)}
+                              </td>
+                              <td className="px-3 py-3 text-xs min-w-[14rem]">
+                                {problems.map(problem => (
+                                  <div key={problem} className="text-red-700">{problem}</div>
+                                ))}
+                                {draft.warnings.map(warning => (
+                                  <div key={warning} className="text-yellow-700">{warning}</div>
+                                ))}
+                                {problems.length === 0 && draft.warnings.length === 0 && <span className="text-gray-400">-</span>}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
+              {parsed.skipped.length > 0 && (
+                <div className="p-4 rounded-lg border bg-yellow-50 border-yellow-200">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                    <span className="text-sm font-medium text-yellow-800">
+                      {parsed.skipped.length} item{parsed.skipped.length === 1 ? '' : 's'} cannot be imported
+                    </span>
+                  </div>
+                  <ul className="space-y-1 text-xs text-yellow-800">
+                    {parsed.skipped.map(item => (
+                      <li key={item.sourceId}>
+                        <span className="font-medium">{item.title}</span>: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={allowDuplicates}
+                    onChange={(e) => setAllowDuplicates(e.target.checked)}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                  />
+                  <span>Import questions even if they look like existing ones</span>
+                </label>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={resetModal}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Choose Another File
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    disabled={selected.size === 0 || gradeId === ''}
+                    className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <Package className="h-4 w-4" />
+                    <span>Import {selected.size} Questions</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Importing Step */}
+          {step === 'importing' && (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+              <p className="text-lg font-medium text-gray-900">Importing Questions...</p>
+              <div className="mt-6 max-w-md mx-auto">
+                <div className="flex justify-between text-sm text-gray-600 mb-2">
+                  <span>Uploading media and saving questions</span>
+                  <span>{progress.done} / {progress.total}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Results Step */}
+          {step === 'results' && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="bg-green-50 p-4 rounded-lg border border-green-200">
+                  <div className="flex items-center space-x-2">
+                    <CheckCircle className="h-5 w-5 text-green-600" />
+                    <span className="text-sm font-medium text-green-700">Imported</span>
+                  </div>
+                  <div className="text-2xl font-bold text-green-900 mt-1">{countOf('imported')}</div>
+                </div>
+                <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
+                  <div className="flex items-center space-x-2">
+                    <Copy className="h-5 w-5 text-yellow-600" />
+                    <span className="text-sm font-medium text-yellow-700">Possible Duplicates</span>
+                  </div>
+                  <div className="text-2xl font-bold text-yellow-900 mt-1">{countOf('duplicate')}</div>
+                </div>
+                <div className="bg-red-50 p-4 rounded-lg border border-red-200">
+                  <div className="flex items-center space-x-2">
+                    <XCircle className="h-5 w-5 text-red-600" />
+                    <span className="text-sm font-medium text-red-700">Failed</span>
+                  </div>
+                  <div className="text-2xl font-bold text-red-900 mt-1">{countOf('failed')}</div>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                  <div className="flex items-center space-x-2">
+                    <AlertTriangle className="h-5 w-5 text-gray-600" />
+                    <span className="text-sm font-medium text-gray-700">Skipped in File</span>
+                  </div>
+                  <div className="text-2xl font-bold text-gray-900 mt-1">{parsed?.skipped.length || 0}</div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full bg-white border border-gray-200 rounded-lg">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {outcomes.map(outcome => (
+                      <tr key={outcome.sourceId} className="hover:bg-gray-50">
+                        <td className="px-3 py-3 text-sm text-gray-900 max-w-xs truncate" title={outcome.title}>{outcome.title}</td>
+                        <td className="px-3 py-3 text-sm">
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-medium ${
+                              outcome.status === 'imported'
+                                ? 'bg-green-100 text-green-800'
+                                : outcome.status === 'duplicate'
+                                  ? 'bg-yellow-100 text-yellow-800'
+                                  : 'bg-red-100 text-red-800'
+                            }`}
+                          >
+                            {outcome.status === 'imported' ? 'Imported' : outcome.status === 'duplicate' ? 'Duplicate' : 'Failed'}
+                          </span>
+                        </td>
+                        <td className="px-3 py-3 text-sm text-gray-700">{outcome.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={downloadReport}
+                  className="flex items-center space-x-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Download Report</span>
+                </button>
+                <button
+                  onClick={handleClose}
+                  className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankImportModal;
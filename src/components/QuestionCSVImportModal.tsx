@@ -1,9 +1,13 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Upload, FileText, CheckCircle, AlertTriangle, X, Download, FileQuestion, Image as ImageIcon, Package } from 'lucide-react';
 import { adminAPI } from '../services/api';
+import { CSVDuplicateCheck } from '../types';
 import JSZip from 'jszip';
+import { csvTemplateHeader } from '../utils/questionCsv';
+import { CSVImportRowError, downloadCsvImportReport } from '../utils/csvImportReport';
 
 interface CSVRow {
+  id?: string; // Optional: question ID from a CSV export; the row updates that question instead of adding one
   subject: string;
   grade: string;
   questionText: string;
@@ -19,6 +23,16 @@ interface CSVRow {
   leftItems?: string; // For Matching: comma-separated left column items
   rightItems?: string; // For Matching: comma-separated right column items
   correctPairs?: string; // For Matching: comma-separated pairs in format "leftIndex-rightIndex" (e.g., "0-0,1-1,2-2")
+  toleranceType?: string; // For NumericEntry: exact, absolute or relative (correctAnswer holds the numeric key)
+  tolerance?: string; // For NumericEntry: allowed difference (absolute) or percentage (relative)
+  acceptedForms?: string; // For NumericEntry: comma-separated forms (decimal, fraction, mixed)
+  units?: string; // For NumericEntry: comma-separated accepted units, first one shown to students
+  unitRequired?: string; // For NumericEntry: "true" when students must type the unit
+  orderItems?: string; // For Ordering: steps in their correct order, semicolon-separated
+  categories?: string; // For Categorize: comma-separated category names
+  categoryItems?: string; // For Categorize: comma-separated items to sort
+  itemCategories?: string; // For Categorize: comma-separated pairs in format "itemIndex-categoryIndex" (e.g., "0-0,1-1,2-0")
+  partialCredit?: string; // For Ordering and Categorize: "true" to give credit for each step kept in order or item sorted correctly
   difficultyLevel: string;
   dokLevel?: string; // Optional: 1-4 (more relevant for ShortAnswer/Essay/FillInBlank)
   standard?: string; // Optional: Standard identifier (e.g., NGSS, CGSA)
@@ -30,7 +44,9 @@ interface CSVRow {
 interface ImportResult {
   success: Array<{
     row: number;
-    questionId: number;
+    questionId: number | null; // null for a new question in a dry run
+    action: 'created' | 'updated' | 'unchanged';
+    sentBackToReview: boolean; // Approved question whose content the row changes
     questionText: string;
     subjectName: string;
     gradeName: string;
@@ -40,14 +56,13 @@ interface ImportResult {
     foundCompetencies: string[];
     notFoundCompetencies: string[];
   }>;
-  errors: Array<{
-    row: number;
-    error: string;
-    data: CSVRow;
-  }>;
+  errors: CSVImportRowError<CSVRow>[];
   summary: {
     total: number;
     successful: number;
+    updated: number;
+    unchanged: number;
+    sentBackToReview: number;
     failed: number;
   };
 }
@@ -63,10 +78,77 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
   const [csvData, setCsvData] = useState<CSVRow[]>([]);
   const [importResults, setImportResults] = useState<ImportResult | null>(null);
   const [error, setError] = useState<string>('');
-  const [detectedQuestionType, setDetectedQuestionType] = useState<'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'mixed' | null>(null);
+  const [detectedQuestionType, setDetectedQuestionType] = useState<'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'NumericEntry' | 'Ordering' | 'Categorize' | 'mixed' | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const zipInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
+
+  // Near-duplicate check of the parsed rows, run when the preview opens
+  const [duplicateCheck, setDuplicateCheck] = useState<CSVDuplicateCheck | null>(null);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+
+  useEffect(() => {
+    if (step !== 'preview' || csvData.length === 0) return;
+
+    const checkDuplicates = async () => {
+      setCheckingDuplicates(true);
+      try {
+        const result = await adminAPI.checkQuestionCSVDuplicates(csvData);
+        setDuplicateCheck(result);
+      } catch (error) {
+        console.error('Failed to check for duplicate questions:', error);
+        setDuplicateCheck(null);
+      } finally {
+        setCheckingDuplicates(false);
+      }
+    };
+    checkDuplicates();
+  }, [step, csvData]);
+
+  const duplicatesByRow = new Map((duplicateCheck?.results || []).map(result => [result.row, result]));
+
+  // Server-side check of every row (subjects, grades, answer keys, competency codes), run when the preview opens;
+  // nothing is imported while a row has an error
+  const [validation, setValidation] = useState<ImportResult | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  useEffect(() => {
+    if (step !== 'preview' || csvData.length === 0) return;
+
+    let cancelled = false;
+    const validate = async () => {
+      setValidating(true);
+      setValidation(null);
+      try {
+        const result = await adminAPI.importQuestionsFromCSV(csvData, true);
+        if (!cancelled) setValidation(result.results);
+      } catch (error) {
+        console.error('Failed to validate the question CSV:', error);
+        if (!cancelled) {
+          const message = (error as { response?: { data?: { error?: string } } }).response?.data?.error;
+          setError(message || 'Failed to check the CSV file');
+        }
+      } finally {
+        if (!cancelled) setValidating(false);
+      }
+    };
+    validate();
+    return () => {
+      cancelled = true;
+    };
+  }, [step, csvData]);
+
+  const rowErrors = new Map<number, string[]>();
+  validation?.errors.forEach(item => rowErrors.set(item.row, [...(rowErrors.get(item.row) || []), item.error]));
+
+  const downloadReport = () => {
+    if (!validation) return;
+    downloadCsvImportReport(
+      validation.errors,
+      ['id', 'subject', 'grade', 'questionType', 'questionText', 'competencyCodes'],
+      'question_import_errors.csv'
+    );
+  };
   
   // Image upload state
   const [imageFiles, setImageFiles] = useState<Map<string, File>>(new Map());
@@ -83,11 +165,12 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
   });
 
   // Extract image filenames from CSV data
+  // Rows that update an existing question (id column) keep pointing at the images already uploaded
   const extractImageFilenames = (csvData: CSVRow[]): string[] => {
     const imageSet = new Set<string>();
     const placeholderRegex = /\{([a-zA-Z0-9._-]+\.(png|jpg|jpeg|gif|webp|svg))\}/gi;
     
-    csvData.forEach(row => {
+    csvData.filter(row => !row.id).forEach(row => {
       let match;
       const text = row.questionText || '';
       while ((match = placeholderRegex.exec(text)) !== null) {
@@ -303,7 +386,7 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
         const hasBlankCorrects = header.includes('blankcorrects');
         
         // Determine question type from CSV structure
-        let detectedType: 'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'mixed' | null = null;
+        let detectedType: 'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'NumericEntry' | 'Ordering' | 'Categorize' | 'mixed' | null = null;
         if (hasQuestionType) {
           // Check first few rows to determine type
           const sampleRows = rows.slice(1, Math.min(6, rows.length));
@@ -323,6 +406,12 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
                 types.add('Essay');
               } else if (qType === 'fillinblank' || qType === 'fill in blank' || qType === 'fill-in-blank') {
                 types.add('FillInBlank');
+              } else if (qType === 'numericentry' || qType === 'numeric entry' || qType === 'numeric') {
+                types.add('NumericEntry');
+              } else if (qType === 'ordering' || qType === 'sequencing') {
+                types.add('Ordering');
+              } else if (qType === 'categorize' || qType === 'categorise' || qType === 'classification') {
+                types.add('Categorize');
               }
             }
           }
@@ -336,6 +425,12 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
             detectedType = 'Essay';
           } else if (types.has('FillInBlank')) {
             detectedType = 'FillInBlank';
+          } else if (types.has('NumericEntry')) {
+            detectedType = 'NumericEntry';
+          } else if (types.has('Ordering')) {
+            detectedType = 'Ordering';
+          } else if (types.has('Categorize')) {
+            detectedType = 'Categorize';
           } else {
             detectedType = 'MCQ';
           }
@@ -378,6 +473,16 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
             const leftItemsIndex = header.indexOf('leftitems');
             const rightItemsIndex = header.indexOf('rightitems');
             const correctPairsIndex = header.indexOf('correctpairs');
+            const toleranceTypeIndex = header.indexOf('tolerancetype');
+            const toleranceIndex = header.indexOf('tolerance');
+            const acceptedFormsIndex = header.indexOf('acceptedforms');
+            const unitsIndex = header.indexOf('units');
+            const unitRequiredIndex = header.indexOf('unitrequired');
+            const orderItemsIndex = header.indexOf('orderitems');
+            const categoriesIndex = header.indexOf('categories');
+            const categoryItemsIndex = header.indexOf('categoryitems');
+            const itemCategoriesIndex = header.indexOf('itemcategories');
+            const partialCreditIndex = header.indexOf('partialcredit');
             const difficultyLevelIndex = header.indexOf('difficultylevel');
             const dokLevelIndex = header.indexOf('doklevel');
             const standardIndex = header.indexOf('standard');
@@ -388,6 +493,8 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
               competencyCodesIndex = header.indexOf('competencycodes');
             }
 
+            const idIndex = header.indexOf('id');
+
             const rowData: CSVRow = {
               subject: values[subjectIndex] || '',
               grade: values[gradeIndex] || '',
@@ -396,6 +503,9 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
             };
 
             // Add optional fields
+            if (idIndex >= 0 && values[idIndex]) {
+              rowData.id = values[idIndex];
+            }
             if (questionTypeIndex >= 0) {
               rowData.questionType = values[questionTypeIndex] || '';
             }
@@ -432,6 +542,36 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
             if (correctPairsIndex >= 0) {
               rowData.correctPairs = values[correctPairsIndex] || '';
             }
+            if (toleranceTypeIndex >= 0) {
+              rowData.toleranceType = values[toleranceTypeIndex] || '';
+            }
+            if (toleranceIndex >= 0) {
+              rowData.tolerance = values[toleranceIndex] || '';
+            }
+            if (acceptedFormsIndex >= 0) {
+              rowData.acceptedForms = values[acceptedFormsIndex] || '';
+            }
+            if (unitsIndex >= 0) {
+              rowData.units = values[unitsIndex] || '';
+            }
+            if (unitRequiredIndex >= 0) {
+              rowData.unitRequired = values[unitRequiredIndex] || '';
+            }
+            if (orderItemsIndex >= 0) {
+              rowData.orderItems = values[orderItemsIndex] || '';
+            }
+            if (categoriesIndex >= 0) {
+              rowData.categories = values[categoriesIndex] || '';
+            }
+            if (categoryItemsIndex >= 0) {
+              rowData.categoryItems = values[categoryItemsIndex] || '';
+            }
+            if (itemCategoriesIndex >= 0) {
+              rowData.itemCategories = values[itemCategoriesIndex] || '';
+            }
+            if (partialCreditIndex >= 0) {
+              rowData.partialCredit = values[partialCreditIndex] || '';
+            }
             const descriptionIndex = header.indexOf('description');
             if (descriptionIndex >= 0) {
               rowData.description = values[descriptionIndex] || '';
@@ -584,6 +724,7 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
 
         // Step 4: Update CSV data with uploaded filenames
         const updatedCsvData = csvData.map(row => {
+          if (row.id) return row;
           let updatedText = row.questionText;
           const placeholderRegex = /\{([a-zA-Z0-9._-]+\.(png|jpg|jpeg|gif|webp|svg))\}/gi;
           
@@ -622,58 +763,79 @@ const QuestionCSVImportModal: React.FC<QuestionCSVImportModalProps> = ({ isOpen,
       
       setStep('results');
       onImportComplete();
-    } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to import questions');
+    } catch (err) {
+      // A file that no longer validates comes back with its report; a failed write rolls back every row
+      const data = (err as { response?: { data?: { error?: string; results?: ImportResult } } }).response?.data;
+      setError(data?.error || 'Failed to import questions');
+      if (data?.results) setValidation(data.results);
       setStep('preview');
     }
   };
 
-  const downloadTemplate = (type: 'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'Matching' | 'TrueFalse' = 'MCQ') => {
+  const downloadTemplate = (type: 'MCQ' | 'MultipleSelect' | 'ShortAnswer' | 'Essay' | 'FillInBlank' | 'Matching' | 'TrueFalse' | 'NumericEntry' | 'Ordering' | 'Categorize' = 'MCQ') => {
     let template = '';
     let filename = '';
     
     if (type === 'MCQ') {
-      template = `Subject,Grade,QuestionText,Description,questionType,optionA,optionB,optionC,optionD,correctAnswer,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('MCQ')}
 Computer Science,Grade 6,What does CPU stand for? {mcq1.png},Select the correct full form of CPU,MCQ,Central Processing Unit,Computer Personal Unit,Central Process Unit,Central Processor Unit,A,150,1,CGSA,"Understanding computer hardware components",LOG001, TEC001
 Computer Science,Grade 6,Which of the following is a volatile memory? {mcq2.jpg},Identify the type of memory that loses data when power is off,MCQ,ROM,HDD,RAM,SSD,C,220,1,CGSA,"Memory types and their characteristics",TEC001, PRO001
 Science,Grade 6,Mitochondria is ______ of the cell. {mcq3.png},Choose the correct function of mitochondria,MCQ,Brain,Powerhouse,Nucleus,Factory,B,167,2,NGSS,"Cell structure and function",LOG001, PRO001`;
       filename = 'question_import_template_mcq.csv';
     } else if (type === 'MultipleSelect') {
-      template = `Subject,Grade,QuestionText,Description,questionType,optionA,optionB,optionC,optionD,correctAnswers,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('MultipleSelect')}
 Maths,Grade 6,Which of the following are prime numbers? {multiselect1.png} (Select all that apply),Select all prime numbers from the given options,MultipleSelect,2,3,4,5,"[A,B]",295,2,CGSA,"Number properties and prime numbers",COMP1, COMP2
 Science,Grade 6,Which of the following are renewable energy sources? {multiselect2.jpg} (Select all that apply),Identify all renewable energy sources from the list,MultipleSelect,Solar Energy,Wind Energy,Coal,Natural Gas,"[A,B]",280,2,NGSS,"Energy sources and sustainability",COMP1, COMP2`;
       filename = 'question_import_template_multiple_select.csv';
     } else if (type === 'ShortAnswer') {
-      template = `Subject,Grade,QuestionText,Description,questionType,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('ShortAnswer')}
 Science,Grade 6,Explain the process of photosynthesis in your own words. {shortanswer1.png},Provide a brief explanation (100 words or less),ShortAnswer,200,3,NGSS,"Biological processes and energy conversion",COMP1, COMP2
 Maths,Grade 6,Describe how you would solve the equation 2x + 5 = 15. {shortanswer2.jpg},Show your step-by-step reasoning,ShortAnswer,180,2,CGSA,"Algebraic problem solving",COMP1, COMP2
 Science,Grade 6,What is the difference between RAM and ROM? {shortanswer3.png},Explain in 2-3 sentences,ShortAnswer,220,2,NGSS,"Computer memory types",COMP1, COMP2
 Science,Grade 6,What are the three states of matter? Give an example of each. {shortanswer4.png},Provide examples for each state,ShortAnswer,190,1,NGSS,"States of matter and examples",COMP1, COMP2`;
       filename = 'question_import_template_short_answer.csv';
     } else if (type === 'Essay') {
-      template = `Subject,Grade,QuestionText,Description,questionType,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('Essay')}
 Science,Grade 6,Discuss the impact of climate change on ecosystems. {essay1.png},Provide a comprehensive analysis with examples and evidence,Essay,280,4,NGSS,"Environmental science and ecosystem analysis",COMP1, COMP2
 History,Grade 6,Analyze the causes and effects of World War II. {essay2.jpg},Include multiple perspectives and historical evidence,Essay,300,4,CGSA,"Historical analysis and critical thinking",COMP1, COMP2
 English,Grade 6,Write an essay on the theme of friendship in literature. {essay3.png},Use examples from at least two literary works,Essay,250,3,CGSA,"Literary analysis and theme exploration",COMP1, COMP2
 Science,Grade 6,Evaluate the pros and cons of renewable energy sources. {essay4.png},Consider economic, environmental, and social factors,Essay,270,4,NGSS,"Energy systems and evaluation",COMP1, COMP2`;
       filename = 'question_import_template_essay.csv';
     } else if (type === 'FillInBlank') {
-      template = `Subject,Grade,QuestionText,Description,questionType,blankOptions,blankCorrects,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('FillInBlank')}
 Science,Grade 6,The capital of France is ___ and the capital of Germany is ___. {fillinblank1.png},Fill in the correct capitals for each country,FillInBlank,"Paris,London;Berlin,Munich","A;A",200,1,NGSS,"Geographic knowledge and capitals",COMP1, COMP2
 Maths,Grade 6,The sum of 5 and 3 is ___ and the product of 2 and 4 is ___. {fillinblank2.jpg},Calculate and fill in the correct answers,FillInBlank,"8,9;8,9","A;A",180,1,CGSA,"Basic arithmetic operations",COMP1, COMP2
 Science,Grade 6,Water freezes at ___ degrees Celsius and boils at ___ degrees Celsius. {fillinblank3.png},Fill in the correct temperature values,FillInBlank,"0,10;100,90","A;A",190,1,NGSS,"Physical properties of water",COMP1, COMP2`;
       filename = 'question_import_template_fill_in_blank.csv';
     } else if (type === 'Matching') {
-      template = `Subject,Grade,QuestionText,Description,questionType,leftItems,rightItems,correctPairs,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('Matching')}
 Maths,Grade 6,Match the mathematical operations with their symbols. {matching2.jpg},Match each operation with its correct symbol,Matching,"Addition,Subtraction,Multiplication,Division","×,+,÷,-","0-1,1-3,2-0,3-2",180,2,CGSA,"Mathematical operations and symbols",COMP1, COMP2
 English,Grade 6,Match the words with their synonyms. {matching3.png},Match each word with its correct synonym,Matching,"Happy,Big,Smart,Small","Tiny,Large,Intelligent,Joyful","0-3,1-1,2-2,3-0",190,2,CGSA,"Vocabulary and word relationships",COMP1, COMP2`;
       filename = 'question_import_template_matching.csv';
     } else if (type === 'TrueFalse') {
-      template = `Subject,Grade,QuestionText,Description,questionType,correctAnswer,difficultyLevel,dokLevel,standard,contentFocus,Competencies
+      template = `${csvTemplateHeader('TrueFalse')}
 Science,Grade 6,The Earth revolves around the Sun. {truefalse1.png},Determine if the statement is true or false,TrueFalse,true,200,1,NGSS,"Solar system and planetary motion",COMP1, COMP2
 Maths,Grade 6,2 + 2 equals 5. {truefalse2.jpg},Determine if the statement is true or false,TrueFalse,false,180,1,CGSA,"Basic arithmetic facts",COMP1, COMP2
 Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png},Determine if the statement is true or false,TrueFalse,true,190,1,NGSS,"Physical properties and temperature",COMP1, COMP2`;
       filename = 'question_import_template_true_false.csv';
+    } else if (type === 'NumericEntry') {
+      template = `${csvTemplateHeader('NumericEntry')}
+Maths,Grade 6,What is 3 divided by 4? {numeric1.png},Give your answer as a fraction or a decimal,NumericEntry,3/4,exact,,"decimal,fraction",,,180,1,CGSA,"Division and equivalent fractions",COMP1, COMP2
+Maths,Grade 6,A rectangle is 4.2 cm long and 3 cm wide. What is its area? {numeric2.jpg},Include the unit in your answer,NumericEntry,12.6,absolute,0.05,decimal,"cm²,cm2,sq cm",true,210,2,CGSA,"Area of rectangles",COMP1, COMP2
+Science,Grade 6,Estimate the speed of sound in air in metres per second. {numeric3.png},An estimate within 5% is accepted,NumericEntry,343,relative,5,decimal,"m/s",false,240,2,NGSS,"Properties of sound waves",COMP1, COMP2`;
+      filename = 'question_import_template_numeric_entry.csv';
+    } else if (type === 'Ordering') {
+      template = `${csvTemplateHeader('Ordering')}
+Science,Grade 7,Put the stages of mitosis in order. {ordering1.png},Start with the stage where chromosomes condense,Ordering,"Prophase;Metaphase;Anaphase;Telophase",true,230,2,NGSS,"Cell division",COMP1, COMP2
+Science,Grade 5,Arrange the steps of the water cycle starting from the ocean.,,Ordering,"Evaporation;Condensation;Precipitation;Collection",true,190,1,NGSS,"Water cycle",COMP1, COMP2
+English,Grade 6,Put the events of the story in the order they happen. {ordering2.jpg},Read the passage before answering,Ordering,"Maya finds the map;She sets off at dawn;A storm forces her to shelter;She reaches the lighthouse",false,210,2,CGSA,"Sequence of events",COMP1, COMP2`;
+      filename = 'question_import_template_ordering.csv';
+    } else if (type === 'Categorize') {
+      template = `${csvTemplateHeader('Categorize')}
+Science,Grade 5,Sort each animal into the correct group. {categorize1.png},Drag each animal into Vertebrate or Invertebrate,Categorize,"Vertebrate,Invertebrate","Frog,Snail,Eagle,Jellyfish,Shark","0-0,1-1,2-0,3-1,4-0",true,200,2,NGSS,"Animal classification",COMP1, COMP2
+Maths,Grade 6,Sort the numbers into prime and composite.,,Categorize,"Prime,Composite","2,9,13,15,21,29","0-0,1-1,2-0,3-1,4-1,5-0",true,220,1,CGSA,"Prime and composite numbers",COMP1, COMP2
+English,Grade 6,Sort the words by part of speech. {categorize2.jpg},Each word belongs to exactly one group,Categorize,"Noun,Verb,Adjective","River,Swim,Bright,Jump,Teacher,Gentle","0-0,1-1,2-2,3-1,4-0,5-2",false,210,2,CGSA,"Parts of speech",COMP1, COMP2`;
+      filename = 'question_import_template_categorize.csv';
     }
     
     const blob = new Blob([template], { type: 'text/csv' });
@@ -688,6 +850,8 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
   const resetModal = () => {
     setStep('upload');
     setCsvData([]);
+    setDuplicateCheck(null);
+    setValidation(null);
     setImportResults(null);
     setError('');
     setDetectedQuestionType(null);
@@ -811,6 +975,27 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                       <Download className="h-4 w-4" />
                       <span>True/False</span>
                     </button>
+                    <button
+                      onClick={() => downloadTemplate('NumericEntry')}
+                      className="inline-flex items-center space-x-2 bg-lime-600 text-white px-4 py-2 rounded-lg hover:bg-lime-700 transition-colors"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Numeric Entry</span>
+                    </button>
+                    <button
+                      onClick={() => downloadTemplate('Ordering')}
+                      className="inline-flex items-center space-x-2 bg-sky-600 text-white px-4 py-2 rounded-lg hover:bg-sky-700 transition-colors"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Ordering</span>
+                    </button>
+                    <button
+                      onClick={() => downloadTemplate('Categorize')}
+                      className="inline-flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Categorize</span>
+                    </button>
                   </div>
                 </div>
                 <p className="text-sm text-gray-600 mb-6">
@@ -830,11 +1015,15 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                   <p><strong>For Multiple Select:</strong> optionA, optionB, optionC, optionD, correctAnswers (JSON array format: "[A,C]" or "[A,B,C]")</p>
                   <p><strong>For Short Answer/Essay:</strong> dokLevel (required, 1-4), description (optional)</p>
                   <p><strong>For Fill in the Blanks:</strong> blankOptions (semicolon-separated, comma-separated options per blank), blankCorrects (semicolon-separated: A;B or 0;1)</p>
+                  <p><strong>For Numeric Entry:</strong> correctAnswer (number, fraction 3/4 or mixed number 1 1/2), toleranceType (exact, absolute or relative), tolerance (amount, or percentage for relative), acceptedForms (optional: "decimal,fraction,mixed"), units (optional: "cm,centimetres"), unitRequired (optional: true/false)</p>
+                  <p><strong>For Ordering:</strong> orderItems (steps in their correct order, semicolon-separated: "Prophase;Metaphase;Anaphase"), partialCredit (optional: true to credit the longest run of steps kept in order). Students see the steps shuffled.</p>
+                  <p><strong>For Categorize:</strong> categories (comma-separated: "Vertebrate,Invertebrate"), categoryItems (comma-separated items to sort), itemCategories (format "itemIndex-categoryIndex" for every item: "0-0,1-1,2-0"), partialCredit (optional: true to credit each item sorted correctly). A category can hold any number of items.</p>
                   <p><strong>Standard:</strong> Optional field. Use NGSS for Science, CGSA for English and Maths.</p>
                   <p><strong>Content Focus:</strong> Optional field. Description of content focus - parameters for DOK level used in AI grading.</p>
                   <p><strong>Note:</strong> Growth Metric Score (difficultyLevel) is required for ALL question types. DOK Level is required for Short Answer and Essay questions, and optional (but recommended) for other question types.</p>
                   <p><strong>Optional columns:</strong> Description (for all question types), Competencies (comma-separated: "COMP1, COMP2")</p>
                   <p><strong>Image placeholders:</strong> Use <code>{'{filename.png}'}</code> in QuestionText to include images. Example: <code>{'Question text {image1.png} more text'}</code>. Images will be converted to <code>&lt;img&gt;</code> tags pointing to <code>/api/uploads/images/filename.png</code></p>
+                  <p><strong>Updating questions:</strong> Files exported from Export Question Bank (CSV format) have an id column. Rows with an id update that question (its images are already uploaded); rows without one are added as new questions. Approved questions whose content changes go back to review.</p>
                   {detectedQuestionType && (
                     <p className="mt-2 text-blue-600 font-medium">
                       Detected question type: {detectedQuestionType === 'mixed' ? 'Mixed types detected' : detectedQuestionType}
@@ -1023,6 +1212,74 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                 <span className="font-medium">Preview Data ({csvData.length} questions)</span>
               </div>
 
+              {checkingDuplicates ? (
+                <p className="text-sm text-gray-500">Checking for near-duplicate questions...</p>
+              ) : duplicatesByRow.size > 0 && (
+                <div className="p-4 rounded-lg border bg-yellow-50 border-yellow-200 flex items-start space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-yellow-800">
+                      {duplicatesByRow.size} row{duplicatesByRow.size === 1 ? ' looks' : 's look'} like existing questions or other rows in this file
+                    </p>
+                    <p className="text-xs text-yellow-700">
+                      Review the highlighted rows before importing; remove duplicates from the CSV, or merge them later from the Duplicate Items report.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {validating ? (
+                <p className="text-sm text-gray-500">Checking every row...</p>
+              ) : validation && (validation.errors.length === 0 ? (
+                <div className="p-4 rounded-lg border bg-green-50 border-green-200 flex items-start space-x-2">
+                  <CheckCircle className="h-5 w-5 text-green-600 mt-0.5" />
+                  <p className="text-sm text-green-800">
+                    All {validation.summary.successful} rows are ready to import
+                    {validation.summary.updated > 0 && ` (${validation.summary.updated} update existing questions)`}
+                    {validation.summary.unchanged > 0 && `; ${validation.summary.unchanged} match their questions already`}
+                  </p>
+                </div>
+              ) : (
+                <div className="p-4 rounded-lg border bg-red-50 border-red-200">
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex items-start space-x-2">
+                      <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+                      <div>
+                        <p className="text-sm font-medium text-red-800">
+                          {validation.summary.failed} row{validation.summary.failed === 1 ? '' : 's'} with errors, {validation.summary.successful} ready
+                        </p>
+                        <p className="text-xs text-red-700">
+                          Fix the highlighted rows and upload the file again; no question is imported until every row passes.
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={downloadReport}
+                      className="flex items-center space-x-1 text-sm text-red-700 hover:text-red-900 flex-shrink-0 ml-3"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>Download report</span>
+                    </button>
+                  </div>
+                  <ul className="space-y-1 text-xs text-red-700">
+                    {validation.errors.map((item, index) => (
+                      <li key={index}>Row {item.row}: {item.error}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+
+              {validation && validation.summary.sentBackToReview > 0 && (
+                <div className="p-4 rounded-lg border bg-blue-50 border-blue-200 flex items-start space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-blue-600 mt-0.5" />
+                  <p className="text-sm text-blue-800">
+                    {validation.summary.sentBackToReview} approved question{validation.summary.sentBackToReview === 1 ? '' : 's'} (
+                    {validation.success.filter(item => item.sentBackToReview).map(item => `#${item.questionId}`).join(', ')}
+                    ) will go back to review, because this file changes their content. Students will not get them until they are approved again.
+                  </p>
+                </div>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="min-w-full bg-white border border-gray-200 rounded-lg">
                   <thead className="bg-gray-50">
@@ -1039,12 +1296,15 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                       <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Standard</th>
                       <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Content Focus</th>
                       <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Competencies</th>
+                      <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duplicates</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
                     {csvData.map((row, index) => {
                       const questionType = row.questionType || 
                         (row.blankOptions ? 'FillInBlank' : 
+                         row.orderItems ? 'Ordering' :
+                         row.categoryItems ? 'Categorize' :
                          row.leftItems || row.rightItems ? 'Matching' :
                          row.correctAnswers ? 'MultipleSelect' : 
                          (row.correctAnswer && (row.correctAnswer.toLowerCase() === 'true' || row.correctAnswer.toLowerCase() === 'false')) ? 'TrueFalse' :
@@ -1053,10 +1313,25 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                       const isFillInBlank = questionType === 'FillInBlank';
                       const isMatching = questionType === 'Matching';
                       const isTrueFalse = questionType === 'TrueFalse';
+                      const isNumericEntry = questionType.toLowerCase().replace(/\s/g, '') === 'numericentry';
+                      const isOrdering = questionType.toLowerCase() === 'ordering' || questionType.toLowerCase() === 'sequencing';
+                      const isCategorize = ['categorize', 'categorise', 'classification'].includes(questionType.toLowerCase());
                       
                       // Parse correctAnswers if it's in JSON array format
                       let correctAnswerDisplay = '-';
-                      if (isTextBased) {
+                      if (isNumericEntry) {
+                        const unit = (row.units || '').split(',')[0].trim();
+                        const tolerance = row.tolerance && row.toleranceType && row.toleranceType.toLowerCase() !== 'exact'
+                          ? ` (±${row.tolerance}${row.toleranceType.toLowerCase() === 'relative' ? '%' : ''})`
+                          : '';
+                        correctAnswerDisplay = row.correctAnswer ? `${row.correctAnswer}${unit ? ` ${unit}` : ''}${tolerance}` : '-';
+                      } else if (isOrdering) {
+                        correctAnswerDisplay = row.orderItems
+                          ? row.orderItems.split(';').map(step => step.trim()).filter(Boolean).join(' → ')
+                          : '-';
+                      } else if (isCategorize) {
+                        correctAnswerDisplay = row.itemCategories || '-';
+                      } else if (isTextBased) {
                         correctAnswerDisplay = 'AI Graded';
                       } else if (isFillInBlank) {
                         correctAnswerDisplay = row.blankCorrects || '-';
@@ -1089,8 +1364,14 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                         return 'bg-green-100 text-green-800'; // MCQ
                       };
                       
+                      const duplicates = duplicatesByRow.get(index + 1);
+
                       return (
-                        <tr key={index} className="hover:bg-gray-50">
+                        <tr
+                          key={index}
+                          className={rowErrors.has(index + 1) ? 'bg-red-50' : duplicates ? 'bg-yellow-50 hover:bg-yellow-100' : 'hover:bg-gray-50'}
+                          title={rowErrors.get(index + 1)?.join('\n')}
+                        >
                           <td className="px-3 py-3 text-sm text-gray-900">{index + 1}</td>
                           <td className="px-3 py-3 text-sm text-gray-900">
                             <span className={`px-2 py-1 rounded text-xs font-medium ${getTypeColor(questionType)}`}>
@@ -1121,6 +1402,20 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                           <td className="px-3 py-3 text-sm text-gray-900">
                             {row.competencyCodes && row.competencyCodes.trim() ? row.competencyCodes.trim() : '-'}
                           </td>
+                          <td className="px-3 py-3 text-xs text-yellow-800 min-w-[12rem]">
+                            {duplicates ? (
+                              <div className="space-y-1">
+                                {duplicates.matches.map(match => (
+                                  <div key={match.question.id} title={match.question.questionText.replace(/<[^>]*>/g, ' ')}>
+                                    {Math.round(match.score * 100)}% like #{match.question.id}
+                                  </div>
+                                ))}
+                                {duplicates.fileDuplicates.length > 0 && (
+                                  <div>Same as row {duplicates.fileDuplicates.join(', ')}</div>
+                                )}
+                              </div>
+                            ) : '-'}
+                          </td>
                         </tr>
                       );
                     })}
@@ -1186,7 +1481,10 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                 </button>
                 <button
                   onClick={handleImport}
-                  disabled={extractImageFilenames(csvData).length > 0 && extractImageFilenames(csvData).some(img => !findMatchingImage(img, imageFiles))}
+                  disabled={
+                    validating || !validation || validation.errors.length > 0 ||
+                    (extractImageFilenames(csvData).length > 0 && extractImageFilenames(csvData).some(img => !findMatchingImage(img, imageFiles)))
+                  }
                   className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
                   <FileQuestion className="h-4 w-4" />
@@ -1255,6 +1553,12 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                   <div className="text-2xl font-bold text-green-900 mt-1">
                     {importResults.summary.successful}
                   </div>
+                  {(importResults.summary.updated > 0 || importResults.summary.unchanged > 0) && (
+                    <div className="text-xs text-green-700 mt-1">
+                      {importResults.summary.updated} updated, {importResults.summary.unchanged} unchanged
+                      {importResults.summary.sentBackToReview > 0 && `, ${importResults.summary.sentBackToReview} sent back to review`}
+                    </div>
+                  )}
                 </div>
                 <div className="bg-red-50 p-4 rounded-lg border border-red-200">
                   <div className="flex items-center space-x-2">
@@ -1292,6 +1596,18 @@ Science,Grade 6,Water boils at 100 degrees Celsius at sea level. {truefalse3.png
                           <tr key={item.row} className="hover:bg-gray-50">
                             <td className="px-3 py-3 text-sm text-gray-900">{item.row}</td>
                             <td className="px-3 py-3 text-sm text-gray-900 max-w-xs truncate" title={item.questionText}>
+                              {item.action !== 'created' && (
+                                <span className={`mr-2 px-2 py-0.5 rounded text-xs font-medium ${
+                                  item.action === 'updated' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+                                }`}>
+                                  {item.action === 'updated' ? `Updated #${item.questionId}` : `Unchanged #${item.questionId}`}
+                                </span>
+                              )}
+                              {item.sentBackToReview && (
+                                <span className="mr-2 px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                  Back to review
+                                </span>
+                              )}
                               {item.questionText}
                             </td>
                             <td className="px-3 py-3 text-sm text-gray-900">{item.subjectName}</td>
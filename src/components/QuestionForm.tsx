@@ -1,8 +1,29 @@
-import React, { useState, useEffect } from 'react';
-import { Subject, Question, Grade, Competency, QuestionType } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Subject, Question, Grade, Competency, QuestionType, PartialCreditPolicy, SimilarQuestionMatch, NumericAnswerForm, NumericToleranceMode, HotspotPoint, HotspotRegion } from '../types';
 import { adminAPI, gradesAPI, competenciesAPI } from '../services/api';
-import { AlertCircle, Save, X, Plus, Trash2, List, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets, Minus } from 'lucide-react';
+import { AlertCircle, Save, X, Plus, Trash2, List, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets, Minus, Hash, ListOrdered, ChevronUp, ChevronDown, Crosshair, Upload, Square, Pentagon, Boxes } from 'lucide-react';
 import RichTextEditor from './RichTextEditor';
+import QuestionVersionHistory from './QuestionVersionHistory';
+import HotspotImage from './HotspotImage';
+import MathText from './MathText';
+import { DEFAULT_NUMERIC_SETTINGS, NUMERIC_FORM_LABELS, NUMERIC_TOLERANCE_LABELS, isValidNumericKey } from '../utils/numericAnswer';
+import { MIN_ORDERING_ITEMS, buildOrderingItems, moveListItem, stepsInCorrectOrder } from '../utils/ordering';
+import { parseHotspotRegions } from '../utils/hotspot';
+import { MIN_CATEGORIES, MIN_CATEGORIZE_ITEMS, parseCategorizePlacement } from '../utils/categorize';
+import { hasMath, isInsideMath } from '../utils/math';
+
+const DEFAULT_PARTIAL_CREDIT: PartialCreditPolicy = { policy: 'all_or_nothing', wrongPickPenalty: 0 };
+
+// Rendered preview under authoring fields that contain LaTeX math
+const MathPreview: React.FC<{ text?: string; html?: string }> = ({ text, html }) => {
+  if (!hasMath(text ?? html)) return null;
+  return (
+    <div className="mt-1 px-3 py-2 text-sm text-gray-800 bg-gray-50 border border-dashed border-gray-300 rounded-lg overflow-x-auto">
+      <span className="mr-2 text-xs font-medium text-gray-500">Preview:</span>
+      <MathText text={text} html={html} />
+    </div>
+  );
+};
 
 interface QuestionFormProps {
   subjects: Subject[];
@@ -33,6 +54,14 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
     fillInBlanks: [] as Array<{ options: string[]; correctIndex: number }>, // For FillInBlank - array of blanks with options
     matchingPairs: [] as Array<{ leftItem: string; rightItem: string; correctMatch: number }>, // For Matching - left items, right items, and correct matches
     description: '', // For ShortAnswer and Essay - additional description/instructions
+    partialCredit: DEFAULT_PARTIAL_CREDIT, // For MultipleSelect, FillInBlank, Matching, Ordering and Categorize - scoring policy
+    numeric: DEFAULT_NUMERIC_SETTINGS, // For NumericEntry - tolerance, accepted forms and units (key is correctAnswer)
+    numericUnits: '', // For NumericEntry - comma-separated accepted units as typed by the author
+    orderingSteps: ['', '', ''], // For Ordering - steps in their correct order (shuffled for students on save)
+    hotspot: { imageUrl: '', imageAlt: '' }, // For Hotspot - uploaded image shown to students
+    hotspotRegions: [] as HotspotRegion[], // For Hotspot - correct regions (saved as correctAnswer)
+    categorizeCategories: ['', ''], // For Categorize - category (bucket) names
+    categorizeItems: [{ text: '', category: 0 }, { text: '', category: 1 }], // For Categorize - items and the index of their correct category
     difficultyLevel: 200,
     dokLevel: undefined as number | undefined, // Depth of Knowledge level (1-4)
     standard: '', // Standard identifier (e.g., NGSS, CGSA)
@@ -43,6 +72,13 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
   const [competencies, setCompetencies] = useState<Competency[]>([]);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Near-duplicates reported by the server; the author can still save after reviewing them
+  const [duplicateMatches, setDuplicateMatches] = useState<SimilarQuestionMatch[]>([]);
+  const allowDuplicateRef = useRef(false);
+  // Hotspot drawing: rectangles are dragged out, polygons are clicked point by point
+  const [hotspotTool, setHotspotTool] = useState<HotspotRegion['shape']>('rect');
+  const [hotspotDraft, setHotspotDraft] = useState<HotspotPoint[]>([]);
+  const [hotspotUploading, setHotspotUploading] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -150,6 +186,39 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         fillInBlanks: fillInBlanks,
         matchingPairs: matchingPairs,
         description: editingQuestion.questionMetadata?.description || '',
+        partialCredit: (() => {
+          try {
+            const metadata = typeof editingQuestion.questionMetadata === 'string'
+              ? JSON.parse(editingQuestion.questionMetadata)
+              : editingQuestion.questionMetadata;
+            return metadata?.partialCredit || DEFAULT_PARTIAL_CREDIT;
+          } catch {
+            return DEFAULT_PARTIAL_CREDIT;
+          }
+        })(),
+        numeric: editingQuestion.questionType === 'NumericEntry' && editingQuestion.questionMetadata?.numeric
+          ? { ...DEFAULT_NUMERIC_SETTINGS, ...editingQuestion.questionMetadata.numeric }
+          : DEFAULT_NUMERIC_SETTINGS,
+        numericUnits: editingQuestion.questionType === 'NumericEntry'
+          ? (editingQuestion.questionMetadata?.numeric?.units || []).join(', ')
+          : '',
+        orderingSteps: editingQuestion.questionType === 'Ordering' && Array.isArray(editingQuestion.questionMetadata?.items)
+          ? stepsInCorrectOrder(editingQuestion.questionMetadata.items, editingQuestion.correctAnswer)
+          : ['', '', ''],
+        hotspot: editingQuestion.questionType === 'Hotspot' && editingQuestion.questionMetadata?.hotspot
+          ? { imageUrl: editingQuestion.questionMetadata.hotspot.imageUrl || '', imageAlt: editingQuestion.questionMetadata.hotspot.imageAlt || '' }
+          : { imageUrl: '', imageAlt: '' },
+        hotspotRegions: editingQuestion.questionType === 'Hotspot' ? parseHotspotRegions(editingQuestion.correctAnswer) : [],
+        categorizeCategories: editingQuestion.questionType === 'Categorize' && Array.isArray(editingQuestion.questionMetadata?.categories)
+          ? [...editingQuestion.questionMetadata.categories]
+          : ['', ''],
+        categorizeItems: editingQuestion.questionType === 'Categorize' && Array.isArray(editingQuestion.questionMetadata?.items)
+          ? (() => {
+              const { categories, items } = editingQuestion.questionMetadata;
+              const placement = parseCategorizePlacement(editingQuestion.correctAnswer, items.length, categories?.length || 0);
+              return items.map((text: string, itemIdx: number) => ({ text, category: placement[itemIdx] ?? 0 }));
+            })()
+          : [{ text: '', category: 0 }, { text: '', category: 1 }],
         difficultyLevel: editingQuestion.difficultyLevel,
         dokLevel: editingQuestion.dokLevel,
         standard: editingQuestion.standard || '',
@@ -159,8 +228,8 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
       
       // For FillInBlank, also auto-detect blanks from question text if not already set
       if (editingQuestion.questionType === 'FillInBlank' && fillInBlanks.length === 0) {
-        const blankMatches = editingQuestion.questionText.match(/___|\{[0-9]+\}/g);
-        const blankCount = blankMatches ? blankMatches.length : 0;
+        const blankCount = Array.from(editingQuestion.questionText.matchAll(/___|\{[0-9]+\}/g))
+          .filter(match => !isInsideMath(editingQuestion.questionText, match.index ?? 0)).length;
         if (blankCount > 0) {
           const autoBlanks = Array(blankCount).fill(null).map(() => ({ options: ['', ''], correctIndex: 0 }));
           setFormData(prev => ({ ...prev, fillInBlanks: autoBlanks }));
@@ -193,6 +262,14 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
           { leftItem: '', rightItem: '', correctMatch: 0 }
         ],
         description: '',
+        partialCredit: DEFAULT_PARTIAL_CREDIT,
+        numeric: DEFAULT_NUMERIC_SETTINGS,
+        numericUnits: '',
+        orderingSteps: ['', '', ''],
+        hotspot: { imageUrl: '', imageAlt: '' },
+        hotspotRegions: [],
+        categorizeCategories: ['', ''],
+        categorizeItems: [{ text: '', category: 0 }, { text: '', category: 1 }],
         difficultyLevel: 200,
         dokLevel: undefined,
         standard: '',
@@ -205,6 +282,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setDuplicateMatches([]);
     setLoading(true);
 
     try {
@@ -241,9 +319,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         if (!textContent) {
           throw new Error('Question text is required');
         }
-        // Count blanks in question text (___ or {0}, {1}, etc.)
-        const blankMatches = textContent.match(/___|\{[0-9]+\}/g);
-        const blankCount = blankMatches ? blankMatches.length : 0;
+        // Count blanks in question text (___ or {0}, {1}, etc.), ignoring TeX groups inside math
+        const blankCount = Array.from(textContent.matchAll(/___|\{[0-9]+\}/g))
+          .filter(match => !isInsideMath(textContent, match.index ?? 0)).length;
         if (blankCount === 0) {
           throw new Error('Question text must contain at least one blank (use ___ or {0}, {1}, etc.)');
         }
@@ -296,6 +374,57 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         if (rightItems.length !== uniqueRightItems.size) {
           throw new Error('Right column items must be unique');
         }
+      } else if (questionType === 'NumericEntry') {
+        if (!formData.correctAnswer.trim()) {
+          throw new Error('Please enter the correct numeric answer');
+        }
+        if (!isValidNumericKey(formData.correctAnswer)) {
+          throw new Error('The correct answer must be a number, fraction (3/4) or mixed number (1 1/2)');
+        }
+        if (formData.numeric.tolerance.mode !== 'exact' && !(Number(formData.numeric.tolerance.value) >= 0)) {
+          throw new Error('Tolerance must be a non-negative number');
+        }
+        if (!formData.numeric.forms || formData.numeric.forms.length === 0) {
+          throw new Error('Select at least one accepted number form');
+        }
+      } else if (questionType === 'Ordering') {
+        const steps = formData.orderingSteps.map(step => step.trim());
+        if (steps.length < MIN_ORDERING_ITEMS) {
+          throw new Error(`Ordering questions must have at least ${MIN_ORDERING_ITEMS} steps`);
+        }
+        const emptyStep = steps.findIndex(step => !step);
+        if (emptyStep !== -1) {
+          throw new Error(`Step ${emptyStep + 1} is required`);
+        }
+        if (new Set(steps.map(step => step.toLowerCase())).size !== steps.length) {
+          throw new Error('Steps must be unique');
+        }
+      } else if (questionType === 'Hotspot') {
+        if (!formData.hotspot.imageUrl) {
+          throw new Error('Please upload the image students will click on');
+        }
+        if (formData.hotspotRegions.length === 0) {
+          throw new Error('Draw at least one correct region on the image');
+        }
+      } else if (questionType === 'Categorize') {
+        const categories = formData.categorizeCategories.map(category => category.trim());
+        const items = formData.categorizeItems.map(item => item.text.trim());
+        if (categories.length < MIN_CATEGORIES || categories.some(category => !category)) {
+          throw new Error(`Categorize questions need at least ${MIN_CATEGORIES} named categories`);
+        }
+        if (new Set(categories.map(category => category.toLowerCase())).size !== categories.length) {
+          throw new Error('Category names must be unique');
+        }
+        if (items.length < MIN_CATEGORIZE_ITEMS) {
+          throw new Error(`Categorize questions must have at least ${MIN_CATEGORIZE_ITEMS} items`);
+        }
+        const emptyItem = items.findIndex(item => !item);
+        if (emptyItem !== -1) {
+          throw new Error(`Item ${emptyItem + 1} is required`);
+        }
+        if (new Set(items.map(item => item.toLowerCase())).size !== items.length) {
+          throw new Error('Items must be unique');
+        }
       } else if (questionType === 'ShortAnswer' || questionType === 'Essay') {
         const textContent = formData.questionText.replace(/<[^>]*>/g, '').trim();
         if (!textContent) {
@@ -343,6 +472,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         questionData.options = formData.options.map(opt => opt.trim());
         questionData.correctOptionIndex = formData.correctAnswerIndices[0] || 0; // Store first index for backward compatibility
         questionData.correctAnswer = JSON.stringify(formData.correctAnswerIndices); // Store all correct indices as JSON
+        questionData.questionMetadata = JSON.stringify({ partialCredit: formData.partialCredit });
         
         // Debug logging
         console.log('MultipleSelect question data being sent:', {
@@ -360,7 +490,8 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
           blanks: formData.fillInBlanks.map(blank => ({
             options: blank.options.map(opt => opt.trim()),
             correctIndex: blank.correctIndex
-          }))
+          })),
+          partialCredit: { policy: formData.partialCredit.policy }
         });
         // Store first blank's first option index for backward compatibility
         questionData.correctOptionIndex = formData.fillInBlanks[0]?.correctIndex || 0;
@@ -378,7 +509,8 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         questionData.questionMetadata = JSON.stringify({
           leftItems: leftItems,
           rightItems: rightItems,
-          correctPairs: correctPairs
+          correctPairs: correctPairs,
+          partialCredit: { policy: formData.partialCredit.policy }
         });
         // Store correct pairs in correctAnswer as JSON
         questionData.correctAnswer = JSON.stringify(correctPairs);
@@ -386,6 +518,56 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         questionData.correctOptionIndex = formData.matchingPairs[0]?.correctMatch || 0;
         // Options can be empty for Matching
         questionData.options = [];
+      } else if (questionType === 'NumericEntry') {
+        // For NumericEntry, the key goes in correctAnswer and the scoring settings in questionMetadata
+        const units = formData.numericUnits.split(',').map(unit => unit.trim()).filter(Boolean);
+        questionData.correctAnswer = formData.correctAnswer.trim();
+        questionData.questionMetadata = JSON.stringify({
+          numeric: {
+            tolerance: formData.numeric.tolerance.mode === 'exact'
+              ? { mode: 'exact' }
+              : { mode: formData.numeric.tolerance.mode, value: Number(formData.numeric.tolerance.value) },
+            forms: formData.numeric.forms,
+            units,
+            unitRequired: units.length > 0 && formData.numeric.unitRequired === true
+          }
+        });
+        questionData.correctOptionIndex = 0; // Default for backward compatibility
+        questionData.options = []; // Students type their answer
+      } else if (questionType === 'Ordering') {
+        // For Ordering, store the steps shuffled in questionMetadata and the correct sequence in correctAnswer
+        const { items, correctOrder } = buildOrderingItems(formData.orderingSteps.map(step => step.trim()));
+        questionData.questionMetadata = JSON.stringify({
+          items,
+          partialCredit: { policy: formData.partialCredit.policy }
+        });
+        questionData.correctAnswer = JSON.stringify(correctOrder);
+        // Store first step's index for backward compatibility
+        questionData.correctOptionIndex = correctOrder[0];
+        questionData.options = []; // Steps are in metadata
+      } else if (questionType === 'Hotspot') {
+        // For Hotspot, the image goes in questionMetadata and the correct regions in correctAnswer (not sent to students)
+        questionData.questionMetadata = JSON.stringify({
+          hotspot: {
+            imageUrl: formData.hotspot.imageUrl,
+            imageAlt: formData.hotspot.imageAlt.trim()
+          }
+        });
+        questionData.correctAnswer = JSON.stringify(formData.hotspotRegions);
+        questionData.correctOptionIndex = 0; // Default for backward compatibility
+        questionData.options = []; // Students click the image
+      } else if (questionType === 'Categorize') {
+        // For Categorize, categories and items go in questionMetadata and each item's category in correctAnswer
+        const placement = formData.categorizeItems.map(item => item.category);
+        questionData.questionMetadata = JSON.stringify({
+          categories: formData.categorizeCategories.map(category => category.trim()),
+          items: formData.categorizeItems.map(item => item.text.trim()),
+          partialCredit: { policy: formData.partialCredit.policy }
+        });
+        questionData.correctAnswer = JSON.stringify(placement);
+        // Store first item's category for backward compatibility
+        questionData.correctOptionIndex = placement[0];
+        questionData.options = []; // Categories and items are in metadata
       } else if (questionType === 'ShortAnswer' || questionType === 'Essay') {
         // For ShortAnswer and Essay, store description in questionMetadata
         // No correct answer (will be manually graded later with AI)
@@ -402,12 +584,17 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         await adminAPI.updateQuestion(editingQuestion.id, questionData);
         onQuestionUpdated();
       } else {
+        questionData.allowDuplicate = allowDuplicateRef.current;
         await adminAPI.createQuestion(questionData);
         onQuestionCreated();
       }
     } catch (error: any) {
+      if (error.response?.data?.code === 'DUPLICATE_QUESTION') {
+        setDuplicateMatches(error.response.data.matches || []);
+      }
       setError(error.response?.data?.error || error.message || 'Failed to save question');
     } finally {
+      allowDuplicateRef.current = false;
       setLoading(false);
     }
   };
@@ -446,7 +633,40 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
         </div>
       )}
 
-      <form onSubmit={handleSubmit} className="space-y-6">
+      {editingQuestion?.status === 'approved' && (
+        <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          This question is approved. Changing its content sends it back for review, and students will not get it until it is approved again.
+        </div>
+      )}
+
+      {duplicateMatches.length > 0 && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+          <p className="font-medium mb-2">Similar questions already in the bank:</p>
+          <ul className="space-y-2 mb-3">
+            {duplicateMatches.map(match => (
+              <li key={match.question.id}>
+                <span className="font-semibold">{Math.round(match.score * 100)}% similar</span>
+                {' '}· #{match.question.id} ({match.question.gradeName || 'All grades'}, difficulty {match.question.difficultyLevel}):
+                {' '}{match.question.questionText.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="submit"
+            form="question-form"
+            onClick={() => { allowDuplicateRef.current = true; }}
+            className="px-3 py-1.5 text-xs font-medium text-amber-900 border border-amber-300 rounded-lg hover:bg-amber-100"
+          >
+            This question is different — save anyway
+          </button>
+        </div>
+      )}
+
+      {editingQuestion && (
+        <QuestionVersionHistory questionId={editingQuestion.id} onRestored={onQuestionUpdated} />
+      )}
+
+      <form id="question-form" onSubmit={handleSubmit} className="space-y-6">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Subject
@@ -491,7 +711,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
             <label className="block text-sm font-medium text-gray-700 mb-3">
               Select Question Type *
             </label>
-            <div className="grid grid-cols-4 md:grid-cols-7 gap-3">
+            <div className="grid grid-cols-4 md:grid-cols-6 lg:grid-cols-11 gap-3">
               {/* Multiple Choice */}
               <button
                 type="button"
@@ -573,6 +793,46 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 <List className="h-6 w-6 text-blue-600 mb-2" />
                 <span className="text-xs font-medium text-gray-700">Multiple Select</span>
               </button>
+
+              {/* Numeric Entry */}
+              <button
+                type="button"
+                onClick={() => setQuestionType('NumericEntry')}
+                className="flex flex-col items-center justify-center p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-all cursor-pointer"
+              >
+                <Hash className="h-6 w-6 text-blue-600 mb-2" />
+                <span className="text-xs font-medium text-gray-700">Numeric Entry</span>
+              </button>
+
+              {/* Ordering */}
+              <button
+                type="button"
+                onClick={() => setQuestionType('Ordering')}
+                className="flex flex-col items-center justify-center p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-all cursor-pointer"
+              >
+                <ListOrdered className="h-6 w-6 text-blue-600 mb-2" />
+                <span className="text-xs font-medium text-gray-700">Ordering</span>
+              </button>
+
+              {/* Hotspot */}
+              <button
+                type="button"
+                onClick={() => setQuestionType('Hotspot')}
+                className="flex flex-col items-center justify-center p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-all cursor-pointer"
+              >
+                <Crosshair className="h-6 w-6 text-blue-600 mb-2" />
+                <span className="text-xs font-medium text-gray-700">Hotspot</span>
+              </button>
+
+              {/* Categorize */}
+              <button
+                type="button"
+                onClick={() => setQuestionType('Categorize')}
+                className="flex flex-col items-center justify-center p-4 border-2 border-gray-200 rounded-lg hover:border-blue-500 hover:bg-blue-50 transition-all cursor-pointer"
+              >
+                <Boxes className="h-6 w-6 text-blue-600 mb-2" />
+                <span className="text-xs font-medium text-gray-700">Categorize</span>
+              </button>
             </div>
           </div>
         )}
@@ -588,8 +848,12 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
               {questionType === 'Matching' && <ArrowLeftRight className="h-5 w-5 text-blue-600" />}
               {questionType === 'ShortAnswer' && <Type className="h-5 w-5 text-blue-600" />}
               {questionType === 'Essay' && <FileText className="h-5 w-5 text-blue-600" />}
+              {questionType === 'NumericEntry' && <Hash className="h-5 w-5 text-blue-600" />}
+              {questionType === 'Ordering' && <ListOrdered className="h-5 w-5 text-blue-600" />}
+              {questionType === 'Hotspot' && <Crosshair className="h-5 w-5 text-blue-600" />}
+              {questionType === 'Categorize' && <Boxes className="h-5 w-5 text-blue-600" />}
               <span className="text-sm font-medium text-gray-900">
-                Question Type: {questionType === 'MCQ' ? 'Multiple Choice' : questionType === 'TrueFalse' ? 'True/False' : questionType === 'MultipleSelect' ? 'Multiple Select' : questionType === 'FillInBlank' ? 'Fill in the Blanks' : questionType === 'Matching' ? 'Matching' : questionType === 'ShortAnswer' ? 'Short Answer' : questionType === 'Essay' ? 'Essay' : questionType}
+                Question Type: {questionType === 'MCQ' ? 'Multiple Choice' : questionType === 'TrueFalse' ? 'True/False' : questionType === 'MultipleSelect' ? 'Multiple Select' : questionType === 'FillInBlank' ? 'Fill in the Blanks' : questionType === 'Matching' ? 'Matching' : questionType === 'ShortAnswer' ? 'Short Answer' : questionType === 'Essay' ? 'Essay' : questionType === 'NumericEntry' ? 'Numeric Entry' : questionType === 'Ordering' ? 'Ordering' : questionType === 'Hotspot' ? 'Hotspot' : questionType === 'Categorize' ? 'Categorize' : questionType}
               </span>
             </div>
             <button
@@ -605,6 +869,13 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                   fillInBlanks: [],
                   matchingPairs: [],
                   description: '',
+                  numeric: DEFAULT_NUMERIC_SETTINGS,
+                  numericUnits: '',
+                  orderingSteps: ['', '', ''],
+                  hotspot: { imageUrl: '', imageAlt: '' },
+                  hotspotRegions: [],
+                  categorizeCategories: ['', ''],
+                  categorizeItems: [{ text: '', category: 0 }, { text: '', category: 1 }],
                   dokLevel: undefined
                 });
               }}
@@ -627,8 +898,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
               height="250px"
             />
             <p className="mt-2 text-sm text-gray-500">
-              Tip: Use the toolbar to add images, videos, audio, and format your question text.
+              Tip: Use the toolbar to add images, videos, audio and math (∑), and format your question text.
             </p>
+            <MathPreview html={formData.questionText} />
           </div>
         )}
 
@@ -651,14 +923,17 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                   <span className="text-sm font-medium text-gray-500 w-8">
                     {String.fromCharCode(65 + index)}.
                   </span>
-                  <input
-                    type="text"
-                    value={option}
-                    onChange={(e) => handleOptionChange(index, e.target.value)}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder={`Option ${String.fromCharCode(65 + index)}`}
-                    required
-                  />
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => handleOptionChange(index, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      required
+                    />
+                    <MathPreview text={option} />
+                  </div>
                 </div>
               ))}
             </div>
@@ -729,19 +1004,22 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                   <span className="text-sm font-medium text-gray-500 w-8">
                     {String.fromCharCode(65 + index)}.
                   </span>
-                  <input
-                    type="text"
-                    value={option}
-                    onChange={(e) => handleOptionChange(index, e.target.value)}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder={`Option ${String.fromCharCode(65 + index)}`}
-                    required
-                  />
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={option}
+                      onChange={(e) => handleOptionChange(index, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={`Option ${String.fromCharCode(65 + index)}`}
+                      required
+                    />
+                    <MathPreview text={option} />
+                  </div>
                 </div>
               ))}
             </div>
             <p className="mt-2 text-sm text-gray-600">
-              Select all correct answers using checkboxes. All selected answers must be correct for the question to be marked correct.
+              Select all correct answers using checkboxes. All selected answers must be correct for the question to be marked correct (see Scoring below for partial credit).
             </p>
             {formData.correctAnswerIndices.length > 0 && (
               <p className="mt-1 text-sm text-blue-600 font-medium">
@@ -762,8 +1040,8 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 onChange={(e) => {
                   const text = e.target.value;
                   // Count blanks (___ or {0}, {1}, etc.)
-                  const blankMatches = text.match(/___|\{[0-9]+\}/g);
-                  const blankCount = blankMatches ? blankMatches.length : 0;
+                  const blankCount = Array.from(text.matchAll(/___|\{[0-9]+\}/g))
+                    .filter(match => !isInsideMath(text, match.index ?? 0)).length;
                   
                   // Auto-create blanks if count increased
                   let newBlanks = [...formData.fillInBlanks];
@@ -783,8 +1061,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 required
               />
               <p className="mt-2 text-sm text-gray-600">
-                Use <code className="bg-gray-100 px-1 py-0.5 rounded">___</code> or <code className="bg-gray-100 px-1 py-0.5 rounded">{'{0}'}</code>, <code className="bg-gray-100 px-1 py-0.5 rounded">{'{1}'}</code>, etc. to mark blanks
+                Use <code className="bg-gray-100 px-1 py-0.5 rounded">___</code> or <code className="bg-gray-100 px-1 py-0.5 rounded">{'{0}'}</code>, <code className="bg-gray-100 px-1 py-0.5 rounded">{'{1}'}</code>, etc. to mark blanks. Write math as <code className="bg-gray-100 px-1 py-0.5 rounded">{'\\( ... \\)'}</code>.
               </p>
+              <MathPreview text={formData.questionText} />
               {formData.questionText && (
                 <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                   <p className="text-sm font-medium text-blue-900 mb-1">Detected Blanks: {formData.fillInBlanks.length}</p>
@@ -836,18 +1115,21 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                               }}
                               className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
                             />
-                            <input
-                              type="text"
-                              value={option}
-                              onChange={(e) => {
-                                const newBlanks = [...formData.fillInBlanks];
-                                newBlanks[blankIndex].options[optionIndex] = e.target.value;
-                                setFormData({ ...formData, fillInBlanks: newBlanks });
-                              }}
-                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                              placeholder={`Option ${optionIndex + 1}`}
-                              required
-                            />
+                            <div className="flex-1">
+                              <input
+                                type="text"
+                                value={option}
+                                onChange={(e) => {
+                                  const newBlanks = [...formData.fillInBlanks];
+                                  newBlanks[blankIndex].options[optionIndex] = e.target.value;
+                                  setFormData({ ...formData, fillInBlanks: newBlanks });
+                                }}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder={`Option ${optionIndex + 1}`}
+                                required
+                              />
+                              <MathPreview text={option} />
+                            </div>
                             {blank.options.length > 2 && (
                               <button
                                 type="button"
@@ -905,8 +1187,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 height="200px"
               />
               <p className="mt-2 text-sm text-gray-500">
-                Tip: Use the toolbar to add images, videos, audio, and format your question text.
+                Tip: Use the toolbar to add images, videos, audio and math (∑), and format your question text.
               </p>
+              <MathPreview html={formData.questionText} />
             </div>
 
             <div>
@@ -958,6 +1241,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                           placeholder={`Left item ${pairIndex + 1}`}
                           required
                         />
+                        <MathPreview text={pair.leftItem} />
                       </div>
                       
                       {/* Right Column Item */}
@@ -977,6 +1261,7 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                           placeholder={`Right item ${pairIndex + 1}`}
                           required
                         />
+                        <MathPreview text={pair.rightItem} />
                       </div>
                     </div>
                     
@@ -1026,6 +1311,524 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
           </div>
         )}
 
+        {questionType === 'NumericEntry' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Correct Answer *
+              </label>
+              <input
+                type="text"
+                value={formData.correctAnswer}
+                onChange={(e) => setFormData({ ...formData, correctAnswer: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="e.g. 0.75, 3/4 or 1 1/2"
+                required
+              />
+              <p className="mt-2 text-sm text-gray-600">
+                Equivalent forms are marked correct, so a key of 3/4 also accepts 0.75 and 6/8 when those forms are allowed below.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tolerance
+                </label>
+                <select
+                  value={formData.numeric.tolerance.mode}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    numeric: { ...formData.numeric, tolerance: { mode: e.target.value as NumericToleranceMode, value: 0 } }
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(NUMERIC_TOLERANCE_LABELS) as NumericToleranceMode[]).map(mode => (
+                    <option key={mode} value={mode}>{NUMERIC_TOLERANCE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              {formData.numeric.tolerance.mode !== 'exact' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.numeric.tolerance.mode === 'relative' ? 'Allowed difference (%)' : 'Allowed difference (±)'}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={formData.numeric.tolerance.value ?? 0}
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      numeric: { ...formData.numeric, tolerance: { ...formData.numeric.tolerance, value: parseFloat(e.target.value) } }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Accepted Forms
+              </label>
+              <div className="flex flex-col space-y-2">
+                {(Object.keys(NUMERIC_FORM_LABELS) as NumericAnswerForm[]).map(form => (
+                  <label key={form} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={(formData.numeric.forms || []).includes(form)}
+                      onChange={(e) => {
+                        const forms = formData.numeric.forms || [];
+                        setFormData({
+                          ...formData,
+                          numeric: {
+                            ...formData.numeric,
+                            forms: e.target.checked ? [...forms, form] : forms.filter(f => f !== form)
+                          }
+                        });
+                      }}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span>{NUMERIC_FORM_LABELS[form]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Units
+              </label>
+              <input
+                type="text"
+                value={formData.numericUnits}
+                onChange={(e) => setFormData({ ...formData, numericUnits: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional, comma-separated (e.g. cm, centimetres)"
+              />
+              {formData.numericUnits.trim() && (
+                <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.numeric.unitRequired === true}
+                    onChange={(e) => setFormData({ ...formData, numeric: { ...formData.numeric, unitRequired: e.target.checked } })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span>Students must type the unit</span>
+                </label>
+              )}
+              <p className="mt-2 text-sm text-gray-600">
+                The first unit is shown next to the answer box. Any other unit typed by the student is marked incorrect.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {questionType === 'Ordering' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Steps in Correct Order *
+            </label>
+            <div className="space-y-2">
+              {formData.orderingSteps.map((step, stepIndex) => (
+                <div key={stepIndex} className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-gray-500 w-8">
+                    {stepIndex + 1}.
+                  </span>
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={step}
+                      onChange={(e) => {
+                        const newSteps = [...formData.orderingSteps];
+                        newSteps[stepIndex] = e.target.value;
+                        setFormData({ ...formData, orderingSteps: newSteps });
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={`Step ${stepIndex + 1}`}
+                      required
+                    />
+                    <MathPreview text={step} />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, orderingSteps: moveListItem(formData.orderingSteps, stepIndex, stepIndex - 1) })}
+                    disabled={stepIndex === 0}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 transition-colors"
+                    title="Move step up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, orderingSteps: moveListItem(formData.orderingSteps, stepIndex, stepIndex + 1) })}
+                    disabled={stepIndex === formData.orderingSteps.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 transition-colors"
+                    title="Move step down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                  {formData.orderingSteps.length > MIN_ORDERING_ITEMS && (
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, orderingSteps: formData.orderingSteps.filter((_, idx) => idx !== stepIndex) })}
+                      className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                      title="Remove this step"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, orderingSteps: [...formData.orderingSteps, ''] })}
+                className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 transition-colors mt-2"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Step</span>
+              </button>
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+              Enter the steps in the order they happen. Students see them shuffled and drag them into sequence.
+            </p>
+          </div>
+        )}
+
+        {questionType === 'Hotspot' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Image *
+              </label>
+              <label className="inline-flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer transition-colors">
+                <Upload className="h-4 w-4" />
+                <span>{hotspotUploading ? 'Uploading...' : formData.hotspot.imageUrl ? 'Replace Image' : 'Upload Image'}</span>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  disabled={hotspotUploading}
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (!file) return;
+                    setHotspotUploading(true);
+                    try {
+                      const uploadData = new FormData();
+                      uploadData.append('file', file);
+                      const response = await adminAPI.uploadFile(uploadData);
+                      // Regions drawn on the old image no longer apply
+                      setFormData(prev => ({ ...prev, hotspot: { ...prev.hotspot, imageUrl: response.file.url }, hotspotRegions: [] }));
+                      setHotspotDraft([]);
+                    } catch (err) {
+                      setError((err as { response?: { data?: { error?: string } } }).response?.data?.error || 'Failed to upload image. Maximum file size is 20MB.');
+                    } finally {
+                      setHotspotUploading(false);
+                    }
+                  }}
+                />
+              </label>
+              <input
+                type="text"
+                value={formData.hotspot.imageAlt}
+                onChange={(e) => setFormData({ ...formData, hotspot: { ...formData.hotspot, imageAlt: e.target.value } })}
+                className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Image description for screen readers (don't give away the answer)"
+              />
+            </div>
+
+            {formData.hotspot.imageUrl && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Correct Regions *
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => { setHotspotTool('rect'); setHotspotDraft([]); }}
+                      className={`inline-flex items-center space-x-1 px-3 py-1 text-sm rounded-lg border ${hotspotTool === 'rect' ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      <Square className="h-4 w-4" />
+                      <span>Rectangle</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => { setHotspotTool('polygon'); setHotspotDraft([]); }}
+                      className={`inline-flex items-center space-x-1 px-3 py-1 text-sm rounded-lg border ${hotspotTool === 'polygon' ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      <Pentagon className="h-4 w-4" />
+                      <span>Polygon</span>
+                    </button>
+                  </div>
+                </div>
+                <HotspotImage
+                  imageUrl={formData.hotspot.imageUrl}
+                  imageAlt={formData.hotspot.imageAlt}
+                  regions={formData.hotspotRegions}
+                  draftPoints={hotspotDraft}
+                  draftShape={hotspotTool}
+                  onPointerDown={(point) => {
+                    if (hotspotTool === 'rect') {
+                      setHotspotDraft([point, point]);
+                    } else {
+                      setHotspotDraft([...hotspotDraft, point]);
+                    }
+                  }}
+                  onPointerMove={(point) => {
+                    if (hotspotTool === 'rect' && hotspotDraft.length === 2) {
+                      setHotspotDraft([hotspotDraft[0], point]);
+                    }
+                  }}
+                  onPointerUp={(point) => {
+                    if (hotspotTool !== 'rect' || hotspotDraft.length !== 2) return;
+                    const [start] = hotspotDraft;
+                    const width = Math.abs(point.x - start.x);
+                    const height = Math.abs(point.y - start.y);
+                    // Ignore plain clicks; a region has to be dragged out
+                    if (width > 0.01 && height > 0.01) {
+                      setFormData({
+                        ...formData,
+                        hotspotRegions: [...formData.hotspotRegions, { shape: 'rect', x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width, height }]
+                      });
+                    }
+                    setHotspotDraft([]);
+                  }}
+                />
+                {hotspotTool === 'polygon' && (
+                  <div className="mt-2 flex items-center space-x-2">
+                    <button
+                      type="button"
+                      disabled={hotspotDraft.length < 3}
+                      onClick={() => {
+                        setFormData({ ...formData, hotspotRegions: [...formData.hotspotRegions, { shape: 'polygon', points: hotspotDraft }] });
+                        setHotspotDraft([]);
+                      }}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Finish Polygon
+                    </button>
+                    {hotspotDraft.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setHotspotDraft([])}
+                        className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+                {formData.hotspotRegions.length > 0 && (
+                  <ul className="mt-3 space-y-1">
+                    {formData.hotspotRegions.map((region, regionIdx) => (
+                      <li key={regionIdx} className="flex items-center justify-between text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-3 py-1">
+                        <span>
+                          Region {regionIdx + 1}: {region.shape === 'rect' ? 'rectangle' : `polygon (${region.points.length} points)`}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, hotspotRegions: formData.hotspotRegions.filter((_, idx) => idx !== regionIdx) })}
+                          className="text-red-600 hover:text-red-800 transition-colors"
+                          title="Remove this region"
+                        >
+                          <Minus className="h-4 w-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="mt-2 text-sm text-gray-600">
+                  {hotspotTool === 'rect'
+                    ? 'Drag on the image to draw a rectangle.'
+                    : 'Click each corner of the region, then press Finish Polygon.'}
+                  {' '}A click inside any correct region is marked correct.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {questionType === 'Categorize' && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Categories *
+              </label>
+              <div className="space-y-2">
+                {formData.categorizeCategories.map((category, categoryIndex) => (
+                  <div key={categoryIndex} className="flex items-center space-x-2">
+                    <div className="flex-1">
+                      <input
+                        type="text"
+                        value={category}
+                        onChange={(e) => {
+                          const newCategories = [...formData.categorizeCategories];
+                          newCategories[categoryIndex] = e.target.value;
+                          setFormData({ ...formData, categorizeCategories: newCategories });
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={`Category ${categoryIndex + 1}`}
+                        required
+                      />
+                      <MathPreview text={category} />
+                    </div>
+                    {formData.categorizeCategories.length > MIN_CATEGORIES && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({
+                          ...formData,
+                          categorizeCategories: formData.categorizeCategories.filter((_, idx) => idx !== categoryIndex),
+                          // Items in the removed category fall back to the first one; later categories shift up
+                          categorizeItems: formData.categorizeItems.map(item => ({
+                            ...item,
+                            category: item.category === categoryIndex ? 0 : item.category > categoryIndex ? item.category - 1 : item.category
+                          }))
+                        })}
+                        className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                        title="Remove this category"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, categorizeCategories: [...formData.categorizeCategories, ''] })}
+                  className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 transition-colors mt-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Category</span>
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Items and Their Correct Category *
+              </label>
+              <div className="space-y-2">
+                {formData.categorizeItems.map((item, itemIndex) => (
+                  <div key={itemIndex} className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-500 w-8">
+                      {itemIndex + 1}.
+                    </span>
+                    <div className="flex-1">
+                      <input
+                        type="text"
+                        value={item.text}
+                        onChange={(e) => {
+                          const newItems = [...formData.categorizeItems];
+                          newItems[itemIndex] = { ...item, text: e.target.value };
+                          setFormData({ ...formData, categorizeItems: newItems });
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={`Item ${itemIndex + 1}`}
+                        required
+                      />
+                      <MathPreview text={item.text} />
+                    </div>
+                    <select
+                      value={item.category}
+                      onChange={(e) => {
+                        const newItems = [...formData.categorizeItems];
+                        newItems[itemIndex] = { ...item, category: parseInt(e.target.value) };
+                        setFormData({ ...formData, categorizeItems: newItems });
+                      }}
+                      className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      aria-label={`Correct category for item ${itemIndex + 1}`}
+                    >
+                      {formData.categorizeCategories.map((category, categoryIndex) => (
+                        <option key={categoryIndex} value={categoryIndex}>
+                          {category.trim() || `Category ${categoryIndex + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                    {formData.categorizeItems.length > MIN_CATEGORIZE_ITEMS && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, categorizeItems: formData.categorizeItems.filter((_, idx) => idx !== itemIndex) })}
+                        className="p-1 text-red-600 hover:text-red-800 transition-colors"
+                        title="Remove this item"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, categorizeItems: [...formData.categorizeItems, { text: '', category: 0 }] })}
+                  className="flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800 transition-colors mt-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Item</span>
+                </button>
+              </div>
+              <p className="mt-2 text-sm text-gray-600">
+                Students drag each item into a category. A category can hold any number of items, or none.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {(questionType === 'MultipleSelect' || questionType === 'FillInBlank' || questionType === 'Matching' || questionType === 'Ordering' || questionType === 'Categorize') && (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Scoring
+            </label>
+            <div className="flex flex-col space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="partialCreditPolicy"
+                  checked={formData.partialCredit.policy === 'all_or_nothing'}
+                  onChange={() => setFormData({ ...formData, partialCredit: { ...formData.partialCredit, policy: 'all_or_nothing' } })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span>All or nothing - credit only when every part is correct</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="partialCreditPolicy"
+                  checked={formData.partialCredit.policy === 'per_part'}
+                  onChange={() => setFormData({ ...formData, partialCredit: { ...formData.partialCredit, policy: 'per_part' } })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span>
+                  {questionType === 'Ordering'
+                    ? 'Partial credit - each step in the longest run kept in the correct order earns its share'
+                    : `Partial credit - each correct ${questionType === 'Matching' ? 'pair' : questionType === 'FillInBlank' ? 'blank' : questionType === 'Categorize' ? 'item' : 'pick'} earns its share`}
+                </span>
+              </label>
+            </div>
+            {questionType === 'MultipleSelect' && formData.partialCredit.policy === 'per_part' && (
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">
+                  Penalty per wrong pick (share of full credit)
+                </label>
+                <select
+                  value={formData.partialCredit.wrongPickPenalty || 0}
+                  onChange={(e) => setFormData({ ...formData, partialCredit: { ...formData.partialCredit, wrongPickPenalty: parseFloat(e.target.value) } })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value={0}>No penalty</option>
+                  <option value={0.25}>25%</option>
+                  <option value={0.5}>50%</option>
+                  <option value={1}>100%</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
         {(questionType === 'ShortAnswer' || questionType === 'Essay') && (
           <div className="space-y-4">
             <div>
@@ -1039,8 +1842,9 @@ const QuestionForm: React.FC<QuestionFormProps> = ({
                 height="250px"
               />
               <p className="mt-2 text-sm text-gray-500">
-                Tip: Use the toolbar to add images, videos, audio, and format your question text.
+                Tip: Use the toolbar to add images, videos, audio and math (∑), and format your question text.
               </p>
+              <MathPreview html={formData.questionText} />
             </div>
 
             <div>
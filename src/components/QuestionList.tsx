@@ -1,12 +1,20 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Question, Grade } from '../types';
-import { adminAPI, gradesAPI } from '../services/api';
-import { Edit, Trash2, AlertTriangle, Filter, ChevronLeft, ChevronRight, List, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets, Search, X } from 'lucide-react';
+import { Question, Grade, DifficultyHistoryEntry, ItemAnalysisEntry, QuestionStatus, QuestionReviewer } from '../types';
+import { adminAPI, gradesAPI, itemBankAPI } from '../services/api';
+import { Edit, Trash2, AlertTriangle, Filter, ChevronLeft, ChevronRight, List, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets, Hash, Search, X, Check, TrendingUp, History, RefreshCw, MessageSquare, ListOrdered, Crosshair, Boxes } from 'lucide-react';
+import QuestionReviewPanel from './QuestionReviewPanel';
+import { QUESTION_STATUS_LABELS, QUESTION_STATUS_STYLES } from '../utils/questionStatus';
+import { DEFAULT_NUMERIC_SETTINGS, describeNumericKey } from '../utils/numericAnswer';
+import { stepsInCorrectOrder } from '../utils/ordering';
+import { parseHotspotRegions } from '../utils/hotspot';
+import { itemsByCategory } from '../utils/categorize';
+import HotspotImage from './HotspotImage';
 
 interface QuestionListProps {
   questions: Question[];
   onEdit: (question: Question) => Promise<void>;
   onDelete: () => void;
+  onQuestionsUpdated?: () => void; // Reload after in-place changes such as accepted recalibrations
   currentPage: number;
   totalPages: number;
   totalQuestions: number;
@@ -20,6 +28,7 @@ const QuestionList: React.FC<QuestionListProps> = ({
   questions, 
   onEdit, 
   onDelete, 
+  onQuestionsUpdated,
   currentPage, 
   totalPages, 
   totalQuestions, 
@@ -42,9 +51,109 @@ const QuestionList: React.FC<QuestionListProps> = ({
   const [filterQuestionType, setFilterQuestionType] = useState<string[]>([]);
   const [filterDokLevel, setFilterDokLevel] = useState<number | 'all'>('all');
   const [filterDifficulty, setFilterDifficulty] = useState<string | 'all'>('all'); // 'all' or difficulty range like '100-150'
+  const [filterStatus, setFilterStatus] = useState<QuestionStatus | 'all'>('all');
   
   // Check if filters are active
-  const hasActiveFilters = searchTerm || filterQuestionType.length > 0 || filterDokLevel !== 'all' || filterDifficulty !== 'all';
+  const hasActiveFilters = searchTerm || filterQuestionType.length > 0 || filterDokLevel !== 'all' || filterDifficulty !== 'all' || filterStatus !== 'all';
+
+  // Editorial workflow
+  const [reviewQuestionId, setReviewQuestionId] = useState<number | null>(null);
+  const [reviewers, setReviewers] = useState<QuestionReviewer[]>([]);
+
+  useEffect(() => {
+    adminAPI.getQuestionReviewers()
+      .then(setReviewers)
+      .catch(error => {
+        console.error('Failed to fetch reviewers:', error);
+        setReviewers([]);
+      });
+  }, []);
+
+  // Empirical difficulty calibration
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null);
+  const [reviewingProposal, setReviewingProposal] = useState<number | null>(null);
+  const [historyQuestionId, setHistoryQuestionId] = useState<number | null>(null);
+  const [difficultyHistory, setDifficultyHistory] = useState<DifficultyHistoryEntry[]>([]);
+
+  // Classical item statistics for the subject, keyed by question ID
+  const [itemStats, setItemStats] = useState<Record<number, ItemAnalysisEntry>>({});
+
+  useEffect(() => {
+    if (!subjectId) {
+      setItemStats({});
+      return;
+    }
+    itemBankAPI.getItemAnalysis({ subjectId })
+      .then(report => {
+        const byQuestion: Record<number, ItemAnalysisEntry> = {};
+        report.items.forEach(item => {
+          byQuestion[item.questionId] = item;
+        });
+        setItemStats(byQuestion);
+      })
+      .catch(error => {
+        console.error('Failed to fetch item statistics:', error);
+        setItemStats({});
+      });
+  }, [subjectId]);
+
+  const refreshQuestions = () => {
+    onQuestionsUpdated?.();
+    if (hasActiveFilters) {
+      fetchAllQuestions();
+    }
+  };
+
+  const handleRunCalibration = async () => {
+    if (!subjectId) return;
+    setCalibrating(true);
+    setCalibrationMessage(null);
+    try {
+      const result = await itemBankAPI.runCalibration({ subjectId });
+      setCalibrationMessage(
+        `${result.itemsCalibrated} item${result.itemsCalibrated === 1 ? '' : 's'} calibrated, ` +
+        `${result.proposalsCreated} difficulty change${result.proposalsCreated === 1 ? '' : 's'} proposed`
+      );
+      refreshQuestions();
+    } catch (error) {
+      console.error('Failed to run calibration:', error);
+      setCalibrationMessage('Failed to run calibration');
+    } finally {
+      setCalibrating(false);
+    }
+  };
+
+  const handleReviewProposal = async (proposalId: number, accept: boolean) => {
+    setReviewingProposal(proposalId);
+    try {
+      if (accept) {
+        await itemBankAPI.acceptCalibrationProposal(proposalId);
+      } else {
+        await itemBankAPI.dismissCalibrationProposal(proposalId);
+      }
+      setHistoryQuestionId(null);
+      refreshQuestions();
+    } catch (error) {
+      console.error('Failed to review calibration proposal:', error);
+    } finally {
+      setReviewingProposal(null);
+    }
+  };
+
+  const toggleDifficultyHistory = async (questionId: number) => {
+    if (historyQuestionId === questionId) {
+      setHistoryQuestionId(null);
+      return;
+    }
+    try {
+      const { history } = await itemBankAPI.getDifficultyHistory(questionId);
+      setDifficultyHistory(history);
+      setHistoryQuestionId(questionId);
+    } catch (error) {
+      console.error('Failed to fetch difficulty history:', error);
+    }
+  };
 
   const handleDelete = async (questionId: number) => {
     setDeleting(true);
@@ -79,6 +188,10 @@ const QuestionList: React.FC<QuestionListProps> = ({
     if (type === 'FillInBlank') return 'bg-pink-100 text-pink-800';
     if (type === 'TrueFalse') return 'bg-cyan-100 text-cyan-800';
     if (type === 'Matching') return 'bg-teal-100 text-teal-800';
+    if (type === 'NumericEntry') return 'bg-lime-100 text-lime-800';
+    if (type === 'Ordering') return 'bg-sky-100 text-sky-800';
+    if (type === 'Hotspot') return 'bg-amber-100 text-amber-800';
+    if (type === 'Categorize') return 'bg-rose-100 text-rose-800';
     return 'bg-gray-100 text-gray-800';
   };
 
@@ -90,6 +203,10 @@ const QuestionList: React.FC<QuestionListProps> = ({
     if (type === 'FillInBlank') return 'Fill in Blanks';
     if (type === 'TrueFalse') return 'True/False';
     if (type === 'Matching') return 'Matching';
+    if (type === 'NumericEntry') return 'Numeric Entry';
+    if (type === 'Ordering') return 'Ordering';
+    if (type === 'Hotspot') return 'Hotspot';
+    if (type === 'Categorize') return 'Categorize';
     return type;
   };
 
@@ -136,7 +253,7 @@ const QuestionList: React.FC<QuestionListProps> = ({
       setAllQuestions([]);
       setClientSidePage(1);
     }
-  }, [hasActiveFilters, subjectId, selectedGrade, searchTerm, filterQuestionType, filterDokLevel, filterDifficulty]);
+  }, [hasActiveFilters, subjectId, selectedGrade, searchTerm, filterQuestionType, filterDokLevel, filterDifficulty, filterStatus]);
 
   // Filter questions based on selected filters
   // Use allQuestions when filters are active, otherwise use questions (current page)
@@ -239,6 +356,11 @@ const QuestionList: React.FC<QuestionListProps> = ({
       }
     }
 
+    // Editorial Status Filter
+    if (filterStatus !== 'all' && question.status !== filterStatus) {
+      return false;
+    }
+
     return true;
   });
 
@@ -291,6 +413,17 @@ const QuestionList: React.FC<QuestionListProps> = ({
             )}
           </h3>
           <div className="flex items-center space-x-3">
+            {subjectId && (
+              <button
+                onClick={handleRunCalibration}
+                disabled={calibrating}
+                title="Refit item difficulties from student responses"
+                className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 ${calibrating ? 'animate-spin' : ''}`} />
+                <span>{calibrating ? 'Calibrating...' : 'Recalibrate Difficulty'}</span>
+              </button>
+            )}
             <div className="flex items-center space-x-2">
               <Filter className="h-4 w-4 text-gray-500" />
               <span className="text-sm text-gray-600">Filter by Grade:</span>
@@ -312,6 +445,15 @@ const QuestionList: React.FC<QuestionListProps> = ({
           </div>
         </div>
 
+        {calibrationMessage && (
+          <div className="mb-4 flex items-center justify-between px-3 py-2 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+            <span>{calibrationMessage}</span>
+            <button onClick={() => setCalibrationMessage(null)} className="text-blue-600 hover:text-blue-800">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
         {/* Search Bar */}
         <div className="mb-4">
           <div className="flex items-center space-x-2 mb-2">
@@ -368,7 +510,11 @@ const QuestionList: React.FC<QuestionListProps> = ({
                   { value: 'Essay', label: 'Essay', icon: FileText },
                   { value: 'Matching', label: 'Matching', icon: ArrowLeftRight },
                   { value: 'FillInBlank', label: 'Fill in Blank', icon: Droplets },
-                  { value: 'MultipleSelect', label: 'Multiple Select', icon: List }
+                  { value: 'MultipleSelect', label: 'Multiple Select', icon: List },
+                  { value: 'NumericEntry', label: 'Numeric Entry', icon: Hash },
+                  { value: 'Ordering', label: 'Ordering', icon: ListOrdered },
+                  { value: 'Hotspot', label: 'Hotspot', icon: Crosshair },
+                  { value: 'Categorize', label: 'Categorize', icon: Boxes }
                 ].map((type) => {
                   const Icon = type.icon;
                   const isSelected = filterQuestionType.includes(type.value);
@@ -399,8 +545,8 @@ const QuestionList: React.FC<QuestionListProps> = ({
               </div>
             </div>
 
-            {/* DOK Level and Difficulty Level Filters - Side by side */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* DOK Level, Difficulty Level and Status Filters - Side by side */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* DOK Level Filter */}
               <div>
                 <label className="block text-xs font-medium text-gray-700 mb-2">
@@ -437,11 +583,28 @@ const QuestionList: React.FC<QuestionListProps> = ({
                   <option value="301-350">301-350</option>
                 </select>
               </div>
+
+              {/* Editorial Status Filter */}
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-2">
+                  Status
+                </label>
+                <select
+                  value={filterStatus}
+                  onChange={(e) => setFilterStatus(e.target.value as QuestionStatus | 'all')}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All Statuses</option>
+                  {(Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[]).map(status => (
+                    <option key={status} value={status}>{QUESTION_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </div>
 
           {/* Clear Filters Button */}
-          {(searchTerm || filterQuestionType.length > 0 || filterDokLevel !== 'all' || filterDifficulty !== 'all') && (
+          {hasActiveFilters && (
             <div className="pt-2 border-t border-gray-200">
               <button
                 type="button"
@@ -450,6 +613,7 @@ const QuestionList: React.FC<QuestionListProps> = ({
                   setFilterQuestionType([]);
                   setFilterDokLevel('all');
                   setFilterDifficulty('all');
+                  setFilterStatus('all');
                 }}
                 className="text-xs text-blue-600 hover:text-blue-700 font-medium"
               >
@@ -489,6 +653,7 @@ const QuestionList: React.FC<QuestionListProps> = ({
                     setFilterQuestionType([]);
                     setFilterDokLevel('all');
                     setFilterDifficulty('all');
+                    setFilterStatus('all');
                     if (selectedGrade) {
                       onGradeChange(null);
                     }
@@ -514,9 +679,52 @@ const QuestionList: React.FC<QuestionListProps> = ({
                     <span className="text-sm font-medium text-gray-500">
                       Question #{originalIndex + 1}
                     </span>
+                    {question.status && (
+                      <button
+                        onClick={() => setReviewQuestionId(reviewQuestionId === question.id ? null : question.id)}
+                        className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${QUESTION_STATUS_STYLES[question.status]}`}
+                        title={question.reviewerUsername ? `Reviewer: ${question.reviewerUsername}` : 'Editorial review'}
+                      >
+                        <MessageSquare className="h-3 w-3" />
+                        <span>{QUESTION_STATUS_LABELS[question.status]}</span>
+                      </button>
+                    )}
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${getDifficultyColor(question.difficultyLevel)}`}>
                       {question.difficultyLevel}
                     </span>
+                    <button
+                      onClick={() => toggleDifficultyHistory(question.id)}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Difficulty history"
+                    >
+                      <History className="h-4 w-4" />
+                    </button>
+                    {question.calibrationProposal && (
+                      <span className="flex items-center space-x-2 px-3 py-1 rounded-full text-xs font-medium bg-amber-50 text-amber-800 border border-amber-200">
+                        <TrendingUp className="h-3 w-3" />
+                        <span
+                          title={`Fitted from ${question.calibrationProposal.responseCount} responses (SE ±${question.calibrationProposal.standardError})`}
+                        >
+                          Data suggests {question.calibrationProposal.proposedDifficulty}
+                        </span>
+                        <button
+                          onClick={() => handleReviewProposal(question.calibrationProposal!.id, true)}
+                          disabled={reviewingProposal === question.calibrationProposal.id}
+                          className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                          title="Accept proposed difficulty"
+                        >
+                          <Check className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleReviewProposal(question.calibrationProposal!.id, false)}
+                          disabled={reviewingProposal === question.calibrationProposal.id}
+                          className="text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                          title="Keep authored difficulty"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    )}
                     {question.gradeName && (
                       <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                         {question.gradeName}
@@ -534,6 +742,55 @@ const QuestionList: React.FC<QuestionListProps> = ({
                       </span>
                     )}
                   </div>
+                  {itemStats[question.id] && (
+                    <div className="flex items-center flex-wrap gap-2 mb-2 text-xs text-gray-600">
+                      <span>Administered {itemStats[question.id].timesAdministered}×</span>
+                      {itemStats[question.id].pValue !== null && (
+                        <span>· p-value {itemStats[question.id].pValue!.toFixed(2)}</span>
+                      )}
+                      {itemStats[question.id].pointBiserial !== null && (
+                        <span className={itemStats[question.id].pointBiserial! < 0 ? 'text-red-600 font-medium' : ''}>
+                          · point-biserial {itemStats[question.id].pointBiserial!.toFixed(2)}
+                        </span>
+                      )}
+                      {itemStats[question.id].meanResponseTime !== null && (
+                        <span>· avg {Math.round(itemStats[question.id].meanResponseTime!)}s</span>
+                      )}
+                      {itemStats[question.id].flags.map(flag => (
+                        <span key={flag} className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 font-medium">
+                          <AlertTriangle className="h-3 w-3" />
+                          <span>{flag === 'negative_discrimination' ? 'Negative discrimination' : 'Dead distractor'}</span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {reviewQuestionId === question.id && (
+                    <QuestionReviewPanel
+                      questionId={question.id}
+                      reviewers={reviewers}
+                      onStatusChanged={refreshQuestions}
+                    />
+                  )}
+                  {historyQuestionId === question.id && (
+                    <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700">
+                      <p className="font-medium text-gray-900 mb-1">Difficulty history</p>
+                      {difficultyHistory.length === 0 ? (
+                        <p className="text-gray-500">No changes recorded.</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {difficultyHistory.map((entry) => (
+                            <li key={entry.id}>
+                              {new Date(entry.changedAt).toLocaleDateString()}: {entry.oldDifficulty} → {entry.newDifficulty}
+                              {entry.source === 'calibration'
+                                ? ` (calibration, ${entry.responseCount} responses)`
+                                : ' (manual edit)'}
+                              {entry.changedBy && ` by ${entry.changedBy}`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                   <div 
                     className="text-gray-900 font-medium mb-3 prose prose-sm max-w-none"
                     dangerouslySetInnerHTML={{ __html: question.questionText }}
@@ -641,6 +898,47 @@ const QuestionList: React.FC<QuestionListProps> = ({
                         </div>
                       ))}
                     </div>
+                  ) : question.questionType === 'NumericEntry' ? (
+                    /* For NumericEntry, show the key with its tolerance and unit */
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-sm text-green-800">
+                        <span className="font-medium">Correct answer:</span>{' '}
+                        {describeNumericKey(question.correctAnswer, { ...DEFAULT_NUMERIC_SETTINGS, ...question.questionMetadata?.numeric })}
+                      </p>
+                    </div>
+                  ) : question.questionType === 'Hotspot' && question.questionMetadata?.hotspot?.imageUrl ? (
+                    /* For Hotspot, show the image with the correct regions */
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-sm font-medium text-green-800 mb-2">Correct regions:</p>
+                      <HotspotImage
+                        imageUrl={question.questionMetadata.hotspot.imageUrl}
+                        imageAlt={question.questionMetadata.hotspot.imageAlt}
+                        regions={parseHotspotRegions(question.correctAnswer)}
+                        className="max-w-xs"
+                      />
+                    </div>
+                  ) : question.questionType === 'Categorize' && Array.isArray(question.questionMetadata?.categories) && Array.isArray(question.questionMetadata?.items) ? (
+                    /* For Categorize, show the items under their correct category */
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-sm font-medium text-green-800 mb-1">Correct categories:</p>
+                      <ul className="space-y-0.5 text-sm text-green-800">
+                        {itemsByCategory(question.questionMetadata.categories, question.questionMetadata.items, question.correctAnswer).map(({ category, items }, categoryIdx) => (
+                          <li key={categoryIdx}>
+                            <span className="font-medium">{category}:</span> {items.length > 0 ? items.join(', ') : '(none)'}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : question.questionType === 'Ordering' && Array.isArray(question.questionMetadata?.items) ? (
+                    /* For Ordering, show the steps in their correct order */
+                    <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <p className="text-sm font-medium text-green-800 mb-1">Correct order:</p>
+                      <ol className="list-decimal list-inside space-y-0.5 text-sm text-green-800">
+                        {stepsInCorrectOrder(question.questionMetadata.items, question.correctAnswer).map((step, stepIdx) => (
+                          <li key={stepIdx}>{step}</li>
+                        ))}
+                      </ol>
+                    </div>
                   ) : (question.questionType === 'ShortAnswer' || question.questionType === 'Essay') ? (
                     /* For ShortAnswer and Essay, show note about automatic grading */
                     <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, Send, UserCheck } from 'lucide-react';
+import { adminAPI } from '../services/api';
+import { QuestionStatus, QuestionReviewTrail, QuestionReviewer } from '../types';
+import { QUESTION_STATUS_LABELS } from '../utils/questionStatus';
+
+interface QuestionReviewPanelProps {
+  questionId: number;
+  reviewers: QuestionReviewer[];
+  onStatusChanged: () => void; // Called after a transition or reviewer change so the list can reload
+}
+
+// Workflow actions offered for each status (mirrors STATUS_TRANSITIONS on the server)
+const STATUS_ACTIONS: Record<QuestionStatus, Array<{ to: QuestionStatus; label: string; style: string }>> = {
+  draft: [{ to: 'review', label: 'Submit for Review', style: 'bg-blue-600 text-white hover:bg-blue-700' }],
+  review: [
+    { to: 'approved', label: 'Approve', style: 'bg-green-600 text-white hover:bg-green-700' },
+    { to: 'draft', label: 'Return to Draft', style: 'border border-gray-300 text-gray-700 hover:bg-gray-50' }
+  ],
+  approved: [{ to: 'retired', label: 'Retire', style: 'border border-gray-300 text-gray-700 hover:bg-gray-50' }],
+  retired: [{ to: 'approved', label: 'Reinstate', style: 'border border-gray-300 text-gray-700 hover:bg-gray-50' }]
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { response?: { data?: { error?: string } } }).response?.data?.error || fallback;
+
+const QuestionReviewPanel: React.FC<QuestionReviewPanelProps> = ({ questionId, reviewers, onStatusChanged }) => {
+  const [trail, setTrail] = useState<QuestionReviewTrail | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadTrail = async () => {
+      try {
+        const response = await adminAPI.getQuestionReviews(questionId);
+        setTrail(response);
+      } catch (err) {
+        console.error('Failed to fetch question reviews:', err);
+        setError('Failed to load review history');
+      }
+    };
+    loadTrail();
+  }, [questionId, reloadKey]);
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string, statusChanged: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      setComment('');
+      setReloadKey(key => key + 1);
+      if (statusChanged) {
+        onStatusChanged();
+      }
+    } catch (err) {
+      console.error(fallback, err);
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTransition = (status: QuestionStatus) =>
+    runAction(() => adminAPI.updateQuestionStatus(questionId, status, comment.trim() || undefined), 'Failed to update status', true);
+
+  const handleComment = () =>
+    runAction(() => adminAPI.addQuestionReviewComment(questionId, comment.trim()), 'Failed to add comment', false);
+
+  const handleReviewerChange = (reviewerId: number | null) =>
+    runAction(() => adminAPI.assignQuestionReviewer(questionId, reviewerId), 'Failed to assign reviewer', true);
+
+  if (!trail) {
+    return (
+      <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs">
+        {error ? <p className="text-red-600">{error}</p> : <div className="animate-pulse h-10 bg-gray-100 rounded"></div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-700 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <p className="font-medium text-gray-900 flex items-center space-x-1">
+          <MessageSquare className="h-3.5 w-3.5" />
+          <span>Editorial review</span>
+        </p>
+        <label className="flex items-center space-x-2">
+          <UserCheck className="h-3.5 w-3.5 text-gray-500" />
+          <span>Reviewer</span>
+          <select
+            value={trail.reviewerId || ''}
+            onChange={(e) => handleReviewerChange(e.target.value ? Number(e.target.value) : null)}
+            disabled={saving}
+            className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any admin</option>
+            {reviewers.map(reviewer => (
+              <option key={reviewer.id} value={reviewer.id}>{reviewer.username}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {trail.entries.length === 0 ? (
+        <p className="text-gray-500">No review activity yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {trail.entries.map(entry => (
+            <li key={entry.id}>
+              <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+              {' '}<span className="font-medium text-gray-900">{entry.username || 'Unknown'}</span>
+              {entry.statusTo && (
+                <span>
+                  {' '}moved {entry.statusFrom ? QUESTION_STATUS_LABELS[entry.statusFrom] : '—'} → {QUESTION_STATUS_LABELS[entry.statusTo]}
+                </span>
+              )}
+              {entry.comment && <span>: {entry.comment}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        rows={2}
+        placeholder={trail.status === 'review' ? 'Review notes (required when returning to draft)' : 'Add a comment'}
+        className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <div className="flex items-center flex-wrap gap-2">
+        {STATUS_ACTIONS[trail.status].map(action => (
+          <button
+            key={action.to}
+            type="button"
+            onClick={() => handleTransition(action.to)}
+            disabled={saving}
+            className={`px-3 py-1 rounded-md text-xs font-medium disabled:opacity-50 ${action.style}`}
+          >
+            {action.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={handleComment}
+          disabled={saving || !comment.trim()}
+          className="flex items-center space-x-1 px-3 py-1 rounded-md text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          <Send className="h-3.5 w-3.5" />
+          <span>Comment</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionReviewPanel;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { History, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { adminAPI } from '../services/api';
+import { QuestionVersion } from '../types';
+
+interface QuestionVersionHistoryProps {
+  questionId: number;
+  onRestored: () => void; // Called after a rollback so the parent can reload the question
+}
+
+// Strip HTML so stems can be compared as text
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const describeCorrectAnswer = (version: QuestionVersion) => {
+  if (version.questionType === 'MCQ' || version.questionType === 'TrueFalse') {
+    if (version.correctOptionIndex === null) return '—';
+    const option = version.options[version.correctOptionIndex];
+    return `${String.fromCharCode(65 + version.correctOptionIndex)}${option ? `. ${toPlainText(option)}` : ''}`;
+  }
+  return version.correctAnswer || '—';
+};
+
+// Fields shown in the diff, each rendered as comparable text
+const DIFF_FIELDS: Array<{ label: string; value: (version: QuestionVersion) => string }> = [
+  { label: 'Question Text', value: version => toPlainText(version.questionText) },
+  { label: 'Question Type', value: version => version.questionType },
+  { label: 'Options', value: version => version.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${toPlainText(option)}`).join('\n') },
+  { label: 'Correct Answer', value: describeCorrectAnswer },
+  { label: 'Answer Structure', value: version => (version.questionMetadata ? JSON.stringify(version.questionMetadata, null, 1) : '—') },
+  { label: 'Difficulty', value: version => String(version.difficultyLevel) },
+  { label: 'DOK Level', value: version => (version.dokLevel ? String(version.dokLevel) : '—') },
+  { label: 'Standard', value: version => version.standard || '—' },
+  { label: 'Content Focus', value: version => version.contentFocus || '—' }
+];
+
+const CHANGE_LABELS: Record<QuestionVersion['changeType'], string> = {
+  created: 'Created',
+  edited: 'Edited',
+  rollback: 'Restored'
+};
+
+const QuestionVersionHistory: React.FC<QuestionVersionHistoryProps> = ({ questionId, onRestored }) => {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<QuestionVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<number | null>(null);
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadVersions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await adminAPI.getQuestionVersions(questionId);
+        setVersions(response.versions);
+        setCurrentVersionId(response.currentVersionId);
+      } catch (err) {
+        console.error('Failed to fetch question versions:', err);
+        setError('Failed to load version history');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadVersions();
+  }, [open, questionId]);
+
+  const currentVersion = versions.find(version => version.id === currentVersionId) || versions[0];
+  const selectedVersion = versions.find(version => version.id === selectedVersionId);
+
+  const handleRestore = async (version: QuestionVersion) => {
+    if (!window.confirm(`Restore version ${version.versionNumber}? The current content is kept in the history.`)) {
+      return;
+    }
+    setRestoring(true);
+    setError(null);
+    try {
+      await adminAPI.rollbackQuestionVersion(questionId, version.id);
+      onRestored();
+    } catch (err) {
+      console.error('Failed to restore question version:', err);
+      setError('Failed to restore this version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50"
+      >
+        <span className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+          <History className="h-4 w-4 text-gray-500" />
+          <span>Version History</span>
+          {currentVersion && <span className="text-xs text-gray-500">(current: version {currentVersion.versionNumber})</span>}
+        </span>
+        {open ? <ChevronDown className="h-4 w-4 text-gray-500" /> : <ChevronRight className="h-4 w-4 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200 p-4 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading ? (
+            <div className="animate-pulse h-16 bg-gray-100 rounded"></div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500">No versions recorded for this question yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {versions.map(version => (
+                <li key={version.id} className="py-2 flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedVersionId(selectedVersionId === version.id ? null : version.id)}
+                    disabled={version.id === currentVersion?.id}
+                    className="text-left disabled:cursor-default"
+                  >
+                    <span className={`font-medium ${selectedVersionId === version.id ? 'text-blue-700' : 'text-gray-900'}`}>
+                      Version {version.versionNumber}
+                    </span>
+                    <span className="text-gray-500">
+                      {' '}· {CHANGE_LABELS[version.changeType]}
+                      {version.restoredFromVersion && ` from version ${version.restoredFromVersion}`}
+                      {version.createdByUsername && ` by ${version.createdByUsername}`}
+                      {' '}· {new Date(version.createdAt).toLocaleString()}
+                      {' '}· {version.responseCount} response{version.responseCount === 1 ? '' : 's'}
+                    </span>
+                  </button>
+                  {version.id === currentVersion?.id ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Current</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(version)}
+                      disabled={restoring}
+                      className="flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selectedVersion && currentVersion && (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="grid grid-cols-[10rem_1fr_1fr] bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <div className="px-3 py-2">Field</div>
+                <div className="px-3 py-2">Version {selectedVersion.versionNumber}</div>
+                <div className="px-3 py-2">Current (version {currentVersion.versionNumber})</div>
+              </div>
+              {DIFF_FIELDS.map(field => {
+                const before = field.value(selectedVersion);
+                const after = field.value(currentVersion);
+                const changed = before !== after;
+                return (
+                  <div key={field.label} className="grid grid-cols-[10rem_1fr_1fr] border-t border-gray-100 text-sm">
+                    <div className="px-3 py-2 font-medium text-gray-700">{field.label}</div>
+                    <div className={`px-3 py-2 whitespace-pre-wrap break-words ${changed ? 'bg-red-50 text-red-800' : 'text-gray-600'}`}>{before}</div>
+                    <div className={`px-3 py-2 whitespace-pre-wrap break-words ${changed ? 'bg-green-50 text-green-800' : 'text-gray-600'}`}>{after}</div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionVersionHistory;
@@ -0,0 +1,61 @@
+import React, { useState, useEffect } from 'react';
+import { Volume2, Square } from 'lucide-react';
+
+interface ReadAloudButtonProps {
+  text: string; // Question stem (may contain HTML)
+  options?: string[]; // Answer choices read after the stem
+}
+
+// Strip HTML so the speech engine does not read out markup
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Text-to-speech accommodation: reads the current question (and its choices) using the browser's speech engine
+const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ text, options = [] }) => {
+  const [speaking, setSpeaking] = useState(false);
+  const supported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  // Stop reading when the question changes or the page is left
+  useEffect(() => {
+    return () => {
+      if (supported) {
+        window.speechSynthesis.cancel();
+      }
+    };
+  }, [text, supported]);
+
+  if (!supported) {
+    return null;
+  }
+
+  const handleClick = () => {
+    if (speaking) {
+      window.speechSynthesis.cancel();
+      setSpeaking(false);
+      return;
+    }
+
+    const choices = options.map((option, index) => `Option ${String.fromCharCode(65 + index)}. ${toPlainText(option)}`);
+    const utterance = new SpeechSynthesisUtterance([toPlainText(text), ...choices].join('. '));
+    utterance.lang = document.documentElement.lang || 'en-US';
+    utterance.onend = () => setSpeaking(false);
+    utterance.onerror = () => setSpeaking(false);
+
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+    setSpeaking(true);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="inline-flex items-center space-x-2 px-3 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+      aria-label={speaking ? 'Stop reading' : 'Read question aloud'}
+    >
+      {speaking ? <Square className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+      <span>{speaking ? 'Stop' : 'Read Aloud'}</span>
+    </button>
+  );
+};
+
+export default ReadAloudButton;
@@ -1,8 +1,9 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import ReactQuill, { Quill } from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
 import { adminAPI } from '../services/api';
 import { Image, Video, Music } from 'lucide-react';
+import { checkTex, renderTex } from '../utils/math';
 
 interface RichTextEditorProps {
   value: string;
@@ -134,6 +135,10 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   height = '300px'
 }) => {
   const quillRef = useRef<ReactQuill>(null);
+  const mathInsertIndex = useRef(0);
+  const [mathOpen, setMathOpen] = useState(false);
+  const [mathTex, setMathTex] = useState('');
+  const [mathDisplay, setMathDisplay] = useState(false);
 
   useEffect(() => {
     if (quillRef.current) {
@@ -141,7 +146,31 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     }
   }, []);
 
-  const modules = {
+  // Remember where the cursor was, since focus moves to the math panel
+  const mathHandler = useCallback(() => {
+    const quill = quillRef.current?.getEditor();
+    mathInsertIndex.current = quill?.getSelection(true)?.index ?? quill?.getLength() ?? 0;
+    setMathTex('');
+    setMathDisplay(false);
+    setMathOpen(true);
+  }, []);
+
+  // Math is stored as LaTeX between delimiters and rendered with KaTeX wherever the question is shown
+  const insertMath = () => {
+    const quill = quillRef.current?.getEditor();
+    const tex = mathTex.trim();
+    if (quill && tex) {
+      const source = mathDisplay ? `\\[${tex}\\]` : `\\(${tex}\\)`;
+      quill.insertText(mathInsertIndex.current, source, 'user');
+      quill.setSelection(mathInsertIndex.current + source.length, 0);
+    }
+    setMathOpen(false);
+  };
+
+  const mathError = mathTex.trim() ? checkTex(mathTex) : null;
+
+  // Memoized so ReactQuill does not rebuild the editor when the math panel re-renders
+  const modules = useMemo(() => ({
     toolbar: {
       container: [
         [{ 'header': [1, 2, 3, 4, 5, 6, false] }],
@@ -151,19 +180,20 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         [{ 'list': 'ordered'}, { 'list': 'bullet' }, { 'indent': '-1'}, { 'indent': '+1' }],
         [{ 'color': [] }, { 'background': [] }],
         [{ 'align': [] }],
-        ['link', 'image', 'video', 'audio'],
+        ['link', 'image', 'video', 'audio', 'math'],
         ['clean']
       ],
       handlers: {
         image: imageHandler,
         video: videoHandler,
-        audio: audioHandler
+        audio: audioHandler,
+        math: mathHandler
       }
     },
     clipboard: {
       matchVisual: false
     }
-  };
+  }), [mathHandler]);
 
   const formats = [
     'header', 'font', 'size',
@@ -174,7 +204,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
   ];
 
   return (
-    <div className="rich-text-editor" style={{ height: height }}>
+    <div className="rich-text-editor relative" style={{ height: height }}>
       <ReactQuill
         ref={quillRef}
         theme="snow"
@@ -185,6 +215,71 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         placeholder={placeholder}
         style={{ height: `calc(${height} - 42px)`, marginBottom: '42px' }}
       />
+      {mathOpen && (
+        <div className="absolute right-2 top-11 z-20 w-96 max-w-full rounded-lg border border-gray-200 bg-white p-4 shadow-lg">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-900">Insert math (LaTeX)</span>
+            <div className="flex rounded-md border border-gray-300 text-xs">
+              <button
+                type="button"
+                onClick={() => setMathDisplay(false)}
+                className={`px-2 py-1 rounded-l-md ${!mathDisplay ? 'bg-blue-600 text-white' : 'text-gray-700'}`}
+              >
+                Inline
+              </button>
+              <button
+                type="button"
+                onClick={() => setMathDisplay(true)}
+                className={`px-2 py-1 rounded-r-md ${mathDisplay ? 'bg-blue-600 text-white' : 'text-gray-700'}`}
+              >
+                Display
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={mathTex}
+            onChange={(e) => setMathTex(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                insertMath();
+              } else if (e.key === 'Escape') {
+                setMathOpen(false);
+              }
+            }}
+            rows={3}
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="\frac{a}{b}, x^2, \sqrt{2}"
+          />
+          <div className="mt-2 min-h-[48px] rounded-lg border border-dashed border-gray-300 bg-gray-50 px-3 py-2 overflow-x-auto">
+            {!mathTex.trim() ? (
+              <span className="text-xs text-gray-400">Preview appears here</span>
+            ) : mathError ? (
+              <span className="text-xs text-red-600">{mathError}</span>
+            ) : (
+              <span dangerouslySetInnerHTML={{ __html: renderTex(mathTex, mathDisplay) }} />
+            )}
+          </div>
+          <div className="mt-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setMathOpen(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={insertMath}
+              disabled={!mathTex.trim() || !!mathError}
+              className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Insert
+            </button>
+          </div>
+        </div>
+      )}
       <style>{`
         .rich-text-editor .ql-container {
           font-size: 16px;
@@ -202,6 +297,11 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
           width: 100%;
           margin: 10px 0;
         }
+        .rich-text-editor .ql-toolbar button.ql-math::after {
+          content: '\\2211';
+          font-size: 16px;
+          line-height: 18px;
+        }
       `}</style>
     </div>
   );
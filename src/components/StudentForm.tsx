@@ -1,8 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { studentsAPI, schoolsAPI, gradesAPI } from '../services/api';
-import { School, Grade } from '../types';
+import { School, Grade, Accommodations } from '../types';
 import { Eye, EyeOff } from 'lucide-react';
 
+const DEFAULT_ACCOMMODATIONS: Accommodations = {
+  timeMultiplier: 1,
+  breakMinutes: 0,
+  textToSpeech: false,
+  largeFont: false
+};
+
+const TIME_MULTIPLIER_OPTIONS = [
+  { value: 1, label: 'Standard time' },
+  { value: 1.25, label: 'Time and a quarter (×1.25)' },
+  { value: 1.5, label: 'Time and a half (×1.5)' },
+  { value: 2, label: 'Double time (×2)' }
+];
+
 interface StudentFormProps {
   student?: any | null;
   onClose: () => void;
@@ -24,6 +38,7 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [accommodations, setAccommodations] = useState<Accommodations>(DEFAULT_ACCOMMODATIONS);
 
   const isEditing = !!student;
 
@@ -56,6 +71,7 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
         schoolId: student.school_id || 0,
         gradeId: student.grade_id || 0
       });
+      setAccommodations(student.accommodations || DEFAULT_ACCOMMODATIONS);
     } else {
       // Reset form when creating new student
       setFormData({
@@ -66,6 +82,7 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
         schoolId: 0,
         gradeId: 0
       });
+      setAccommodations(DEFAULT_ACCOMMODATIONS);
     }
   }, [student]);
 
@@ -80,7 +97,8 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
           firstName: formData.firstName,
           lastName: formData.lastName,
           schoolId: formData.schoolId,
-          gradeId: formData.gradeId
+          gradeId: formData.gradeId,
+          accommodations
         };
         
         if (formData.password) {
@@ -90,7 +108,7 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
         await studentsAPI.update(student.id, updateData);
         onStudentUpdated();
       } else {
-        await studentsAPI.create(formData);
+        await studentsAPI.create({ ...formData, accommodations });
         onStudentCreated();
       }
       onClose();
@@ -248,6 +266,65 @@ const StudentForm: React.FC<StudentFormProps> = ({ student, onClose, onStudentCr
             </select>
           </div>
 
+          <fieldset className="border border-gray-200 rounded-md p-4 space-y-3">
+            <legend className="text-sm font-medium text-gray-700 px-1">Testing Accommodations</legend>
+
+            <div>
+              <label htmlFor="timeMultiplier" className="block text-sm text-gray-700 mb-1">
+                Extended time
+              </label>
+              <select
+                id="timeMultiplier"
+                value={accommodations.timeMultiplier}
+                onChange={(e) => setAccommodations(prev => ({ ...prev, timeMultiplier: parseFloat(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {!TIME_MULTIPLIER_OPTIONS.some(option => option.value === accommodations.timeMultiplier) && (
+                  <option value={accommodations.timeMultiplier}>×{accommodations.timeMultiplier}</option>
+                )}
+                {TIME_MULTIPLIER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="breakMinutes" className="block text-sm text-gray-700 mb-1">
+                Extra break allowance (minutes)
+              </label>
+              <input
+                type="number"
+                id="breakMinutes"
+                min={0}
+                max={120}
+                value={accommodations.breakMinutes}
+                onChange={(e) => setAccommodations(prev => ({ ...prev, breakMinutes: parseInt(e.target.value) || 0 }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Added to the pause time allowed by the grade/subject configuration</p>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={accommodations.textToSpeech}
+                onChange={(e) => setAccommodations(prev => ({ ...prev, textToSpeech: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Text-to-speech (read questions aloud)</span>
+            </label>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={accommodations.largeFont}
+                onChange={(e) => setAccommodations(prev => ({ ...prev, largeFont: e.target.checked }))}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              <span>Larger fonts</span>
+            </label>
+          </fieldset>
+
           {error && (
             <div className="text-red-600 text-sm bg-red-50 p-3 rounded-md">
               {error}
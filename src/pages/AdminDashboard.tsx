@@ -18,11 +18,19 @@ import SubjectPerformanceDashboard from '../components/SubjectPerformanceDashboa
 import CompetencyMasteryDashboard from '../components/CompetencyMasteryDashboard';
 import CompetencyForm from '../components/CompetencyForm';
 import CompetencyAnalytics from '../components/CompetencyAnalytics';
+import ItemExposureReport from '../components/ItemExposureReport';
+import ItemAnalysisReport from '../components/ItemAnalysisReport';
+import DifAnalysisDashboard from '../components/DifAnalysisDashboard';
+import DuplicateQuestionsReport from '../components/DuplicateQuestionsReport';
 import CSVImportModal from '../components/CSVImportModal';
 import QuestionCSVImportModal from '../components/QuestionCSVImportModal';
+import QuestionBankImportModal from '../components/QuestionBankImportModal';
+import QuestionBankExportModal from '../components/QuestionBankExportModal';
 import SSOSettings from '../components/SSOSettings';
 import SaudiArabiaMap from '../components/SaudiArabiaMap';
-import { Plus, BookOpen, Users, FileQuestion, BarChart3, TrendingUp, User, Settings, Building, GraduationCap, Clock, Target, Brain, Upload, Database, Activity, Zap, Key, FileText, ChevronDown, ChevronRight, AlertTriangle, ArrowDownRight, Trophy, Medal } from 'lucide-react';
+import { parseQtiPackage } from '../utils/qti';
+import { parseMoodleFile } from '../utils/moodle';
+import { Plus, BookOpen, Users, FileQuestion, BarChart3, TrendingUp, User, Settings, Building, GraduationCap, Clock, Target, Brain, Upload, Database, Activity, Zap, Key, FileText, Eye, ChevronDown, ChevronRight, AlertTriangle, ArrowDownRight, Trophy, Medal, Scale, Copy, Package, Download } from 'lucide-react';
 
 const AdminDashboard: React.FC = () => {
   const location = useLocation();
@@ -52,7 +60,7 @@ const AdminDashboard: React.FC = () => {
   
   // Growth chart states
   // Default to 'configs' (Assessments) as first tab, or use state from navigation
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'config' | 'reports' | 'students' | 'questions' | 'growth' | 'subjects' | 'schools' | 'grades' | 'configs' | 'competencies' | 'performance' | 'competency-analytics' | 'sso'>(
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'config' | 'reports' | 'students' | 'questions' | 'growth' | 'subjects' | 'schools' | 'grades' | 'configs' | 'competencies' | 'performance' | 'competency-analytics' | 'item-exposure' | 'item-analysis' | 'dif-analysis' | 'duplicates' | 'sso'>(
     (location.state as any)?.activeTab || 'dashboard'
   );
   const [, setStudents] = useState<Array<{id: number, username: string, firstName?: string, lastName?: string}>>([]);
@@ -93,6 +101,9 @@ const AdminDashboard: React.FC = () => {
   // CSV Import states
   const [showCSVImportModal, setShowCSVImportModal] = useState(false);
   const [showQuestionCSVImportModal, setShowQuestionCSVImportModal] = useState(false);
+  const [showQtiImportModal, setShowQtiImportModal] = useState(false);
+  const [showMoodleImportModal, setShowMoodleImportModal] = useState(false);
+  const [showQuestionExportModal, setShowQuestionExportModal] = useState(false);
   const [studentRefreshTrigger, setStudentRefreshTrigger] = useState(0);
 
   // Config dropdown state
@@ -110,7 +121,7 @@ const AdminDashboard: React.FC = () => {
 
   // Auto-expand reports dropdown if one of its children is active
   useEffect(() => {
-    if (['growth', 'performance', 'competency-analytics'].includes(activeTab)) {
+    if (['growth', 'performance', 'competency-analytics', 'item-exposure', 'item-analysis', 'dif-analysis', 'duplicates'].includes(activeTab)) {
       setIsReportsOpen(true);
     }
   }, [activeTab]);
@@ -309,6 +320,13 @@ const AdminDashboard: React.FC = () => {
     loadInitialData();
   };
 
+  // Reload the current page after in-place changes (e.g. accepted difficulty recalibrations)
+  const handleQuestionsUpdated = () => {
+    if (selectedSubject) {
+      loadQuestions(selectedSubject.id, currentPage);
+    }
+  };
+
   // Subjects management functions
   const handleSubjectCreated = (newSubject: Subject) => {
     setSubjects(prev => [...prev, newSubject]);
@@ -530,7 +548,7 @@ const AdminDashboard: React.FC = () => {
               <button
                 onClick={() => setIsReportsOpen(!isReportsOpen)}
                 className={`w-full flex items-center justify-between px-4 py-3 rounded-lg transition-all ${
-                  ['reports', 'growth', 'performance', 'competency-analytics'].includes(activeTab)
+                  ['reports', 'growth', 'performance', 'competency-analytics', 'item-exposure', 'item-analysis', 'dif-analysis', 'duplicates'].includes(activeTab)
                     ? 'bg-blue-50 text-blue-700 border-l-4 border-blue-600 font-semibold'
                     : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
                 }`}
@@ -572,6 +590,54 @@ const AdminDashboard: React.FC = () => {
                     <Brain className="h-4 w-4" />
                     <span className="text-sm font-medium">COMPETENCIES</span>
                   </button>
+
+                  <button
+                    onClick={() => setActiveTab('dif-analysis')}
+                    className={`w-full flex items-center space-x-3 px-4 py-2 rounded-lg transition-all ${
+                      activeTab === 'dif-analysis'
+                        ? 'bg-blue-50 text-blue-700 font-semibold'
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <Scale className="h-4 w-4" />
+                    <span className="text-sm font-medium">ITEM FAIRNESS</span>
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('item-exposure')}
+                    className={`w-full flex items-center space-x-3 px-4 py-2 rounded-lg transition-all ${
+                      activeTab === 'item-exposure'
+                        ? 'bg-blue-50 text-blue-700 font-semibold'
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <Eye className="h-4 w-4" />
+                    <span className="text-sm font-medium">ITEM EXPOSURE</span>
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('item-analysis')}
+                    className={`w-full flex items-center space-x-3 px-4 py-2 rounded-lg transition-all ${
+                      activeTab === 'item-analysis'
+                        ? 'bg-blue-50 text-blue-700 font-semibold'
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <BarChart3 className="h-4 w-4" />
+                    <span className="text-sm font-medium">ITEM ANALYSIS</span>
+                  </button>
+
+                  <button
+                    onClick={() => setActiveTab('duplicates')}
+                    className={`w-full flex items-center space-x-3 px-4 py-2 rounded-lg transition-all ${
+                      activeTab === 'duplicates'
+                        ? 'bg-blue-50 text-blue-700 font-semibold'
+                        : 'text-gray-700 hover:bg-gray-50 hover:text-gray-900'
+                    }`}
+                  >
+                    <Copy className="h-4 w-4" />
+                    <span className="text-sm font-medium">DUPLICATE ITEMS</span>
+                  </button>
                 </div>
               )}
             </div>
@@ -1153,6 +1219,27 @@ const AdminDashboard: React.FC = () => {
                             <Upload className="h-5 w-5" />
                             <span>Import CSV</span>
                           </button>
+                          <button
+                            onClick={() => setShowQtiImportModal(true)}
+                            className="flex items-center space-x-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                          >
+                            <Package className="h-5 w-5" />
+                            <span>Import QTI</span>
+                          </button>
+                          <button
+                            onClick={() => setShowMoodleImportModal(true)}
+                            className="flex items-center space-x-2 bg-orange-500 text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors duration-200"
+                          >
+                            <FileText className="h-5 w-5" />
+                            <span>Import Moodle</span>
+                          </button>
+                          <button
+                            onClick={() => setShowQuestionExportModal(true)}
+                            className="flex items-center space-x-2 bg-white text-gray-700 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                          >
+                            <Download className="h-5 w-5" />
+                            <span>Export</span>
+                          </button>
                           <button
                             onClick={() => setShowQuestionForm(true)}
                             className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors duration-200"
@@ -1182,6 +1269,7 @@ const AdminDashboard: React.FC = () => {
                     questions={questions}
                     onEdit={handleEditQuestion}
                     onDelete={handleQuestionDeleted}
+                    onQuestionsUpdated={handleQuestionsUpdated}
                     currentPage={currentPage}
                     totalPages={totalPages}
                     totalQuestions={totalQuestions}
@@ -1286,6 +1374,47 @@ const AdminDashboard: React.FC = () => {
           </div>
         )}
 
+        {/* Item Fairness (DIF) Tab Content */}
+        {activeTab === 'dif-analysis' && (
+          <div className="space-y-6">
+            <DifAnalysisDashboard
+              grades={grades}
+              subjects={subjects}
+            />
+          </div>
+        )}
+
+        {/* Item Exposure Tab Content */}
+        {activeTab === 'item-exposure' && (
+          <div className="space-y-6">
+            <ItemExposureReport
+              grades={grades}
+              subjects={subjects}
+            />
+          </div>
+        )}
+
+        {/* Item Analysis Tab Content */}
+        {activeTab === 'item-analysis' && (
+          <div className="space-y-6">
+            <ItemAnalysisReport
+              grades={grades}
+              subjects={subjects}
+              schools={schools}
+            />
+          </div>
+        )}
+
+        {/* Duplicate Items Tab Content */}
+        {activeTab === 'duplicates' && (
+          <div className="space-y-6">
+            <DuplicateQuestionsReport
+              grades={grades}
+              subjects={subjects}
+            />
+          </div>
+        )}
+
         {/* SSO Settings Tab Content */}
         {activeTab === 'sso' && (
           <div className="space-y-6">
@@ -1364,6 +1493,46 @@ const AdminDashboard: React.FC = () => {
             loadInitialData(); // Refresh stats
           }}
         />
+
+        {/* QTI Package Import Modal */}
+        {selectedSubject && (
+          <QuestionBankImportModal
+            isOpen={showQtiImportModal}
+            onClose={() => setShowQtiImportModal(false)}
+            onImportComplete={() => {
+              loadQuestions(selectedSubject.id, 1);
+              loadInitialData(); // Refresh stats
+            }}
+            subject={selectedSubject}
+            formatName="QTI Package"
+            accept=".zip"
+            parseFile={parseQtiPackage}
+          />
+        )}
+
+        {/* Moodle XML / GIFT Import Modal */}
+        {selectedSubject && (
+          <QuestionBankImportModal
+            isOpen={showMoodleImportModal}
+            onClose={() => setShowMoodleImportModal(false)}
+            onImportComplete={() => {
+              loadQuestions(selectedSubject.id, 1);
+              loadInitialData(); // Refresh stats
+            }}
+            subject={selectedSubject}
+            formatName="Moodle XML or GIFT file"
+            accept=".xml,.txt,.gift"
+            parseFile={parseMoodleFile}
+          />
+        )}
+
+        {/* Question Bank Export Modal */}
+        <QuestionBankExportModal
+          isOpen={showQuestionExportModal}
+          onClose={() => setShowQuestionExportModal(false)}
+          subjects={subjects}
+          initialSubjectId={selectedSubject?.id}
+        />
           </div>
         </main>
       </div>
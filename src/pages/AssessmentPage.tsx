@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import axios from 'axios';
 import { studentAPI } from '../services/api';
-import { AssessmentQuestion, AssessmentResponse, StartAssessmentResponse } from '../types';
+import { AssessmentQuestion, AssessmentResponse, StartAssessmentResponse, ResumeAssessmentResponse, Accommodations, HotspotPoint, AssessmentErrorResponse } from '../types';
 import Navigation from '../components/Navigation';
+import ReadAloudButton from '../components/ReadAloudButton';
+import { moveListItem } from '../utils/ordering';
+import HotspotImage from '../components/HotspotImage';
+import MathText from '../components/MathText';
+import { hasMath, isInsideMath } from '../utils/math';
 import { 
   Clock, 
   CheckCircle, 
@@ -15,7 +21,12 @@ import {
   Building,
   GraduationCap,
   Zap,
-  List
+  List,
+  Pause,
+  Play,
+  GripVertical,
+  ChevronUp,
+  ChevronDown
 } from 'lucide-react';
 
 const AssessmentPage: React.FC = () => {
@@ -28,9 +39,12 @@ const AssessmentPage: React.FC = () => {
     mode?: 'Standard' | 'Adaptive';
     assessmentId?: number;
     timeLimitMinutes?: number;
+    timeRemainingSeconds?: number | null; // Server-side countdown at the moment the test was started
+    accommodations?: Accommodations; // Accommodations applied by the server when the test was started
     question?: any;
     allQuestions?: any[];
     assignmentName?: string;
+    resumeAssessmentId?: number; // Adaptive assessment to pick up from its saved session
   };
 
   const [currentQuestion, setCurrentQuestion] = useState<AssessmentQuestion | null>(null);
@@ -38,6 +52,14 @@ const AssessmentPage: React.FC = () => {
   const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]); // For MultipleSelect
   const [fillInBlankAnswers, setFillInBlankAnswers] = useState<number[]>([]); // For FillInBlank - array of selected indices for each blank
   const [matchingAnswers, setMatchingAnswers] = useState<number[]>([]); // For Matching - array of selected right indices for each left item
+  const [orderingAnswer, setOrderingAnswer] = useState<number[]>([]); // For Ordering - item indices in the order the student arranged them
+  const [draggedOrderPosition, setDraggedOrderPosition] = useState<number | null>(null);
+  const [orderingAnnouncement, setOrderingAnnouncement] = useState(''); // Read out by screen readers after each move
+  const orderingItemRefs = useRef<Record<number, HTMLLIElement | null>>({});
+  const [hotspotClick, setHotspotClick] = useState<HotspotPoint | null>(null); // For Hotspot - where the student clicked on the image
+  const [categorizeAnswers, setCategorizeAnswers] = useState<Array<number | null>>([]); // For Categorize - category index chosen for each item (null = unsorted)
+  const [draggedCategorizeItem, setDraggedCategorizeItem] = useState<number | null>(null);
+  const [categorizeAnnouncement, setCategorizeAnnouncement] = useState(''); // Read out by screen readers after each move
   const [textAnswer, setTextAnswer] = useState<string>(''); // For ShortAnswer and Essay - text response
   const [wordCount, setWordCount] = useState<number>(0); // For ShortAnswer word count
   const [questionType, setQuestionType] = useState<AssessmentQuestion['questionType'] | null>(null);
@@ -45,7 +67,7 @@ const AssessmentPage: React.FC = () => {
   const [assessmentId, setAssessmentId] = useState<number | null>(state?.assessmentId || null);
   const [loading, setLoading] = useState(!state?.assessmentId); // If assessment already started, don't show loading
   const [submitting, setSubmitting] = useState(false);
-  const [feedback, setFeedback] = useState<{ isCorrect?: boolean; show: boolean }>({ show: false });
+  const [feedback, setFeedback] = useState<{ isCorrect?: boolean; score?: number; show: boolean }>({ show: false });
   const [timeLimit, setTimeLimit] = useState<number>(state?.timeLimitMinutes || 30);
   const [totalQuestions, setTotalQuestions] = useState<number>(10);
   const [currentQuestionNumber, setCurrentQuestionNumber] = useState<number>(1);
@@ -59,11 +81,21 @@ const AssessmentPage: React.FC = () => {
   const [questionDescription, setQuestionDescription] = useState<string>('');
   const [descriptionLoading, setDescriptionLoading] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [pauseAllowanceSeconds, setPauseAllowanceSeconds] = useState<number | null>(null);
+  const [pauseUpdating, setPauseUpdating] = useState(false);
+  const [accommodations, setAccommodations] = useState<Accommodations | null>(state?.accommodations || null);
   const hasStartedRef = useRef(false);
 
   useEffect(() => {
     if (hasStartedRef.current) return;
     hasStartedRef.current = true;
+
+    // Resume an adaptive assessment that is already in progress (dashboard link or page refresh)
+    if (state?.resumeAssessmentId) {
+      resumeAssessment(state.resumeAssessmentId);
+      return;
+    }
     
     // If assignment already started (from dashboard), initialize with provided data
     if (state?.assessmentId && state?.question) {
@@ -103,18 +135,26 @@ const AssessmentPage: React.FC = () => {
       } else {
         setMatchingAnswers([]);
       }
+      // Initialize Ordering arrangement with the steps in the order they are shown
+      setOrderingAnswer(question.questionType === 'Ordering' && state.question.questionMetadata?.items ? state.question.questionMetadata.items.map((_: string, idx: number) => idx) : []);
+      // Initialize Categorize answers with every item unsorted
+      setCategorizeAnswers(question.questionType === 'Categorize' && state.question.questionMetadata?.items ? Array(state.question.questionMetadata.items.length).fill(null) : []);
+      setHotspotClick(null);
       // Initialize text answer for ShortAnswer/Essay
       setTextAnswer('');
       setWordCount(0);
       setIsSubmitted(false);
       setTimeLimit(state.timeLimitMinutes || 30);
-      setTimeRemaining((state.timeLimitMinutes || 30) * 60);
+      setTimeRemaining(state.timeRemainingSeconds ?? (state.timeLimitMinutes || 30) * 60);
       setTotalQuestions(state.question.totalQuestions || state.allQuestions?.length || 10);
       setCurrentQuestionNumber(state.question.questionNumber || 1);
       setMode(state.mode || 'Adaptive');
       setAllQuestions(state.allQuestions || []);
       setAssignmentName(state.assignmentName || '');
       setLoading(false);
+
+      // Progress is saved on the server, so a refresh should resume rather than restart
+      rememberAssessmentForResume(state.assessmentId);
       return;
     }
     
@@ -126,9 +166,20 @@ const AssessmentPage: React.FC = () => {
     initAssessment();
   }, []);
 
+  // Larger-font accommodation: scale every rem-based size on the page while the test is open
+  useEffect(() => {
+    if (!accommodations?.largeFont) return;
+    const root = document.documentElement;
+    const previousFontSize = root.style.fontSize;
+    root.style.fontSize = '125%';
+    return () => {
+      root.style.fontSize = previousFontSize;
+    };
+  }, [accommodations?.largeFont]);
+
   // Countdown timer effect
   useEffect(() => {
-    if (!loading && timeRemaining > 0) {
+    if (!loading && !paused && timeRemaining > 0) {
       const timer = setInterval(() => {
         setTimeRemaining(prev => {
           const newTime = prev - 1;
@@ -159,11 +210,20 @@ const AssessmentPage: React.FC = () => {
                   ans !== null && ans !== undefined && 
                   questionMetadata?.rightItems?.[ans] !== undefined
                 )
-              : questionType === 'ShortAnswer' || questionType === 'Essay'
+              : questionType === 'Ordering'
+              ? orderingAnswer.length > 0
+              : questionType === 'Hotspot'
+              ? hotspotClick !== null
+              : questionType === 'Categorize'
+              ? categorizeAnswers.length > 0 && categorizeAnswers.every(ans => ans !== null)
+              : questionType === 'ShortAnswer' || questionType === 'Essay' || questionType === 'NumericEntry'
               ? textAnswer.trim().length > 0
               : selectedAnswer !== null;
             if (hasAnswer && currentQuestion && assessmentId) {
               submitAnswer();
+            } else if (assessmentId) {
+              // Nothing to submit; ask the server to close the test at its deadline
+              finishExpiredAssessment(assessmentId);
             }
             return 0;
           }
@@ -174,7 +234,7 @@ const AssessmentPage: React.FC = () => {
 
       return () => clearInterval(timer);
     }
-  }, [loading, timeRemaining, selectedAnswer, currentQuestion, assessmentId]);
+  }, [loading, paused, timeRemaining, selectedAnswer, currentQuestion, assessmentId]);
 
   const fetchQuestionDescription = async (questionId: number) => {
     setDescriptionLoading(true);
@@ -191,6 +251,14 @@ const AssessmentPage: React.FC = () => {
     }
   };
 
+  // Replace the history entry so reloading this page resumes the assessment instead of starting a new one
+  const rememberAssessmentForResume = (id: number) => {
+    navigate(location.pathname, {
+      replace: true,
+      state: { subjectId: state?.subjectId, period: state?.period, resumeAssessmentId: id }
+    });
+  };
+
   const startAssessment = async () => {
     try {
       if (!state?.subjectId || !state?.period) {
@@ -202,6 +270,7 @@ const AssessmentPage: React.FC = () => {
         state.period as 'BOY' | 'EOY'
       );
       setAssessmentId(response.assessmentId);
+      rememberAssessmentForResume(response.assessmentId);
       setCurrentQuestion(response.question);
       setQuestionType((response.question.questionType || 'MCQ') as AssessmentQuestion['questionType']);
       setQuestionMetadata(response.question.questionMetadata || null);
@@ -223,6 +292,11 @@ const AssessmentPage: React.FC = () => {
       } else {
         setMatchingAnswers([]);
       }
+      // Initialize Ordering arrangement with the steps in the order they are shown
+      setOrderingAnswer(response.question.questionType === 'Ordering' && response.question.questionMetadata?.items ? response.question.questionMetadata.items.map((_: string, idx: number) => idx) : []);
+      // Initialize Categorize answers with every item unsorted
+      setCategorizeAnswers(response.question.questionType === 'Categorize' && response.question.questionMetadata?.items ? Array(response.question.questionMetadata.items.length).fill(null) : []);
+      setHotspotClick(null);
       // Initialize text answer for ShortAnswer/Essay
       setTextAnswer('');
       setWordCount(0);
@@ -236,8 +310,9 @@ const AssessmentPage: React.FC = () => {
       // Set time limit from backend configuration
       if (response.timeLimitMinutes) {
         setTimeLimit(response.timeLimitMinutes);
-        setTimeRemaining(response.timeLimitMinutes * 60); // Convert to seconds
+        setTimeRemaining(response.timeRemainingSeconds ?? response.timeLimitMinutes * 60); // Convert to seconds
       }
+      setAccommodations(response.accommodations || null);
     } catch (error: any) {
       console.error('Failed to start assessment:', error);
       alert(error.response?.data?.error || 'Failed to start assessment');
@@ -247,6 +322,210 @@ const AssessmentPage: React.FC = () => {
     }
   };
 
+  const resumeAssessment = async (id: number) => {
+    try {
+      const response: ResumeAssessmentResponse = await studentAPI.resumeAssessment(id);
+      setAssessmentId(response.assessmentId);
+      setMode(response.mode);
+      setAssignmentName(response.assignmentName || '');
+      setPaused(response.paused);
+      setAccommodations(response.accommodations || null);
+      if (response.mode === 'Standard' && response.allQuestions) {
+        // Questions before the current one were answered before the interruption
+        setAllQuestions(response.allQuestions);
+        setAnsweredQuestions(new Set(Array.from({ length: response.question.questionNumber - 1 }, (_, i) => i + 1)));
+      }
+      setCurrentQuestion(response.question);
+      setQuestionType((response.question.questionType || 'MCQ') as AssessmentQuestion['questionType']);
+      setQuestionMetadata(response.question.questionMetadata || null);
+      setSelectedAnswer(null);
+      setSelectedAnswers([]);
+      setIsSubmitted(false);
+      setFeedback({ show: false });
+
+      // Fetch question description
+      if (response.question.id) {
+        fetchQuestionDescription(response.question.id);
+      }
+      // Initialize FillInBlank answers array if needed
+      if (response.question.questionType === 'FillInBlank' && response.question.questionMetadata?.blanks) {
+        setFillInBlankAnswers(Array(response.question.questionMetadata.blanks.length).fill(null));
+      } else {
+        setFillInBlankAnswers([]);
+      }
+      // Initialize Matching answers array if needed
+      if (response.question.questionType === 'Matching' && response.question.questionMetadata?.leftItems) {
+        setMatchingAnswers(Array(response.question.questionMetadata.leftItems.length).fill(null));
+      } else {
+        setMatchingAnswers([]);
+      }
+      // Initialize Ordering arrangement with the steps in the order they are shown
+      setOrderingAnswer(response.question.questionType === 'Ordering' && response.question.questionMetadata?.items ? response.question.questionMetadata.items.map((_: string, idx: number) => idx) : []);
+      // Initialize Categorize answers with every item unsorted
+      setCategorizeAnswers(response.question.questionType === 'Categorize' && response.question.questionMetadata?.items ? Array(response.question.questionMetadata.items.length).fill(null) : []);
+      setHotspotClick(null);
+      // Initialize text answer for ShortAnswer/Essay
+      setTextAnswer('');
+      setWordCount(0);
+
+      setTotalQuestions(response.question.totalQuestions);
+      setCurrentQuestionNumber(response.question.questionNumber);
+
+      // Continue the countdown from where the server says it is, not from the full limit
+      setTimeLimit(response.timeLimitMinutes);
+      setTimeRemaining(response.timeRemainingSeconds ?? response.timeLimitMinutes * 60);
+    } catch (error) {
+      console.error('Failed to resume assessment:', error);
+      const data = axios.isAxiosError<AssessmentErrorResponse>(error) ? error.response?.data : undefined;
+      // The deadline passed while the student was away; the server has already closed the test
+      if (data?.code === 'ASSESSMENT_EXPIRED') {
+        await showCompletedAssessment(id, data.ritScore ?? null);
+        return;
+      }
+      alert(data?.error || 'Failed to resume assessment');
+      navigate('/dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Go to the results of a test that ended, or back to the dashboard if nothing was scored
+  const showCompletedAssessment = async (id: number, ritScore: number | null | undefined) => {
+    if (ritScore === null || ritScore === undefined) {
+      alert('Time ran out before any question was answered. You can start this assessment again.');
+      navigate('/dashboard');
+      return;
+    }
+    try {
+      const detailedResults = await studentAPI.getDetailedResults(id);
+      navigate('/results', {
+        state: {
+          ...detailedResults,
+          subjectId: state?.subjectId,
+          period: state?.period,
+          assignmentName: assignmentName || undefined
+        }
+      });
+    } catch (error) {
+      console.error('Failed to fetch detailed results:', error);
+      navigate('/dashboard');
+    }
+  };
+
+  // Stop the clock (fire drill, illness); the test can be continued here or later from the dashboard
+  const pauseAssessment = async () => {
+    if (assessmentId === null) return;
+    setPauseUpdating(true);
+    try {
+      const response = await studentAPI.pauseAssessment(assessmentId);
+      setPaused(true);
+      setPauseAllowanceSeconds(response.pauseAllowanceSeconds ?? null);
+      if (typeof response.timeRemainingSeconds === 'number') {
+        setTimeRemaining(response.timeRemainingSeconds);
+      }
+    } catch (error) {
+      console.error('Failed to pause assessment:', error);
+      const data = axios.isAxiosError<AssessmentErrorResponse>(error) ? error.response?.data : undefined;
+      if (data?.code === 'ASSESSMENT_EXPIRED') {
+        await showCompletedAssessment(assessmentId, data.ritScore ?? null);
+        return;
+      }
+      alert(data?.error || 'Failed to pause assessment');
+    } finally {
+      setPauseUpdating(false);
+    }
+  };
+
+  const continueAssessment = async () => {
+    if (assessmentId === null) return;
+    setPauseUpdating(true);
+    try {
+      const response = await studentAPI.continueAssessment(assessmentId);
+      setPaused(false);
+      setPauseAllowanceSeconds(null);
+      if (typeof response.timeRemainingSeconds === 'number') {
+        setTimeRemaining(response.timeRemainingSeconds);
+      }
+    } catch (error) {
+      console.error('Failed to resume assessment:', error);
+      const data = axios.isAxiosError<AssessmentErrorResponse>(error) ? error.response?.data : undefined;
+      if (data?.code === 'ASSESSMENT_EXPIRED') {
+        await showCompletedAssessment(assessmentId, data.ritScore ?? null);
+        return;
+      }
+      // Already running again (e.g. resumed from another tab)
+      if (data?.code === 'NOT_PAUSED') {
+        setPaused(false);
+        return;
+      }
+      alert(data?.error || 'Failed to resume assessment');
+    } finally {
+      setPauseUpdating(false);
+    }
+  };
+
+  const finishExpiredAssessment = async (id: number) => {
+    try {
+      const response = await studentAPI.finishExpiredAssessment(id);
+      await showCompletedAssessment(id, response.ritScore);
+    } catch (error) {
+      // The local countdown ran ahead of the server; continue with the server's remaining time
+      const data = axios.isAxiosError<AssessmentErrorResponse>(error) ? error.response?.data : undefined;
+      if (data?.code === 'NOT_EXPIRED' && data.timeRemainingSeconds) {
+        setTimeRemaining(data.timeRemainingSeconds);
+        return;
+      }
+      console.error('Failed to finish assessment:', error);
+      navigate('/dashboard');
+    }
+  };
+
+  // Move a step of an Ordering question and keep keyboard focus on it
+  const moveOrderingItem = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= orderingAnswer.length) return;
+    const itemIdx = orderingAnswer[from];
+    setOrderingAnswer(moveListItem(orderingAnswer, from, to));
+    setOrderingAnnouncement(`${questionMetadata?.items?.[itemIdx] ?? 'Step'} moved to position ${to + 1} of ${orderingAnswer.length}`);
+    requestAnimationFrame(() => orderingItemRefs.current[itemIdx]?.focus());
+  };
+
+  // Sort an item of a Categorize question into a category (null puts it back with the unsorted items)
+  const placeCategorizeItem = (itemIdx: number, categoryIdx: number | null) => {
+    setCategorizeAnswers(prev => prev.map((ans, idx) => (idx === itemIdx ? categoryIdx : ans)));
+    const itemName = questionMetadata?.items?.[itemIdx] ?? 'Item';
+    setCategorizeAnnouncement(categoryIdx === null
+      ? `${itemName} moved back to unsorted items`
+      : `${itemName} placed in ${questionMetadata?.categories?.[categoryIdx] ?? 'category'}`);
+  };
+
+  // An item chip of a Categorize question: dragged between buckets, or moved with its category menu from the keyboard
+  const renderCategorizeItem = (itemIdx: number, isDisabled: boolean) => (
+    <div
+      key={itemIdx}
+      draggable={!isDisabled}
+      onDragStart={() => setDraggedCategorizeItem(itemIdx)}
+      onDragEnd={() => setDraggedCategorizeItem(null)}
+      className={`flex items-center space-x-2 px-3 py-2 bg-white border-2 rounded-lg transition-all ${
+        draggedCategorizeItem === itemIdx ? 'border-blue-400 opacity-50' : 'border-gray-200'
+      } ${isDisabled ? 'opacity-60' : 'cursor-move hover:border-blue-300'}`}
+    >
+      <GripVertical className="h-4 w-4 text-gray-400 flex-shrink-0" aria-hidden="true" />
+      <MathText className="text-sm text-gray-900" text={questionMetadata.items[itemIdx]} />
+      <select
+        value={categorizeAnswers[itemIdx] ?? ''}
+        onChange={(e) => placeCategorizeItem(itemIdx, e.target.value === '' ? null : Number(e.target.value))}
+        disabled={isDisabled}
+        aria-label={`Category for ${questionMetadata.items[itemIdx]}`}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Unsorted</option>
+        {questionMetadata.categories.map((category: string, categoryIdx: number) => (
+          <option key={categoryIdx} value={categoryIdx}>{category}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   const submitAnswer = async () => {
     // Validate based on question type
     if (questionType === 'MultipleSelect') {
@@ -269,6 +548,15 @@ const AssessmentPage: React.FC = () => {
           assessmentId === null) {
         return;
       }
+    } else if (questionType === 'NumericEntry') {
+      if (!textAnswer.trim() || !currentQuestion || assessmentId === null) return;
+    } else if (questionType === 'Ordering') {
+      if (orderingAnswer.length === 0 || !currentQuestion || assessmentId === null) return;
+    } else if (questionType === 'Hotspot') {
+      if (hotspotClick === null || !currentQuestion || assessmentId === null) return;
+    } else if (questionType === 'Categorize') {
+      // For Categorize, every item must be sorted into a category
+      if (categorizeAnswers.length === 0 || categorizeAnswers.some(ans => ans === null) || !currentQuestion || assessmentId === null) return;
     } else if (questionType === 'ShortAnswer' || questionType === 'Essay') {
       // For ShortAnswer and Essay, check that text is provided
       if (!textAnswer.trim() || !currentQuestion || assessmentId === null) return;
@@ -283,15 +571,21 @@ const AssessmentPage: React.FC = () => {
 
     setSubmitting(true);
     try {
-      // For MultipleSelect, send array; for FillInBlank/Matching, send array of selected indices; for ShortAnswer/Essay, send text; otherwise send single index
-      let answerToSubmit: number | number[] | string;
+      // For MultipleSelect, send array; for FillInBlank/Matching, send array of selected indices; for Ordering, send the arrangement; for Hotspot, send the click; for Categorize, send each item's category; for ShortAnswer/Essay, send text; otherwise send single index
+      let answerToSubmit: number | number[] | string | HotspotPoint;
       if (questionType === 'MultipleSelect') {
         answerToSubmit = selectedAnswers;
       } else if (questionType === 'FillInBlank') {
         answerToSubmit = fillInBlankAnswers;
       } else if (questionType === 'Matching') {
         answerToSubmit = matchingAnswers;
-      } else if (questionType === 'ShortAnswer' || questionType === 'Essay') {
+      } else if (questionType === 'Ordering') {
+        answerToSubmit = orderingAnswer;
+      } else if (questionType === 'Hotspot') {
+        answerToSubmit = hotspotClick as HotspotPoint; // Checked for null above
+      } else if (questionType === 'Categorize') {
+        answerToSubmit = categorizeAnswers as number[]; // Checked for unsorted items above
+      } else if (questionType === 'ShortAnswer' || questionType === 'Essay' || questionType === 'NumericEntry') {
         answerToSubmit = textAnswer.trim();
       } else {
         answerToSubmit = selectedAnswer as number; // Type assertion safe because we checked for null above
@@ -307,13 +601,24 @@ const AssessmentPage: React.FC = () => {
       setAnsweredQuestions(prev => new Set([...prev, currentQuestion.questionNumber]));
       setIsSubmitted(true);
 
+      // Keep the countdown in step with the server-side deadline
+      if (typeof response.timeRemainingSeconds === 'number' && !response.completed) {
+        setTimeRemaining(response.timeRemainingSeconds);
+      }
+
       // Show feedback only for Adaptive mode (Standard mode doesn't show feedback)
       if (mode === 'Adaptive') {
-        setFeedback({ isCorrect: response.isCorrect === true, show: true });
+        setFeedback({ isCorrect: response.isCorrect === true, score: response.score, show: true });
       }
 
       // Wait for feedback display (only for Adaptive), then continue
       setTimeout(async () => {
+        // The server ended the test (deadline reached) before the last pre-loaded question
+        if (mode === 'Standard' && response.completed && response.assessmentId) {
+          await showCompletedAssessment(response.assessmentId, response.ritScore);
+          return;
+        }
+
         // For Standard mode, use pre-loaded questions
         if (mode === 'Standard' && allQuestions.length > 0) {
           const nextQuestionIndex = currentQuestionNumber; // Next question index (1-based, so index 1 = question 2)
@@ -354,6 +659,11 @@ const AssessmentPage: React.FC = () => {
             } else {
               setMatchingAnswers([]);
             }
+            // Initialize Ordering arrangement with the steps in the order they are shown
+            setOrderingAnswer(nextQuestionType === 'Ordering' && nextQuestion.questionMetadata?.items ? nextQuestion.questionMetadata.items.map((_: string, idx: number) => idx) : []);
+            // Initialize Categorize answers with every item unsorted
+            setCategorizeAnswers(nextQuestionType === 'Categorize' && nextQuestion.questionMetadata?.items ? Array(nextQuestion.questionMetadata.items.length).fill(null) : []);
+            setHotspotClick(null);
             // Initialize text answer for ShortAnswer/Essay
             setTextAnswer('');
             setWordCount(0);
@@ -375,7 +685,9 @@ const AssessmentPage: React.FC = () => {
           }
         } else {
           // Adaptive mode - use backend response
-          if (response.completed && response.assessmentId) {
+          if (response.completed && response.assessmentId && (response.ritScore === null || response.ritScore === undefined)) {
+            await showCompletedAssessment(response.assessmentId, response.ritScore);
+          } else if (response.completed && response.assessmentId) {
             try {
               // Fetch detailed results
               const detailedResults = await studentAPI.getDetailedResults(response.assessmentId);
@@ -418,6 +730,11 @@ const AssessmentPage: React.FC = () => {
             } else {
               setMatchingAnswers([]);
             }
+            // Initialize Ordering arrangement with the steps in the order they are shown
+            setOrderingAnswer(nextQuestionType === 'Ordering' && response.question.questionMetadata?.items ? response.question.questionMetadata.items.map((_: string, idx: number) => idx) : []);
+            // Initialize Categorize answers with every item unsorted
+            setCategorizeAnswers(nextQuestionType === 'Categorize' && response.question.questionMetadata?.items ? Array(response.question.questionMetadata.items.length).fill(null) : []);
+            setHotspotClick(null);
             // Initialize text answer for ShortAnswer/Essay
             setTextAnswer('');
             setWordCount(0);
@@ -428,6 +745,14 @@ const AssessmentPage: React.FC = () => {
     } catch (error: any) {
       console.error('Failed to submit answer:', error);
       alert(error.response?.data?.error || 'Failed to submit answer');
+      // The question on screen is stale (e.g. answered from another tab); reload the current one
+      if (error.response?.data?.code === 'QUESTION_NOT_CURRENT' && assessmentId !== null) {
+        await resumeAssessment(assessmentId);
+      }
+      // Paused from another tab; show the paused screen here too
+      if (error.response?.data?.code === 'ASSESSMENT_PAUSED') {
+        setPaused(true);
+      }
     } finally {
       setSubmitting(false);
     }
@@ -501,6 +826,42 @@ const AssessmentPage: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-white to-pink-50">
       <Navigation />
+
+      {/* Paused overlay hides the question while the clock is stopped */}
+      {paused && (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-8 text-center">
+            <div className="w-16 h-16 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <Pause className="h-8 w-8 text-yellow-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Test Paused</h2>
+            <p className="text-gray-600 mb-2">
+              Your clock is stopped with {getTimeDisplay()} remaining.
+            </p>
+            {pauseAllowanceSeconds !== null && (
+              <p className="text-sm text-gray-500 mb-6">
+                If the pause lasts longer than {Math.ceil(pauseAllowanceSeconds / 60)} minutes, the clock starts running again.
+              </p>
+            )}
+            <div className="flex flex-col space-y-3 mt-6">
+              <button
+                onClick={continueAssessment}
+                disabled={pauseUpdating}
+                className="flex items-center justify-center space-x-2 px-6 py-3 bg-yellow-500 text-white font-semibold rounded-lg hover:bg-yellow-600 transition-colors disabled:opacity-50"
+              >
+                <Play className="h-5 w-5" />
+                <span>Resume Test</span>
+              </button>
+              <button
+                onClick={() => navigate('/dashboard')}
+                className="px-6 py-3 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Leave and resume later from the dashboard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
       
       <div className="flex max-w-7xl mx-auto px-4 py-6 gap-6 pt-20">
         {/* Left Sidebar */}
@@ -545,6 +906,14 @@ const AssessmentPage: React.FC = () => {
                     <div className="text-xs text-gray-500 mt-1">Time Remaining</div>
                   </div>
                 </div>
+                <button
+                  onClick={pauseAssessment}
+                  disabled={paused || pauseUpdating || submitting || isSubmitted}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Pause className="h-4 w-4" />
+                  <span>Pause Test</span>
+                </button>
               </div>
             </div>
 
@@ -702,7 +1071,9 @@ const AssessmentPage: React.FC = () => {
               <div className={`mb-6 p-4 rounded-xl flex items-center space-x-3 ${
                 feedback.isCorrect 
                   ? 'bg-emerald-50 border border-emerald-200 text-emerald-800' 
-                  : 'bg-red-50 border border-red-200 text-red-800'
+                  : (feedback.score || 0) > 0
+                    ? 'bg-amber-50 border border-amber-200 text-amber-800'
+                    : 'bg-red-50 border border-red-200 text-red-800'
               }`}>
                 {feedback.isCorrect ? (
                   <CheckCircle className="h-6 w-6" />
@@ -710,7 +1081,11 @@ const AssessmentPage: React.FC = () => {
                   <XCircle className="h-6 w-6" />
                 )}
                 <span className="font-medium">
-                  {feedback.isCorrect ? 'Correct!' : 'Incorrect'}
+                  {feedback.isCorrect
+                    ? 'Correct!'
+                    : (feedback.score || 0) > 0
+                      ? `Partially correct (${Math.round((feedback.score || 0) * 100)}% credit)`
+                      : 'Incorrect'}
                 </span>
               </div>
             )}
@@ -751,9 +1126,11 @@ const AssessmentPage: React.FC = () => {
                     const matches: RegExpExecArray[] = [];
                     let tempMatch;
                     
-                    // Collect all matches first
+                    // Collect all matches first (TeX groups such as x^{2} inside math are not blanks)
                     while ((tempMatch = blankPattern.exec(text)) !== null) {
-                      matches.push(tempMatch);
+                      if (!isInsideMath(text, tempMatch.index)) {
+                        matches.push(tempMatch);
+                      }
                     }
                     
                     // Process matches
@@ -797,6 +1174,32 @@ const AssessmentPage: React.FC = () => {
                             }
                             
                             const isDisabled = mode === 'Standard' ? submitting : feedback.show;
+                            if (blank.options.some((opt: string) => hasMath(opt))) {
+                              // A native <select> cannot show rendered math, so offer the choices as buttons
+                              return (
+                                <span key={`blank-${part}`} role="radiogroup" aria-label={`Blank ${part + 1}`} className="inline-flex flex-wrap items-center gap-1 px-1 py-1 border-2 border-blue-500 rounded-lg bg-white">
+                                  {blank.options.map((opt: string, optIdx: number) => (
+                                    <button
+                                      key={optIdx}
+                                      type="button"
+                                      role="radio"
+                                      aria-checked={fillInBlankAnswers[part] === optIdx}
+                                      onClick={() => {
+                                        const newAnswers = [...fillInBlankAnswers];
+                                        newAnswers[part] = optIdx;
+                                        setFillInBlankAnswers(newAnswers);
+                                      }}
+                                      disabled={isDisabled}
+                                      className={`px-2 py-1 rounded-md text-base font-medium disabled:opacity-60 disabled:cursor-not-allowed ${
+                                        fillInBlankAnswers[part] === optIdx ? 'bg-blue-600 text-white' : 'text-gray-900 hover:bg-blue-50'
+                                      }`}
+                                    >
+                                      <MathText text={opt} />
+                                    </button>
+                                  ))}
+                                </span>
+                              );
+                            }
                             return (
                               <select
                                 key={`blank-${part}`}
@@ -819,7 +1222,7 @@ const AssessmentPage: React.FC = () => {
                             );
                           } else {
                             // This is text
-                            return <span key={`text-${idx}`}>{part}</span>;
+                            return <MathText key={`text-${idx}`} text={part} />;
                           }
                         })}
                       </div>
@@ -827,12 +1230,17 @@ const AssessmentPage: React.FC = () => {
                   })()
                 ) : (
                   // Regular question text (render HTML if present)
-                  <div 
-                    className="prose prose-sm max-w-none"
-                    dangerouslySetInnerHTML={{ __html: currentQuestion.text }}
-                  />
+                  <MathText as="div" className="prose prose-sm max-w-none" html={currentQuestion.text} />
                 )}
               </h2>
+              {accommodations?.textToSpeech && (
+                <div className="mt-4">
+                  <ReadAloudButton
+                    text={currentQuestion.text}
+                    options={questionType === 'MCQ' || questionType === 'TrueFalse' || questionType === 'MultipleSelect' ? currentQuestion.options : []}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Show options only for MCQ, TrueFalse, and MultipleSelect */}
@@ -887,7 +1295,7 @@ const AssessmentPage: React.FC = () => {
                           {String.fromCharCode(65 + index)}
                         </div>
                       )}
-                      <span className="text-gray-900 font-medium">{option}</span>
+                      <MathText className="text-gray-900 font-medium" text={option} />
                     </div>
                   </button>
                   );
@@ -901,6 +1309,41 @@ const AssessmentPage: React.FC = () => {
               </p>
             )}
             
+            {questionType === 'NumericEntry' && (
+              <div className="mb-8">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Answer
+                </label>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={textAnswer}
+                    onChange={(e) => setTextAnswer(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && textAnswer.trim()) {
+                        e.preventDefault();
+                        submitAnswer();
+                      }
+                    }}
+                    className="w-48 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-lg"
+                    placeholder="Type a number"
+                    disabled={mode === 'Standard' ? submitting : feedback.show}
+                  />
+                  {questionMetadata?.numeric?.units?.length > 0 && (
+                    <span className="text-sm font-medium text-gray-700">{questionMetadata.numeric.units[0]}</span>
+                  )}
+                </div>
+                <p className="mt-2 text-sm text-gray-600">
+                  {questionMetadata?.numeric?.forms?.length === 1 && questionMetadata.numeric.forms[0] === 'decimal'
+                    ? 'Enter a whole number or decimal.'
+                    : 'Enter a whole number, decimal or fraction (e.g. 3/4).'}
+                  {questionMetadata?.numeric?.unitRequired && ' Include the unit in your answer.'}
+                </p>
+              </div>
+            )}
+
             {(questionType === 'ShortAnswer' || questionType === 'Essay') && (
               <div className="mb-8">
                 {questionMetadata?.description && (
@@ -963,7 +1406,7 @@ const AssessmentPage: React.FC = () => {
                           <span className="text-sm font-medium text-gray-700 min-w-[30px]">
                             {leftIdx + 1}.
                           </span>
-                          <span className="text-sm text-gray-900 flex-1">{questionMetadata.leftItems[leftIdx]}</span>
+                          <MathText className="text-sm text-gray-900 flex-1" text={questionMetadata.leftItems[leftIdx]} />
                         </div>
                       ))}
                     </div>
@@ -972,6 +1415,16 @@ const AssessmentPage: React.FC = () => {
                   {/* Column B with dropdowns */}
                   <div>
                     <h3 className="text-sm font-semibold text-gray-900 mb-3">Column B (Select Match)</h3>
+                    {/* A native <select> cannot show rendered math, so list the lettered items and select by letter */}
+                    {questionMetadata.rightItems.some((rightItem: string) => hasMath(rightItem)) && (
+                      <ol className="mb-3 space-y-1 p-3 border border-gray-200 rounded-lg bg-gray-50">
+                        {questionMetadata.rightItems.map((rightItem: string, rightIdx: number) => (
+                          <li key={rightIdx} className="text-sm text-gray-900">
+                            <span className="font-medium">{String.fromCharCode(65 + rightIdx)}.</span> <MathText text={rightItem} />
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                     <div className="space-y-3">
                       {questionMetadata.leftItems.map((_leftItem: string, leftIdx: number) => {
                         const isDisabled = mode === 'Standard' ? submitting : feedback.show;
@@ -994,7 +1447,7 @@ const AssessmentPage: React.FC = () => {
                                 <option value="">Select match...</option>
                                 {questionMetadata.rightItems.map((rightItem: string, rightIdx: number) => (
                                   <option key={rightIdx} value={rightIdx}>
-                                    {String.fromCharCode(65 + rightIdx)}. {rightItem}
+                                    {String.fromCharCode(65 + rightIdx)}{hasMath(rightItem) ? '' : `. ${rightItem}`}
                                   </option>
                                 ))}
                               </select>
@@ -1007,6 +1460,133 @@ const AssessmentPage: React.FC = () => {
                 </div>
               </div>
             )}
+            {questionType === 'Ordering' && questionMetadata?.items && (
+              <div className="mb-8">
+                <p id="ordering-instructions" className="mb-4 text-sm text-gray-600 italic">
+                  Drag the steps into the correct order. With the keyboard, focus a step and press Alt + Arrow Up or Alt + Arrow Down to move it.
+                </p>
+                <ol className="space-y-3" aria-describedby="ordering-instructions">
+                  {orderingAnswer.map((itemIdx, position) => {
+                    const isDisabled = mode === 'Standard' ? submitting : feedback.show;
+                    return (
+                      <li
+                        key={itemIdx}
+                        ref={(el) => { orderingItemRefs.current[itemIdx] = el; }}
+                        tabIndex={isDisabled ? -1 : 0}
+                        draggable={!isDisabled}
+                        onDragStart={() => setDraggedOrderPosition(position)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (draggedOrderPosition !== null) moveOrderingItem(draggedOrderPosition, position);
+                          setDraggedOrderPosition(null);
+                        }}
+                        onDragEnd={() => setDraggedOrderPosition(null)}
+                        onKeyDown={(e) => {
+                          if (isDisabled || !e.altKey) return;
+                          if (e.key === 'ArrowUp') {
+                            e.preventDefault();
+                            moveOrderingItem(position, position - 1);
+                          } else if (e.key === 'ArrowDown') {
+                            e.preventDefault();
+                            moveOrderingItem(position, position + 1);
+                          }
+                        }}
+                        aria-label={`Step ${position + 1} of ${orderingAnswer.length}: ${questionMetadata.items[itemIdx]}`}
+                        className={`flex items-center space-x-3 p-4 min-h-[60px] border-2 rounded-lg bg-white transition-all focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                          draggedOrderPosition === position ? 'border-blue-400 opacity-50' : 'border-gray-200'
+                        } ${isDisabled ? 'opacity-60' : 'cursor-move hover:border-blue-300'}`}
+                      >
+                        <GripVertical className="h-5 w-5 text-gray-400 flex-shrink-0" aria-hidden="true" />
+                        <span className="text-sm font-medium text-gray-700 min-w-[30px]">
+                          {position + 1}.
+                        </span>
+                        <MathText className="text-sm text-gray-900 flex-1" text={questionMetadata.items[itemIdx]} />
+                        <button
+                          type="button"
+                          onClick={() => moveOrderingItem(position, position - 1)}
+                          disabled={isDisabled || position === 0}
+                          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move "${questionMetadata.items[itemIdx]}" up`}
+                        >
+                          <ChevronUp className="h-5 w-5" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveOrderingItem(position, position + 1)}
+                          disabled={isDisabled || position === orderingAnswer.length - 1}
+                          className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+                          aria-label={`Move "${questionMetadata.items[itemIdx]}" down`}
+                        >
+                          <ChevronDown className="h-5 w-5" />
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+                <div className="sr-only" aria-live="polite">{orderingAnnouncement}</div>
+              </div>
+            )}
+            {questionType === 'Hotspot' && questionMetadata?.hotspot?.imageUrl && (
+              <div className="mb-8">
+                <p className="mb-4 text-sm text-gray-600 italic">
+                  Click the part of the image that answers the question. You can click again to change your answer.
+                </p>
+                <HotspotImage
+                  imageUrl={questionMetadata.hotspot.imageUrl}
+                  imageAlt={questionMetadata.hotspot.imageAlt}
+                  click={hotspotClick}
+                  disabled={mode === 'Standard' ? submitting : feedback.show}
+                  onPointerDown={setHotspotClick}
+                />
+              </div>
+            )}
+            {questionType === 'Categorize' && questionMetadata?.categories && questionMetadata?.items && (
+              <div className="mb-8">
+                <p className="mb-4 text-sm text-gray-600 italic">
+                  Drag each item into the category it belongs to. With the keyboard, use the menu next to an item to choose its category.
+                </p>
+                <div
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedCategorizeItem !== null) placeCategorizeItem(draggedCategorizeItem, null);
+                    setDraggedCategorizeItem(null);
+                  }}
+                  className="mb-4 p-4 min-h-[72px] border-2 border-dashed border-gray-300 rounded-lg bg-gray-50"
+                >
+                  <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Items to sort</p>
+                  <div className="flex flex-wrap gap-2">
+                    {categorizeAnswers.map((ans, itemIdx) => ans === null ? renderCategorizeItem(itemIdx, mode === 'Standard' ? submitting : feedback.show) : null)}
+                    {categorizeAnswers.every(ans => ans !== null) && (
+                      <span className="text-sm text-gray-500">All items sorted</span>
+                    )}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {questionMetadata.categories.map((category: string, categoryIdx: number) => (
+                    <div
+                      key={categoryIdx}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (draggedCategorizeItem !== null) placeCategorizeItem(draggedCategorizeItem, categoryIdx);
+                        setDraggedCategorizeItem(null);
+                      }}
+                      className="p-4 min-h-[120px] border-2 border-blue-200 rounded-lg bg-blue-50"
+                      aria-label={`Category ${category}`}
+                      role="group"
+                    >
+                      <MathText as="div" className="text-sm font-semibold text-blue-900 mb-3" text={category} />
+                      <div className="flex flex-col gap-2">
+                        {categorizeAnswers.map((ans, itemIdx) => ans === categoryIdx ? renderCategorizeItem(itemIdx, mode === 'Standard' ? submitting : feedback.show) : null)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="sr-only" aria-live="polite">{categorizeAnnouncement}</div>
+              </div>
+            )}
             {questionType === 'MultipleSelect' && (
               <p className="mb-4 text-sm text-gray-600 italic">
                 Select all correct answers. All selected answers must be correct for the question to be marked correct.
@@ -1027,7 +1607,13 @@ const AssessmentPage: React.FC = () => {
                     ? matchingAnswers.length === 0 || 
                       matchingAnswers.length !== (questionMetadata?.leftItems?.length || 0) ||
                       matchingAnswers.some(ans => ans === null || ans === undefined)
-                    : questionType === 'ShortAnswer' || questionType === 'Essay'
+                    : questionType === 'Ordering'
+                    ? orderingAnswer.length === 0
+                    : questionType === 'Hotspot'
+                    ? hotspotClick === null
+                    : questionType === 'Categorize'
+                    ? categorizeAnswers.length === 0 || categorizeAnswers.some(ans => ans === null)
+                    : questionType === 'ShortAnswer' || questionType === 'Essay' || questionType === 'NumericEntry'
                     ? !textAnswer.trim() || (questionType === 'ShortAnswer' && wordCount > 100)
                     : selectedAnswer === null) ||
                   submitting ||
@@ -4,7 +4,7 @@ import { Grade, Subject, School, Question } from '../types';
 import { gradesAPI, subjectsAPI, schoolsAPI, adminAPI, assignmentsAPI, studentsAPI } from '../services/api';
 import Navigation from '../components/Navigation';
 import AdminSidebar from '../components/AdminSidebar';
-import { ArrowLeft, Clock, Hash, Save, Zap, List, Info, FileQuestion, Users, ChevronRight, CheckCircle, FileDown, Filter, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets } from 'lucide-react';
+import { ArrowLeft, Clock, Hash, Save, Zap, List, Info, FileQuestion, Users, ChevronRight, CheckCircle, FileDown, Filter, CheckCircle2, Type, FileText, ArrowLeftRight, Droplets, ListOrdered, Crosshair, Boxes } from 'lucide-react';
 import { exportAssessmentToPDF } from '../utils/pdfExport';
 
 type AssessmentMode = 'Standard' | 'Adaptive';
@@ -151,7 +151,7 @@ const CreateAssessmentPage: React.FC = () => {
     
     try {
       setQuestionsLoading(true);
-      const response = await adminAPI.getQuestions(generalData.subjectId, 1, 100, generalData.gradeId);
+      const response = await adminAPI.getQuestions(generalData.subjectId, 1, 100, generalData.gradeId, 'approved');
       setAvailableQuestions(response.questions || []);
     } catch (error) {
       console.error('Error loading questions:', error);
@@ -936,7 +936,11 @@ const CreateAssessmentPage: React.FC = () => {
                                 { value: 'Essay', label: 'Essay', icon: FileText },
                                 { value: 'Matching', label: 'Matching', icon: ArrowLeftRight },
                                 { value: 'FillInBlank', label: 'Fill in Blank', icon: Droplets },
-                                { value: 'MultipleSelect', label: 'Multiple Select', icon: List }
+                                { value: 'MultipleSelect', label: 'Multiple Select', icon: List },
+                                { value: 'NumericEntry', label: 'Numeric Entry', icon: Hash },
+                                { value: 'Ordering', label: 'Ordering', icon: ListOrdered },
+                                { value: 'Hotspot', label: 'Hotspot', icon: Crosshair },
+                                { value: 'Categorize', label: 'Categorize', icon: Boxes }
                               ].map((type) => {
                                 const Icon = type.icon;
                                 const isSelected = filterQuestionType.includes(type.value);
@@ -1028,7 +1032,7 @@ const CreateAssessmentPage: React.FC = () => {
 
                       {availableQuestions.length === 0 ? (
                         <div className="text-center py-12 bg-gray-50 rounded-lg">
-                          <p className="text-gray-600">No questions available for this subject and grade.</p>
+                          <p className="text-gray-600">No approved questions available for this subject and grade.</p>
                           <p className="text-sm text-gray-500 mt-2">
                             Please select a subject and grade in the General step.
                           </p>
@@ -1102,6 +1106,10 @@ const CreateAssessmentPage: React.FC = () => {
                           if (type === 'FillInBlank') return 'bg-pink-100 text-pink-800';
                           if (type === 'TrueFalse') return 'bg-cyan-100 text-cyan-800';
                           if (type === 'Matching') return 'bg-teal-100 text-teal-800';
+                          if (type === 'NumericEntry') return 'bg-lime-100 text-lime-800';
+                          if (type === 'Ordering') return 'bg-sky-100 text-sky-800';
+                          if (type === 'Hotspot') return 'bg-amber-100 text-amber-800';
+                          if (type === 'Categorize') return 'bg-rose-100 text-rose-800';
                           return 'bg-gray-100 text-gray-800';
                         };
                         
@@ -1113,6 +1121,10 @@ const CreateAssessmentPage: React.FC = () => {
                           if (type === 'FillInBlank') return 'Fill in Blanks';
                           if (type === 'TrueFalse') return 'True/False';
                           if (type === 'Matching') return 'Matching';
+                          if (type === 'NumericEntry') return 'Numeric Entry';
+                          if (type === 'Ordering') return 'Ordering';
+                          if (type === 'Hotspot') return 'Hotspot';
+                          if (type === 'Categorize') return 'Categorize';
                           return type;
                         };
 
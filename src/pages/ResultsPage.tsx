@@ -1,12 +1,16 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { DetailedAssessmentResults, CompetencyScore, CompetencyGrowthData, DashboardData, Subject } from '../types';
+import { DetailedAssessmentResults, AssessmentResult, CompetencyScore, CompetencyGrowthData, DashboardData, Subject, HotspotPoint, HotspotRegion } from '../types';
 import Navigation from '../components/Navigation';
 import StudentSidebar from '../components/StudentSidebar';
 import DifficultyProgressionChart from '../components/DifficultyProgressionChart';
 import GrowthOverTimeChart from '../components/GrowthOverTimeChart';
 import CompetencyAnalytics from '../components/CompetencyAnalytics';
+import HotspotImage from '../components/HotspotImage';
+import MathText from '../components/MathText';
 import { studentAPI } from '../services/api';
+import { exportAssessmentResultsToPDF, describeAccommodations } from '../utils/pdfExport';
+import { isInsideMath } from '../utils/math';
 import { 
   Trophy, 
   Target, 
@@ -28,7 +32,10 @@ import {
   ChevronRight,
   ChevronDown,
   BookOpen,
-  CheckCircle2
+  CheckCircle2,
+  Download,
+  Accessibility,
+  CircleDot
 } from 'lucide-react';
 
 const ResultsPage: React.FC = () => {
@@ -303,6 +310,20 @@ const ResultsPage: React.FC = () => {
     return 'Beginning';
   };
 
+  // Multi-part questions (MultipleSelect, Matching, FillInBlank, Ordering) can earn part of the credit
+  const isPartialCredit = (response: AssessmentResult) => !response.isCorrect && (response.score || 0) > 0;
+
+  const getStopReasonLabel = (stopReason: string) => {
+    switch (stopReason) {
+      case 'precision_reached': return 'Ended early: score measured precisely';
+      case 'max_items': return 'Ended after the maximum number of questions';
+      case 'time_limit': return 'Ended when the time limit was reached';
+      case 'item_bank_exhausted': return 'Ended when no more questions were available';
+      case 'abandoned': return 'Time ran out before any question was answered';
+      default: return '';
+    }
+  };
+
   const getScoreIcon = (score: number) => {
     if (score >= 350) return '🏆';
     if (score >= 300) return '🌟';
@@ -769,6 +790,23 @@ const ResultsPage: React.FC = () => {
             <p className="text-xl text-gray-600">
               {results.assessment.subjectName} • {results.assessment.period} {results.assessment.year}
             </p>
+            {describeAccommodations(results.assessment.accommodations).length > 0 && (
+              <div className="flex flex-wrap justify-center items-center gap-2 mt-4">
+                <Accessibility className="h-4 w-4 text-blue-600" />
+                {describeAccommodations(results.assessment.accommodations).map(label => (
+                  <span key={label} className="px-3 py-1 rounded-full text-xs font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                    {label}
+                  </span>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => exportAssessmentResultsToPDF(results)}
+              className="mt-4 inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Download PDF</span>
+            </button>
           </div>
         </div>
 
@@ -828,6 +866,13 @@ const ResultsPage: React.FC = () => {
                 {results.statistics.currentRIT}
               </div>
               <div className="text-xl text-gray-600">Current Growth Metric Score</div>
+              {results.statistics.standardError !== null && results.statistics.standardError !== undefined && (
+                <div className="text-sm text-gray-500 mt-1">
+                  ± {results.statistics.standardError} (likely range{' '}
+                  {Math.round(results.statistics.currentRIT - results.statistics.standardError)}–
+                  {Math.round(results.statistics.currentRIT + results.statistics.standardError)})
+                </div>
+              )}
               <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium mt-2 ${
                 results.statistics.currentRIT >= 350 ? 'bg-purple-100 text-purple-800' :
                 results.statistics.currentRIT >= 300 ? 'bg-blue-100 text-blue-800' :
@@ -837,6 +882,11 @@ const ResultsPage: React.FC = () => {
               }`}>
                 {getScoreLevel(results.statistics.currentRIT)} Level
               </div>
+              {results.assessment.stopReason && (
+                <div className="text-xs text-gray-500 mt-2">
+                  {getStopReasonLabel(results.assessment.stopReason)}
+                </div>
+              )}
             </div>
 
             {/* Growth Metric Change Indicator */}
@@ -1031,25 +1081,35 @@ const ResultsPage: React.FC = () => {
               <div key={index} className={`p-4 rounded-lg border ${
                 response.isCorrect 
                   ? 'bg-emerald-50 border-emerald-200' 
-                  : 'bg-red-50 border-red-200'
+                  : isPartialCredit(response)
+                    ? 'bg-amber-50 border-amber-200'
+                    : 'bg-red-50 border-red-200'
               }`}>
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex items-center space-x-3">
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium ${
                       response.isCorrect 
                         ? 'bg-emerald-100 text-emerald-800' 
-                        : 'bg-red-100 text-red-800'
+                        : isPartialCredit(response)
+                          ? 'bg-amber-100 text-amber-800'
+                          : 'bg-red-100 text-red-800'
                     }`}>
                       {response.questionNumber}
                     </div>
                     <div className="flex items-center space-x-2">
                       {response.isCorrect ? (
                         <CheckCircle className="h-5 w-5 text-emerald-600" />
+                      ) : isPartialCredit(response) ? (
+                        <CircleDot className="h-5 w-5 text-amber-600" />
                       ) : (
                         <XCircle className="h-5 w-5 text-red-600" />
                       )}
                       <span className="font-medium">
-                        {response.isCorrect ? 'Correct' : 'Incorrect'}
+                        {response.isCorrect
+                          ? 'Correct'
+                          : isPartialCredit(response)
+                            ? `Partially correct (${Math.round((response.score || 0) * 100)}% credit)`
+                            : 'Incorrect'}
                       </span>
                     </div>
                   </div>
@@ -1071,8 +1131,8 @@ const ResultsPage: React.FC = () => {
                       const blankPattern = /(___+|\[blank\]|\[BLANK\]|\{[0-9]+\})/gi;
                       let matchCount = 0;
                       
-                      questionText = questionText.replace(blankPattern, (match) => {
-                        if (matchCount < blanks.length && matchCount < selectedAnswers.length) {
+                      questionText = questionText.replace(blankPattern, (match, _blank: string, offset: number, text: string) => {
+                        if (!isInsideMath(text, offset) && matchCount < blanks.length && matchCount < selectedAnswers.length) {
                           const blank = blanks[matchCount];
                           const selectedIndex = selectedAnswers[matchCount];
                           const selectedText = blank.options && blank.options[selectedIndex] !== undefined
@@ -1085,13 +1145,125 @@ const ResultsPage: React.FC = () => {
                         return match;
                       });
                       
-                      return <div dangerouslySetInnerHTML={{ __html: questionText }} />;
+                      return <MathText as="div" html={questionText} />;
                     })()}
                   </div>
+                ) : response.questionType === 'Hotspot' && response.questionMetadata?.hotspot?.imageUrl ? (
+                  // Special handling for Hotspot - show the student's click against the correct regions
+                  <div className="mb-3">
+                    <MathText as="div" className="text-gray-900 mb-3" html={response.questionText} />
+                    <HotspotImage
+                      imageUrl={response.questionMetadata.hotspot.imageUrl}
+                      imageAlt={response.questionMetadata.hotspot.imageAlt}
+                      regions={Array.isArray(response.correctAnswer) ? response.correctAnswer as unknown as HotspotRegion[] : []}
+                      click={typeof response.selectedAnswer === 'object' && !Array.isArray(response.selectedAnswer) ? response.selectedAnswer as unknown as HotspotPoint : null}
+                      clickCorrect={response.isCorrect}
+                      className="max-w-md"
+                    />
+                    <div className="mt-2 flex items-center space-x-4 text-sm text-gray-600">
+                      <span className="flex items-center space-x-1">
+                        <span className={`inline-block h-3 w-3 rounded-full ${response.isCorrect ? 'bg-emerald-600' : 'bg-red-600'}`} />
+                        <span>Your click</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <span className="inline-block h-3 w-3 rounded-sm bg-emerald-400/30 border border-emerald-600" />
+                        <span>Correct region</span>
+                      </span>
+                    </div>
+                  </div>
+                ) : response.questionType === 'Categorize' && Array.isArray(response.questionMetadata?.categories) && Array.isArray(response.questionMetadata?.items) && Array.isArray(response.selectedAnswer) ? (
+                  // Special handling for Categorize - show the category chosen for each item next to the correct one
+                  <div className="mb-3">
+                    <MathText as="div" className="text-gray-900 mb-3" html={response.questionText} />
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="min-w-full border border-gray-300 rounded-lg">
+                        <thead className="bg-gray-100">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 border-b border-gray-300">Item</th>
+                            <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 border-b border-gray-300">Your Category</th>
+                            {!response.isCorrect && (
+                              <th className="px-4 py-2 text-left text-sm font-semibold text-emerald-700 border-b border-gray-300">Correct Category</th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {(() => {
+                            const categories: string[] = response.questionMetadata.categories;
+                            const items: string[] = response.questionMetadata.items;
+                            const selectedPlacement = response.selectedAnswer as number[];
+                            const correctPlacement = Array.isArray(response.correctAnswer) ? response.correctAnswer : [];
+
+                            return items.map((item, itemIdx) => {
+                              const isItemCorrect = selectedPlacement[itemIdx] === correctPlacement[itemIdx];
+                              return (
+                                <tr key={itemIdx} className={itemIdx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                                  <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200"><MathText text={item} /></td>
+                                  <td className={`px-4 py-2 text-sm border-b border-gray-200 ${
+                                    isItemCorrect ? 'text-emerald-600 font-medium' : 'text-red-600 font-medium'
+                                  }`}>
+                                    <MathText text={categories[selectedPlacement[itemIdx]] ?? 'N/A'} />
+                                  </td>
+                                  {!response.isCorrect && (
+                                    <td className="px-4 py-2 text-sm text-emerald-600 font-medium border-b border-gray-200">
+                                      <MathText text={categories[correctPlacement[itemIdx]] ?? 'N/A'} />
+                                    </td>
+                                  )}
+                                </tr>
+                              );
+                            });
+                          })()}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ) : response.questionType === 'Ordering' && Array.isArray(response.questionMetadata?.items) && Array.isArray(response.selectedAnswer) ? (
+                  // Special handling for Ordering - show the student's sequence next to the correct one
+                  <div className="mb-3">
+                    <MathText as="div" className="text-gray-900 mb-3" html={response.questionText} />
+                    <div className="mt-4 overflow-x-auto">
+                      <table className="min-w-full border border-gray-300 rounded-lg">
+                        <thead className="bg-gray-100">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 border-b border-gray-300">#</th>
+                            <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700 border-b border-gray-300">Your Order</th>
+                            {!response.isCorrect && (
+                              <th className="px-4 py-2 text-left text-sm font-semibold text-emerald-700 border-b border-gray-300">Correct Order</th>
+                            )}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {(() => {
+                            const items: string[] = response.questionMetadata.items;
+                            const selectedOrder = response.selectedAnswer as number[];
+                            const correctOrder = Array.isArray(response.correctAnswer) ? response.correctAnswer : [];
+
+                            return selectedOrder.map((itemIdx, position) => {
+                              const isStepInPlace = correctOrder[position] === itemIdx;
+                              return (
+                                <tr key={position} className={position % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                                  <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{position + 1}</td>
+                                  <td className={`px-4 py-2 text-sm border-b border-gray-200 ${
+                                    isStepInPlace ? 'text-emerald-600 font-medium' : 'text-red-600 font-medium'
+                                  }`}>
+                                    <MathText text={items[itemIdx] ?? 'N/A'} />
+                                  </td>
+                                  {!response.isCorrect && (
+                                    <td className="px-4 py-2 text-sm text-emerald-600 font-medium border-b border-gray-200">
+                                      <MathText text={items[correctOrder[position]] ?? 'N/A'} />
+                                    </td>
+                                  )}
+                                </tr>
+                              );
+                            });
+                          })()}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
                 ) : response.questionType === 'Matching' && response.questionMetadata ? (
                   // Special handling for Matching - show in table format
                   <div className="mb-3">
-                    <div className="text-gray-900 mb-3" dangerouslySetInnerHTML={{ __html: response.questionText }} />
+                    <MathText as="div" className="text-gray-900 mb-3" html={response.questionText} />
                     <div className="mt-4 overflow-x-auto">
                       <table className="min-w-full border border-gray-300 rounded-lg">
                         <thead className="bg-gray-100">
@@ -1145,15 +1317,15 @@ const ResultsPage: React.FC = () => {
                               
                               return (
                                 <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                                  <td className="px-4 py-2 text-sm text-gray-900 border-b border-gray-200">{leftItem}</td>
+                                  <td className="px-4 py-2 text-sm text-gray-900 border-b border-gray-200"><MathText text={leftItem} /></td>
                                   <td className={`px-4 py-2 text-sm border-b border-gray-200 ${
                                     isMatchCorrect ? 'text-emerald-600 font-medium' : 'text-red-600 font-medium'
                                   }`}>
-                                    {selectedRightItem}
+                                    <MathText text={selectedRightItem} />
                                   </td>
                                   {!response.isCorrect && (
                                     <td className="px-4 py-2 text-sm text-emerald-600 font-medium border-b border-gray-200">
-                                      {correctRightItem}
+                                      <MathText text={correctRightItem} />
                                     </td>
                                   )}
                                 </tr>
@@ -1167,25 +1339,29 @@ const ResultsPage: React.FC = () => {
                 ) : (
                   // Default display for other question types
                   <>
-                    <div className="text-gray-900 mb-3" dangerouslySetInnerHTML={{ __html: response.questionText }} />
+                    <MathText as="div" className="text-gray-900 mb-3" html={response.questionText} />
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mb-3">
                       <div>
                         <span className="font-medium text-gray-700">Your Answer: </span>
                         <span className={response.isCorrect ? 'text-emerald-600' : 'text-red-600'}>
-                          {response.formattedSelectedAnswer !== undefined 
-                            ? response.formattedSelectedAnswer 
-                            : ((response.questionType === 'ShortAnswer' || response.questionType === 'Essay') 
-                              ? (typeof response.selectedAnswer === 'string' ? response.selectedAnswer : 'N/A')
-                              : (response.options && response.options[response.selectedAnswer as number] || 'N/A'))}
+                          <MathText
+                            text={response.formattedSelectedAnswer !== undefined
+                              ? response.formattedSelectedAnswer
+                              : ((response.questionType === 'ShortAnswer' || response.questionType === 'Essay')
+                                ? (typeof response.selectedAnswer === 'string' ? response.selectedAnswer : 'N/A')
+                                : (response.options && response.options[response.selectedAnswer as number] || 'N/A'))}
+                          />
                         </span>
                       </div>
                       {!response.isCorrect && response.questionType !== 'ShortAnswer' && response.questionType !== 'Essay' && (
                         <div>
                           <span className="font-medium text-gray-700">Correct Answer: </span>
                           <span className="text-emerald-600">
-                            {response.formattedCorrectAnswer !== undefined 
-                              ? response.formattedCorrectAnswer 
-                              : (response.options && response.options[response.correctAnswer as number] || 'N/A')}
+                            <MathText
+                              text={response.formattedCorrectAnswer !== undefined
+                                ? response.formattedCorrectAnswer
+                                : (response.options && response.options[response.correctAnswer as number] || 'N/A')}
+                            />
                           </span>
                         </div>
                       )}
@@ -1,12 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Subject, DashboardData, DetailedAssessmentResults } from '../types';
+import { Subject, DashboardData, DetailedAssessmentResults, InProgressAssessment } from '../types';
 import { studentAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import Navigation from '../components/Navigation';
 import StudentSidebar from '../components/StudentSidebar';
 import { 
   Play, 
+  RotateCcw,
   BookOpen, 
   TrendingUp, 
   FileText, 
@@ -33,6 +34,7 @@ const StudentDashboard: React.FC = () => {
   // const [assessmentConfigs, setAssessmentConfigs] = useState<Record<number, AssessmentConfiguration>>({});
   const [assignments, setAssignments] = useState<any[]>([]);
   const [completedAssignments, setCompletedAssignments] = useState<any[]>([]);
+  const [inProgressAssessments, setInProgressAssessments] = useState<InProgressAssessment[]>([]);
   const [loading, setLoading] = useState(true);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [profileImageError, setProfileImageError] = useState(false);
@@ -75,7 +77,7 @@ const StudentDashboard: React.FC = () => {
   const loadDashboardData = async () => {
     try {
       try {
-        const [subjectsData, assessmentData, assignmentsData, completedAssignmentsData] = await Promise.all([
+        const [subjectsData, assessmentData, assignmentsData, completedAssignmentsData, inProgressData] = await Promise.all([
           studentAPI.getAvailableSubjects(),
           studentAPI.getDashboardData(),
           studentAPI.getAssignments().catch((err) => {
@@ -87,11 +89,16 @@ const StudentDashboard: React.FC = () => {
             console.error('❌ Error fetching completed assignments:', err);
             console.error('Error details:', err.response?.data || err.message);
             return [];
+          }),
+          studentAPI.getInProgressAssessments().catch((err) => {
+            console.error('❌ Error fetching in-progress assessments:', err);
+            return [];
           })
         ]);
         
         setSubjects(subjectsData);
         setDashboardData(assessmentData);
+        setInProgressAssessments(inProgressData);
         
         // Process active assignments - backend returns assignments where is_completed = 0
         const processedAssignments = (assignmentsData || []).map((assignment: any) => ({
@@ -237,6 +244,12 @@ const StudentDashboard: React.FC = () => {
     });
   };
 
+  const resumeAssessment = (assessmentId: number) => {
+    navigate('/assessment', {
+      state: { resumeAssessmentId: assessmentId }
+    });
+  };
+
   const startAssignment = async (assignmentId: number, mode: 'Standard' | 'Adaptive') => {
     try {
       let response;
@@ -252,6 +265,8 @@ const StudentDashboard: React.FC = () => {
           mode: response.mode,
           assessmentId: response.assessmentId,
           timeLimitMinutes: response.timeLimitMinutes,
+          timeRemainingSeconds: response.timeRemainingSeconds,
+          accommodations: response.accommodations,
           question: response.question,
           allQuestions: response.allQuestions, // For Standard mode
           assignmentName: response.assignmentName
@@ -650,6 +665,60 @@ const StudentDashboard: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content - Left Side */}
           <div className="lg:col-span-2 space-y-6">
+            {/* In Progress Section - adaptive tests that can be picked up where they were left */}
+            {inProgressAssessments.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-bold text-gray-900">In Progress</h2>
+                  <span className="text-sm font-medium text-gray-700 bg-amber-100 px-3 py-1 rounded-full">
+                    {inProgressAssessments.length} Unfinished
+                  </span>
+                </div>
+
+                <div className="space-y-3">
+                  {inProgressAssessments.map((assessment) => (
+                    <div key={assessment.assessmentId} className="bg-white rounded-lg p-4 border border-amber-200 shadow-sm hover:shadow-md transition-shadow">
+                      <div className="flex items-center gap-4 flex-wrap">
+                        <div className="flex-shrink-0">
+                          <div className="w-12 h-12 bg-amber-500 rounded-lg flex items-center justify-center">
+                            <Clock className="h-6 w-6 text-white" />
+                          </div>
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <h3 className="text-base font-bold text-gray-900">
+                              {assessment.assignmentName || `${assessment.subjectName} ${assessment.period} Assessment`}
+                            </h3>
+                            {assessment.paused && (
+                              <span className="inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-md bg-yellow-100 text-yellow-800">
+                                Paused
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-700 mb-1">{assessment.subjectName}</p>
+                          <p className="text-xs text-gray-600">
+                            {assessment.questionsAnswered} of {assessment.mode === 'Adaptive' ? 'up to ' : ''}{assessment.totalQuestions} questions answered · Started {new Date(assessment.startedAt).toLocaleString()}
+                            {assessment.timeRemainingSeconds !== null && ` · ${Math.ceil(assessment.timeRemainingSeconds / 60)} min left`}
+                          </p>
+                        </div>
+
+                        <div className="flex-shrink-0">
+                          <button
+                            onClick={() => resumeAssessment(assessment.assessmentId)}
+                            className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 font-semibold shadow-sm whitespace-nowrap"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            <span>Resume</span>
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Active Assessments Section */}
             <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
               <div className="flex items-center justify-between mb-4">
@@ -691,13 +760,21 @@ const StudentDashboard: React.FC = () => {
 
                         {/* Right Side - Start Button */}
                         <div className="flex-shrink-0">
-                          <button
-                            onClick={() => startAssignment(assignment.id, assignment.mode)}
-                            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 font-semibold shadow-sm whitespace-nowrap"
-                          >
-                            <Play className="h-4 w-4" />
-                            <span>Start</span>
-                          </button>
+                          {(() => {
+                            // An unfinished attempt is resumed rather than restarted
+                            const unfinished = inProgressAssessments.find(a => a.assignmentId === assignment.id);
+                            return (
+                              <button
+                                onClick={() => unfinished
+                                  ? resumeAssessment(unfinished.assessmentId)
+                                  : startAssignment(assignment.id, assignment.mode)}
+                                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 font-semibold shadow-sm whitespace-nowrap"
+                              >
+                                {unfinished ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                <span>{unfinished ? 'Resume' : 'Start'}</span>
+                              </button>
+                            );
+                          })()}
                         </div>
                       </div>
                     </div>
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Subject, Question, Assessment, AssessmentResponse, DashboardData, AdminStats, School, Grade, AssessmentConfiguration, Competency, CompetencyStats, PaginationInfo, StartAssessmentResponse } from '../types';
+import { Subject, Question, Assessment, AssessmentResponse, DashboardData, AdminStats, School, Grade, AssessmentConfiguration, CompetencyBlueprintEntry, Competency, CompetencyStats, PaginationInfo, StartAssessmentResponse, ResumeAssessmentResponse, PauseAssessmentResponse, InProgressAssessment, ItemExposureReport, Accommodations, CalibrationRunResult, DifficultyHistoryEntry, ItemAnalysisReport, DifAnalysisReport, DifGrouping, DifClassification, HotspotPoint, QuestionVersion, QuestionStatus, QuestionReviewTrail, QuestionReviewer, CSVDuplicateCheck, DuplicateReport, QuestionExportFilter, ExportedQuestion } from '../types';
 
 const API_BASE_URL = 'https://maarif-assessment.legatolxp.online/api/';
 //  const API_BASE_URL = 'http://localhost:5000/api';
@@ -85,7 +85,7 @@ export const adminAPI = {
     subjectId: number;
     gradeId: number;
     questionText: string;
-    questionType?: 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect';
+    questionType?: 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect' | 'NumericEntry' | 'Ordering' | 'Hotspot' | 'Categorize';
     options?: string[];
     correctOptionIndex?: number;
     correctAnswer?: string; // For True/False and other non-MCQ types
@@ -93,18 +93,22 @@ export const adminAPI = {
     difficultyLevel: number;
     dokLevel?: number; // Depth of Knowledge level (1-4)
     competencies?: Array<{ id: number }>;
+    allowDuplicate?: boolean; // Save even if near-duplicates exist (otherwise 409 DUPLICATE_QUESTION)
   }) => {
     const response = await api.post('/admin/questions', questionData);
     return response.data;
   },
 
-  getQuestions: async (subjectId: number, page: number = 1, limit: number = 20, gradeId?: number | null): Promise<{ questions: Question[], pagination: PaginationInfo }> => {
+  getQuestions: async (subjectId: number, page: number = 1, limit: number = 20, gradeId?: number | null, status?: QuestionStatus | null): Promise<{ questions: Question[], pagination: PaginationInfo }> => {
     const params = new URLSearchParams();
     params.append('page', page.toString());
     params.append('limit', limit.toString());
     if (gradeId !== null && gradeId !== undefined) {
       params.append('gradeId', gradeId.toString());
     }
+    if (status) {
+      params.append('status', status);
+    }
     const response = await api.get(`/admin/questions/${subjectId}?${params}`);
     return response.data;
   },
@@ -118,7 +122,7 @@ export const adminAPI = {
     subjectId: number;
     gradeId: number;
     questionText: string;
-    questionType?: 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect';
+    questionType?: 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect' | 'NumericEntry' | 'Ordering' | 'Hotspot' | 'Categorize';
     options?: string[];
     correctOptionIndex?: number;
     correctAnswer?: string; // For True/False and other non-MCQ types
@@ -136,8 +140,59 @@ export const adminAPI = {
     return response.data;
   },
 
-  importQuestionsFromCSV: async (csvData: any[]) => {
-    const response = await api.post('/admin/questions/import-csv', { csvData });
+  getQuestionVersions: async (questionId: number): Promise<{ currentVersionId: number | null; versions: QuestionVersion[] }> => {
+    const response = await api.get(`/admin/questions/${questionId}/versions`);
+    return response.data;
+  },
+
+  rollbackQuestionVersion: async (questionId: number, versionId: number) => {
+    const response = await api.post(`/admin/questions/${questionId}/versions/${versionId}/rollback`);
+    return response.data;
+  },
+
+  getQuestionReviews: async (questionId: number): Promise<QuestionReviewTrail> => {
+    const response = await api.get(`/admin/questions/${questionId}/reviews`);
+    return response.data;
+  },
+
+  addQuestionReviewComment: async (questionId: number, comment: string) => {
+    const response = await api.post(`/admin/questions/${questionId}/reviews`, { comment });
+    return response.data;
+  },
+
+  updateQuestionStatus: async (questionId: number, status: QuestionStatus, comment?: string) => {
+    const response = await api.put(`/admin/questions/${questionId}/status`, { status, comment });
+    return response.data;
+  },
+
+  assignQuestionReviewer: async (questionId: number, reviewerId: number | null) => {
+    const response = await api.put(`/admin/questions/${questionId}/reviewer`, { reviewerId });
+    return response.data;
+  },
+
+  getQuestionReviewers: async (): Promise<QuestionReviewer[]> => {
+    const response = await api.get('/admin/question-reviewers');
+    return response.data;
+  },
+
+  checkQuestionCSVDuplicates: async (csvData: object[]): Promise<CSVDuplicateCheck> => {
+    const response = await api.post('/admin/questions/check-duplicates', { csvData });
+    return response.data;
+  },
+
+  importQuestionsFromCSV: async (csvData: object[], dryRun = false) => {
+    const response = await api.post('/admin/questions/import-csv', { csvData, dryRun });
+    return response.data;
+  },
+
+  exportQuestions: async (filter: QuestionExportFilter): Promise<{ questions: ExportedQuestion[] }> => {
+    const params = new URLSearchParams();
+    (Object.entries(filter) as Array<[string, string | number | null | undefined]>).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+    const response = await api.get(`/admin/questions/export?${params}`);
     return response.data;
   },
 
@@ -334,12 +389,12 @@ export const assessmentConfigAPI = {
     return response.data;
   },
 
-  create: async (configData: { gradeId: number; subjectId: number; timeLimitMinutes: number; questionCount: number; isActive?: boolean; defaultMode?: 'Standard' | 'Adaptive' }) => {
+  create: async (configData: { gradeId: number; subjectId: number; timeLimitMinutes: number; questionCount: number; minQuestionCount?: number | null; targetStandardError?: number | null; competencyBlueprint?: CompetencyBlueprintEntry[] | null; maxPauseMinutes?: number; isActive?: boolean; defaultMode?: 'Standard' | 'Adaptive' }) => {
     const response = await api.post('/admin/assessment-configs', configData);
     return response.data;
   },
 
-  update: async (id: number, configData: { gradeId: number; subjectId: number; timeLimitMinutes: number; questionCount: number; isActive?: boolean; defaultMode?: 'Standard' | 'Adaptive' }) => {
+  update: async (id: number, configData: { gradeId: number; subjectId: number; timeLimitMinutes: number; questionCount: number; minQuestionCount?: number | null; targetStandardError?: number | null; competencyBlueprint?: CompetencyBlueprintEntry[] | null; maxPauseMinutes?: number; isActive?: boolean; defaultMode?: 'Standard' | 'Adaptive' }) => {
     const response = await api.put(`/admin/assessment-configs/${id}`, configData);
     return response.data;
   },
@@ -406,7 +461,7 @@ export const studentAPI = {
     return response.data;
   },
 
-  submitAnswer: async (questionId: number, answerIndex: number | number[] | string, assessmentId: number): Promise<AssessmentResponse> => {
+  submitAnswer: async (questionId: number, answerIndex: number | number[] | string | HotspotPoint, assessmentId: number): Promise<AssessmentResponse> => {
     const response = await api.post('/student/assessments/answer', {
       questionId,
       answerIndex,
@@ -415,6 +470,31 @@ export const studentAPI = {
     return response.data;
   },
 
+  getInProgressAssessments: async (): Promise<InProgressAssessment[]> => {
+    const response = await api.get('/student/assessments/in-progress');
+    return response.data;
+  },
+
+  resumeAssessment: async (assessmentId: number): Promise<ResumeAssessmentResponse> => {
+    const response = await api.get(`/student/assessments/${assessmentId}/resume`);
+    return response.data;
+  },
+
+  finishExpiredAssessment: async (assessmentId: number): Promise<AssessmentResponse> => {
+    const response = await api.post(`/student/assessments/${assessmentId}/finish-expired`);
+    return response.data;
+  },
+
+  pauseAssessment: async (assessmentId: number, reason?: string): Promise<PauseAssessmentResponse> => {
+    const response = await api.post(`/student/assessments/${assessmentId}/pause`, { reason });
+    return response.data;
+  },
+
+  continueAssessment: async (assessmentId: number): Promise<PauseAssessmentResponse> => {
+    const response = await api.post(`/student/assessments/${assessmentId}/resume`);
+    return response.data;
+  },
+
   getResults: async (subjectId: number): Promise<Assessment[]> => {
     const response = await api.get(`/student/assessments/results/${subjectId}`);
     return response.data;
@@ -515,6 +595,7 @@ export const studentsAPI = {
     lastName: string; 
     schoolId: number; 
     gradeId: number; 
+    accommodations?: Accommodations | null;
   }) => {
     const response = await api.post('/admin/students', studentData);
     return response.data;
@@ -526,6 +607,7 @@ export const studentsAPI = {
     schoolId: number; 
     gradeId: number; 
     password?: string; 
+    accommodations?: Accommodations | null;
   }) => {
     const response = await api.put(`/admin/students/${id}`, studentData);
     return response.data;
@@ -546,8 +628,8 @@ export const studentsAPI = {
     return response.data;
   },
 
-  importFromCSV: async (csvData: any[]) => {
-    const response = await api.post('/admin/students/import-csv', { csvData });
+  importFromCSV: async (csvData: object[], dryRun = false) => {
+    const response = await api.post('/admin/students/import-csv', { csvData, dryRun });
     return response.data;
   }
 };
@@ -587,6 +669,63 @@ export const competenciesAPI = {
   }
 };
 
+// Item Bank API
+export const itemBankAPI = {
+  getExposureReport: async (filters?: { subjectId?: number; gradeId?: number; minRate?: number }): Promise<ItemExposureReport> => {
+    const params = new URLSearchParams();
+    if (filters?.subjectId) params.append('subjectId', filters.subjectId.toString());
+    if (filters?.gradeId) params.append('gradeId', filters.gradeId.toString());
+    if (filters?.minRate !== undefined) params.append('minRate', filters.minRate.toString());
+    const response = await api.get(`/admin/item-bank/exposure?${params}`);
+    return response.data;
+  },
+  getItemAnalysis: async (filters?: { subjectId?: number; gradeId?: number; schoolId?: number }): Promise<ItemAnalysisReport> => {
+    const params = new URLSearchParams();
+    if (filters?.subjectId) params.append('subjectId', filters.subjectId.toString());
+    if (filters?.gradeId) params.append('gradeId', filters.gradeId.toString());
+    if (filters?.schoolId) params.append('schoolId', filters.schoolId.toString());
+    const response = await api.get(`/admin/item-bank/item-analysis?${params}`);
+    return response.data;
+  },
+  getDifAnalysis: async (filters: { groupBy: DifGrouping; subjectId?: number; gradeId?: number; minClassification?: DifClassification }): Promise<DifAnalysisReport> => {
+    const params = new URLSearchParams();
+    params.append('groupBy', filters.groupBy);
+    if (filters.subjectId) params.append('subjectId', filters.subjectId.toString());
+    if (filters.gradeId) params.append('gradeId', filters.gradeId.toString());
+    if (filters.minClassification) params.append('minClassification', filters.minClassification);
+    const response = await api.get(`/admin/item-bank/dif?${params}`);
+    return response.data;
+  },
+  getDuplicateReport: async (filters: { subjectId: number; gradeId?: number; threshold?: number }): Promise<DuplicateReport> => {
+    const params = new URLSearchParams();
+    params.append('subjectId', filters.subjectId.toString());
+    if (filters.gradeId) params.append('gradeId', filters.gradeId.toString());
+    if (filters.threshold !== undefined) params.append('threshold', filters.threshold.toString());
+    const response = await api.get(`/admin/item-bank/duplicates?${params}`);
+    return response.data;
+  },
+  mergeDuplicateQuestions: async (keepId: number, duplicateId: number): Promise<{ message: string; outcome: 'deleted' | 'retired' }> => {
+    const response = await api.post('/admin/item-bank/duplicates/merge', { keepId, duplicateId });
+    return response.data;
+  },
+  runCalibration: async (options?: { subjectId?: number; minResponses?: number; threshold?: number }): Promise<CalibrationRunResult> => {
+    const response = await api.post('/admin/item-bank/calibration/run', options || {});
+    return response.data;
+  },
+  acceptCalibrationProposal: async (proposalId: number) => {
+    const response = await api.post(`/admin/item-bank/calibration/proposals/${proposalId}/accept`);
+    return response.data;
+  },
+  dismissCalibrationProposal: async (proposalId: number) => {
+    const response = await api.post(`/admin/item-bank/calibration/proposals/${proposalId}/dismiss`);
+    return response.data;
+  },
+  getDifficultyHistory: async (questionId: number): Promise<{ history: DifficultyHistoryEntry[] }> => {
+    const response = await api.get(`/admin/item-bank/questions/${questionId}/difficulty-history`);
+    return response.data;
+  }
+};
+
 // SSO API
 export const ssoAPI = {
   validateToken: async (token: string) => {
@@ -54,7 +54,7 @@ export interface PaginationInfo {
   hasPreviousPage: boolean;
 }
 
-export type QuestionType = 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect';
+export type QuestionType = 'MCQ' | 'TrueFalse' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'MultipleSelect' | 'NumericEntry' | 'Ordering' | 'Hotspot' | 'Categorize';
 
 export interface Question {
   id: number;
@@ -74,6 +74,10 @@ export interface Question {
   createdAt?: string;
   createdByUsername?: string;
   gradeName?: string;
+  status?: QuestionStatus; // Editorial status; only approved items reach students
+  reviewerId?: number | null;
+  reviewerUsername?: string | null;
+  calibrationProposal?: QuestionCalibrationProposal | null; // Pending empirical difficulty change
   competencies?: Array<{
     id: number;
     code: string;
@@ -102,37 +106,155 @@ export interface Assessment {
   subjectName?: string;
 }
 
+// Scoring policy for MultipleSelect, Matching, FillInBlank, Ordering and Categorize (stored in questionMetadata.partialCredit)
+export interface PartialCreditPolicy {
+  policy: 'all_or_nothing' | 'per_part';
+  wrongPickPenalty?: number; // MultipleSelect only: credit deducted per wrong pick (0-1)
+}
+
+// Typed-number settings for NumericEntry (stored in questionMetadata.numeric; the key itself is correctAnswer)
+export type NumericToleranceMode = 'exact' | 'absolute' | 'relative';
+export type NumericAnswerForm = 'decimal' | 'fraction' | 'mixed';
+
+export interface NumericEntrySettings {
+  tolerance: {
+    mode: NumericToleranceMode;
+    value?: number; // Absolute: allowed difference; relative: allowed difference as a percentage of the key
+  };
+  forms?: NumericAnswerForm[]; // Number forms students may type (all when omitted)
+  units?: string[]; // Accepted units, first one shown to students
+  unitRequired?: boolean;
+}
+
+// Hotspot image (questionMetadata.hotspot) and regions (correctAnswer, never sent to students)
+// Coordinates are fractions (0-1) of the image width and height
+export interface HotspotPoint {
+  x: number;
+  y: number;
+}
+
+export type HotspotRegion =
+  | { shape: 'rect'; x: number; y: number; width: number; height: number }
+  | { shape: 'polygon'; points: HotspotPoint[] };
+
+export interface HotspotSettings {
+  imageUrl: string;
+  imageAlt?: string;
+}
+
+// Categorize buckets and the items sorted into them (questionMetadata); correctAnswer and responses hold
+// the category index of each item
+export interface CategorizeSettings {
+  categories: string[];
+  items: string[];
+}
+
 export interface AssessmentQuestion {
   id: number;
   text: string;
   options: string[];
   questionNumber: number;
   totalQuestions: number;
-  questionType?: 'MCQ' | 'TrueFalse' | 'MultipleSelect' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay';
+  questionType?: 'MCQ' | 'TrueFalse' | 'MultipleSelect' | 'Matching' | 'FillInBlank' | 'ShortAnswer' | 'Essay' | 'NumericEntry' | 'Ordering' | 'Hotspot' | 'Categorize';
   questionMetadata?: any; // For FillInBlank and other complex types
 }
 
+export type AdaptiveStopReason = 'max_items' | 'precision_reached' | 'time_limit' | 'item_bank_exhausted' | 'abandoned';
+
 export interface AssessmentResponse {
   completed: boolean;
   isCorrect?: boolean;
+  score?: number; // Credit earned for the answer just submitted (0-1)
   ritScore?: number;
+  currentRIT?: number; // Interim ability estimate after the latest answer (Adaptive mode)
+  standardError?: number | null; // Standard error of the ability estimate
+  stopReason?: AdaptiveStopReason; // Stopping rule that ended the test (when completed)
   correctAnswers?: number;
   totalQuestions?: number;
   duration?: number;
   assessmentId?: number;
   question?: AssessmentQuestion;
+  timeRemainingSeconds?: number | null; // Seconds left before the server-side deadline (null = no limit)
+  message?: string;
+}
+
+// Per-student testing accommodations (special education)
+export interface Accommodations {
+  timeMultiplier: number; // Applied to the configured time limit (1.5 = time and a half)
+  breakMinutes: number; // Extra pause time on top of the grade/subject allowance
+  textToSpeech: boolean;
+  largeFont: boolean;
 }
 
 export interface StartAssessmentResponse {
   assessmentId: number;
   timeLimitMinutes: number;
+  timeRemainingSeconds?: number | null; // Seconds left before the server-side deadline
+  accommodations?: Accommodations; // Accommodations applied to this test event
   question: AssessmentQuestion;
 }
 
+// Error body of the test event endpoints (start, resume, pause, finish)
+export interface AssessmentErrorResponse {
+  error?: string;
+  code?: string;
+  ritScore?: number | null; // Set with ASSESSMENT_EXPIRED when the server closed the test
+  timeRemainingSeconds?: number | null; // Set with NOT_EXPIRED
+}
+
+// Payload for picking up an assessment in progress (adaptive session or rebuilt Standard question list)
+export interface ResumeAssessmentResponse extends StartAssessmentResponse {
+  subjectId: number;
+  period: string;
+  assignmentId: number | null;
+  assignmentName: string | null;
+  mode: 'Standard' | 'Adaptive';
+  timeRemainingSeconds: number | null;
+  paused: boolean;
+  currentRIT: number | null;
+  standardError: number | null;
+  allQuestions?: Question[]; // Standard mode: answered questions first, then the remaining ones
+}
+
+// Result of pausing or resuming a test event
+export interface PauseAssessmentResponse {
+  assessmentId: number;
+  paused: boolean;
+  pauseAllowanceSeconds?: number; // Pause time left before the clock starts again
+  creditedSeconds?: number; // Pause time that did not count against the time limit
+  timeRemainingSeconds: number | null;
+}
+
+// One pause of a test event, as shown to proctors in the results
+export interface AssessmentPauseLogEntry {
+  pausedAt: string;
+  resumedAt: string | null;
+  creditedSeconds: number | null; // Set when the pause ends
+  reason: string | null;
+}
+
+// Assessment that was started but not finished
+export interface InProgressAssessment {
+  assessmentId: number;
+  subjectId: number;
+  subjectName: string;
+  mode: 'Standard' | 'Adaptive';
+  period: string;
+  assignmentId: number | null;
+  assignmentName: string | null;
+  questionsAnswered: number;
+  totalQuestions: number;
+  startedAt: string;
+  paused: boolean;
+  timeRemainingSeconds: number | null;
+}
+
 export interface AssessmentResult {
   questionNumber: number;
   isCorrect: boolean;
+  score?: number; // Credit earned (0-1); between 0 and 1 when a multi-part question earned partial credit
   difficulty: number;
+  questionVersion?: number | null; // Question version the student answered (null = answered before versioning)
   questionText: string;
   questionType?: string;
   options: string[];
@@ -209,6 +331,8 @@ export interface DetailedAssessmentResults {
     dateTaken: string;
     duration: number;
     mode?: 'Standard' | 'Adaptive';
+    stopReason?: AdaptiveStopReason | null;
+    accommodations?: Accommodations | null; // Accommodations in effect for this test event
   };
   statistics: {
     totalQuestions: number;
@@ -216,6 +340,7 @@ export interface DetailedAssessmentResults {
     incorrectAnswers: number;
     previousRIT: number | null;
     currentRIT: number;
+    standardError?: number | null; // Standard error of currentRIT (null for assessments scored before IRT estimation)
     accuracy: number;
   };
   responses: AssessmentResult[];
@@ -235,12 +360,22 @@ export interface DashboardData {
   assessments: Assessment[];
 }
 
+// Target share of an adaptive test's items drawn from one competency
+export interface CompetencyBlueprintEntry {
+  competencyId: number;
+  targetPercent: number;
+}
+
 export interface AssessmentConfiguration {
   id: number;
   gradeId: number;
   subjectId: number;
   timeLimitMinutes: number;
-  questionCount: number;
+  questionCount: number; // Maximum number of questions
+  minQuestionCount?: number | null; // Minimum number of questions before the precision rule can stop the test
+  targetStandardError?: number | null; // Stop once the standard error is at or below this value
+  competencyBlueprint?: CompetencyBlueprintEntry[] | null; // Target share of adaptive items per competency
+  maxPauseMinutes?: number; // Total pause time allowed per test event (0 = pausing disabled)
   isActive: boolean;
   defaultMode?: 'Standard' | 'Adaptive';
   createdAt?: string;
@@ -349,4 +484,256 @@ export interface CompetencyStats {
   strong_count: number;
   neutral_count: number;
   growth_count: number;
-}
\ No newline at end of file
+}
+
+// Adaptive item exposure (share of a subject's adaptive tests that showed the item)
+export interface ItemExposureEntry {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  difficultyLevel: number;
+  subjectId: number;
+  subjectName: string;
+  gradeId: number | null;
+  gradeName: string | null;
+  exposureCount: number;
+  testsAdministered: number;
+  exposureRate: number;
+  overExposed: boolean;
+  lastExposedAt: string | null;
+}
+
+export interface ItemExposureReport {
+  maxExposureRate: number;
+  minRate: number;
+  items: ItemExposureEntry[];
+}
+
+// Immutable question versions (every create, edit and rollback)
+export interface QuestionVersion {
+  id: number;
+  versionNumber: number;
+  questionText: string;
+  questionType: QuestionType;
+  options: string[];
+  correctOptionIndex: number | null;
+  correctAnswer: string | null;
+  questionMetadata: unknown; // Answer structure for FillInBlank, Matching, etc.
+  difficultyLevel: number;
+  dokLevel: number | null;
+  standard: string | null;
+  contentFocus: string | null;
+  changeType: 'created' | 'edited' | 'rollback';
+  restoredFromVersion: number | null;
+  createdByUsername: string | null;
+  createdAt: string;
+  responseCount: number; // Responses answered on this version
+}
+
+// Editorial workflow: draft -> review -> approved -> retired
+export type QuestionStatus = 'draft' | 'review' | 'approved' | 'retired';
+
+export interface QuestionReviewEntry {
+  id: number;
+  userId: number | null;
+  username: string | null;
+  comment: string | null;
+  statusFrom: QuestionStatus | null; // Set when the entry records a status change
+  statusTo: QuestionStatus | null;
+  createdAt: string;
+}
+
+export interface QuestionReviewTrail {
+  status: QuestionStatus;
+  reviewerId: number | null;
+  reviewerUsername: string | null;
+  entries: QuestionReviewEntry[];
+}
+
+export interface QuestionReviewer {
+  id: number;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+// Classical item analysis (difficulty, discrimination and distractor statistics from completed tests)
+export type ItemAnalysisFlag = 'negative_discrimination' | 'dead_distractor';
+
+export interface ItemOptionStatistic {
+  index: number;
+  text: string;
+  correct: boolean;
+  count: number;
+  share: number;
+}
+
+export interface ItemAnalysisEntry {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  difficultyLevel: number;
+  subjectName: string;
+  gradeName: string | null;
+  timesAdministered: number;
+  pValue: number | null;
+  pointBiserial: number | null;
+  meanResponseTime: number | null;
+  options: ItemOptionStatistic[] | null;
+  flags: ItemAnalysisFlag[];
+}
+
+export interface ItemAnalysisReport {
+  minResponses: number;
+  deadDistractorShare: number;
+  items: ItemAnalysisEntry[];
+}
+
+// Differential item functioning (Mantel-Haenszel, students matched on Growth Metric)
+export type DifGrouping = 'school_type' | 'school' | 'accommodations';
+export type DifClassification = 'A' | 'B' | 'C';
+
+export interface DifItemResult {
+  questionId: number;
+  questionText: string;
+  questionType: string;
+  difficultyLevel: number;
+  subjectName: string;
+  gradeName: string | null;
+  focalGroup: string;
+  referenceGroup: string;
+  focalCount: number;
+  referenceCount: number;
+  focalPValue: number;
+  referencePValue: number;
+  oddsRatio: number;
+  deltaDif: number; // Negative = harder for the focal group
+  standardError: number;
+  chiSquare: number;
+  classification: DifClassification;
+}
+
+export interface DifAnalysisReport {
+  groupBy: DifGrouping;
+  minClassification: DifClassification;
+  stratumWidth: number;
+  minGroupResponses: number;
+  groups: string[];
+  items: DifItemResult[];
+}
+
+// Near-duplicate detection (normalised stem overlap plus answer-choice overlap)
+export interface SimilarQuestion {
+  id: number;
+  gradeId: number | null;
+  gradeName: string | null;
+  questionText: string;
+  questionType: QuestionType;
+  options: string[];
+  difficultyLevel: number;
+  status: QuestionStatus;
+  responseCount?: number; // Only in the bank report (answered items are retired instead of deleted)
+}
+
+export interface SimilarQuestionMatch {
+  question: SimilarQuestion;
+  score: number; // Combined similarity (0-1)
+  stemSimilarity: number;
+  optionOverlap: number | null; // null when either item has no answer choices
+}
+
+export interface CSVDuplicateCheck {
+  threshold: number;
+  results: Array<{
+    row: number; // 1-based CSV data row
+    matches: SimilarQuestionMatch[];
+    fileDuplicates: number[]; // Other rows in the same file that look alike
+  }>;
+}
+
+export interface DuplicatePair {
+  score: number;
+  stemSimilarity: number;
+  optionOverlap: number | null;
+  questions: [SimilarQuestion, SimilarQuestion];
+}
+
+export interface DuplicateReport {
+  threshold: number;
+  questionCount: number;
+  pairs: DuplicatePair[];
+}
+
+// Question bank exchange (QTI packages)
+export interface QuestionExportFilter {
+  subjectId?: number | null;
+  gradeId?: number | null;
+  competencyId?: number | null;
+  status?: QuestionStatus | null;
+}
+
+export interface ExportedQuestion extends Question {
+  subjectName: string;
+  competencies: Array<{ id: number; code: string; name: string }>;
+}
+
+// A question read from an import file, in the shape adminAPI.createQuestion takes (subject, grade and
+// difficulty are chosen when importing). Media paths point at object URLs until they are uploaded.
+export interface QuestionDraft {
+  sourceId: string; // Item identifier in the source file
+  title: string;
+  questionType: QuestionType;
+  questionText: string;
+  options: string[];
+  correctOptionIndex: number;
+  correctAnswer?: string;
+  questionMetadata?: Record<string, unknown>;
+  warnings: string[]; // Parts of the item that could not be carried over
+}
+
+// An item left out of an import or export, with the reason
+export interface QuestionExchangeIssue {
+  sourceId: string;
+  title: string;
+  reason: string;
+}
+
+export interface QuestionImportParseResult {
+  drafts: QuestionDraft[];
+  skipped: QuestionExchangeIssue[];
+  media: Map<string, File>; // Object URL used in the drafts -> media file from the package
+}
+
+export interface QuestionExportResult {
+  blob: Blob;
+  exported: number;
+  skipped: QuestionExchangeIssue[];
+  notes: QuestionExchangeIssue[]; // Exported questions that lost something on the way
+}
+
+// Empirical difficulty calibration (difficulty refitted from response history)
+export interface QuestionCalibrationProposal {
+  id: number;
+  proposedDifficulty: number;
+  standardError: number;
+  responseCount: number;
+}
+
+export interface CalibrationRunResult {
+  message: string;
+  runId: number;
+  itemsCalibrated: number;
+  proposalsCreated: number;
+}
+
+export interface DifficultyHistoryEntry {
+  id: number;
+  oldDifficulty: number;
+  newDifficulty: number;
+  source: 'calibration' | 'manual';
+  proposalId: number | null;
+  responseCount: number | null;
+  standardError: number | null;
+  changedBy: string | null;
+  changedAt: string;
+}
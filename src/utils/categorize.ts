@@ -0,0 +1,35 @@
+// Categorize questions store their categories and items in questionMetadata; correctAnswer is a JSON array
+// with the category index of each item (scoring happens on the server). Responses use the same shape.
+
+export const MIN_CATEGORIES = 2;
+export const MIN_CATEGORIZE_ITEMS = 2;
+
+// Category index of each item from a stored placement; items without a valid category come back as null
+export const parseCategorizePlacement = (
+  placement: string | number[] | undefined | null,
+  itemCount: number,
+  categoryCount: number
+): Array<number | null> => {
+  let parsed: unknown = placement;
+  if (typeof placement === 'string') {
+    try {
+      parsed = JSON.parse(placement);
+    } catch {
+      parsed = null;
+    }
+  }
+  const list = Array.isArray(parsed) ? parsed : [];
+  return Array.from({ length: itemCount }, (_, itemIdx) => {
+    const categoryIdx = list[itemIdx];
+    return Number.isInteger(categoryIdx) && categoryIdx >= 0 && categoryIdx < categoryCount ? categoryIdx : null;
+  });
+};
+
+// Items grouped under their correct category, for question previews
+export const itemsByCategory = (categories: string[], items: string[], correctAnswer: string | undefined) => {
+  const placement = parseCategorizePlacement(correctAnswer, items.length, categories.length);
+  return categories.map((category, categoryIdx) => ({
+    category,
+    items: items.filter((_, itemIdx) => placement[itemIdx] === categoryIdx)
+  }));
+};
@@ -0,0 +1,32 @@
+// Error report of a CSV import check, downloaded so the file can be fixed row by row
+
+export interface CSVImportRowError<Row> {
+  row: number; // 1-based CSV data row
+  error: string;
+  data: Row;
+}
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per error with the row number, the message and the listed columns of the row as uploaded
+export const downloadCsvImportReport = <Row extends object>(
+  errors: CSVImportRowError<Row>[],
+  columns: Array<keyof Row & string>,
+  fileName: string
+) => {
+  const lines = [
+    ['row', 'error', ...columns].map(csvCell).join(','),
+    ...errors.map(item => [item.row, item.error, ...columns.map(column => item.data?.[column])].map(csvCell).join(','))
+  ];
+
+  const blob = new Blob([`\uFEFF${lines.join('\r\n')}\r\n`], { type: 'text/csv;charset=utf-8;' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
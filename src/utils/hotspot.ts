@@ -0,0 +1,12 @@
+import { HotspotRegion } from '../types';
+
+// Correct regions of a Hotspot question, stored as JSON in correctAnswer (scoring happens on the server)
+export const parseHotspotRegions = (correctAnswer: string | undefined | null): HotspotRegion[] => {
+  if (!correctAnswer) return [];
+  try {
+    const regions = JSON.parse(correctAnswer);
+    return Array.isArray(regions) ? regions : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,140 @@
+import katex from 'katex';
+import html2canvas from 'html2canvas';
+
+// Math in question text, options, matching items and blank options is written in LaTeX between delimiters:
+// \( ... \) for inline math, \[ ... \] or $$ ... $$ for display math. Single dollar signs are left alone so
+// prices ("$5") never turn into math. Text is stored as typed and rendered with KaTeX wherever it is shown.
+
+export interface MathSegment {
+  type: 'text' | 'math';
+  value: string;
+  display?: boolean;
+}
+
+const MATH_PATTERN = /\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]|\$\$([\s\S]+?)\$\$/g;
+
+export const hasMath = (text: string | null | undefined): boolean => {
+  if (!text) return false;
+  MATH_PATTERN.lastIndex = 0;
+  return MATH_PATTERN.test(text);
+};
+
+// Split text into plain and math parts, in order
+export const splitMath = (text: string): MathSegment[] => {
+  const segments: MathSegment[] = [];
+  let lastIndex = 0;
+  MATH_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MATH_PATTERN.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', value: text.slice(lastIndex, match.index) });
+    }
+    const inline = match[1];
+    segments.push({ type: 'math', value: (inline ?? match[2] ?? match[3]).trim(), display: inline === undefined });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return segments;
+};
+
+// Whether a position falls inside a math expression. FillInBlank uses this so TeX groups such as x^{2}
+// are not mistaken for {0}-style blanks.
+export const isInsideMath = (text: string, index: number): boolean => {
+  MATH_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MATH_PATTERN.exec(text)) !== null && match.index <= index) {
+    if (index < match.index + match[0].length) return true;
+  }
+  return false;
+};
+
+// KaTeX markup for one expression; invalid TeX renders as red source instead of throwing.
+// MathML is included so screen readers can read the expression.
+export const renderTex = (tex: string, display = false): string =>
+  katex.renderToString(tex, { displayMode: display, throwOnError: false, output: 'htmlAndMathml' });
+
+// Parse error for the editor's live preview, or null when the TeX is valid
+export const checkTex = (tex: string): string | null => {
+  try {
+    katex.renderToString(tex, { throwOnError: true });
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message.replace(/^KaTeX parse error:\s*/, '') : 'Invalid expression';
+  }
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Replace the math in an HTML fragment (rich question text) with KaTeX markup. Only text nodes are touched,
+// so tags and attributes are never parsed as math.
+export const renderMathInHtml = (html: string): string => {
+  if (!hasMath(html) || typeof document === 'undefined') return html;
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  textNodes.forEach(node => {
+    const text = node.textContent || '';
+    if (!hasMath(text)) return;
+    const wrapper = document.createElement('span');
+    wrapper.innerHTML = splitMath(text)
+      .map(segment => (segment.type === 'math' ? renderTex(segment.value, segment.display) : escapeHtml(segment.value)))
+      .join('');
+    node.replaceWith(...Array.from(wrapper.childNodes));
+  });
+
+  return template.innerHTML;
+};
+
+// KaTeX markup for plain text (options, items), with everything outside the math escaped
+export const renderMathInText = (text: string): string => renderMathInHtml(escapeHtml(text));
+
+// Draw text that contains math into a PNG for the jsPDF exports, which cannot lay out KaTeX themselves.
+// Returns the image with its size in CSS pixels, or null if the browser could not render it.
+export const renderMathTextToImage = async (
+  text: string,
+  maxWidthPx: number,
+  fontSizePx: number
+): Promise<{ dataUrl: string; width: number; height: number } | null> => {
+  const container = document.createElement('div');
+  container.style.cssText = [
+    'position: fixed',
+    'left: -10000px',
+    'top: 0',
+    'display: inline-block',
+    `max-width: ${maxWidthPx}px`,
+    `font-size: ${fontSizePx}px`,
+    'line-height: 1.4',
+    'color: #000',
+    'background: #fff',
+    'font-family: helvetica, arial, sans-serif',
+    'white-space: pre-wrap'
+  ].join(';');
+  container.innerHTML = renderMathInText(text);
+  document.body.appendChild(container);
+
+  try {
+    if (document.fonts?.ready) {
+      await document.fonts.ready;
+    }
+    const canvas = await html2canvas(container, { scale: 2, backgroundColor: '#ffffff', logging: false });
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      width: canvas.width / 2,
+      height: canvas.height / 2
+    };
+  } catch (error) {
+    console.error('Error rendering math for PDF:', error);
+    return null;
+  } finally {
+    document.body.removeChild(container);
+  }
+};
@@ -0,0 +1,1228 @@
+import {
+  ExportedQuestion,
+  NumericEntrySettings,
+  PartialCreditPolicy,
+  QuestionDraft,
+  QuestionExchangeIssue,
+  QuestionExportResult,
+  QuestionImportParseResult
+} from '../types';
+import { DEFAULT_NUMERIC_SETTINGS, isValidNumericKey } from './numericAnswer';
+import { buildOrderingItems, MIN_ORDERING_ITEMS } from './ordering';
+import { MIN_CATEGORIES, MIN_CATEGORIZE_ITEMS, parseCategorizePlacement } from './categorize';
+import {
+  choiceAnswer,
+  correctChoiceIndices,
+  DraftAnswer,
+  escapeXml,
+  EXTENSIONS_BY_TYPE,
+  extensionOf,
+  fetchMedia,
+  fillInBlankText,
+  findBlanks,
+  isPackagedUrl,
+  MEDIA_TYPES,
+  numericKeyValue,
+  parseIndexList,
+  questionTitle,
+  stripTags
+} from './questionExchange';
+
+// Moodle question bank formats. Moodle XML carries every core question type, with images embedded as base64
+// <file> elements that the HTML refers to as @@PLUGINFILE@@/name. GIFT is the plain-text format teachers write
+// by hand ("What is 2+2? {=4 ~3 ~5}"). Both are read into question drafts and written from exported questions
+// in the browser.
+
+// Grades Moodle accepts for an answer, as a share of the mark (imports with other values are rejected)
+const MOODLE_GRADES = [
+  1, 0.9, 0.8333333, 0.8, 0.75, 0.7, 0.6666667, 0.6, 0.5, 0.4, 0.3333333, 0.3, 0.25, 0.2, 0.1666667, 0.1428571,
+  0.125, 0.1111111, 0.1, 0.05, 0
+];
+
+// Embedded (cloze) questions that become fill-in-the-blank dropdowns
+const CLOZE_CHOICE_TYPES = new Set([
+  'MULTICHOICE', 'MC', 'MULTICHOICE_V', 'MCV', 'MULTICHOICE_H', 'MCH',
+  'MULTICHOICE_S', 'MCS', 'MULTICHOICE_VS', 'MCVS', 'MULTICHOICE_HS', 'MCHS'
+]);
+const CLOZE_PATTERN = /\{(\d*):([A-Z_]+):((?:\\.|[^\\}])*)\}/g;
+
+// Moodle question types without a counterpart here, by their names in Moodle XML
+const MOODLE_TYPE_NAMES: Record<string, string> = {
+  calculated: 'calculated',
+  calculatedmulti: 'calculated multichoice',
+  calculatedsimple: 'simple calculated',
+  ddimageortext: 'drag and drop onto image',
+  ddmarker: 'drag and drop markers',
+  ddwtos: 'drag and drop into text',
+  gapselect: 'select missing words',
+  randomsamatch: 'random short-answer matching',
+  random: 'random'
+};
+
+const PLUGINFILE = '@@PLUGINFILE@@/';
+const CHOICE_MEDIA_WARNING = 'Images and media inside choices or fill-in-the-blank text were left out';
+const PER_PART: PartialCreditPolicy = { policy: 'per_part' };
+
+// Nearest grade Moodle accepts, written as the percentage its "fraction" attributes use ("33.33333", "-100")
+const moodleFraction = (share: number) => {
+  const size = Math.min(Math.abs(share), 1);
+  const nearest = MOODLE_GRADES.reduce((best, grade) => (Math.abs(grade - size) < Math.abs(best - size) ? grade : best));
+  return String(Number((Math.sign(share) * nearest * 100).toFixed(5)));
+};
+
+// Split on a separator that is not escaped with a backslash (escapes are kept)
+const splitUnescaped = (text: string, separator: string) => {
+  const parts = [''];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      parts[parts.length - 1] += text.slice(i, i + 2);
+      i++;
+    } else if (text.startsWith(separator, i)) {
+      parts.push('');
+      i += separator.length - 1;
+    } else {
+      parts[parts.length - 1] += text[i];
+    }
+  }
+  return parts;
+};
+
+const indexOfUnescaped = (text: string, search: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(search, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const partialCreditOf = (question: ExportedQuestion) =>
+  (question.questionMetadata?.partialCredit as PartialCreditPolicy | undefined)?.policy === 'per_part'
+    ? (question.questionMetadata?.partialCredit as PartialCreditPolicy)
+    : null;
+
+// Matching when every answer is used once, otherwise Categorize: Moodle matching questions may give several
+// items the same answer, which is also how Categorize questions are exported
+const matchAnswer = (pairs: Array<[string, string]>, distractors: string[]): DraftAnswer => {
+  const leftItems = pairs.map(([left]) => left);
+  const rightItems = Array.from(new Set([...pairs.map(([, right]) => right), ...distractors]));
+  if (pairs.length === 0) throw new Error('No matching pairs are defined');
+  if (leftItems.some(item => !item) || rightItems.some(item => !item)) {
+    throw new Error('A matching item has no text (image-only items are not supported)');
+  }
+
+  const placement = pairs.map(([, right]) => rightItems.indexOf(right));
+  if (new Set(placement).size === placement.length) {
+    if (leftItems.length < 2 || rightItems.length < 2) throw new Error('Matching items need at least 2 items on each side');
+    const correctPairs = placement.map((right, left) => ({ left, right }));
+    return {
+      questionType: 'Matching',
+      options: [],
+      correctOptionIndex: 0,
+      correctAnswer: JSON.stringify(correctPairs),
+      questionMetadata: { leftItems, rightItems, correctPairs, partialCredit: PER_PART }
+    };
+  }
+
+  if (rightItems.length < MIN_CATEGORIES || leftItems.length < MIN_CATEGORIZE_ITEMS) {
+    throw new Error(`Categorize items need at least ${MIN_CATEGORIES} categories and ${MIN_CATEGORIZE_ITEMS} items`);
+  }
+  return {
+    questionType: 'Categorize',
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(placement),
+    questionMetadata: { categories: rightItems, items: leftItems, partialCredit: PER_PART }
+  };
+};
+
+const numericAnswer = (key: string, tolerance: number, units: string[], unitRequired: boolean): DraftAnswer => {
+  if (!isValidNumericKey(key)) throw new Error(`The numeric answer "${key}" could not be read`);
+  const numeric: NumericEntrySettings = {
+    ...DEFAULT_NUMERIC_SETTINGS,
+    tolerance: tolerance > 0 ? { mode: 'absolute', value: tolerance } : { mode: 'exact', value: 0 },
+    units,
+    unitRequired: unitRequired && units.length > 0
+  };
+  return { questionType: 'NumericEntry', options: [], correctOptionIndex: 0, correctAnswer: key.trim(), questionMetadata: { numeric } };
+};
+
+const fillInBlankAnswer = (questionText: string, blanks: Array<{ options: string[]; correctIndex: number }>): DraftAnswer => {
+  if (blanks.length === 0) throw new Error('The text has no gaps to fill in');
+  blanks.forEach((blank, idx) => {
+    if (blank.options.length < 2) throw new Error(`Gap ${idx + 1} needs at least 2 choices`);
+    if (blank.options.some(option => !option)) throw new Error(`A choice in gap ${idx + 1} has no text`);
+    if (blank.correctIndex < 0) throw new Error(`Gap ${idx + 1} has no correct choice`);
+  });
+  if (findBlanks(questionText).length !== blanks.length) {
+    throw new Error('The question text contains "___" or "{n}", which would be read as extra blanks');
+  }
+  return {
+    questionType: 'FillInBlank',
+    questionText,
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(blanks.map(blank => blank.correctIndex)),
+    questionMetadata: { blanks, partialCredit: PER_PART }
+  };
+};
+
+const shortAnswer = (keys: string[], warnings: string[]): DraftAnswer => {
+  if (keys.length > 0) {
+    const quoted = keys.map(key => `"${key}"`).join(', ');
+    warnings.push(`The accepted answers (${quoted}) were not imported; Short Answer questions are graded by AI`);
+  }
+  return { questionType: 'ShortAnswer', options: [], correctOptionIndex: 0, questionMetadata: { description: '', maxWords: 100 } };
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------------------------------------
+
+interface ImportContext {
+  files: Map<string, string | null>; // File path as referenced after @@PLUGINFILE@@/ -> object URL
+  media: Map<string, File>; // Object URL -> media file, shared by the whole import
+  warnings: string[];
+}
+
+const childOf = (el: Element | undefined, name: string) =>
+  el ? Array.from(el.children).find(child => child.localName === name) : undefined;
+const childrenOf = (el: Element | undefined, name: string) =>
+  el ? Array.from(el.children).filter(child => child.localName === name) : [];
+const textOf = (el: Element | undefined) => childOf(el, 'text')?.textContent ?? '';
+const valueOf = (el: Element | undefined, name: string) => (childOf(el, name)?.textContent ?? '').trim();
+
+// Decode the base64 files of a question into object URLs
+const loadFiles = (question: Element, ctx: ImportContext) => {
+  Array.from(question.getElementsByTagName('file')).forEach(file => {
+    const name = file.getAttribute('name') || '';
+    const path = `${file.getAttribute('path') || '/'}${name}`.replace(/^\/+/, '');
+    const type = MEDIA_TYPES[extensionOf(name)];
+    if (!name || ctx.files.has(path)) return;
+    if (!type || (file.getAttribute('encoding') || 'base64') !== 'base64') {
+      ctx.files.set(path, null);
+      return;
+    }
+    try {
+      const binary = atob((file.textContent || '').replace(/\s+/g, ''));
+      const media = new File([Uint8Array.from(binary, char => char.charCodeAt(0))], name, { type });
+      const url = URL.createObjectURL(media);
+      ctx.media.set(url, media);
+      ctx.files.set(path, url);
+    } catch {
+      ctx.files.set(path, null);
+    }
+  });
+};
+
+// Object URL for a @@PLUGINFILE@@ reference; other URLs are kept as written
+const resolveSource = (src: string, ctx: ImportContext) => {
+  if (!src.startsWith(PLUGINFILE)) return /^\s*javascript:/i.test(src) ? null : src;
+  let path = src.slice(PLUGINFILE.length).split(/[?#]/)[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep the path as written
+  }
+  const url = ctx.files.get(path) ?? null;
+  if (!url) ctx.warnings.push(`Media file missing from the question or of an unsupported type: ${path}`);
+  return url;
+};
+
+// Moodle HTML as editor HTML: scripts and event handlers dropped, embedded files turned into object URLs and
+// audio/video (players or links to media files, which Moodle shows as players) written as the editor does
+const editorHtml = (html: string, ctx: ImportContext) => {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const doc = body.ownerDocument;
+  body.querySelectorAll('script, style, object, embed, form, input, button, textarea, select').forEach(el => el.remove());
+  body.querySelectorAll('*').forEach(el => {
+    Array.from(el.attributes)
+      .filter(attr => attr.name.startsWith('on') || /^\s*javascript:/i.test(attr.value))
+      .forEach(attr => el.removeAttribute(attr.name));
+  });
+
+  const player = (kind: string, src: string) => {
+    const el = doc.createElement(kind === 'audio' ? 'audio' : 'iframe');
+    if (kind === 'audio') {
+      el.setAttribute('src', src);
+      el.setAttribute('controls', 'true');
+      el.setAttribute('preload', 'metadata');
+    } else {
+      el.setAttribute('class', 'ql-video');
+      el.setAttribute('frameborder', '0');
+      el.setAttribute('allowfullscreen', 'true');
+      el.setAttribute('src', src);
+    }
+    return el;
+  };
+
+  body.querySelectorAll('img').forEach(img => {
+    const src = resolveSource(img.getAttribute('src') || '', ctx);
+    if (src) {
+      img.setAttribute('src', src);
+    } else {
+      img.remove();
+    }
+  });
+  body.querySelectorAll('audio, video').forEach(el => {
+    const src = resolveSource(el.getAttribute('src') || el.querySelector('source')?.getAttribute('src') || '', ctx);
+    if (src) {
+      el.replaceWith(player(el.localName, src));
+    } else {
+      el.remove();
+    }
+  });
+  body.querySelectorAll('a[href]').forEach(link => {
+    const href = link.getAttribute('href') || '';
+    const kind = (MEDIA_TYPES[extensionOf(href)] || '').split('/')[0];
+    const src = resolveSource(href, ctx);
+    if (!src) {
+      link.replaceWith(...Array.from(link.childNodes));
+    } else if (href.startsWith(PLUGINFILE) && kind === 'image') {
+      const img = doc.createElement('img');
+      img.setAttribute('src', src);
+      link.replaceWith(img);
+    } else if (kind === 'audio' || kind === 'video') {
+      link.replaceWith(player(kind, src));
+    } else {
+      link.setAttribute('href', src);
+    }
+  });
+  body.querySelectorAll('iframe').forEach(el => {
+    if (el.classList.contains('ql-video')) return;
+    const src = el.getAttribute('src') || '';
+    if (/^https?:/i.test(src)) {
+      el.replaceWith(player('video', src));
+    } else {
+      ctx.warnings.push('Embedded frames other than videos were left out');
+      el.remove();
+    }
+  });
+
+  const result = body.innerHTML.trim();
+  return !result || /^<(p|div|h\d|ul|ol|table|blockquote|pre)[\s>]/i.test(result) ? result : `<p>${result}</p>`;
+};
+
+// Text of a Moodle text field as editor HTML, whatever its format
+const fieldHtml = (field: Element | undefined, ctx: ImportContext) => {
+  const text = textOf(field);
+  switch (field?.getAttribute('format') || 'html') {
+    case 'html':
+      return editorHtml(text, ctx);
+    case 'moodle_auto_format':
+      return editorHtml(text.replace(/\r?\n/g, '<br>'), ctx);
+    default:
+      return text.trim() ? `<p>${escapeXml(text.trim()).replace(/\r?\n/g, '<br>')}</p>` : '';
+  }
+};
+
+// Text of HTML for choices, items and blank text; keepLines keeps paragraph breaks
+const htmlToText = (html: string, ctx: ImportContext, keepLines = false) => {
+  const body = new DOMParser().parseFromString(
+    html.replace(/<\/(p|div|li|h\d|tr)>|<br\s*\/?>/gi, '$&\n'),
+    'text/html'
+  ).body;
+  if (body.querySelector('img, audio, video, iframe, object')) ctx.warnings.push(CHOICE_MEDIA_WARNING);
+  const text = body.textContent || '';
+  if (!keepLines) return text.replace(/\s+/g, ' ').trim();
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+const fieldText = (field: Element | undefined, ctx: ImportContext, keepLines = false) => {
+  const format = field?.getAttribute('format') || 'html';
+  const text = textOf(field);
+  if (format === 'html' || format === 'moodle_auto_format') return htmlToText(text, ctx, keepLines);
+  return keepLines ? text.trim() : text.replace(/\s+/g, ' ').trim();
+};
+
+const readMultichoice = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const answers = childrenOf(question, 'answer');
+  const fractions = answers.map(answer => Number(answer.getAttribute('fraction')) || 0);
+  const multiple = ['false', '0'].includes(valueOf(question, 'single').toLowerCase());
+  const best = Math.max(0, ...fractions);
+  const correct = fractions
+    .map((fraction, idx) => ((multiple ? fraction > 0 : best > 0 && fraction === best) ? idx : -1))
+    .filter(idx => idx >= 0);
+  const answer = choiceAnswer(answers.map(answer => fieldText(answer, ctx)), correct, multiple, ctx.warnings);
+  if (answer.questionType !== 'MultipleSelect') return answer;
+
+  // Moodle adds up the grades of the picked answers: a -100% wrong answer wipes out the mark, smaller
+  // negative grades are a deduction per wrong pick
+  const worst = Math.min(0, ...fractions);
+  return {
+    ...answer,
+    questionMetadata: {
+      partialCredit: worst <= -100 ? { policy: 'all_or_nothing' } : { policy: 'per_part', wrongPickPenalty: Number((-worst / 100).toFixed(4)) }
+    }
+  };
+};
+
+const readTrueFalse = (question: Element): DraftAnswer => {
+  const answers = childrenOf(question, 'answer');
+  const trueAnswer = answers.find(answer => textOf(answer).trim().toLowerCase() === 'true');
+  if (!trueAnswer) throw new Error('The question has no "true" answer');
+  const isTrue = Number(trueAnswer.getAttribute('fraction')) > 0;
+  return {
+    questionType: 'TrueFalse',
+    options: ['True', 'False'],
+    correctOptionIndex: isTrue ? 0 : 1,
+    correctAnswer: isTrue ? 'true' : 'false'
+  };
+};
+
+// Subquestions with text are pairs; subquestions with only an answer are extra (wrong) answers
+const readMatching = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const pairs: Array<[string, string]> = [];
+  const distractors: string[] = [];
+  childrenOf(question, 'subquestion').forEach(subquestion => {
+    const left = fieldText(subquestion, ctx);
+    const right = textOf(childOf(subquestion, 'answer')).replace(/\s+/g, ' ').trim();
+    if (left) {
+      pairs.push([left, right]);
+    } else if (right) {
+      distractors.push(right);
+    }
+  });
+  return matchAnswer(pairs, distractors);
+};
+
+const readNumerical = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const answers = childrenOf(question, 'answer').map(answer => ({
+    text: textOf(answer).trim(),
+    fraction: Number(answer.getAttribute('fraction')) || 0,
+    tolerance: Math.abs(Number(valueOf(answer, 'tolerance'))) || 0
+  }));
+  const key = answers.find(answer => answer.fraction === 100 && answer.text !== '*');
+  if (!key) throw new Error('No fully correct numeric answer is defined');
+  if (answers.some(answer => answer !== key && answer.fraction > 0 && answer.text !== '*')) {
+    ctx.warnings.push('Answers worth part of the mark were left out; only the fully correct answer is kept');
+  }
+
+  const units = childrenOf(childOf(question, 'units'), 'unit');
+  const baseUnits = units.filter(unit => Number(valueOf(unit, 'multiplier')) === 1).map(unit => valueOf(unit, 'unit_name'));
+  if (baseUnits.length < units.length) {
+    ctx.warnings.push('Units with a conversion factor were left out; only units with a multiplier of 1 are accepted');
+  }
+  const unitGrading = valueOf(question, 'unitgradingtype');
+  return numericAnswer(key.text, key.tolerance, baseUnits.filter(Boolean), unitGrading !== '' && unitGrading !== '0');
+};
+
+// Short essays (at most 5 lines) are Short Answer questions; the grader information becomes the description
+const readEssay = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const lines = Number(valueOf(question, 'responsefieldlines')) || 15;
+  const isShort = lines <= 5;
+  return {
+    questionType: isShort ? 'ShortAnswer' : 'Essay',
+    options: [],
+    correctOptionIndex: 0,
+    questionMetadata: { description: fieldText(childOf(question, 'graderinfo'), ctx, true), maxWords: isShort ? 100 : null }
+  };
+};
+
+// Ordering answers are listed with their position in the correct order as the fraction
+const readOrdering = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const steps = childrenOf(question, 'answer')
+    .map((answer, idx) => ({ text: fieldText(answer, ctx), position: Number(answer.getAttribute('fraction')) || idx }))
+    .sort((a, b) => a.position - b.position)
+    .map(step => step.text);
+  if (steps.length < MIN_ORDERING_ITEMS) throw new Error(`Ordering questions need at least ${MIN_ORDERING_ITEMS} steps`);
+  if (steps.some(step => !step)) throw new Error('A step has no text (image-only steps are not supported)');
+  if (valueOf(question, 'selecttype') !== 'ALL' && Number(valueOf(question, 'selectcount')) > 0) {
+    ctx.warnings.push('Moodle showed students only some of the steps; all steps were imported');
+  }
+
+  const { items, correctOrder } = buildOrderingItems(steps);
+  const gradingType = valueOf(question, 'gradingtype');
+  return {
+    questionType: 'Ordering',
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(correctOrder),
+    questionMetadata: { items, ...(gradingType && gradingType !== 'ALL_OR_NOTHING' ? { partialCredit: PER_PART } : {}) }
+  };
+};
+
+// Answers of an embedded question: "=Paris#Right~%50%Lyon~London"
+const parseClozeAnswers = (body: string) =>
+  splitUnescaped(body, '~').map(part => {
+    let text = part;
+    let fraction = 0;
+    const weight = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+    if (text.startsWith('=')) {
+      fraction = 100;
+      text = text.slice(1);
+    } else if (weight) {
+      fraction = Number(weight[1]);
+      text = text.slice(weight[0].length);
+    }
+    return { text: splitUnescaped(text, '#')[0].replace(/\\([}#~/"\\])/g, '$1'), fraction };
+  });
+
+const describeClozeType = (type: string) => {
+  if (/^(NUMERICAL|NM)$/.test(type)) return 'numerical';
+  if (/^(MULTIRESPONSE|MR)/.test(type)) return 'multiple response';
+  if (/^(SHORTANSWER|SA|MW)/.test(type)) return 'short answer';
+  return type.toLowerCase();
+};
+
+// Embedded answers (cloze): every gap must be a single-choice dropdown
+const readCloze = (question: Element, ctx: ImportContext): DraftAnswer => {
+  const blanks: Array<{ options: string[]; correctIndex: number }> = [];
+  const unsupported = new Set<string>();
+  const html = textOf(childOf(question, 'questiontext')).replace(CLOZE_PATTERN, (_, _weight, type: string, body: string) => {
+    if (!CLOZE_CHOICE_TYPES.has(type)) {
+      unsupported.add(describeClozeType(type));
+    } else {
+      const answers = parseClozeAnswers(body);
+      const best = Math.max(0, ...answers.map(answer => answer.fraction));
+      blanks.push({
+        options: answers.map(answer => stripTags(answer.text)),
+        correctIndex: best > 0 ? answers.findIndex(answer => answer.fraction === best) : -1
+      });
+    }
+    return '___';
+  });
+  if (unsupported.size > 0) {
+    throw new Error(`Only multiple choice gaps can be imported (this question has ${Array.from(unsupported).join(', ')} gaps)`);
+  }
+  return fillInBlankAnswer(htmlToText(html, ctx, true), blanks);
+};
+
+const readXmlQuestion = (question: Element, type: string, media: Map<string, File>): Omit<QuestionDraft, 'sourceId' | 'title'> => {
+  const ctx: ImportContext = { files: new Map(), media, warnings: [] };
+  loadFiles(question, ctx);
+
+  let answer: DraftAnswer;
+  switch (type) {
+    case 'multichoice':
+      answer = readMultichoice(question, ctx);
+      break;
+    case 'truefalse':
+      answer = readTrueFalse(question);
+      break;
+    case 'matching':
+      answer = readMatching(question, ctx);
+      break;
+    case 'shortanswer':
+      answer = shortAnswer(childrenOf(question, 'answer').filter(el => Number(el.getAttribute('fraction')) > 0).map(el => textOf(el).trim()), ctx.warnings);
+      break;
+    case 'numerical':
+      answer = readNumerical(question, ctx);
+      break;
+    case 'essay':
+      answer = readEssay(question, ctx);
+      break;
+    case 'ordering':
+      answer = readOrdering(question, ctx);
+      break;
+    case 'cloze':
+    case 'multianswer':
+      answer = readCloze(question, ctx);
+      break;
+    case 'description':
+      throw new Error('Description items only show text and have no answer');
+    default:
+      throw new Error(`Moodle ${MOODLE_TYPE_NAMES[type] || `"${type}"`} questions are not supported`);
+  }
+
+  const { questionText: plainText, ...rest } = answer;
+  const questionText = plainText ?? fieldHtml(childOf(question, 'questiontext'), ctx);
+  return { ...rest, questionText, warnings: Array.from(new Set(ctx.warnings)) };
+};
+
+const parseMoodleXml = (text: string): QuestionImportParseResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'quiz') {
+    throw new Error('The file is not a Moodle XML question export');
+  }
+
+  const result: QuestionImportParseResult = { drafts: [], skipped: [], media: new Map() };
+  const usedIds = new Set<string>();
+  childrenOf(doc.documentElement, 'question')
+    .filter(question => question.getAttribute('type') !== 'category')
+    .forEach((question, idx) => {
+      let sourceId = valueOf(question, 'idnumber') || `#${idx + 1}`;
+      if (usedIds.has(sourceId)) sourceId = `${sourceId} (#${idx + 1})`;
+      usedIds.add(sourceId);
+      const title = textOf(childOf(question, 'name')).trim() || sourceId;
+      try {
+        result.drafts.push({ sourceId, title, ...readXmlQuestion(question, question.getAttribute('type') || '', result.media) });
+      } catch (error) {
+        result.skipped.push({ sourceId, title, reason: error instanceof Error ? error.message : 'The question could not be read' });
+      }
+    });
+  return result;
+};
+
+// GIFT escapes ~ = # { } : with a backslash (and a backslash itself as \\); TeX such as \( is left alone
+const unescapeGift = (text: string) => text.replace(/\\([~=#{}:\\])/g, '$1');
+
+interface GiftAnswer {
+  marker: '=' | '~';
+  weight: number | null;
+  text: string; // Still escaped
+}
+
+// "=right ~wrong ~%50%half#feedback" -> answers, without their feedback
+const parseGiftAnswers = (body: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let current: GiftAnswer | null = null;
+  const finish = () => {
+    if (!current) return;
+    let text = splitUnescaped(current.text, '#')[0].trim();
+    const weight = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+    if (weight) {
+      current.weight = Number(weight[1]);
+      text = text.slice(weight[0].length).trim();
+    }
+    answers.push({ ...current, text });
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      if (current) current.text += body.slice(i, i + 2);
+      i++;
+    } else if (char === '=' || char === '~') {
+      finish();
+      current = { marker: char, weight: null, text: '' };
+    } else if (current) {
+      current.text += char;
+    }
+  }
+  finish();
+  return answers;
+};
+
+// "3.14:0.01", "1..5" or "3.14" -> key and absolute tolerance
+const parseGiftNumber = (spec: string) => {
+  const text = unescapeGift(splitUnescaped(spec, '#')[0]).trim();
+  const range = text.match(/^(-?\d*\.?\d+)\s*\.\.\s*(-?\d*\.?\d+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return { key: String(Number(((min + max) / 2).toPrecision(12))), tolerance: Number((Math.abs(max - min) / 2).toPrecision(12)) };
+  }
+  const [value, tolerance] = text.split(':');
+  return { key: (value || '').trim(), tolerance: Math.abs(Number(tolerance)) || 0 };
+};
+
+const readGiftNumeric = (body: string, warnings: string[]): DraftAnswer => {
+  const spec = body.trim().slice(1);
+  if (indexOfUnescaped(spec, '=') < 0) {
+    const { key, tolerance } = parseGiftNumber(spec);
+    return numericAnswer(key, tolerance, [], false);
+  }
+  const answers = parseGiftAnswers(spec).filter(answer => answer.marker === '=');
+  const key = answers.find(answer => answer.weight === null || answer.weight === 100);
+  if (!key) throw new Error('No fully correct numeric answer is defined');
+  if (answers.some(answer => answer !== key && (answer.weight ?? 0) > 0)) {
+    warnings.push('Answers worth part of the mark were left out; only the fully correct answer is kept');
+  }
+  const { key: value, tolerance } = parseGiftNumber(key.text);
+  return numericAnswer(value, tolerance, [], false);
+};
+
+const parseGiftQuestion = (text: string, title: string): Omit<QuestionDraft, 'sourceId' | 'title'> => {
+  const ctx: ImportContext = { files: new Map(), media: new Map(), warnings: [] };
+  let rest = text;
+  let format = 'moodle';
+  const formatMatch = rest.match(/^\[(html|moodle|plain|markdown)\]/i);
+  if (formatMatch) {
+    format = formatMatch[1].toLowerCase();
+    rest = rest.slice(formatMatch[0].length).trimStart();
+  }
+
+  const open = indexOfUnescaped(rest, '{');
+  const close = open >= 0 ? indexOfUnescaped(rest, '}', open + 1) : -1;
+  if (open < 0) throw new Error('No answer block ({...}) was found; description items are not imported');
+  if (close < 0) throw new Error('The answer block is not closed with "}"');
+
+  const isHtml = format === 'html' || format === 'moodle';
+  const toHtml = (raw: string) => {
+    const content = unescapeGift(raw).trim();
+    if (!content) return '';
+    if (!isHtml) return `<p>${escapeXml(content).replace(/\n/g, '<br>')}</p>`;
+    return editorHtml(format === 'moodle' ? content.replace(/\n/g, '<br>') : content, ctx);
+  };
+  const toText = (raw: string) => {
+    const content = unescapeGift(raw);
+    return isHtml ? htmlToText(content, ctx) : content.replace(/\s+/g, ' ').trim();
+  };
+
+  const before = rest.slice(0, open);
+  const after = rest.slice(close + 1);
+  const body = splitUnescaped(rest.slice(open + 1, close), '####')[0].trim();
+  const answers = parseGiftAnswers(body);
+  let answer: DraftAnswer;
+
+  if (!body) {
+    answer = { questionType: 'Essay', options: [], correctOptionIndex: 0, questionMetadata: { description: '', maxWords: null } };
+  } else if (/^(T|TRUE|F|FALSE)(#|$)/i.test(body)) {
+    const isTrue = /^T/i.test(body);
+    answer = { questionType: 'TrueFalse', options: ['True', 'False'], correctOptionIndex: isTrue ? 0 : 1, correctAnswer: isTrue ? 'true' : 'false' };
+  } else if (body.startsWith('#')) {
+    answer = readGiftNumeric(body, ctx.warnings);
+  } else if (answers.length === 0) {
+    throw new Error('The answer block could not be read');
+  } else if (answers.every(item => item.marker === '=') && answers.some(item => indexOfUnescaped(item.text, '->') >= 0)) {
+    const pairs: Array<[string, string]> = [];
+    const distractors: string[] = [];
+    answers.forEach(item => {
+      const [left, right = ''] = splitUnescaped(item.text, '->');
+      if (toText(left)) {
+        pairs.push([toText(left), toText(right)]);
+      } else if (toText(right)) {
+        distractors.push(toText(right));
+      }
+    });
+    answer = matchAnswer(pairs, distractors);
+  } else if (answers.every(item => item.marker === '=')) {
+    answer = shortAnswer(answers.map(item => toText(item.text)), ctx.warnings);
+  } else {
+    // Weights on "~" answers mean several of them are right
+    const multiple = answers.some(item => item.marker === '~' && (item.weight ?? 0) > 0);
+    const correct = answers
+      .map((item, idx) => ((multiple ? (item.weight ?? (item.marker === '=' ? 100 : 0)) > 0 : item.marker === '=') ? idx : -1))
+      .filter(idx => idx >= 0);
+    const options = answers.map(item => toText(item.text));
+    if (after.trim()) {
+      // Missing word: the answer block sits inside the sentence
+      if (multiple) throw new Error('Missing-word questions with several correct answers are not supported');
+      const questionText = `${toText(before)} ___ ${toText(after)}`.replace(/\s+/g, ' ').trim();
+      answer = fillInBlankAnswer(questionText, [{ options, correctIndex: correct[0] ?? -1 }]);
+    } else {
+      answer = choiceAnswer(options, correct, multiple, ctx.warnings);
+      if (answer.questionType === 'MultipleSelect') {
+        const worst = Math.min(0, ...answers.map(item => item.weight ?? 0));
+        answer.questionMetadata = {
+          partialCredit: worst <= -100 ? { policy: 'all_or_nothing' } : { policy: 'per_part', wrongPickPenalty: Number((-worst / 100).toFixed(4)) }
+        };
+      }
+    }
+  }
+
+  if (answer.questionType !== 'FillInBlank' && after.trim()) {
+    throw new Error('Only multiple choice answers can sit in the middle of the text (missing word)');
+  }
+  const { questionText: plainText, ...restAnswer } = answer;
+  const questionText = plainText ?? (toHtml(before) || `<p>${escapeXml(title)}</p>`);
+  return { ...restAnswer, questionText, warnings: Array.from(new Set(ctx.warnings)) };
+};
+
+const parseGift = (text: string): QuestionImportParseResult => {
+  const result: QuestionImportParseResult = { drafts: [], skipped: [], media: new Map() };
+  const blocks = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter(line => !line.trim().startsWith('//'))
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map(block => block.replace(/^\$CATEGORY:[^\n]*\n?/i, '').trim())
+    .filter(Boolean);
+
+  blocks.forEach((block, idx) => {
+    const sourceId = `#${idx + 1}`;
+    let rest = block;
+    let title = '';
+    if (rest.startsWith('::')) {
+      const end = indexOfUnescaped(rest, '::', 2);
+      if (end > 0) {
+        title = unescapeGift(rest.slice(2, end)).trim();
+        rest = rest.slice(end + 2).trim();
+      }
+    }
+    try {
+      result.drafts.push({ sourceId, title: title || sourceId, ...parseGiftQuestion(rest, title) });
+    } catch (error) {
+      result.skipped.push({ sourceId, title: title || sourceId, reason: error instanceof Error ? error.message : 'The question could not be read' });
+    }
+  });
+  return result;
+};
+
+// Moodle XML or GIFT, told apart by content (both are often saved as .txt)
+export const parseMoodleFile = async (file: File): Promise<QuestionImportParseResult> => {
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  const result = /^\s*(<\?xml|<quiz[\s>])/.test(text) ? parseMoodleXml(text) : parseGift(text);
+  if (result.drafts.length === 0 && result.skipped.length === 0) {
+    throw new Error('No questions were found in the file');
+  }
+  return result;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------------------------------------
+
+interface MediaCache {
+  files: Map<string, { name: string; data: string } | null>; // Media URL -> file name and base64 content
+  names: Set<string>;
+}
+
+const tag = (name: string, attrs: Record<string, string | number | undefined> = {}, ...children: string[]) => {
+  const attrText = Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+  return children.length > 0 ? `<${name}${attrText}>${children.join('')}</${name}>` : `<${name}${attrText}/>`;
+};
+
+// A Moodle text field; html is written as text (escaped), which Moodle reads the same as CDATA
+const field = (name: string, html: string, attrs: Record<string, string | number | undefined> = {}, files = '') =>
+  tag(name, { ...attrs, format: 'html' }, tag('text', {}, escapeXml(html)), ...(files ? [files] : []));
+
+const emptyFeedback = () => field('feedback', '');
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const embedMedia = async (cache: MediaCache, url: string) => {
+  if (!cache.files.has(url)) {
+    let entry: { name: string; data: string } | null = null;
+    const blob = await fetchMedia(url);
+    if (blob) {
+      const urlName = url.startsWith('data:') ? '' : url.split(/[?#]/)[0].split('/').pop() || '';
+      const known = !!MEDIA_TYPES[extensionOf(urlName)];
+      let name = known ? urlName.replace(/[^\w.-]/g, '_') : `media-${cache.files.size + 1}.${EXTENSIONS_BY_TYPE[blob.type] || 'bin'}`;
+      for (let copy = 2; cache.names.has(name); copy++) {
+        name = `${copy}-${name}`;
+      }
+      cache.names.add(name);
+      entry = { name, data: await blobToBase64(blob) };
+    }
+    cache.files.set(url, entry);
+  }
+  return cache.files.get(url) ?? null;
+};
+
+// Editor HTML with uploaded media embedded as <file> elements; editor videos become <video> players
+const exportHtml = async (html: string, cache: MediaCache, notes: string[]) => {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const doc = body.ownerDocument;
+  const files = new Map<string, string>();
+
+  for (const el of Array.from(body.querySelectorAll('img[src], audio[src], video[src], iframe[src], source[src]'))) {
+    const src = el.getAttribute('src') || '';
+    if (!isPackagedUrl(src)) {
+      if (el.localName === 'iframe') {
+        // Moodle's media filter shows links to YouTube and similar sites as players
+        notes.push(`Embedded media was exported as a link: ${src}`);
+        const link = doc.createElement('a');
+        link.setAttribute('href', src);
+        link.textContent = src;
+        el.replaceWith(link);
+      }
+      continue;
+    }
+    const media = await embedMedia(cache, src);
+    if (!media) {
+      notes.push(`Media could not be downloaded and was left out: ${src}`);
+      el.remove();
+      continue;
+    }
+    files.set(media.name, media.data);
+    const reference = `${PLUGINFILE}${encodeURIComponent(media.name)}`;
+    if (el.localName === 'iframe') {
+      const video = doc.createElement('video');
+      video.setAttribute('controls', 'true');
+      video.setAttribute('src', reference);
+      el.replaceWith(video);
+    } else {
+      el.setAttribute('src', reference);
+    }
+  }
+
+  return {
+    html: body.innerHTML,
+    files: Array.from(files)
+      .map(([name, data]) => `<file name="${escapeXml(name)}" path="/" encoding="base64">${data}</file>`)
+      .join('')
+  };
+};
+
+// Cloze answers escape } # ~ / " and the backslash
+const escapeCloze = (text: string) => text.replace(/([}#~/"\\])/g, '\\$1');
+
+const matchPairs = (question: ExportedQuestion) => {
+  const metadata = question.questionMetadata || {};
+  const isMatching = question.questionType === 'Matching';
+  const sources: string[] = (isMatching ? metadata.leftItems : metadata.items) || [];
+  const targets: string[] = (isMatching ? metadata.rightItems : metadata.categories) || [];
+  const pairs: Array<{ left: number; right: number }> = isMatching
+    ? metadata.correctPairs || []
+    : parseCategorizePlacement(question.correctAnswer, sources.length, targets.length)
+        .map((right, left) => ({ left, right: right ?? -1 }));
+  if (sources.length < 2 || targets.length < 2 || pairs.length === 0 || pairs.some(pair => pair.right < 0)) {
+    throw new Error('The items or the correct answer are missing');
+  }
+  return { sources, targets, pairs };
+};
+
+const numericExport = (question: ExportedQuestion, notes: string[]) => {
+  const settings: NumericEntrySettings = question.questionMetadata?.numeric || DEFAULT_NUMERIC_SETTINGS;
+  const key = (question.correctAnswer || '').trim();
+  const value = numericKeyValue(key);
+  if (value === null) throw new Error('The numeric key could not be read');
+  if (String(value) !== key) notes.push(`The key ${key} was exported as ${value}; Moodle numeric answers are decimals`);
+
+  let tolerance = 0;
+  const { mode, value: amount = 0 } = settings.tolerance;
+  if (mode === 'absolute') {
+    tolerance = amount;
+  } else if (mode === 'relative' && amount) {
+    tolerance = Number(((Math.abs(value) * amount) / 100).toPrecision(12));
+    notes.push(`The ±${amount}% tolerance was exported as ±${tolerance}`);
+  }
+  return { value, tolerance, units: settings.units || [], unitRequired: !!settings.unitRequired };
+};
+
+const buildXmlQuestion = async (question: ExportedQuestion, cache: MediaCache) => {
+  const notes: string[] = [];
+  const metadata = question.questionMetadata || {};
+  const type = question.questionType || 'MCQ';
+  const partialCredit = partialCreditOf(question);
+  const header = async (questionHtml: string) => {
+    const { html, files } = await exportHtml(questionHtml, cache, notes);
+    return [
+      tag('name', {}, tag('text', {}, escapeXml(questionTitle(question)))),
+      field('questiontext', html, {}, files),
+      field('generalfeedback', ''),
+      tag('defaultgrade', {}, '1'),
+      tag('penalty', {}, '0.3333333'),
+      tag('hidden', {}, '0'),
+      tag('idnumber', {}, `Q${question.id}`)
+    ];
+  };
+  const perPartNote = () => {
+    if (!partialCredit) notes.push('Moodle gives credit for each part; all-or-nothing scoring was not kept');
+  };
+
+  let moodleType: string;
+  let body: string[];
+  switch (type) {
+    case 'MCQ':
+    case 'MultipleSelect': {
+      const options = question.options || [];
+      const correct = correctChoiceIndices(question, options);
+      const isMultiple = type === 'MultipleSelect';
+      // Multiple Select: correct picks share the mark; a wrong pick costs the penalty, or everything when
+      // the question is all-or-nothing
+      const wrong = isMultiple ? moodleFraction(-(partialCredit ? partialCredit.wrongPickPenalty || 0 : 1)) : '0';
+      if (isMultiple && !partialCredit) notes.push('Moodle gives credit for each correct pick; all-or-nothing scoring was not kept');
+      moodleType = 'multichoice';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag('single', {}, isMultiple ? 'false' : 'true'),
+        tag('shuffleanswers', {}, 'true'),
+        tag('answernumbering', {}, 'abc'),
+        ...options.map((option, idx) =>
+          tag(
+            'answer',
+            { fraction: correct.includes(idx) ? (isMultiple ? moodleFraction(1 / correct.length) : '100') : wrong, format: 'html' },
+            tag('text', {}, escapeXml(escapeXml(option))),
+            emptyFeedback()
+          )
+        )
+      ];
+      break;
+    }
+
+    case 'TrueFalse': {
+      const isTrue = correctChoiceIndices(question, ['True', 'False'])[0] === 0;
+      moodleType = 'truefalse';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag('answer', { fraction: isTrue ? 100 : 0, format: 'moodle_auto_format' }, tag('text', {}, 'true'), emptyFeedback()),
+        tag('answer', { fraction: isTrue ? 0 : 100, format: 'moodle_auto_format' }, tag('text', {}, 'false'), emptyFeedback())
+      ];
+      break;
+    }
+
+    case 'Matching':
+    case 'Categorize': {
+      const { sources, targets, pairs } = matchPairs(question);
+      const used = new Set(pairs.map(pair => pair.right));
+      if (pairs.length < sources.length) notes.push('Items without a match were left out');
+      perPartNote();
+      moodleType = 'matching';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag('shuffleanswers', {}, 'true'),
+        ...pairs.map(pair =>
+          field('subquestion', escapeXml(sources[pair.left]), {}, tag('answer', {}, tag('text', {}, escapeXml(targets[pair.right]))))
+        ),
+        ...targets
+          .filter((_, idx) => !used.has(idx))
+          .map(target => field('subquestion', '', {}, tag('answer', {}, tag('text', {}, escapeXml(target)))))
+      ];
+      break;
+    }
+
+    case 'FillInBlank': {
+      const blanks: Array<{ options: string[]; correctIndex: number }> = metadata.blanks || [];
+      const text = fillInBlankText(question.questionText || '');
+      const matches = findBlanks(text);
+      if (blanks.length === 0 || matches.length !== blanks.length) {
+        throw new Error('The blanks in the text do not match the blank settings');
+      }
+      let cloze = '';
+      let lastIndex = 0;
+      matches.forEach((match, idx) => {
+        const choices = blanks[idx].options.map(
+          (option, optionIdx) => `${optionIdx === blanks[idx].correctIndex ? '=' : ''}${escapeCloze(escapeXml(option))}`
+        );
+        cloze += `${escapeXml(text.slice(lastIndex, match.index))}{1:MULTICHOICE:${choices.join('~')}}`;
+        lastIndex = (match.index ?? 0) + match[0].length;
+      });
+      cloze += escapeXml(text.slice(lastIndex));
+      perPartNote();
+      moodleType = 'cloze';
+      body = await header(`<p>${cloze}</p>`);
+      break;
+    }
+
+    case 'NumericEntry': {
+      const { value, tolerance, units, unitRequired } = numericExport(question, notes);
+      moodleType = 'numerical';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag(
+          'answer',
+          { fraction: 100, format: 'moodle_auto_format' },
+          tag('text', {}, String(value)),
+          emptyFeedback(),
+          tag('tolerance', {}, String(tolerance))
+        ),
+        ...(units.length > 0
+          ? [tag('units', {}, ...units.map(unit => tag('unit', {}, tag('multiplier', {}, '1'), tag('unit_name', {}, escapeXml(unit)))))]
+          : []),
+        tag('unitgradingtype', {}, unitRequired ? '1' : '0'),
+        tag('unitpenalty', {}, '1.0000000'),
+        tag('showunits', {}, units.length > 0 ? '0' : '3'),
+        tag('unitsleft', {}, '0')
+      ];
+      break;
+    }
+
+    case 'Ordering': {
+      const items: string[] = metadata.items || [];
+      const order = parseIndexList(question.correctAnswer);
+      if (items.length < MIN_ORDERING_ITEMS || order.length !== items.length) {
+        throw new Error('The steps or the correct order are missing');
+      }
+      moodleType = 'ordering';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag('layouttype', {}, 'VERTICAL'),
+        tag('selecttype', {}, 'ALL'),
+        tag('selectcount', {}, '0'),
+        tag('gradingtype', {}, partialCredit ? 'LONGEST_ORDERED_SUBSET' : 'ALL_OR_NOTHING'),
+        tag('showgrading', {}, 'SHOW'),
+        tag('numberingstyle', {}, 'none'),
+        ...order.map((idx, position) =>
+          tag('answer', { fraction: position + 1, format: 'html' }, tag('text', {}, escapeXml(escapeXml(items[idx]))), emptyFeedback())
+        )
+      ];
+      break;
+    }
+
+    case 'ShortAnswer':
+    case 'Essay': {
+      const description: string = metadata.description || '';
+      moodleType = 'essay';
+      body = [
+        ...(await header(question.questionText || '')),
+        tag('responseformat', {}, 'editor'),
+        tag('responserequired', {}, '1'),
+        tag('responsefieldlines', {}, type === 'ShortAnswer' ? '5' : '15'),
+        tag('attachments', {}, '0'),
+        tag('attachmentsrequired', {}, '0'),
+        field('graderinfo', description ? `<p>${escapeXml(description).replace(/\n/g, '<br>')}</p>` : ''),
+        field('responsetemplate', '')
+      ];
+      break;
+    }
+
+    case 'Hotspot':
+      throw new Error('Moodle has no hotspot question type');
+
+    default:
+      throw new Error(`Question type ${type} cannot be exported`);
+  }
+
+  return { xml: tag('question', { type: moodleType }, ...body), notes: Array.from(new Set(notes)) };
+};
+
+// Question bank category of a question; "/" inside a name is written as "//"
+const categoryPath = (question: ExportedQuestion) =>
+  ['$course$', 'top', question.subjectName, question.gradeName]
+    .filter((part): part is string => !!part)
+    .map(part => part.replace(/\//g, '//'))
+    .join('/');
+
+export const buildMoodleXml = async (questions: ExportedQuestion[]): Promise<QuestionExportResult> => {
+  const cache: MediaCache = { files: new Map(), names: new Set() };
+  const parts: string[] = [];
+  const skipped: QuestionExchangeIssue[] = [];
+  const notes: QuestionExchangeIssue[] = [];
+  let category = '';
+  let exported = 0;
+
+  for (const question of questions) {
+    const sourceId = `Q${question.id}`;
+    const title = questionTitle(question);
+    try {
+      const item = await buildXmlQuestion(question, cache);
+      const path = categoryPath(question);
+      if (path !== category) {
+        category = path;
+        parts.push(tag('question', { type: 'category' }, tag('category', {}, tag('text', {}, escapeXml(path)))));
+      }
+      parts.push(`<!-- question: ${question.id} -->`, item.xml);
+      item.notes.forEach(reason => notes.push({ sourceId, title, reason }));
+      exported++;
+    } catch (error) {
+      skipped.push({ sourceId, title, reason: error instanceof Error ? error.message : 'The question could not be exported' });
+    }
+  }
+
+  const xml = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...parts, '</quiz>', ''].join('\n');
+  return { blob: new Blob([xml], { type: 'application/xml' }), exported, skipped, notes };
+};
+
+const escapeGift = (text: string) => text.replace(/([~=#{}:\\])/g, '\\$1');
+
+// One line of GIFT: a blank line would end the question
+const giftLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+const buildGiftQuestion = (question: ExportedQuestion) => {
+  const notes: string[] = [];
+  const metadata = question.questionMetadata || {};
+  const type = question.questionType || 'MCQ';
+  const partialCredit = partialCreditOf(question);
+  const html = question.questionText || '';
+  const text = `[html]${escapeGift(giftLine(html))}`;
+  const option = (value: string) => escapeGift(giftLine(escapeXml(value)));
+  const block = (lines: string[]) => `{\n${lines.map(line => `\t${line}`).join('\n')}\n}`;
+
+  if (/<(img|audio|video|iframe)[\s>]/i.test(html)) {
+    notes.push('GIFT files cannot carry media; images and media still point at this site');
+  }
+
+  let gift: string;
+  switch (type) {
+    case 'MCQ':
+    case 'MultipleSelect': {
+      const options = question.options || [];
+      const correct = correctChoiceIndices(question, options);
+      if (type === 'MCQ') {
+        gift = `${text} ${block(options.map((value, idx) => `${idx === correct[0] ? '=' : '~'}${option(value)}`))}`;
+        break;
+      }
+      const wrong = moodleFraction(-(partialCredit ? partialCredit.wrongPickPenalty || 0 : 1));
+      if (!partialCredit) notes.push('Moodle gives credit for each correct pick; all-or-nothing scoring was not kept');
+      gift = `${text} ${block(
+        options.map((value, idx) => `~%${correct.includes(idx) ? moodleFraction(1 / correct.length) : wrong}%${option(value)}`)
+      )}`;
+      break;
+    }
+
+    case 'TrueFalse':
+      gift = `${text} {${correctChoiceIndices(question, ['True', 'False'])[0] === 0 ? 'TRUE' : 'FALSE'}}`;
+      break;
+
+    case 'Matching':
+    case 'Categorize': {
+      const { sources, targets, pairs } = matchPairs(question);
+      if (pairs.length < sources.length) notes.push('Items without a match were left out');
+      if (new Set(pairs.map(pair => pair.right)).size < targets.length) {
+        notes.push('Answers that match no item were left out (GIFT has no extra answers)');
+      }
+      if (!partialCredit) notes.push('Moodle gives credit for each part; all-or-nothing scoring was not kept');
+      gift = `${text} ${block(pairs.map(pair => `=${option(sources[pair.left])} -> ${option(targets[pair.right])}`))}`;
+      break;
+    }
+
+    case 'FillInBlank': {
+      const blanks: Array<{ options: string[]; correctIndex: number }> = metadata.blanks || [];
+      const plain = fillInBlankText(html);
+      const matches = findBlanks(plain);
+      if (blanks.length === 0 || matches.length !== blanks.length) {
+        throw new Error('The blanks in the text do not match the blank settings');
+      }
+      if (blanks.length > 1) throw new Error('GIFT allows one blank per question; export this question as Moodle XML');
+      const [match] = matches;
+      const choices = blanks[0].options.map((value, idx) => `${idx === blanks[0].correctIndex ? '=' : '~'}${option(value)}`);
+      const start = match.index ?? 0;
+      gift = `[html]${option(plain.slice(0, start))} {${choices.join(' ')}} ${option(plain.slice(start + match[0].length))}`;
+      break;
+    }
+
+    case 'NumericEntry': {
+      const { value, tolerance, units } = numericExport(question, notes);
+      if (units.length > 0) notes.push('Units were left out; GIFT numeric answers have no units');
+      gift = `${text} {#${value}${tolerance ? `:${tolerance}` : ''}}`;
+      break;
+    }
+
+    case 'ShortAnswer':
+    case 'Essay':
+      if (type === 'ShortAnswer') notes.push('Exported as an essay; GIFT short answers need a list of accepted answers');
+      if (metadata.description) notes.push('The description was left out; GIFT essays have no grader information');
+      gift = `${text} {}`;
+      break;
+
+    case 'Ordering':
+      throw new Error('GIFT has no ordering questions; export this question as Moodle XML');
+
+    case 'Hotspot':
+      throw new Error('Moodle has no hotspot question type');
+
+    default:
+      throw new Error(`Question type ${type} cannot be exported`);
+  }
+
+  return { gift: `// question: ${question.id}\n::${escapeGift(questionTitle(question))}::${gift}`, notes: Array.from(new Set(notes)) };
+};
+
+export const buildGift = async (questions: ExportedQuestion[]): Promise<QuestionExportResult> => {
+  const parts: string[] = [];
+  const skipped: QuestionExchangeIssue[] = [];
+  const notes: QuestionExchangeIssue[] = [];
+  let category = '';
+
+  for (const question of questions) {
+    const sourceId = `Q${question.id}`;
+    const title = questionTitle(question);
+    try {
+      const item = buildGiftQuestion(question);
+      const path = categoryPath(question);
+      if (path !== category) {
+        category = path;
+        parts.push(`$CATEGORY: ${path}`);
+      }
+      parts.push(item.gift);
+      item.notes.forEach(reason => notes.push({ sourceId, title, reason }));
+    } catch (error) {
+      skipped.push({ sourceId, title, reason: error instanceof Error ? error.message : 'The question could not be exported' });
+    }
+  }
+
+  return {
+    blob: new Blob([`${parts.join('\n\n')}\n`], { type: 'text/plain;charset=utf-8' }),
+    exported: questions.length - skipped.length,
+    skipped,
+    notes
+  };
+};
@@ -0,0 +1,44 @@
+import { NumericAnswerForm, NumericEntrySettings, NumericToleranceMode } from '../types';
+
+// Authoring labels for NumericEntry settings (scoring itself happens on the server)
+export const NUMERIC_TOLERANCE_LABELS: Record<NumericToleranceMode, string> = {
+  exact: 'Exact value',
+  absolute: 'Within ± an amount',
+  relative: 'Within ± a percentage'
+};
+
+export const NUMERIC_FORM_LABELS: Record<NumericAnswerForm, string> = {
+  decimal: 'Decimals and whole numbers (0.75)',
+  fraction: 'Fractions (3/4)',
+  mixed: 'Mixed numbers (1 1/2)'
+};
+
+export const DEFAULT_NUMERIC_SETTINGS: NumericEntrySettings = {
+  tolerance: { mode: 'exact', value: 0 },
+  forms: ['decimal', 'fraction', 'mixed'],
+  units: [],
+  unitRequired: false
+};
+
+// Same forms the server accepts as a key: decimal, fraction or mixed number
+const NUMERIC_KEY_PATTERN = /^[+-]?((\d+\.?\d*|\.\d+)|\d+\s*\/\s*\d+|\d+\s+\d+\s*\/\s*\d+)$/;
+
+export const isValidNumericKey = (text: string) => {
+  const cleaned = text.trim().replace(/(\d),(?=\d{3}(\D|$))/g, '$1');
+  return NUMERIC_KEY_PATTERN.test(cleaned) && !/\/\s*0+$/.test(cleaned);
+};
+
+// Readable key for previews, e.g. "3/4 cm (±5%)"
+export const describeNumericKey = (correctAnswer: string | undefined, settings: NumericEntrySettings) => {
+  if (!correctAnswer) return '—';
+  let text = correctAnswer.trim();
+  if (settings.units && settings.units.length > 0) {
+    text += ` ${settings.units[0]}`;
+  }
+  if (settings.tolerance.mode === 'absolute' && settings.tolerance.value) {
+    text += ` (±${settings.tolerance.value})`;
+  } else if (settings.tolerance.mode === 'relative' && settings.tolerance.value) {
+    text += ` (±${settings.tolerance.value}%)`;
+  }
+  return text;
+};
@@ -0,0 +1,48 @@
+// Ordering questions store their steps in questionMetadata.items in the order students first see them;
+// correctAnswer is the correct sequence as a JSON array of indices into items (scoring happens on the server)
+
+export const MIN_ORDERING_ITEMS = 2;
+
+// Same seeded shuffle the server uses for CSV imports: saving unchanged steps keeps the display order,
+// and the display order never matches the correct sequence
+export const buildOrderingItems = (steps: string[]) => {
+  const positions = steps.map((_, idx) => idx);
+  let seed = 0;
+  for (const char of steps.join('\u0000')) {
+    seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  for (let i = positions.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [positions[i], positions[j]] = [positions[j], positions[i]];
+  }
+  if (positions.length > 1 && positions.every((pos, idx) => pos === idx)) {
+    positions.push(positions.shift() as number);
+  }
+
+  const items = positions.map(pos => steps[pos]);
+  const correctOrder = steps.map((_, stepIdx) => positions.indexOf(stepIdx));
+  return { items, correctOrder };
+};
+
+// Steps in their correct order, for editing an existing question
+export const stepsInCorrectOrder = (items: string[], correctAnswer: string | number[] | undefined) => {
+  try {
+    const order = typeof correctAnswer === 'string' ? JSON.parse(correctAnswer) : correctAnswer;
+    if (Array.isArray(order) && order.length === items.length) {
+      return order.map((idx: number) => items[idx] ?? '');
+    }
+  } catch {
+    console.error('Failed to parse ordering key');
+  }
+  return [...items];
+};
+
+// Move one entry of a list to a new position (used by drag-and-drop and the move buttons)
+export const moveListItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (from === to || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -1,5 +1,7 @@
 import jsPDF from 'jspdf';
+import { Accommodations, DetailedAssessmentResults } from '../types';
 import maarifLogo from '../images/Marrif_V 1.1.png';
+import { hasMath, isInsideMath, renderMathTextToImage } from './math';
 
 // Helper to load Maarif logo as base64
 const loadLogoAsBase64 = async (): Promise<string | null> => {
@@ -59,6 +61,10 @@ interface Question {
   questionMetadata?: any;
 }
 
+// Unit conversions for drawing KaTeX (laid out in CSS pixels) onto the mm-based page
+const PX_PER_MM = 96 / 25.4;
+const MM_PER_PT = 25.4 / 72;
+
 interface AssessmentMetadata {
   title: string;
   subject: string;
@@ -255,6 +261,31 @@ export const exportAssessmentToPDF = async (
     });
   };
 
+  // Helpers for text containing LaTeX math: jsPDF cannot typeset math, so such text is drawn with KaTeX
+  // and added as an image. Text without math keeps using pdf.text so it stays selectable.
+  const renderMathImage = async (text: string, fontSize: number, maxWidth: number) => {
+    const image = await renderMathTextToImage(text, maxWidth * PX_PER_MM, fontSize * MM_PER_PT * PX_PER_MM);
+    return image && { dataUrl: image.dataUrl, width: image.width / PX_PER_MM, height: image.height / PX_PER_MM };
+  };
+
+  // Places a rendered image where a pdf.text line would go (yPosition is that line's baseline) and
+  // moves yPosition to the baseline of the line after it
+  const placeMathImage = (image: { dataUrl: string; width: number; height: number }, x: number, fontSize: number) => {
+    const ascent = fontSize * MM_PER_PT * 0.8;
+    pdf.addImage(image.dataUrl, 'PNG', x, yPosition - ascent, image.width, image.height);
+    yPosition += image.height - ascent + fontSize * MM_PER_PT + 2;
+  };
+
+  // Adds text with math as an image; returns false (nothing added) if it has no math or could not be drawn
+  const addMathText = async (text: string, fontSize: number, x: number = margin, maxWidth: number = contentWidth) => {
+    if (!hasMath(text)) return false;
+    const image = await renderMathImage(text, fontSize, maxWidth);
+    if (!image) return false;
+    checkPageBreak(image.height + 2);
+    placeMathImage(image, x, fontSize);
+    return true;
+  };
+
   // Helper function to add image from URL
   const addImageFromUrl = async (imageUrl: string, maxWidth: number = contentWidth) => {
     try {
@@ -459,7 +490,9 @@ export const exportAssessmentToPDF = async (
             if (item.type === 'text' && item.content && item.content.trim()) {
               pdf.setFontSize(11);
               pdf.setFont('helvetica', 'normal');
-              addWrappedText(item.content, 11);
+              if (!(await addMathText(item.content, 11))) {
+                addWrappedText(item.content, 11);
+              }
             } else if (item.type === 'image' && item.url) {
               console.log('Processing image item:', item.url);
               await addImageFromUrl(item.url);
@@ -481,7 +514,9 @@ export const exportAssessmentToPDF = async (
           if (textContent.trim()) {
             pdf.setFontSize(11);
             pdf.setFont('helvetica', 'normal');
-            addWrappedText(textContent, 11);
+            if (!(await addMathText(textContent, 11))) {
+              addWrappedText(textContent, 11);
+            }
           }
           // Also try to extract and add images using regex
           const images = extractImages(questionText);
@@ -528,12 +563,16 @@ export const exportAssessmentToPDF = async (
         yPosition += 7;
 
         pdf.setFont('helvetica', 'normal');
-        question.options.forEach((option, optIdx) => {
-          checkPageBreak(7);
+        for (let optIdx = 0; optIdx < question.options.length; optIdx++) {
           const optionLabel = String.fromCharCode(65 + optIdx); // A, B, C, D...
-          pdf.text(`${optionLabel}. ${option}`, margin + 5, yPosition);
+          const optionText = `${optionLabel}. ${question.options[optIdx]}`;
+          if (await addMathText(optionText, 10, margin + 5, contentWidth - 5)) {
+            continue;
+          }
+          checkPageBreak(7);
+          pdf.text(optionText, margin + 5, yPosition);
           yPosition += 7;
-        });
+        }
       }
     } else if (question.questionType === 'FillInBlank' && question.questionMetadata?.blanks) {
       // Format: "8 is divisible by ___ (option1 / option2) and ___(option1/ option2)"
@@ -556,9 +595,11 @@ export const exportAssessmentToPDF = async (
       const matches: RegExpExecArray[] = [];
       let tempMatch;
       
-      // Collect all matches first
+      // Collect all matches first (TeX groups such as x^{2} inside math are not blanks)
       while ((tempMatch = blankPattern.exec(originalText)) !== null) {
-        matches.push(tempMatch);
+        if (!isInsideMath(originalText, tempMatch.index)) {
+          matches.push(tempMatch);
+        }
       }
       
       // Process matches to build parts array
@@ -595,7 +636,9 @@ export const exportAssessmentToPDF = async (
       }
       
       // Display the formatted text with inline options
-      addWrappedText(fillInText, 11);
+      if (!(await addMathText(fillInText, 11))) {
+        addWrappedText(fillInText, 11);
+      }
     } else if (question.questionType === 'Matching' && question.questionMetadata) {
       yPosition += 5;
       pdf.setFontSize(11);
@@ -628,11 +671,28 @@ export const exportAssessmentToPDF = async (
       for (let i = 0; i < maxRows; i++) {
         checkPageBreak(rowHeight + 2);
         
-        const rowStartY = yPosition;
+        let rowStartY = yPosition;
         let rowEndY = yPosition;
-        
+
+        // Items with math are drawn as images; both are rendered first so the row moves to a new page as a whole
+        const leftMath = i < leftItems.length && hasMath(String(leftItems[i]))
+          ? await renderMathImage(`${i + 1}. ${decodeHtmlEntities(String(leftItems[i]))}`, 10, colAWidth - 8)
+          : null;
+        const rightMath = i < rightItems.length && hasMath(String(rightItems[i]))
+          ? await renderMathImage(`${String.fromCharCode(65 + i)}. ${decodeHtmlEntities(String(rightItems[i]))}`, 10, colBWidth - 8)
+          : null;
+        if (leftMath || rightMath) {
+          if (checkPageBreak(Math.max(leftMath?.height ?? 0, rightMath?.height ?? 0) + 2)) {
+            rowStartY = yPosition;
+            rowEndY = yPosition;
+          }
+        }
+
         // Column A item
-        if (i < leftItems.length) {
+        if (leftMath) {
+          placeMathImage(leftMath, colAX + 2, 10);
+          rowEndY = Math.max(rowEndY, yPosition - 6);
+        } else if (i < leftItems.length) {
           // Decode HTML entities and normalize special characters
           const leftItemText = decodeHtmlEntities(String(leftItems[i]));
           const leftText = `${i + 1}. ${leftItemText}`;
@@ -647,7 +707,10 @@ export const exportAssessmentToPDF = async (
         
         // Column B item (aligned horizontally with Column A)
         yPosition = rowStartY;
-        if (i < rightItems.length) {
+        if (rightMath) {
+          placeMathImage(rightMath, colBX + 2, 10);
+          rowEndY = Math.max(rowEndY, yPosition - 6);
+        } else if (i < rightItems.length) {
           // Decode HTML entities and normalize special characters
           const rightItemText = decodeHtmlEntities(String(rightItems[i]));
           const rightText = `${String.fromCharCode(65 + i)}. ${rightItemText}`;
@@ -663,6 +726,87 @@ export const exportAssessmentToPDF = async (
         // Move to next row (NO LINES)
         yPosition = rowEndY + 6;
       }
+    } else if (question.questionType === 'Ordering' && question.questionMetadata?.items) {
+      // Steps in the order students see them, each with a box to write its position
+      yPosition += 5;
+      checkPageBreak(10);
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'italic');
+      pdf.text('Number the steps in the correct order (1 = first).', margin, yPosition);
+      yPosition += 8;
+      pdf.setFont('helvetica', 'normal');
+
+      for (const item of question.questionMetadata.items as string[]) {
+        const stepText = decodeHtmlEntities(String(item));
+        const stepMath = hasMath(stepText) ? await renderMathImage(stepText, 10, contentWidth - 20) : null;
+        if (stepMath) {
+          checkPageBreak(stepMath.height + 4);
+          pdf.text('____', margin, yPosition);
+          placeMathImage(stepMath, margin + 14, 10);
+          continue;
+        }
+        const stepLines = pdf.splitTextToSize(stepText, contentWidth - 20);
+        checkPageBreak(stepLines.length * 6 + 4);
+        pdf.text('____', margin, yPosition);
+        pdf.text(stepLines, margin + 14, yPosition);
+        yPosition += stepLines.length * 6 + 2;
+      }
+    } else if (question.questionType === 'Categorize' && question.questionMetadata?.categories && question.questionMetadata?.items) {
+      // Categories lettered A, B, C...; each item gets a box for the letter of its category
+      yPosition += 5;
+      checkPageBreak(10);
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'italic');
+      pdf.text('Write the letter of the category each item belongs to.', margin, yPosition);
+      yPosition += 8;
+      pdf.setFont('helvetica', 'bold');
+      const categoryLabels = question.questionMetadata.categories
+        .map((category: string, idx: number) => `${String.fromCharCode(65 + idx)}. ${decodeHtmlEntities(String(category))}`)
+        .join('     ');
+      if (await addMathText(categoryLabels, 10)) {
+        yPosition += 2;
+      } else {
+        const categoryLines = pdf.splitTextToSize(categoryLabels, contentWidth);
+        checkPageBreak(categoryLines.length * 6 + 4);
+        pdf.text(categoryLines, margin, yPosition);
+        yPosition += categoryLines.length * 6 + 4;
+      }
+      pdf.setFont('helvetica', 'normal');
+
+      for (const item of question.questionMetadata.items as string[]) {
+        const itemText = decodeHtmlEntities(String(item));
+        const itemMath = hasMath(itemText) ? await renderMathImage(itemText, 10, contentWidth - 20) : null;
+        if (itemMath) {
+          checkPageBreak(itemMath.height + 4);
+          pdf.text('____', margin, yPosition);
+          placeMathImage(itemMath, margin + 14, 10);
+          continue;
+        }
+        const itemLines = pdf.splitTextToSize(itemText, contentWidth - 20);
+        checkPageBreak(itemLines.length * 6 + 4);
+        pdf.text('____', margin, yPosition);
+        pdf.text(itemLines, margin + 14, yPosition);
+        yPosition += itemLines.length * 6 + 2;
+      }
+    } else if (question.questionType === 'Hotspot' && question.questionMetadata?.hotspot?.imageUrl) {
+      // The diagram students mark; correct regions are never printed
+      yPosition += 5;
+      checkPageBreak(10);
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'italic');
+      pdf.text('Mark the part of the image that answers the question with an X.', margin, yPosition);
+      yPosition += 6;
+      pdf.setFont('helvetica', 'normal');
+      await addImageFromUrl(question.questionMetadata.hotspot.imageUrl);
+    } else if (question.questionType === 'NumericEntry') {
+      // One short answer box, followed by the unit if the question has one
+      yPosition += 5;
+      checkPageBreak(10);
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'normal');
+      const unit = question.questionMetadata?.numeric?.units?.[0];
+      pdf.text(`Answer: _ _ _ _ _ _ _ _ _ _${unit ? ` ${unit}` : ''}`, margin, yPosition);
+      yPosition += 8;
     } else if (question.questionType === 'ShortAnswer') {
       // 3 rows with underscores
       yPosition += 5;
@@ -729,3 +873,88 @@ export const exportAssessmentToPDF = async (
   // Save PDF
   pdf.save(`${metadata.title.replace(/[^a-z0-9]/gi, '_')}_Assessment.pdf`);
 };
+
+// Human-readable list of the accommodations applied to a test event
+export const describeAccommodations = (accommodations?: Accommodations | null): string[] => {
+  if (!accommodations) return [];
+  const labels: string[] = [];
+  if (accommodations.timeMultiplier !== 1) labels.push(`Extended time (×${accommodations.timeMultiplier})`);
+  if (accommodations.breakMinutes > 0) labels.push(`Extra breaks (${accommodations.breakMinutes} min)`);
+  if (accommodations.textToSpeech) labels.push('Text-to-speech');
+  if (accommodations.largeFont) labels.push('Larger fonts');
+  return labels;
+};
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  precision_reached: 'Score measured precisely',
+  max_items: 'Maximum number of questions reached',
+  time_limit: 'Time limit reached',
+  item_bank_exhausted: 'No more questions available',
+  abandoned: 'Time ran out before any question was answered'
+};
+
+// One-page summary of a completed test event (score, test conditions and accommodations used)
+export const exportAssessmentResultsToPDF = async (
+  results: DetailedAssessmentResults,
+  studentName?: string
+) => {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 20;
+  let yPosition = 16;
+
+  const logoBase64 = await loadLogoAsBase64();
+  if (logoBase64) {
+    try {
+      pdf.addImage(logoBase64, 'PNG', pageWidth - margin - 22, 8, 22, 14);
+    } catch (e) {
+      console.warn('Could not add logo to PDF:', e);
+    }
+  }
+
+  pdf.setTextColor(0, 0, 0);
+  pdf.setFontSize(16);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Assessment Results', margin, yPosition);
+  yPosition += 10;
+
+  const addRow = (label: string, value: string) => {
+    pdf.setFontSize(11);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`${label}:`, margin, yPosition);
+    pdf.setFont('helvetica', 'normal');
+    const lines = pdf.splitTextToSize(value, pageWidth - 2 * margin - 50);
+    pdf.text(lines, margin + 50, yPosition);
+    yPosition += 7 * Math.max(1, lines.length);
+  };
+
+  const { assessment, statistics } = results;
+
+  if (studentName) addRow('Student', studentName);
+  addRow('Subject', assessment.subjectName);
+  addRow('Period', `${assessment.period} ${assessment.year}`);
+  addRow('Date Taken', new Date(assessment.dateTaken).toLocaleDateString());
+  addRow('Mode', assessment.mode || 'Adaptive');
+  addRow('Duration', `${assessment.duration} minutes`);
+  yPosition += 4;
+
+  const standardError = statistics.standardError !== null && statistics.standardError !== undefined
+    ? ` (± ${statistics.standardError})`
+    : '';
+  addRow('Growth Metric Score', `${statistics.currentRIT}${standardError}`);
+  if (statistics.previousRIT !== null) addRow('Previous Score', String(statistics.previousRIT));
+  addRow('Correct Answers', `${statistics.correctAnswers} of ${statistics.totalQuestions} (${statistics.accuracy}%)`);
+  if (assessment.stopReason) addRow('Ended Because', STOP_REASON_LABELS[assessment.stopReason] || assessment.stopReason);
+  yPosition += 4;
+
+  const accommodations = describeAccommodations(assessment.accommodations);
+  addRow('Accommodations', accommodations.length > 0 ? accommodations.join(', ') : 'None');
+
+  pdf.setFontSize(8);
+  pdf.setTextColor(128, 128, 128);
+  pdf.text(`Generated ${new Date().toLocaleString()}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+
+  const fileName = `${assessment.subjectName}_${assessment.period}_${assessment.year}_Results`.replace(/[^a-z0-9_]/gi, '_');
+  pdf.save(`${fileName}.pdf`);
+};
@@ -0,0 +1,1202 @@
+import JSZip from 'jszip';
+import katex from 'katex';
+import {
+  ExportedQuestion,
+  HotspotRegion,
+  NumericEntrySettings,
+  NumericToleranceMode,
+  QuestionDraft,
+  QuestionExchangeIssue,
+  QuestionExportResult,
+  QuestionImportParseResult
+} from '../types';
+import { hasMath, splitMath } from './math';
+import { DEFAULT_NUMERIC_SETTINGS, isValidNumericKey } from './numericAnswer';
+import { buildOrderingItems, MIN_ORDERING_ITEMS } from './ordering';
+import { parseHotspotRegions } from './hotspot';
+import { MIN_CATEGORIES, MIN_CATEGORIZE_ITEMS, parseCategorizePlacement } from './categorize';
+import {
+  choiceAnswer,
+  correctChoiceIndices,
+  DraftAnswer,
+  escapeXml,
+  EXTENSIONS_BY_TYPE,
+  extensionOf,
+  fetchMedia,
+  fillInBlankText,
+  findBlanks,
+  isPackagedUrl,
+  MEDIA_TYPES,
+  numericKeyValue,
+  parseIndexList,
+  questionTitle,
+  stripTags
+} from './questionExchange';
+
+// IMS QTI content packages (a zip with imsmanifest.xml, item XML files and media). Items are read into
+// question drafts and questions are written as items, both in the browser. QTI 3.0 uses the 2.1 model with
+// kebab-case names prefixed "qti-" (choiceInteraction -> qti-choice-interaction, maxChoices -> max-choices),
+// so both versions go through the same code and names are converted at the edges.
+
+export type QtiVersion = '2.1' | '3.0';
+
+const QTI_NAMESPACES: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+  '3.0': 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0'
+};
+
+const QTI_SCHEMAS: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1p2.xsd',
+  '3.0': 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd'
+};
+
+const PACKAGE_NAMESPACES: Record<QtiVersion, string> = {
+  '2.1': 'http://www.imsglobal.org/xsd/imscp_v1p1',
+  '3.0': 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1'
+};
+
+const ITEM_RESOURCE_TYPES: Record<QtiVersion, string> = {
+  '2.1': 'imsqti_item_xmlv2p1',
+  '3.0': 'imsqti_item_xmlv3p0'
+};
+
+const RESPONSE_TEMPLATES: Record<QtiVersion, Record<'match_correct' | 'map_response', string>> = {
+  '2.1': {
+    match_correct: 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct',
+    map_response: 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response'
+  },
+  '3.0': {
+    match_correct: 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/match_correct.xml',
+    map_response: 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response.xml'
+  }
+};
+
+const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+
+const SUPPORTED_INTERACTIONS = new Set([
+  'choiceInteraction',
+  'orderInteraction',
+  'matchInteraction',
+  'inlineChoiceInteraction',
+  'textEntryInteraction',
+  'extendedTextInteraction',
+  'hotspotInteraction'
+]);
+
+// Body elements that are never shown as question content (feedback would give the answer away)
+const SKIPPED_ELEMENTS = new Set([
+  'feedbackBlock',
+  'feedbackInline',
+  'modalFeedback',
+  'rubricBlock',
+  'templateBlock',
+  'templateInline',
+  'printedVariable',
+  'script',
+  'style'
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'br', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'table', 'tr', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr'
+]);
+
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'hr', 'img', 'source', 'track', 'wbr']);
+
+// Attributes kept when exporting editor HTML (QTI content allows a subset of XHTML)
+const EXPORTED_ATTRIBUTES = new Set([
+  'class', 'id', 'href', 'src', 'alt', 'width', 'height', 'colspan', 'rowspan', 'title', 'start', 'type', 'data'
+]);
+
+const ELLIPSE_POINTS = 16;
+
+const toKebab = (name: string) => name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+const toCamel = (name: string) => name.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+
+// QTI 2.1 name of an element from either version (qti-simple-choice -> simpleChoice)
+const qtiName = (el: Element) => (el.localName.startsWith('qti-') ? toCamel(el.localName.slice(4)) : el.localName);
+const qtiAttr = (el: Element, name: string) => el.getAttribute(name) ?? el.getAttribute(toKebab(name));
+const childrenNamed = (el: Element, name: string) => Array.from(el.children).filter(child => qtiName(child) === name);
+const descendantsNamed = (el: Element, name: string) =>
+  Array.from(el.getElementsByTagName('*')).filter(child => qtiName(child) === name);
+const isInteraction = (el: Element) => qtiName(el).endsWith('Interaction');
+
+// "graphicGapMatchInteraction" -> "graphic gap match"
+const describeInteraction = (name: string) =>
+  name.replace(/Interaction$/, '').replace(/[A-Z]/g, char => ` ${char.toLowerCase()}`).trim();
+
+// Path of a file referenced from another file in the package ("../media/a.png" from "items/q1.xml")
+const resolvePath = (base: string, relative: string) => {
+  const parts = base.split('/').slice(0, -1);
+  let decoded = relative.split(/[?#]/)[0];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep the path as written
+  }
+  decoded.split('/').forEach(part => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  });
+  return parts.join('/');
+};
+
+const isExternalUrl = (url: string) => /^(https?:|data:|blob:)/i.test(url);
+
+interface SerializeOptions {
+  transform?: (el: Element) => string | null; // Markup to write instead of the element, or null to write it as is
+  keepAttribute?: (name: string) => boolean;
+}
+
+// Well-formed markup for a content node (self-closed void elements, escaped text) without scripts, event
+// handlers or namespace declarations. Used for item bodies going into the editor and editor HTML going into items.
+const serializeContent = (node: Node, options: SerializeOptions = {}): string => {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    return escapeXml(node.textContent || '');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const name = el.localName;
+  if (name === 'script' || name === 'style') return '';
+  const replaced = options.transform?.(el);
+  if (replaced !== null && replaced !== undefined) return replaced;
+
+  const attrs = Array.from(el.attributes)
+    .filter(attr => !attr.name.startsWith('on') && !attr.name.startsWith('xmlns'))
+    .filter(attr => !/^\s*javascript:/i.test(attr.value))
+    .filter(attr => !options.keepAttribute || options.keepAttribute(attr.name))
+    .map(attr => ` ${attr.name}="${escapeXml(attr.value)}"`)
+    .join('');
+  if (VOID_ELEMENTS.has(name)) return `<${name}${attrs}/>`;
+  const inner = Array.from(el.childNodes).map(child => serializeContent(child, options)).join('');
+  return `<${name}${attrs}>${inner}</${name}>`;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------------------------------------
+
+interface PackageReader {
+  zip: JSZip;
+  urls: Map<string, string | null>; // Package path -> object URL (null when the file is missing or not media)
+  files: Map<string, File>; // Object URL -> media file
+}
+
+interface ItemContext {
+  path: string;
+  media: Map<string, string | null>; // src/data attribute as written in the item -> URL used in the draft
+  warnings: string[];
+  promptIsDescription: boolean; // Extended text prompts become the Short Answer/Essay description
+}
+
+interface ResponseDeclaration {
+  cardinality: string;
+  baseType: string;
+  correct: string[];
+  mapped: string[]; // Keys of mapEntries worth points
+}
+
+const MATHML_WARNING = 'MathML without a TeX annotation was kept as MathML and will be lost if the question is edited';
+const CHOICE_MEDIA_WARNING = 'Images and media inside choices or fill-in-the-blank text were left out';
+
+const loadMedia = async (pkg: PackageReader, path: string): Promise<string | null> => {
+  if (pkg.urls.has(path)) return pkg.urls.get(path) ?? null;
+
+  let url: string | null = null;
+  const escaped = path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const entry = pkg.zip.file(path) ?? pkg.zip.file(new RegExp(`^${escaped}$`, 'i'))[0];
+  const type = MEDIA_TYPES[extensionOf(path)];
+  if (entry && type) {
+    const blob = await entry.async('blob');
+    const file = new File([blob], path.split('/').pop() || path, { type });
+    url = URL.createObjectURL(file);
+    pkg.files.set(url, file);
+  }
+  pkg.urls.set(path, url);
+  return url;
+};
+
+// Load the media an item body refers to before its content is converted
+const collectMedia = async (body: Element, ctx: ItemContext, pkg: PackageReader) => {
+  const references = Array.from(body.getElementsByTagName('*'))
+    .map(el => {
+      const name = qtiName(el);
+      if (name === 'object') return el.getAttribute('data');
+      if (['img', 'audio', 'video', 'source'].includes(name)) return el.getAttribute('src');
+      return null;
+    })
+    .filter((value): value is string => !!value);
+
+  for (const reference of references) {
+    if (ctx.media.has(reference)) continue;
+    if (isExternalUrl(reference)) {
+      ctx.media.set(reference, reference);
+      continue;
+    }
+    const url = await loadMedia(pkg, resolvePath(ctx.path, reference));
+    if (!url) {
+      ctx.warnings.push(`Media file missing from the package or of an unsupported type: ${reference}`);
+    }
+    ctx.media.set(reference, url);
+  }
+};
+
+const mediaUrl = (ctx: ItemContext, reference: string | null | undefined) =>
+  reference ? ctx.media.get(reference) ?? null : null;
+
+// TeX from a MathML annotation, written with the delimiters the app renders
+const texOfMath = (math: Element) => {
+  const annotation = Array.from(math.getElementsByTagName('*')).find(
+    el => el.localName === 'annotation' && /tex/i.test(el.getAttribute('encoding') || '')
+  );
+  const tex = annotation?.textContent?.trim();
+  if (!tex) return null;
+  return math.getAttribute('display') === 'block' ? `\\[${tex}\\]` : `\\(${tex}\\)`;
+};
+
+const toPlainText = (node: Node, ctx: ItemContext): string => {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) return node.textContent || '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const name = qtiName(el);
+  if (SKIPPED_ELEMENTS.has(name)) return '';
+  if (name === 'inlineChoiceInteraction' || name === 'textEntryInteraction') return '___';
+  if (name === 'math') {
+    const tex = texOfMath(el);
+    if (tex) return tex;
+    ctx.warnings.push('MathML without a TeX annotation was imported as plain text');
+    return el.textContent || '';
+  }
+  if (['img', 'object', 'audio', 'video'].includes(name)) {
+    ctx.warnings.push(CHOICE_MEDIA_WARNING);
+    return '';
+  }
+  const inner = Array.from(el.childNodes).map(child => toPlainText(child, ctx)).join('');
+  return BLOCK_ELEMENTS.has(name) ? `\n${inner}\n` : inner;
+};
+
+// One line of text (choices, items, blank options)
+const inlineText = (el: Element, ctx: ItemContext) => toPlainText(el, ctx).replace(/\s+/g, ' ').trim();
+
+// Text keeping paragraph breaks (fill-in-the-blank text, descriptions)
+const blockText = (el: Element, ctx: ItemContext) =>
+  toPlainText(el, ctx)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+const mediaHtml = (el: Element, ctx: ItemContext) => {
+  const name = qtiName(el);
+  const reference =
+    name === 'object'
+      ? el.getAttribute('data')
+      : el.getAttribute('src') ?? childrenNamed(el, 'source')[0]?.getAttribute('src');
+  const src = mediaUrl(ctx, reference);
+  if (!src || !reference) return '';
+
+  const type = el.getAttribute('type') || MEDIA_TYPES[extensionOf(reference)] || '';
+  const kind = name === 'audio' || name === 'video' ? name : type.split('/')[0];
+  if (kind === 'image') {
+    return `<img src="${escapeXml(src)}" alt="${escapeXml(el.getAttribute('alt') || el.textContent?.trim() || '')}"/>`;
+  }
+  if (kind === 'audio') {
+    return `<audio src="${escapeXml(src)}" controls="true" preload="metadata"></audio>`;
+  }
+  if (kind === 'video') {
+    return `<iframe class="ql-video" frameborder="0" allowfullscreen="true" src="${escapeXml(src)}"></iframe>`;
+  }
+  ctx.warnings.push('Embedded objects other than images, audio and video were left out');
+  return '';
+};
+
+// Question HTML for the editor from item body content
+const contentHtml = (el: Element, ctx: ItemContext): string =>
+  Array.from(el.childNodes)
+    .map(child => serializeContent(child, { transform: node => importTransform(node, ctx) }))
+    .join('')
+    .replace(/>\s*\n\s*</g, '><')
+    .trim();
+
+const importTransform = (el: Element, ctx: ItemContext): string | null => {
+  const name = qtiName(el);
+  if (SKIPPED_ELEMENTS.has(name)) return '';
+  if (name === 'inlineChoiceInteraction' || name === 'textEntryInteraction') return '___';
+  if (isInteraction(el)) {
+    // Block interactions keep only their prompt; the choices become options or metadata
+    const prompt = childrenNamed(el, 'prompt')[0];
+    if (!prompt || ctx.promptIsDescription) return '';
+    const inner = contentHtml(prompt, ctx);
+    return Array.from(prompt.children).some(child => BLOCK_ELEMENTS.has(qtiName(child))) ? inner : `<p>${inner}</p>`;
+  }
+  if (name === 'math') {
+    const tex = texOfMath(el);
+    if (tex) return escapeXml(tex);
+    ctx.warnings.push(MATHML_WARNING);
+    return null;
+  }
+  if (['img', 'object', 'audio', 'video'].includes(name)) {
+    if (name === 'img') {
+      const src = mediaUrl(ctx, el.getAttribute('src'));
+      return src ? `<img src="${escapeXml(src)}" alt="${escapeXml(el.getAttribute('alt') || '')}"/>` : '';
+    }
+    return mediaHtml(el, ctx);
+  }
+  // Other QTI 3 wrappers (qti-stimulus-body, ...): keep their content
+  if (el.localName.startsWith('qti-')) return contentHtml(el, ctx);
+  return null;
+};
+
+const readDeclarations = (item: Element) => {
+  const declarations = new Map<string, ResponseDeclaration>();
+  childrenNamed(item, 'responseDeclaration').forEach(declaration => {
+    const correctResponse = childrenNamed(declaration, 'correctResponse')[0];
+    const mapping = childrenNamed(declaration, 'mapping')[0];
+    declarations.set(qtiAttr(declaration, 'identifier') || '', {
+      cardinality: qtiAttr(declaration, 'cardinality') || 'single',
+      baseType: qtiAttr(declaration, 'baseType') || 'identifier',
+      correct: correctResponse
+        ? childrenNamed(correctResponse, 'value').map(value => (value.textContent || '').trim())
+        : [],
+      mapped: mapping
+        ? childrenNamed(mapping, 'mapEntry')
+            .filter(entry => Number(qtiAttr(entry, 'mappedValue')) > 0)
+            .map(entry => (qtiAttr(entry, 'mapKey') || '').trim())
+        : []
+    });
+  });
+  return declarations;
+};
+
+// The correct response, or the entries worth points when an item only defines a mapping
+const keyOf = (declaration: ResponseDeclaration) =>
+  declaration.correct.length > 0 ? declaration.correct : declaration.mapped;
+
+const readChoice = (interaction: Element, declaration: ResponseDeclaration, ctx: ItemContext): DraftAnswer => {
+  const choices = childrenNamed(interaction, 'simpleChoice');
+  const ids = choices.map(choice => qtiAttr(choice, 'identifier') || '');
+  const correct = keyOf(declaration)
+    .map(id => ids.indexOf(id))
+    .filter(idx => idx >= 0)
+    .sort((a, b) => a - b);
+  return choiceAnswer(
+    choices.map(choice => inlineText(choice, ctx)),
+    correct,
+    declaration.cardinality === 'multiple',
+    ctx.warnings
+  );
+};
+
+const readOrder = (interaction: Element, declaration: ResponseDeclaration, ctx: ItemContext): DraftAnswer => {
+  const choices = childrenNamed(interaction, 'simpleChoice');
+  const ids = choices.map(choice => qtiAttr(choice, 'identifier') || '');
+  const texts = choices.map(choice => inlineText(choice, ctx));
+  const key = keyOf(declaration);
+  if (choices.length < MIN_ORDERING_ITEMS) {
+    throw new Error(`Ordering items need at least ${MIN_ORDERING_ITEMS} steps`);
+  }
+  if (key.length !== ids.length || new Set(key).size !== key.length || key.some(id => !ids.includes(id))) {
+    throw new Error('The correct order must list every step exactly once');
+  }
+
+  const { items, correctOrder } = buildOrderingItems(key.map(id => texts[ids.indexOf(id)]));
+  return {
+    questionType: 'Ordering',
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(correctOrder),
+    questionMetadata: { items }
+  };
+};
+
+// Match interactions become Matching when every target is used once, otherwise Categorize (targets are buckets)
+const readMatch = (interaction: Element, declaration: ResponseDeclaration, ctx: ItemContext): DraftAnswer => {
+  const sets = childrenNamed(interaction, 'simpleMatchSet');
+  if (sets.length !== 2) throw new Error('Match interactions need two sets of choices');
+  const [sources, targets] = sets.map(set => childrenNamed(set, 'simpleAssociableChoice'));
+  const sourceIds = sources.map(choice => qtiAttr(choice, 'identifier') || '');
+  const targetIds = targets.map(choice => qtiAttr(choice, 'identifier') || '');
+  const sourceTexts = sources.map(choice => inlineText(choice, ctx));
+  const targetTexts = targets.map(choice => inlineText(choice, ctx));
+
+  const pairs = keyOf(declaration).map(value => {
+    const [source, target] = value.split(/\s+/);
+    return { left: sourceIds.indexOf(source), right: targetIds.indexOf(target) };
+  });
+  if (pairs.length === 0) throw new Error('No correct response is defined');
+  if (pairs.some(pair => pair.left < 0 || pair.right < 0)) {
+    throw new Error('The correct response refers to choices that do not exist');
+  }
+  const pairsBySource = sources.map((_, idx) => pairs.filter(pair => pair.left === idx));
+  if (pairsBySource.some(list => list.length > 1)) {
+    throw new Error('Matches where one choice belongs with several others are not supported');
+  }
+
+  const targetsUsedOnce = new Set(pairs.map(pair => pair.right)).size === pairs.length;
+  if (targetsUsedOnce && targets.every(target => qtiAttr(target, 'matchMax') === '1')) {
+    if (sources.length < 2 || targets.length < 2) throw new Error('Matching items need at least 2 items on each side');
+    return {
+      questionType: 'Matching',
+      options: [],
+      correctOptionIndex: 0,
+      correctAnswer: JSON.stringify(pairs),
+      questionMetadata: { leftItems: sourceTexts, rightItems: targetTexts, correctPairs: pairs }
+    };
+  }
+
+  if (pairsBySource.some(list => list.length === 0)) {
+    throw new Error('Every item must belong to a category');
+  }
+  if (targets.length < MIN_CATEGORIES || sources.length < MIN_CATEGORIZE_ITEMS) {
+    throw new Error(`Categorize items need at least ${MIN_CATEGORIES} categories and ${MIN_CATEGORIZE_ITEMS} items`);
+  }
+  return {
+    questionType: 'Categorize',
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(pairsBySource.map(list => list[0].right)),
+    questionMetadata: { categories: targetTexts, items: sourceTexts }
+  };
+};
+
+const readTolerance = (item: Element): NumericEntrySettings['tolerance'] => {
+  const equal = descendantsNamed(item, 'equal')[0];
+  const mode = equal ? qtiAttr(equal, 'toleranceMode') : null;
+  const value = equal ? Number((qtiAttr(equal, 'tolerance') || '').trim().split(/\s+/)[0]) : 0;
+  if ((mode === 'absolute' || mode === 'relative') && value > 0) {
+    return { mode: mode as NumericToleranceMode, value };
+  }
+  return { mode: 'exact', value: 0 };
+};
+
+const readTextEntry = (item: Element, declaration: ResponseDeclaration, ctx: ItemContext): DraftAnswer => {
+  const key = keyOf(declaration)[0];
+  if (declaration.baseType === 'float' || declaration.baseType === 'integer') {
+    if (!key || !isValidNumericKey(key)) throw new Error('No valid numeric correct response is defined');
+    return {
+      questionType: 'NumericEntry',
+      options: [],
+      correctOptionIndex: 0,
+      correctAnswer: key,
+      questionMetadata: { numeric: { ...DEFAULT_NUMERIC_SETTINGS, tolerance: readTolerance(item) } }
+    };
+  }
+
+  if (key) {
+    ctx.warnings.push(`The expected answer ("${key}") was not imported; Short Answer questions are graded by AI`);
+  }
+  return {
+    questionType: 'ShortAnswer',
+    options: [],
+    correctOptionIndex: 0,
+    questionMetadata: { description: '', maxWords: 100 }
+  };
+};
+
+const readExtendedText = (interaction: Element, ctx: ItemContext): DraftAnswer => {
+  const prompt = childrenNamed(interaction, 'prompt')[0];
+  const expectedLines = Number(qtiAttr(interaction, 'expectedLines'));
+  const isShort = expectedLines > 0 && expectedLines <= 3;
+  ctx.promptIsDescription = true;
+  return {
+    questionType: isShort ? 'ShortAnswer' : 'Essay',
+    options: [],
+    correctOptionIndex: 0,
+    questionMetadata: { description: prompt ? blockText(prompt, ctx) : '', maxWords: isShort ? 100 : null }
+  };
+};
+
+const loadImageSize = (url: string) =>
+  new Promise<{ width: number; height: number } | null>(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(img.naturalWidth && img.naturalHeight ? { width: img.naturalWidth, height: img.naturalHeight } : null);
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+
+const fraction = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 10000) / 10000;
+
+// Hotspot shape in image pixels -> region in fractions of the image; circles and ellipses become polygons
+const toRegion = (shape: string, coords: number[], width: number, height: number): HotspotRegion | null => {
+  const point = (x: number, y: number) => ({ x: fraction(x / width), y: fraction(y / height) });
+  const ellipse = (cx: number, cy: number, rx: number, ry: number): HotspotRegion => ({
+    shape: 'polygon',
+    points: Array.from({ length: ELLIPSE_POINTS }, (_, idx) => {
+      const angle = (2 * Math.PI * idx) / ELLIPSE_POINTS;
+      return point(cx + rx * Math.cos(angle), cy + ry * Math.sin(angle));
+    })
+  });
+
+  if (shape === 'rect' && coords.length >= 4) {
+    const [x1, y1, x2, y2] = coords;
+    return {
+      shape: 'rect',
+      x: fraction(Math.min(x1, x2) / width),
+      y: fraction(Math.min(y1, y2) / height),
+      width: fraction(Math.abs(x2 - x1) / width),
+      height: fraction(Math.abs(y2 - y1) / height)
+    };
+  }
+  if (shape === 'poly' && coords.length >= 6) {
+    const points = [];
+    for (let i = 0; i + 1 < coords.length; i += 2) {
+      points.push(point(coords[i], coords[i + 1]));
+    }
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (points.length > 3 && first.x === last.x && first.y === last.y) points.pop();
+    return { shape: 'polygon', points };
+  }
+  if (shape === 'circle' && coords.length >= 3) return ellipse(coords[0], coords[1], coords[2], coords[2]);
+  if (shape === 'ellipse' && coords.length >= 4) return ellipse(coords[0], coords[1], coords[2], coords[3]);
+  return null;
+};
+
+const readHotspot = async (
+  interaction: Element,
+  declaration: ResponseDeclaration,
+  ctx: ItemContext
+): Promise<DraftAnswer> => {
+  if ((qtiAttr(interaction, 'maxChoices') || '1') !== '1') {
+    throw new Error('Hotspot items where students pick several areas are not supported');
+  }
+  const image = Array.from(interaction.children).find(child => ['object', 'img'].includes(qtiName(child)));
+  const imageUrl = image ? mediaUrl(ctx, qtiName(image) === 'object' ? image.getAttribute('data') : image.getAttribute('src')) : null;
+  if (!image || !imageUrl) throw new Error('The hotspot image is missing from the package');
+
+  let width = Number(image.getAttribute('width'));
+  let height = Number(image.getAttribute('height'));
+  if (!(width > 0 && height > 0)) {
+    const size = await loadImageSize(imageUrl);
+    if (!size) throw new Error('The size of the hotspot image could not be read');
+    ({ width, height } = size);
+  }
+
+  const key = new Set([...declaration.correct, ...declaration.mapped]);
+  const regions: HotspotRegion[] = [];
+  childrenNamed(interaction, 'hotspotChoice')
+    .filter(choice => key.has(qtiAttr(choice, 'identifier') || ''))
+    .forEach(choice => {
+      const shape = qtiAttr(choice, 'shape') || '';
+      const coords = (qtiAttr(choice, 'coords') || '').split(',').map(value => parseFloat(value));
+      const region = coords.some(Number.isNaN) ? null : toRegion(shape, coords, width, height);
+      if (!region) {
+        throw new Error(`Hotspot shape "${shape}" is not supported`);
+      }
+      if (shape === 'circle' || shape === 'ellipse') {
+        ctx.warnings.push('Round hotspot areas were converted to polygons');
+      }
+      regions.push(region);
+    });
+  if (regions.length === 0) throw new Error('No correct hotspot is defined');
+
+  return {
+    questionType: 'Hotspot',
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(regions),
+    questionMetadata: { hotspot: { imageUrl, imageAlt: image.getAttribute('alt') || '' } }
+  };
+};
+
+const readInlineChoices = (
+  body: Element,
+  interactions: Element[],
+  declarationOf: (interaction: Element) => ResponseDeclaration,
+  ctx: ItemContext
+): DraftAnswer => {
+  const blanks = interactions.map((interaction, idx) => {
+    const choices = childrenNamed(interaction, 'inlineChoice');
+    const ids = choices.map(choice => qtiAttr(choice, 'identifier') || '');
+    const correctIndex = ids.indexOf(keyOf(declarationOf(interaction))[0]);
+    if (choices.length < 2) throw new Error(`Blank ${idx + 1} needs at least 2 choices`);
+    if (correctIndex < 0) throw new Error(`Blank ${idx + 1} has no correct response`);
+    return { options: choices.map(choice => inlineText(choice, ctx)), correctIndex };
+  });
+
+  const questionText = blockText(body, ctx);
+  if (findBlanks(questionText).length !== blanks.length) {
+    throw new Error('The item text contains "___" or "{n}", which would be read as extra blanks');
+  }
+
+  return {
+    questionType: 'FillInBlank',
+    questionText,
+    options: [],
+    correctOptionIndex: 0,
+    correctAnswer: JSON.stringify(blanks.map(blank => blank.correctIndex)),
+    questionMetadata: { blanks }
+  };
+};
+
+const parseItem = async (item: Element, path: string, pkg: PackageReader): Promise<Omit<QuestionDraft, 'sourceId' | 'title'>> => {
+  const ctx: ItemContext = { path, media: new Map(), warnings: [], promptIsDescription: false };
+  const body = childrenNamed(item, 'itemBody')[0];
+  if (!body) throw new Error('The item has no item body');
+  await collectMedia(body, ctx, pkg);
+
+  const interactions = Array.from(body.getElementsByTagName('*')).filter(isInteraction);
+  if (interactions.length === 0) throw new Error('The item has no interaction to answer');
+  const unsupported = Array.from(new Set(interactions.map(qtiName).filter(name => !SUPPORTED_INTERACTIONS.has(name))));
+  if (unsupported.length > 0) {
+    throw new Error(`Unsupported interaction: ${unsupported.map(describeInteraction).join(', ')}`);
+  }
+
+  const declarations = readDeclarations(item);
+  const declarationOf = (interaction: Element) => {
+    const declaration = declarations.get(qtiAttr(interaction, 'responseIdentifier') || '');
+    if (!declaration) throw new Error('An interaction has no response declaration');
+    return declaration;
+  };
+
+  let answer: DraftAnswer;
+  if (interactions.every(interaction => qtiName(interaction) === 'inlineChoiceInteraction')) {
+    answer = readInlineChoices(body, interactions, declarationOf, ctx);
+  } else if (interactions.length > 1) {
+    throw new Error('Items with more than one interaction are not supported (apart from several inline choice blanks)');
+  } else {
+    const interaction = interactions[0];
+    switch (qtiName(interaction)) {
+      case 'choiceInteraction':
+        answer = readChoice(interaction, declarationOf(interaction), ctx);
+        break;
+      case 'orderInteraction':
+        answer = readOrder(interaction, declarationOf(interaction), ctx);
+        break;
+      case 'matchInteraction':
+        answer = readMatch(interaction, declarationOf(interaction), ctx);
+        break;
+      case 'textEntryInteraction':
+        answer = readTextEntry(item, declarationOf(interaction), ctx);
+        break;
+      case 'hotspotInteraction':
+        answer = await readHotspot(interaction, declarationOf(interaction), ctx);
+        break;
+      default:
+        answer = readExtendedText(interaction, ctx);
+    }
+  }
+
+  const { questionText: plainText, ...rest } = answer;
+  let questionText = plainText ?? contentHtml(body, ctx);
+
+  // An extended text item with everything in its prompt: the prompt is the question
+  const metadata = rest.questionMetadata as { description?: string } | undefined;
+  if (!stripTags(questionText) && metadata?.description) {
+    questionText = `<p>${escapeXml(metadata.description)}</p>`;
+    metadata.description = '';
+  }
+
+  return { ...rest, questionText, warnings: Array.from(new Set(ctx.warnings)) };
+};
+
+// Item files listed in the manifest, or every item-like XML file when there is no manifest
+const findItemPaths = async (zip: JSZip): Promise<string[]> => {
+  const manifest = zip.file(/(^|\/)imsmanifest\.xml$/i).sort((a, b) => a.name.length - b.name.length)[0];
+  if (manifest) {
+    const doc = new DOMParser().parseFromString(await manifest.async('string'), 'application/xml');
+    const paths = Array.from(doc.getElementsByTagName('*'))
+      .filter(el => el.localName === 'resource' && /imsqti_item/i.test(el.getAttribute('type') || ''))
+      .map(el => el.getAttribute('href'))
+      .filter((href): href is string => !!href)
+      .map(href => resolvePath(manifest.name, href));
+    if (paths.length > 0) return Array.from(new Set(paths));
+  }
+
+  const paths: string[] = [];
+  const candidates = zip
+    .file(/\.xml$/i)
+    .filter(entry => !/imsmanifest\.xml$/i.test(entry.name) && !entry.name.startsWith('__MACOSX/'));
+  for (const entry of candidates) {
+    const text = await entry.async('string');
+    if (/<([\w-]+:)?(assessmentItem|qti-assessment-item|questestinterop)[\s>]/.test(text)) {
+      paths.push(entry.name);
+    }
+  }
+  return paths;
+};
+
+export const parseQtiPackage = async (file: File): Promise<QuestionImportParseResult> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('The file is not a valid zip package');
+  }
+
+  const itemPaths = await findItemPaths(zip);
+  if (itemPaths.length === 0) {
+    throw new Error('No QTI items were found in the package');
+  }
+
+  const pkg: PackageReader = { zip, urls: new Map(), files: new Map() };
+  const result: QuestionImportParseResult = { drafts: [], skipped: [], media: pkg.files };
+  const usedIds = new Set<string>();
+
+  for (const path of itemPaths) {
+    const entry = zip.file(path);
+    if (!entry) {
+      result.skipped.push({ sourceId: path, title: path, reason: 'Listed in the manifest but missing from the package' });
+      continue;
+    }
+
+    const doc = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      result.skipped.push({ sourceId: path, title: path, reason: 'The file is not well-formed XML' });
+      continue;
+    }
+    if (root.localName === 'questestinterop') {
+      result.skipped.push({ sourceId: path, title: path, reason: 'QTI 1.2 items are not supported; export them as QTI 2.1 or 3.0' });
+      continue;
+    }
+    if (qtiName(root) !== 'assessmentItem') {
+      result.skipped.push({ sourceId: path, title: path, reason: 'Not a QTI assessment item' });
+      continue;
+    }
+
+    // Identifiers are only unique per item file in some packages
+    let sourceId = qtiAttr(root, 'identifier') || path;
+    if (usedIds.has(sourceId)) sourceId = `${sourceId} (${path})`;
+    usedIds.add(sourceId);
+    const title = qtiAttr(root, 'title') || sourceId;
+    try {
+      result.drafts.push({ sourceId, title, ...(await parseItem(root, path, pkg)) });
+    } catch (error) {
+      result.skipped.push({
+        sourceId,
+        title,
+        reason: error instanceof Error ? error.message : 'The item could not be read'
+      });
+    }
+  }
+
+  return result;
+};
+
+// ---------------------------------------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------------------------------------
+
+interface PackageWriter {
+  zip: JSZip;
+  paths: Map<string, string | null>; // Media URL -> path in the package (null when it could not be downloaded)
+  names: Set<string>;
+  itemMedia: Set<string>; // Media used by the item being written, for its manifest entry
+}
+
+const packageMedia = async (pack: PackageWriter, url: string): Promise<string | null> => {
+  if (!pack.paths.has(url)) {
+    let path: string | null = null;
+    const blob = await fetchMedia(url);
+    if (blob) {
+      const urlName = url.startsWith('data:') ? '' : url.split(/[?#]/)[0].split('/').pop() || '';
+      const extension = MEDIA_TYPES[extensionOf(urlName)] ? extensionOf(urlName) : EXTENSIONS_BY_TYPE[blob.type] || 'bin';
+      let name = MEDIA_TYPES[extensionOf(urlName)] ? urlName.replace(/[^\w.-]/g, '_') : `media-${pack.paths.size + 1}.${extension}`;
+      for (let copy = 2; pack.names.has(name); copy++) {
+        name = `${copy}-${name}`;
+      }
+      pack.names.add(name);
+      path = `media/${name}`;
+      pack.zip.file(path, blob);
+    }
+    pack.paths.set(url, path);
+  }
+
+  const path = pack.paths.get(url) ?? null;
+  if (path) pack.itemMedia.add(path);
+  return path;
+};
+
+// XML writer for one QTI version: names are given in their 2.1 form
+const createWriter = (version: QtiVersion) => {
+  const convert = (name: string) => (version === '3.0' && !name.includes(':') ? toKebab(name) : name);
+  return (name: string, attrs: Record<string, string | number | undefined> = {}, ...children: string[]) => {
+    const tag = version === '3.0' ? `qti-${toKebab(name)}` : name;
+    const attrText = Object.entries(attrs)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ` ${convert(key)}="${escapeXml(String(value))}"`)
+      .join('');
+    return children.length > 0 ? `<${tag}${attrText}>${children.join('')}</${tag}>` : `<${tag}${attrText}/>`;
+  };
+};
+
+const serializeMathml = (math: Element) => {
+  const attrs = Array.from(math.attributes)
+    .filter(attr => !attr.name.startsWith('xmlns'))
+    .map(attr => ` ${attr.name}="${escapeXml(attr.value)}"`)
+    .join('');
+  const inner = Array.from(math.childNodes).map(child => serializeContent(child)).join('');
+  return `<math xmlns="${MATHML_NAMESPACE}"${attrs}>${inner}</math>`;
+};
+
+// Editor HTML (or escaped plain text) as QTI content: XHTML, math as MathML with the TeX kept as an
+// annotation, media packaged under media/ (items live in items/, hence "../")
+const exportContent = async (html: string, pack: PackageWriter, notes: string[]): Promise<string> => {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body;
+  const doc = body.ownerDocument;
+
+  if (hasMath(body.textContent)) {
+    const walker = doc.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      textNodes.push(walker.currentNode as Text);
+    }
+    textNodes
+      .filter(node => hasMath(node.textContent))
+      .forEach(node => {
+        const wrapper = doc.createElement('span');
+        wrapper.innerHTML = splitMath(node.textContent || '')
+          .map(segment =>
+            segment.type === 'math'
+              ? katex.renderToString(segment.value, { displayMode: segment.display, throwOnError: false, output: 'mathml' })
+              : escapeXml(segment.value)
+          )
+          .join('');
+        node.replaceWith(...Array.from(wrapper.childNodes));
+      });
+  }
+
+  const sources = new Map<string, string | null>();
+  for (const el of Array.from(body.querySelectorAll('img[src], audio[src], video[src], iframe[src], source[src]'))) {
+    const src = el.getAttribute('src') || '';
+    if (sources.has(src) || !isPackagedUrl(src)) continue;
+    const path = await packageMedia(pack, src);
+    if (!path) notes.push(`Media could not be downloaded and was left out: ${src}`);
+    sources.set(src, path ? `../${path}` : null);
+  }
+
+  const options: SerializeOptions = {
+    keepAttribute: name => EXPORTED_ATTRIBUTES.has(name),
+    transform: el => {
+      const name = el.localName;
+      const inner = () => Array.from(el.childNodes).map(child => serializeContent(child, options)).join('');
+      if (el.classList.contains('katex')) {
+        const math = el.getElementsByTagName('math')[0];
+        return math ? serializeMathml(math) : '';
+      }
+      if (name === 'math') return serializeMathml(el);
+      if (name === 'u') return `<span class="underline">${inner()}</span>`;
+      if (name === 's' || name === 'strike') return `<span class="line-through">${inner()}</span>`;
+      if (name === 'img') {
+        const src = el.getAttribute('src') || '';
+        const packaged = sources.has(src) ? sources.get(src) : src;
+        return packaged ? `<img src="${escapeXml(packaged)}" alt="${escapeXml(el.getAttribute('alt') || '')}"/>` : '';
+      }
+      if (name === 'audio' || name === 'video' || name === 'iframe') {
+        const src = el.getAttribute('src') || el.querySelector('source')?.getAttribute('src') || '';
+        const packaged = sources.get(src);
+        if (packaged) {
+          const type = MEDIA_TYPES[extensionOf(packaged)] || (name === 'audio' ? 'audio/mpeg' : 'video/mp4');
+          return `<object data="${escapeXml(packaged)}" type="${type}"></object>`;
+        }
+        if (src && !isPackagedUrl(src)) {
+          notes.push(`Embedded media was exported as a link: ${src}`);
+          return `<a href="${escapeXml(src)}">${escapeXml(src)}</a>`;
+        }
+        return '';
+      }
+      return null;
+    }
+  };
+
+  return Array.from(body.childNodes).map(node => serializeContent(node, options)).join('');
+};
+
+const exportText = (text: string, pack: PackageWriter, notes: string[]) =>
+  exportContent(escapeXml(text).replace(/\n/g, '<br>'), pack, notes);
+
+const buildItem = async (question: ExportedQuestion, version: QtiVersion, pack: PackageWriter) => {
+  const q = createWriter(version);
+  const notes: string[] = [];
+  const metadata = question.questionMetadata || {};
+  const type = question.questionType || 'MCQ';
+  const declarations: string[] = [];
+  let content = `<div>${await exportContent(question.questionText || '', pack, notes)}</div>`;
+  let interaction = '';
+  let processing: string | null = q('responseProcessing', { template: RESPONSE_TEMPLATES[version].match_correct });
+
+  const declare = (identifier: string, cardinality: string, baseType: string, correct: string[], extra = '') =>
+    declarations.push(
+      q(
+        'responseDeclaration',
+        { identifier, cardinality, baseType },
+        ...(correct.length > 0 ? [q('correctResponse', {}, ...correct.map(value => q('value', {}, escapeXml(value))))] : []),
+        ...(extra ? [extra] : [])
+      )
+    );
+  const texts = (list: string[]) => Promise.all(list.map(text => exportText(String(text), pack, notes)));
+
+  switch (type) {
+    case 'MCQ':
+    case 'TrueFalse':
+    case 'MultipleSelect': {
+      const options = type === 'TrueFalse' && (question.options || []).length !== 2 ? ['True', 'False'] : question.options || [];
+      const correct = correctChoiceIndices(question, options);
+      const ids = options.map((_, idx) => `CHOICE_${idx + 1}`);
+      const isMultiple = type === 'MultipleSelect';
+      declare('RESPONSE', isMultiple ? 'multiple' : 'single', 'identifier', correct.map(idx => ids[idx]));
+      const choices = await texts(options);
+      interaction = q(
+        'choiceInteraction',
+        { responseIdentifier: 'RESPONSE', shuffle: 'false', maxChoices: isMultiple ? 0 : 1 },
+        ...choices.map((choice, idx) => q('simpleChoice', { identifier: ids[idx] }, choice))
+      );
+      break;
+    }
+
+    case 'Matching':
+    case 'Categorize': {
+      const isMatching = type === 'Matching';
+      const sources: string[] = (isMatching ? metadata.leftItems : metadata.items) || [];
+      const targets: string[] = (isMatching ? metadata.rightItems : metadata.categories) || [];
+      const pairs: Array<{ left: number; right: number }> = isMatching
+        ? metadata.correctPairs || []
+        : parseCategorizePlacement(question.correctAnswer, sources.length, targets.length)
+            .map((right, left) => ({ left, right: right ?? -1 }));
+      if (sources.length < 2 || targets.length < 2 || pairs.length === 0 || pairs.some(pair => pair.right < 0)) {
+        throw new Error('The items or the correct answer are missing');
+      }
+      const sourceIds = sources.map((_, idx) => `${isMatching ? 'LEFT' : 'ITEM'}_${idx + 1}`);
+      const targetIds = targets.map((_, idx) => `${isMatching ? 'RIGHT' : 'CATEGORY'}_${idx + 1}`);
+      declare('RESPONSE', 'multiple', 'directedPair', pairs.map(pair => `${sourceIds[pair.left]} ${targetIds[pair.right]}`));
+      const [sourceTexts, targetTexts] = [await texts(sources), await texts(targets)];
+      interaction = q(
+        'matchInteraction',
+        { responseIdentifier: 'RESPONSE', shuffle: 'true', maxAssociations: sources.length },
+        q('simpleMatchSet', {}, ...sourceTexts.map((text, idx) => q('simpleAssociableChoice', { identifier: sourceIds[idx], matchMax: 1 }, text))),
+        q(
+          'simpleMatchSet',
+          {},
+          ...targetTexts.map((text, idx) =>
+            q('simpleAssociableChoice', { identifier: targetIds[idx], matchMax: isMatching ? 1 : 0 }, text)
+          )
+        )
+      );
+      break;
+    }
+
+    case 'FillInBlank': {
+      const blanks: Array<{ options: string[]; correctIndex: number }> = metadata.blanks || [];
+      const text = fillInBlankText(question.questionText || '');
+      const matches = findBlanks(text);
+      if (blanks.length === 0 || matches.length !== blanks.length) {
+        throw new Error('The blanks in the text do not match the blank settings');
+      }
+
+      const parts: string[] = [];
+      let lastIndex = 0;
+      for (const [idx, match] of matches.entries()) {
+        const blank = blanks[idx];
+        const identifier = `RESPONSE_${idx + 1}`;
+        const choiceIds = blank.options.map((_, optionIdx) => `BLANK_${idx + 1}_${optionIdx + 1}`);
+        declare(identifier, 'single', 'identifier', [choiceIds[blank.correctIndex]]);
+        parts.push(await exportText(text.slice(lastIndex, match.index), pack, notes));
+        parts.push(
+          q(
+            'inlineChoiceInteraction',
+            { responseIdentifier: identifier, shuffle: 'false' },
+            ...blank.options.map((option, optionIdx) => q('inlineChoice', { identifier: choiceIds[optionIdx] }, escapeXml(option)))
+          )
+        );
+        lastIndex = (match.index ?? 0) + match[0].length;
+      }
+      parts.push(await exportText(text.slice(lastIndex), pack, notes));
+      content = `<p>${parts.join('')}</p>`;
+      break;
+    }
+
+    case 'NumericEntry': {
+      const settings: NumericEntrySettings = metadata.numeric || DEFAULT_NUMERIC_SETTINGS;
+      const value = numericKeyValue(question.correctAnswer || '');
+      if (value === null) throw new Error('The numeric key could not be read');
+      declare('RESPONSE', 'single', 'float', [String(value)]);
+      const unit = settings.units?.[0];
+      interaction = `<p>${q('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: 12 })}${unit ? ` ${escapeXml(unit)}` : ''}</p>`;
+      if (settings.units && settings.units.length > 0) {
+        notes.push('Units are shown next to the answer box but are not checked by QTI scoring');
+      }
+
+      const { mode, value: tolerance } = settings.tolerance;
+      if (mode !== 'exact' && tolerance) {
+        const score = (points: string) => q('setOutcomeValue', { identifier: 'SCORE' }, q('baseValue', { baseType: 'float' }, points));
+        processing = q(
+          'responseProcessing',
+          {},
+          q(
+            'responseCondition',
+            {},
+            q(
+              'responseIf',
+              {},
+              q(
+                'equal',
+                { toleranceMode: mode, tolerance: `${tolerance} ${tolerance}` },
+                q('variable', { identifier: 'RESPONSE' }),
+                q('correct', { identifier: 'RESPONSE' })
+              ),
+              score('1')
+            ),
+            q('responseElse', {}, score('0'))
+          )
+        );
+      }
+      break;
+    }
+
+    case 'Ordering': {
+      const items: string[] = metadata.items || [];
+      const order = parseIndexList(question.correctAnswer);
+      if (items.length < MIN_ORDERING_ITEMS || order.length !== items.length) {
+        throw new Error('The steps or the correct order are missing');
+      }
+      const ids = items.map((_, idx) => `STEP_${idx + 1}`);
+      declare('RESPONSE', 'ordered', 'identifier', order.map(idx => ids[idx]));
+      const steps = await texts(items);
+      interaction = q(
+        'orderInteraction',
+        { responseIdentifier: 'RESPONSE', shuffle: 'true' },
+        ...steps.map((step, idx) => q('simpleChoice', { identifier: ids[idx] }, step))
+      );
+      break;
+    }
+
+    case 'Hotspot': {
+      const imageUrl: string | undefined = metadata.hotspot?.imageUrl;
+      const regions = parseHotspotRegions(question.correctAnswer);
+      if (!imageUrl || regions.length === 0) throw new Error('The hotspot image or its regions are missing');
+      const path = await packageMedia(pack, imageUrl);
+      const file = path ? pack.zip.file(path) : null;
+      if (!path || !file) throw new Error('The hotspot image could not be downloaded');
+
+      const objectUrl = URL.createObjectURL(await file.async('blob'));
+      const size = await loadImageSize(objectUrl);
+      URL.revokeObjectURL(objectUrl);
+      if (!size) throw new Error('The size of the hotspot image could not be read');
+
+      // Any correct area scores: the key maps every area to one point
+      const ids = regions.map((_, idx) => `AREA_${idx + 1}`);
+      declare(
+        'RESPONSE',
+        'single',
+        'identifier',
+        [ids[0]],
+        q('mapping', { defaultValue: 0 }, ...ids.map(id => q('mapEntry', { mapKey: id, mappedValue: 1 })))
+      );
+      processing = q('responseProcessing', { template: RESPONSE_TEMPLATES[version].map_response });
+
+      const px = (value: number, total: number) => Math.round(value * total);
+      const choices = regions.map((region, idx) => {
+        const coords =
+          region.shape === 'rect'
+            ? [region.x * size.width, region.y * size.height, (region.x + region.width) * size.width, (region.y + region.height) * size.height].map(Math.round)
+            : [...region.points, region.points[0]].flatMap(point => [px(point.x, size.width), px(point.y, size.height)]);
+        return q('hotspotChoice', { identifier: ids[idx], shape: region.shape === 'rect' ? 'rect' : 'poly', coords: coords.join(',') });
+      });
+
+      const alt = escapeXml(metadata.hotspot?.imageAlt || '');
+      const mime = MEDIA_TYPES[extensionOf(path)] || 'image/png';
+      const image =
+        version === '3.0'
+          ? `<img src="../${escapeXml(path)}" alt="${alt}" width="${size.width}" height="${size.height}"/>`
+          : `<object data="../${escapeXml(path)}" type="${mime}" width="${size.width}" height="${size.height}">${alt}</object>`;
+      interaction = q('hotspotInteraction', { responseIdentifier: 'RESPONSE', maxChoices: 1 }, image, ...choices);
+      break;
+    }
+
+    case 'ShortAnswer':
+    case 'Essay': {
+      const description: string = metadata.description || '';
+      declare('RESPONSE', 'single', 'string', []);
+      interaction = q(
+        'extendedTextInteraction',
+        { responseIdentifier: 'RESPONSE', expectedLines: type === 'ShortAnswer' ? 3 : 15 },
+        ...(description ? [q('prompt', {}, escapeXml(description))] : [])
+      );
+      processing = null; // Scored by AI or a teacher, not by QTI rules
+      break;
+    }
+
+    default:
+      throw new Error(`Question type ${type} cannot be exported`);
+  }
+
+  const title = questionTitle(question);
+  const namespace = QTI_NAMESPACES[version];
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    q(
+      'assessmentItem',
+      {
+        xmlns: namespace,
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        'xsi:schemaLocation': `${namespace} ${QTI_SCHEMAS[version]}`,
+        identifier: `Q${question.id}`,
+        title,
+        adaptive: 'false',
+        timeDependent: 'false'
+      },
+      ...declarations,
+      q('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }, q('defaultValue', {}, q('value', {}, '0'))),
+      q('itemBody', {}, content, interaction),
+      ...(processing ? [processing] : [])
+    )
+  ].join('\n');
+
+  return { xml, title, notes: Array.from(new Set(notes)) };
+};
+
+const manifestXml = (version: QtiVersion, resources: Array<{ identifier: string; href: string; media: string[] }>) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${PACKAGE_NAMESPACES[version]}" identifier="MANIFEST_${Date.now()}">`,
+    `  <metadata><schema>QTI Package</schema><schemaversion>${version === '2.1' ? '2.1' : '3.0.0'}</schemaversion></metadata>`,
+    '  <organizations/>',
+    '  <resources>',
+    ...resources.map(
+      resource =>
+        `    <resource identifier="${resource.identifier}" type="${ITEM_RESOURCE_TYPES[version]}" href="${escapeXml(resource.href)}">` +
+        [resource.href, ...resource.media].map(href => `<file href="${escapeXml(href)}"/>`).join('') +
+        '</resource>'
+    ),
+    '  </resources>',
+    '</manifest>'
+  ].join('\n');
+
+export const buildQtiPackage = async (questions: ExportedQuestion[], version: QtiVersion): Promise<QuestionExportResult> => {
+  const zip = new JSZip();
+  const pack: PackageWriter = { zip, paths: new Map(), names: new Set(), itemMedia: new Set() };
+  const resources: Array<{ identifier: string; href: string; media: string[] }> = [];
+  const skipped: QuestionExchangeIssue[] = [];
+  const notes: QuestionExchangeIssue[] = [];
+
+  for (const question of questions) {
+    const identifier = `Q${question.id}`;
+    pack.itemMedia = new Set();
+    try {
+      const item = await buildItem(question, version, pack);
+      const href = `items/q${question.id}.xml`;
+      zip.file(href, item.xml);
+      resources.push({ identifier, href, media: Array.from(pack.itemMedia) });
+      item.notes.forEach(reason => notes.push({ sourceId: identifier, title: item.title, reason }));
+    } catch (error) {
+      skipped.push({
+        sourceId: identifier,
+        title: questionTitle(question),
+        reason: error instanceof Error ? error.message : 'The question could not be exported'
+      });
+    }
+  }
+
+  zip.file('imsmanifest.xml', manifestXml(version, resources));
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    exported: resources.length,
+    skipped,
+    notes
+  };
+};
@@ -0,0 +1,255 @@
+import JSZip from 'jszip';
+import { ExportedQuestion, NumericEntrySettings, QuestionExchangeIssue, QuestionExportResult, QuestionType } from '../types';
+import { correctChoiceIndices, fetchMedia, questionTitle } from './questionExchange';
+import { DEFAULT_NUMERIC_SETTINGS } from './numericAnswer';
+import { stepsInCorrectOrder } from './ordering';
+import { parseCategorizePlacement } from './categorize';
+
+// Column layouts of the CSV import templates (QuestionCSVImportModal), one per question type. The importer
+// reads columns by header name; exports add a leading id column so the edited file updates its questions.
+export type CsvTemplateType = Exclude<QuestionType, 'Hotspot'>;
+
+const LEADING_COLUMNS = ['Subject', 'Grade', 'QuestionText', 'Description', 'questionType'];
+const TRAILING_COLUMNS = ['difficultyLevel', 'dokLevel', 'standard', 'contentFocus', 'Competencies'];
+
+export const CSV_TEMPLATE_COLUMNS: Record<CsvTemplateType, string[]> = {
+  MCQ: [...LEADING_COLUMNS, 'optionA', 'optionB', 'optionC', 'optionD', 'correctAnswer', ...TRAILING_COLUMNS],
+  MultipleSelect: [...LEADING_COLUMNS, 'optionA', 'optionB', 'optionC', 'optionD', 'correctAnswers', ...TRAILING_COLUMNS],
+  ShortAnswer: [...LEADING_COLUMNS, ...TRAILING_COLUMNS],
+  Essay: [...LEADING_COLUMNS, ...TRAILING_COLUMNS],
+  FillInBlank: [...LEADING_COLUMNS, 'blankOptions', 'blankCorrects', ...TRAILING_COLUMNS],
+  Matching: [...LEADING_COLUMNS, 'leftItems', 'rightItems', 'correctPairs', ...TRAILING_COLUMNS],
+  TrueFalse: [...LEADING_COLUMNS, 'correctAnswer', ...TRAILING_COLUMNS],
+  NumericEntry: [
+    ...LEADING_COLUMNS,
+    'correctAnswer', 'toleranceType', 'tolerance', 'acceptedForms', 'units', 'unitRequired',
+    ...TRAILING_COLUMNS
+  ],
+  Ordering: [...LEADING_COLUMNS, 'orderItems', 'partialCredit', ...TRAILING_COLUMNS],
+  Categorize: [...LEADING_COLUMNS, 'categories', 'categoryItems', 'itemCategories', 'partialCredit', ...TRAILING_COLUMNS]
+};
+
+// File name part of each template (question_import_template_<name>.csv)
+export const CSV_TEMPLATE_FILE_NAMES: Record<CsvTemplateType, string> = {
+  MCQ: 'mcq',
+  MultipleSelect: 'multiple_select',
+  ShortAnswer: 'short_answer',
+  Essay: 'essay',
+  FillInBlank: 'fill_in_blank',
+  Matching: 'matching',
+  TrueFalse: 'true_false',
+  NumericEntry: 'numeric_entry',
+  Ordering: 'ordering',
+  Categorize: 'categorize'
+};
+
+export const csvTemplateHeader = (type: CsvTemplateType) => CSV_TEMPLATE_COLUMNS[type].join(',');
+
+// Uploaded images become {filename} placeholders, as in the templates; the server uses the same pattern
+// to recognise question text that came back unedited
+const UPLOADED_IMAGE_TAG = /<img\b[^>]*?\ssrc=["']([^"']*\/uploads\/images\/([a-zA-Z0-9._-]+\.(?:png|jpg|jpeg|gif|webp|svg)))["'][^>]*>/gi;
+
+const LETTERS = ['A', 'B', 'C', 'D'];
+
+interface ImageSource {
+  url: string;
+  sourceId: string;
+  title: string;
+}
+
+const csvCell = (value: string) => (/[",]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// The importer reads the file line by line, so no value may span lines
+const oneLine = (text: string, notes: string[]) => {
+  if (/[\r\n]/.test(text.trim())) notes.push('Line breaks were replaced with spaces');
+  return text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+};
+
+// A list cell ("a,b,c"); items may not contain the characters the importer splits on
+const listCell = (items: string[], separator: string, label: string, notes: string[], reserved = separator) => {
+  const cleaned = items.map(item => oneLine(String(item ?? ''), notes));
+  if (cleaned.some(item => !item)) throw new Error(`A ${label.toLowerCase()} is empty`);
+  const clash = cleaned.find(item => Array.from(reserved).some(char => item.includes(char)));
+  if (clash) {
+    throw new Error(`${label} "${clash}" contains "${Array.from(reserved).filter(char => clash.includes(char)).join('')}", which the CSV template uses as a separator`);
+  }
+  return cleaned.join(separator);
+};
+
+const answerLetter = (index: number) => LETTERS[index] ?? String(index);
+
+const partialCreditIsPerPart = (question: ExportedQuestion) => question.questionMetadata?.partialCredit?.policy === 'per_part';
+
+// Template cells of one question, by column name
+const buildValues = (question: ExportedQuestion, sourceId: string, images: Map<string, ImageSource>) => {
+  const notes: string[] = [];
+  const metadata = question.questionMetadata || {};
+  const type = question.questionType || 'MCQ';
+  if (type === 'Hotspot') throw new Error('Hotspot questions have no CSV template');
+
+  const questionText = (question.questionText || '').replace(UPLOADED_IMAGE_TAG, (_tag, url: string, name: string) => {
+    if (!images.has(name)) images.set(name, { url, sourceId, title: questionTitle(question) });
+    return `{${name}}`;
+  });
+  if (/<(img|audio|video|iframe)[\s>]/i.test(questionText)) {
+    notes.push('Media other than uploaded images stays in the text as HTML linking to this site');
+  }
+  const unsupportedPartialCredit = () => {
+    if (partialCreditIsPerPart(question)) {
+      notes.push('Partial credit has no column in this template; it is kept when the row updates this question');
+    }
+  };
+
+  const values: Record<string, string> = {
+    Subject: question.subjectName || '',
+    Grade: question.gradeName || '',
+    QuestionText: oneLine(questionText, notes),
+    questionType: type,
+    difficultyLevel: String(question.difficultyLevel ?? ''),
+    dokLevel: question.dokLevel ? String(question.dokLevel) : '',
+    standard: oneLine(question.standard || '', notes),
+    contentFocus: oneLine(question.contentFocus || '', notes),
+    Competencies: (question.competencies || []).map(competency => competency.code).join(', ')
+  };
+
+  switch (type) {
+    case 'MCQ':
+    case 'MultipleSelect': {
+      const options = question.options || [];
+      if (options.length !== 4) {
+        throw new Error(`The CSV template has exactly four options (this question has ${options.length})`);
+      }
+      const correct = correctChoiceIndices(question, options);
+      options.forEach((option, idx) => {
+        values[`option${LETTERS[idx]}`] = oneLine(option, notes);
+      });
+      if (type === 'MCQ') {
+        values.correctAnswer = LETTERS[correct[0]];
+      } else {
+        values.correctAnswers = `[${correct.map(idx => LETTERS[idx]).join(',')}]`;
+        unsupportedPartialCredit();
+      }
+      break;
+    }
+
+    case 'TrueFalse':
+      values.correctAnswer = correctChoiceIndices(question, ['True', 'False'])[0] === 0 ? 'true' : 'false';
+      break;
+
+    case 'FillInBlank': {
+      const blanks: Array<{ options: string[]; correctIndex: number }> = metadata.blanks || [];
+      if (blanks.length === 0 || blanks.some(blank => !blank.options?.[blank.correctIndex])) {
+        throw new Error('The blanks or their correct answers are missing');
+      }
+      values.blankOptions = blanks.map(blank => listCell(blank.options, ',', 'Blank option', notes, ',;')).join(';');
+      values.blankCorrects = blanks.map(blank => answerLetter(blank.correctIndex)).join(';');
+      unsupportedPartialCredit();
+      break;
+    }
+
+    case 'Matching': {
+      const leftItems: string[] = metadata.leftItems || [];
+      const rightItems: string[] = metadata.rightItems || [];
+      const pairs: Array<{ left: number; right: number }> = metadata.correctPairs || [];
+      if (leftItems.length !== rightItems.length) {
+        throw new Error(`The CSV template needs as many right items as left items (this question has ${leftItems.length} and ${rightItems.length})`);
+      }
+      if (pairs.length !== leftItems.length || new Set(pairs.map(pair => pair.left)).size !== leftItems.length) {
+        throw new Error('The CSV template needs exactly one match for every left item');
+      }
+      values.leftItems = listCell(leftItems, ',', 'Left item', notes);
+      values.rightItems = listCell(rightItems, ',', 'Right item', notes);
+      values.correctPairs = pairs.map(pair => `${pair.left}-${pair.right}`).join(',');
+      unsupportedPartialCredit();
+      break;
+    }
+
+    case 'NumericEntry': {
+      const settings: NumericEntrySettings = metadata.numeric || DEFAULT_NUMERIC_SETTINGS;
+      const units = settings.units || [];
+      values.correctAnswer = (question.correctAnswer || '').trim();
+      values.toleranceType = settings.tolerance.mode;
+      values.tolerance = settings.tolerance.mode === 'exact' ? '' : String(settings.tolerance.value ?? 0);
+      values.acceptedForms = (settings.forms || []).join(',');
+      values.units = units.length > 0 ? listCell(units, ',', 'Unit', notes) : '';
+      values.unitRequired = units.length > 0 ? String(!!settings.unitRequired) : '';
+      break;
+    }
+
+    case 'Ordering': {
+      const steps = stepsInCorrectOrder(metadata.items || [], question.correctAnswer);
+      values.orderItems = listCell(steps, ';', 'Step', notes);
+      values.partialCredit = String(partialCreditIsPerPart(question));
+      break;
+    }
+
+    case 'Categorize': {
+      const categories: string[] = metadata.categories || [];
+      const items: string[] = metadata.items || [];
+      const placement = parseCategorizePlacement(question.correctAnswer, items.length, categories.length);
+      if (items.length === 0 || placement.includes(null)) throw new Error('The items or their categories are missing');
+      values.categories = listCell(categories, ',', 'Category', notes);
+      values.categoryItems = listCell(items, ',', 'Item', notes);
+      values.itemCategories = placement.map((categoryIdx, itemIdx) => `${itemIdx}-${categoryIdx}`).join(',');
+      values.partialCredit = String(partialCreditIsPerPart(question));
+      break;
+    }
+
+    case 'ShortAnswer':
+    case 'Essay':
+      values.Description = oneLine(metadata.description || '', notes);
+      if (!values.dokLevel) notes.push('The DOK level is empty; the importer requires it for Short Answer and Essay questions');
+      break;
+
+    default:
+      throw new Error(`Question type ${type} has no CSV template`);
+  }
+
+  return { type: type as CsvTemplateType, values, notes: Array.from(new Set(notes)) };
+};
+
+// Zip with one CSV per question type, in the import template layouts plus an id column, and the uploaded
+// images the questions use (named as their placeholders)
+export const buildQuestionCsvPackage = async (questions: ExportedQuestion[]): Promise<QuestionExportResult> => {
+  const zip = new JSZip();
+  const rowsByType = new Map<CsvTemplateType, string[]>();
+  const images = new Map<string, ImageSource>();
+  const skipped: QuestionExchangeIssue[] = [];
+  const notes: QuestionExchangeIssue[] = [];
+  let exported = 0;
+
+  for (const question of questions) {
+    const sourceId = `Q${question.id}`;
+    const title = questionTitle(question);
+    try {
+      const { type, values, notes: questionNotes } = buildValues(question, sourceId, images);
+      const row = [String(question.id), ...CSV_TEMPLATE_COLUMNS[type].map(column => values[column] ?? '')];
+      rowsByType.set(type, [...(rowsByType.get(type) || []), row.map(csvCell).join(',')]);
+      questionNotes.forEach(reason => notes.push({ sourceId, title, reason }));
+      exported++;
+    } catch (error) {
+      skipped.push({ sourceId, title, reason: error instanceof Error ? error.message : 'The question could not be exported' });
+    }
+  }
+
+  rowsByType.forEach((rows, type) => {
+    // The byte order mark makes Excel open the file as UTF-8
+    zip.file(`questions_${CSV_TEMPLATE_FILE_NAMES[type]}.csv`, `\uFEFF${['id', csvTemplateHeader(type)].join(',')}\r\n${rows.join('\r\n')}\r\n`);
+  });
+
+  for (const [name, image] of images) {
+    const blob = await fetchMedia(image.url);
+    if (blob) {
+      zip.file(`images/${name}`, blob);
+    } else {
+      notes.push({ sourceId: image.sourceId, title: image.title, reason: `The image ${name} could not be downloaded; its placeholder still works on this site` });
+    }
+  }
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    exported,
+    skipped,
+    notes
+  };
+};
@@ -0,0 +1,150 @@
+import { ExportedQuestion, QuestionDraft } from '../types';
+import { isInsideMath } from './math';
+
+// Helpers shared by the question bank exchange formats (QTI packages, Moodle XML, GIFT)
+
+// Answer part of a draft, as read from one question of an imported file
+export type DraftAnswer = Omit<QuestionDraft, 'sourceId' | 'title' | 'questionText' | 'warnings'> & { questionText?: string };
+
+// Media the upload storage accepts, by file extension
+export const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg'
+};
+
+export const EXTENSIONS_BY_TYPE: Record<string, string> = Object.entries(MEDIA_TYPES).reduce(
+  (map, [extension, type]) => (map[type] ? map : { ...map, [type]: extension }),
+  {} as Record<string, string>
+);
+
+const BLANK_PATTERN = /___|\{[0-9]+\}/g;
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const extensionOf = (path: string) => (path.split(/[?#]/)[0].split('.').pop() || '').toLowerCase();
+
+export const stripTags = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() || '';
+
+// Title used in export reports: the start of the question text
+export const questionTitle = (question: ExportedQuestion) =>
+  stripTags(question.questionText || '').slice(0, 80) || `Question ${question.id}`;
+
+// Plain text of a fill-in-the-blank question, which is stored as text or as editor HTML
+export const fillInBlankText = (html: string) =>
+  stripTags(html.replace(/<\/(p|div|li|h\d)>|<br\s*\/?>/gi, '$&\n'));
+
+// Blank markers ("___" or "{n}") outside math, in the order students see them
+export const findBlanks = (text: string) =>
+  Array.from(text.matchAll(BLANK_PATTERN)).filter(match => !isInsideMath(text, match.index ?? 0));
+
+// Uploaded media (and data URLs) can be bundled into an export; other absolute URLs stay links
+export const isPackagedUrl = (url: string) =>
+  url.startsWith('data:') || url.includes('/uploads/') || !/^[a-z][a-z0-9+.-]*:/i.test(url);
+
+export const fetchMedia = async (url: string): Promise<Blob | null> => {
+  try {
+    let absoluteUrl = url;
+    if (url.startsWith('/uploads/')) {
+      absoluteUrl = `${window.location.origin}/api${url}`;
+    } else if (url.startsWith('/')) {
+      absoluteUrl = `${window.location.origin}${url}`;
+    }
+    const token = localStorage.getItem('token');
+    const response = await fetch(absoluteUrl, {
+      headers: token && !url.startsWith('data:') ? { Authorization: `Bearer ${token}` } : undefined
+    });
+    return response.ok ? await response.blob() : null;
+  } catch (error) {
+    console.error('Error downloading media for export:', error, url);
+    return null;
+  }
+};
+
+// Decimal value of a numeric key written as a decimal, fraction or mixed number
+export const numericKeyValue = (key: string): number | null => {
+  const cleaned = key.trim().replace(/(\d),(?=\d{3}(\D|$))/g, '$1');
+  const sign = cleaned.startsWith('-') ? -1 : 1;
+  const unsigned = cleaned.replace(/^[+-]/, '');
+  const mixed = unsigned.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  const simple = unsigned.match(/^(\d+)\s*\/\s*(\d+)$/);
+  let value = Number(unsigned);
+  if (mixed) {
+    value = Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  } else if (simple) {
+    value = Number(simple[1]) / Number(simple[2]);
+  }
+  return unsigned && Number.isFinite(value) ? sign * Number(value.toPrecision(12)) : null;
+};
+
+export const parseIndexList = (value: string | undefined): number[] => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed.map(Number).filter(Number.isInteger) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Indices of the correct options of a choice question, whatever its type
+export const correctChoiceIndices = (question: ExportedQuestion, options: string[]): number[] => {
+  let correct = [question.correctOptionIndex];
+  if (question.questionType === 'MultipleSelect') {
+    correct = parseIndexList(question.correctAnswer);
+  } else if (question.questionType === 'TrueFalse' && question.correctAnswer) {
+    correct = [question.correctAnswer === 'true' ? 0 : 1];
+  }
+  if (options.length < 2 || correct.length === 0 || correct.some(idx => idx < 0 || idx >= options.length)) {
+    throw new Error('The options or the correct answer are missing');
+  }
+  return correct;
+};
+
+// Choice question from its options and correct indices: True/False when the options say so, otherwise
+// Multiple Choice or, when several options may be picked, Multiple Select
+export const choiceAnswer = (options: string[], correct: number[], multiple: boolean, warnings: string[]): DraftAnswer => {
+  if (options.length < 2 || options.length > 6) {
+    throw new Error(`Choice questions need 2 to 6 choices (this one has ${options.length})`);
+  }
+  if (options.some(option => !option)) {
+    throw new Error('A choice has no text (image-only choices are not supported)');
+  }
+  if (correct.length === 0) throw new Error('No correct answer is defined');
+
+  if (!multiple) {
+    if (correct.length > 1) {
+      warnings.push('Several choices were worth points; only the first is kept as the correct answer');
+    }
+    const lower = options.map(option => option.toLowerCase());
+    if (options.length === 2 && lower.includes('true') && lower.includes('false')) {
+      const isTrue = lower[correct[0]] === 'true';
+      return {
+        questionType: 'TrueFalse',
+        options: ['True', 'False'],
+        correctOptionIndex: isTrue ? 0 : 1,
+        correctAnswer: isTrue ? 'true' : 'false'
+      };
+    }
+    return { questionType: 'MCQ', options, correctOptionIndex: correct[0] };
+  }
+
+  return {
+    questionType: 'MultipleSelect',
+    options,
+    correctOptionIndex: correct[0],
+    correctAnswer: JSON.stringify(correct)
+  };
+};
@@ -0,0 +1,16 @@
+import { QuestionStatus } from '../types';
+
+// Display labels and badge colours for the editorial workflow (draft -> review -> approved -> retired)
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  review: 'In Review',
+  approved: 'Approved',
+  retired: 'Retired'
+};
+
+export const QUESTION_STATUS_STYLES: Record<QuestionStatus, string> = {
+  draft: 'bg-slate-100 text-slate-700',
+  review: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  retired: 'bg-gray-200 text-gray-700'
+};